@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { onrampOrderDetailsResponseSchema } from '../../../../utils/apiSchemas';
+import { CdpClient, cdpErrorResponse } from '../../../../utils/cdpClient';
+import { logger } from '../../../../utils/logger';
+import { withRequestLogging } from '../../../../utils/requestLogging';
+import { invalidRequestResponse } from '../../../../utils/requestValidation';
+import { applePayOrderParamsSchema } from '../../../../utils/validation';
+import {
+  ApplePayOrderStatus,
+  ApplePayOrderStatusResponse,
+} from '../../../../types';
+
+// CDP order statuses: PENDING_AUTH and PENDING_PAYMENT while the user
+// pays, then PROCESSING, COMPLETED or FAILED
+function mapOrderStatus(status: string): ApplePayOrderStatus {
+  if (status.endsWith('_COMPLETED')) {
+    return 'completed';
+  }
+  if (status.endsWith('_FAILED')) {
+    return 'failed';
+  }
+  if (status.endsWith('_PROCESSING')) {
+    return 'processing';
+  }
+  return 'pending';
+}
+
+/**
+ * GET /api/apple-pay/order/[orderId]
+ * Returns the current state of an Apple Pay order, so an order can be
+ * tracked after the payment iframe is gone (e.g. the tab was closed)
+ * CDP API Docs: https://docs.cdp.coinbase.com/api-reference/v2/rest-api/onramp/get-an-onramp-order-by-id
+ *
+ * Order ids are unguessable UUIDs; contact details are never returned.
+ */
+export const GET = withRequestLogging(
+  '/api/apple-pay/order/[orderId]',
+  async (
+    _request: NextRequest,
+    { params }: { params: { orderId: string } }
+  ) => {
+    const validationResult = applePayOrderParamsSchema.safeParse(params);
+    if (!validationResult.success) {
+      return invalidRequestResponse(validationResult.error);
+    }
+
+    const { orderId } = validationResult.data;
+
+    try {
+      const client = CdpClient.fromEnv();
+      const { order } = await client.get(
+        `/platform/v2/onramp/orders/${encodeURIComponent(orderId)}`,
+        { schema: onrampOrderDetailsResponseSchema }
+      );
+
+      const response: ApplePayOrderStatusResponse = {
+        orderId: order.orderId,
+        status: mapOrderStatus(order.status),
+        rawStatus: order.status,
+        partnerUserRef: order.partnerUserRef,
+        purchaseAmount: order.purchaseAmount,
+        purchaseCurrency: order.purchaseCurrency,
+        paymentTotal: order.paymentTotal,
+        paymentCurrency: order.paymentCurrency,
+        destinationAddress: order.destinationAddress,
+        destinationNetwork: order.destinationNetwork,
+        txHash: order.txHash,
+        createdAt: order.createdAt,
+        updatedAt: order.updatedAt,
+      };
+
+      logger.info('Apple Pay order fetched', {
+        orderId,
+        status: response.rawStatus,
+      });
+
+      return NextResponse.json(response);
+    } catch (error) {
+      logger.error('Error fetching Apple Pay order', { error, orderId });
+      return cdpErrorResponse(error, 'Failed to fetch Apple Pay order');
+    }
+  }
+);
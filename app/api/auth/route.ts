@@ -1,26 +1,26 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextResponse } from 'next/server';
+import { logger } from '../../utils/logger';
+import { withRequestLogging } from '../../utils/requestLogging';
 
-export async function GET(request: NextRequest) {
+export const GET = withRequestLogging('/api/auth', async () => {
   // Only return non-sensitive configuration
   return NextResponse.json({
     projectName: process.env.NEXT_PUBLIC_ONCHAINKIT_PROJECT_NAME,
     walletConfig: process.env.NEXT_PUBLIC_ONCHAINKIT_WALLET_CONFIG,
   });
-}
+});
 
 // This endpoint will be used for authenticated requests that need API keys
-export async function POST(request: NextRequest) {
+export const POST = withRequestLogging('/api/auth', async () => {
   try {
     // In a real app, you would validate the request here
     // For example, check for a valid session or API token
 
-    // Log environment variables for debugging (without exposing actual values)
-    console.log('Environment variables in API route:', {
-      walletConnectProjectId: process.env.NEXT_PUBLIC_CDP_PROJECT_ID
-        ? 'Set'
-        : 'Not set',
-      onchainKitApiKey: process.env.ONCHAINKIT_API_KEY ? 'Set' : 'Not set',
-      cdpProjectId: process.env.NEXT_PUBLIC_CDP_PROJECT_ID ? 'Set' : 'Not set',
+    // Log which environment variables are set (never their values)
+    logger.debug('Environment variables in API route', {
+      hasWalletConnectProjectId: !!process.env.NEXT_PUBLIC_CDP_PROJECT_ID,
+      hasOnchainKitApiKey: !!process.env.ONCHAINKIT_API_KEY,
+      hasCdpProjectId: !!process.env.NEXT_PUBLIC_CDP_PROJECT_ID,
     });
 
     // For Vercel deployment, make sure these environment variables are set
@@ -36,7 +36,7 @@ export async function POST(request: NextRequest) {
     if (!cdpProjectId) missingVars.push('CDP_PROJECT_ID');
 
     if (missingVars.length > 0) {
-      console.warn('Missing environment variables:', missingVars);
+      logger.warn('Missing environment variables', { missingVars });
 
       return NextResponse.json(
         {
@@ -66,7 +66,7 @@ export async function POST(request: NextRequest) {
       },
     });
   } catch (error) {
-    console.error('Error in API route:', error);
+    logger.error('Error in API route', { error });
     return NextResponse.json(
       {
         success: false,
@@ -81,4 +81,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
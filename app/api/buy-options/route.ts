@@ -1,6 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { generateJWT } from '../../utils/sessionTokenApi';
+import { buyOptionsResponseSchema } from '../../utils/apiSchemas';
+import { CdpClient, cdpErrorResponse } from '../../utils/cdpClient';
 import { logger } from '../../utils/logger';
+import { withRequestLogging } from '../../utils/requestLogging';
+import { invalidRequestResponse } from '../../utils/requestValidation';
+import { rampOptionsQuerySchema } from '../../utils/validation';
 
 /**
  * GET /api/buy-options
@@ -11,128 +15,49 @@ import { logger } from '../../utils/logger';
  * - country (required): ISO 3166-1 two-letter country code (e.g., 'US')
  * - subdivision (optional): ISO 3166-2 two-letter state code (e.g., 'NY'), required for US
  * - networks (optional): Comma-separated list of network names (e.g., 'ethereum,polygon')
+ *
+ * Invalid parameters are rejected with the field paths in `details`.
  */
-export async function GET(request: NextRequest) {
-  try {
-    // Get query parameters
-    const searchParams = request.nextUrl.searchParams;
-    const country = searchParams.get('country');
-    const subdivision = searchParams.get('subdivision');
-    const networks = searchParams.get('networks');
-
-    if (!country) {
-      return NextResponse.json(
-        {
-          error: 'Missing required parameter: country',
-        },
-        { status: 400 }
-      );
-    }
-
-    // Get API credentials from environment variables
-    const keyName = process.env.CDP_API_KEY || process.env.CDP_API_KEY_NAME;
-    const keySecret = process.env.CDP_API_SECRET || process.env.CDP_API_KEY_PRIVATE_KEY;
-
-    if (!keyName || !keySecret) {
-      logger.error('Missing CDP API credentials');
-      return NextResponse.json(
-        {
-          error: 'Server configuration error',
-        },
-        { status: 500 }
-      );
-    }
-
-    // Build query string
-    const queryParams = new URLSearchParams({ country });
-    if (subdivision) {
-      queryParams.append('subdivision', subdivision);
-    }
-    if (networks) {
-      queryParams.append('networks', networks);
-    }
-
-    // Prepare request to Coinbase Buy Options API
-    const cdpApiUrl = `https://api.developer.coinbase.com/onramp/v1/buy/options?${queryParams.toString()}`;
-    // Note: JWT path should NOT include query parameters for GET requests
-    const apiPath = `/onramp/v1/buy/options`;
-
-    // Generate JWT for authentication
-    let jwtToken: string;
+export const GET = withRequestLogging(
+  '/api/buy-options',
+  async (request: NextRequest) => {
     try {
-      jwtToken = await generateJWT(keyName, keySecret, apiPath, 'GET');
-      logger.debug('JWT generated successfully for buy options endpoint', { apiPath, queryParams: queryParams.toString() });
-    } catch (error) {
-      logger.error('JWT generation failed', { error });
+      // Get query parameters
+      const searchParams = request.nextUrl.searchParams;
+      const validationResult = rampOptionsQuerySchema.safeParse({
+        country: searchParams.get('country') ?? undefined,
+        subdivision: searchParams.get('subdivision'),
+        networks: searchParams.get('networks'),
+      });
 
-      return NextResponse.json(
-        {
-          error: 'Authentication failed',
-        },
-        { status: 500 }
-      );
-    }
+      if (!validationResult.success) {
+        return invalidRequestResponse(validationResult.error);
+      }
 
-    logger.debug('Making request to CDP Buy Options API', {
-      country,
-      subdivision,
-      networks,
-    });
+      const { country, subdivision, networks } = validationResult.data;
 
-    // Make request to Coinbase API
-    const response = await fetch(cdpApiUrl, {
-      method: 'GET',
-      headers: {
-        'Accept': 'application/json',
-        'Authorization': `Bearer ${jwtToken}`,
-      },
-    });
+      const client = CdpClient.fromEnv();
 
-    const responseText = await response.text();
+      logger.debug('Making request to CDP Buy Options API', {
+        country,
+        subdivision,
+        networks,
+      });
 
-    if (!response.ok) {
-      logger.error('CDP Buy Options API error', {
-        status: response.status,
-        statusText: response.statusText,
-        responseBody: responseText
+      const data = await client.get('/onramp/v1/buy/options', {
+        query: { country, subdivision, networks },
+        schema: buyOptionsResponseSchema,
       });
 
-      return NextResponse.json(
-        {
-          error: 'Failed to fetch buy options',
-          details: responseText,
-        },
-        { status: response.status }
-      );
-    }
+      logger.info('Buy options fetched successfully', {
+        paymentCurrenciesCount: data.payment_currencies.length,
+        purchaseCurrenciesCount: data.purchase_currencies.length,
+      });
 
-    // Parse successful response
-    let data;
-    try {
-      data = JSON.parse(responseText);
+      return NextResponse.json(data);
     } catch (error) {
-      logger.error('Failed to parse CDP API response', { error });
-      return NextResponse.json(
-        {
-          error: 'Invalid response from server',
-        },
-        { status: 500 }
-      );
+      logger.error('Error fetching buy options', { error });
+      return cdpErrorResponse(error, 'Failed to fetch buy options');
     }
-
-    logger.info('Buy options fetched successfully', {
-      paymentCurrenciesCount: data.payment_currencies?.length || 0,
-      purchaseCurrenciesCount: data.purchase_currencies?.length || 0,
-    });
-
-    return NextResponse.json(data);
-  } catch (error) {
-    logger.error('Error fetching buy options', { error });
-    return NextResponse.json(
-      {
-        error: 'Failed to fetch buy options',
-      },
-      { status: 500 }
-    );
   }
-}
+);
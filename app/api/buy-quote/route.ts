@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { buyQuoteResponseSchema } from '../../utils/apiSchemas';
+import { CdpClient, cdpErrorResponse } from '../../utils/cdpClient';
+import { logger } from '../../utils/logger';
+import { withRequestLogging } from '../../utils/requestLogging';
+import {
+  invalidJsonResponse,
+  invalidRequestResponse,
+} from '../../utils/requestValidation';
+import { buyQuoteRequestSchema } from '../../utils/validation';
+
+// Buy quote request, validated by buyQuoteRequestSchema (validation.ts)
+// Based on CDP API documentation: https://docs.cdp.coinbase.com/api-reference/rest-api/onramp-offramp/create-buy-quote
+//
+// The quote returns the real fee breakdown for a purchase and a quote_id
+// that can be passed to the onramp URL as `quoteId` so the user sees the
+// same price on Coinbase Pay.
+
+/**
+ * POST /api/buy-quote
+ * Fetches a buy quote with the fee breakdown for an onramp purchase
+ */
+export const POST = withRequestLogging(
+  '/api/buy-quote',
+  async (request: NextRequest) => {
+    try {
+      // Parse request body
+      let body;
+      try {
+        body = await request.json();
+      } catch {
+        return invalidJsonResponse();
+      }
+      const validationResult = buyQuoteRequestSchema.safeParse(body);
+
+      if (!validationResult.success) {
+        return invalidRequestResponse(validationResult.error);
+      }
+
+      const client = CdpClient.fromEnv();
+
+      const {
+        purchaseCurrency,
+        purchaseNetwork,
+        paymentAmount,
+        paymentCurrency,
+        paymentMethod,
+        country,
+        subdivision,
+      } = validationResult.data;
+
+      const requestBody = {
+        purchaseCurrency,
+        paymentAmount,
+        paymentCurrency,
+        paymentMethod,
+        country,
+        ...(purchaseNetwork && { purchaseNetwork }),
+        ...(subdivision && { subdivision }),
+      };
+
+      logger.debug('Making request to CDP Buy Quote API', requestBody);
+
+      // Make request to Coinbase API (quotes are safe to retry)
+      const data = await client.post('/onramp/v1/buy/quote', requestBody, {
+        idempotent: true,
+        schema: buyQuoteResponseSchema,
+      });
+
+      logger.info('Buy quote generated successfully', {
+        quoteId: data.quote_id,
+      });
+
+      return NextResponse.json(data);
+    } catch (error) {
+      logger.error('Error generating buy quote', { error });
+      return cdpErrorResponse(error, 'Failed to generate buy quote');
+    }
+  }
+);
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { DiagnosticsResponse } from '../../types';
+import { getCdpApiBaseUrl } from '../../utils/cdpClient';
+import { resolveClientIp } from '../../utils/clientIp';
+import {
+  checkCorsConfig,
+  isDiagnosticsEnabled,
+  runCdpDiagnostics,
+} from '../../utils/diagnostics';
+import { logger } from '../../utils/logger';
+import {
+  rateLimit,
+  rateLimitExceededResponse,
+  rateLimitHeaders,
+} from '../../utils/rateLimit';
+import { withRequestLogging } from '../../utils/requestLogging';
+
+/**
+ * Runs the live CDP and CORS checks for the diagnostics panel on the debug
+ * page (see utils/diagnostics.ts)
+ *
+ * Disabled in production unless ENABLE_DIAGNOSTICS=true.
+ */
+export const POST = withRequestLogging(
+  '/api/diagnostics',
+  async (request: NextRequest) => {
+    if (!isDiagnosticsEnabled()) {
+      return NextResponse.json(
+        { error: 'Diagnostics are disabled' },
+        { status: 404 }
+      );
+    }
+
+    const rateLimitResult = await rateLimit(request, '/api/diagnostics');
+    if (!rateLimitResult.success) {
+      logger.warn('Rate limit exceeded for diagnostics', {
+        ip: request.headers.get('x-forwarded-for') || 'unknown',
+      });
+      return rateLimitExceededResponse(rateLimitResult);
+    }
+
+    const body: DiagnosticsResponse = {
+      ranAt: new Date().toISOString(),
+      cdpApiBaseUrl: getCdpApiBaseUrl(),
+      cdp: await runCdpDiagnostics(resolveClientIp(request)),
+      cors: checkCorsConfig(
+        request.headers.get('origin'),
+        request.nextUrl.origin
+      ),
+    };
+
+    const failed = [...body.cdp, ...body.cors].filter(
+      ({ status }) => status === 'fail'
+    );
+    logger.info('Diagnostics completed', {
+      failed: failed.map(({ id }) => id),
+    });
+
+    return NextResponse.json(body, {
+      headers: rateLimitHeaders(rateLimitResult),
+    });
+  }
+);
@@ -1,157 +1,124 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { cdpErrorResponse } from '../../../utils/cdpClient';
+import { resolveClientIp } from '../../../utils/clientIp';
 import { logger } from '../../../utils/logger';
-import { rateLimit } from '../../../utils/rateLimit';
-
-// ✅ CORS Configuration - REQUIRED by Coinbase Security Requirements
-const ALLOWED_ORIGINS = process.env.ALLOWED_ORIGINS?.split(',') || [
-  'http://localhost:3000',
-  'http://localhost:3001',
-  // Production domains
-  'https://onramp-demo-application-git-main-coinbase-vercel.vercel.app',
-  'https://www.onrampdemo.com',
-  'https://onramp-demo-application-coinbase-vercel.vercel.app/'
-];
-
-function setCorsHeaders(origin: string | null): Record<string, string> {
-  if (origin && ALLOWED_ORIGINS.includes(origin)) {
-    return {
-      'Access-Control-Allow-Origin': origin,
-      'Access-Control-Allow-Methods': 'POST, OPTIONS',
-      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
-      'Access-Control-Max-Age': '86400',
-    };
-  }
-  return {};
-}
-
-export async function OPTIONS(request: NextRequest) {
-  const origin = request.headers.get('origin');
-  const corsHeaders = setCorsHeaders(origin);
-  
-  if (Object.keys(corsHeaders).length === 0) {
-    logger.warn('CORS: Rejected preflight from unauthorized origin', { origin });
-    return new NextResponse(null, { status: 403 });
-  }
-  
-  return new NextResponse(null, {
-    status: 204,
-    headers: corsHeaders,
-  });
-}
+import {
+  rateLimit,
+  rateLimitExceededResponse,
+  rateLimitHeaders,
+} from '../../../utils/rateLimit';
+import { withRequestLogging } from '../../../utils/requestLogging';
+import {
+  invalidJsonResponse,
+  invalidRequestResponse,
+} from '../../../utils/requestValidation';
+import { createSessionToken } from '../../../utils/sessionTokenService';
+import {
+  findUnprovenAddress,
+  getSiweSession,
+} from '../../../utils/siweSession';
+import { fundSessionRequestSchema } from '../../../utils/validation';
 
 /**
  * API endpoint to generate session tokens for Fund components
  * This allows Fund components to work with secure initialization enabled
+ *
+ * Accepts the same body as /api/session:
+ *   { addresses: [{ address, blockchains }], assets? }
+ * The legacy `{ address, blockchains? }` body is still supported.
  */
-export async function POST(request: NextRequest) {
-  const origin = request.headers.get('origin');
-  const corsHeaders = setCorsHeaders(origin);
-  
-  // ✅ CORS Protection
-  if (origin && Object.keys(corsHeaders).length === 0) {
-    logger.warn('CORS: Rejected request from unauthorized origin', { origin });
-    return NextResponse.json(
-      { error: 'Unauthorized origin' },
-      { status: 403 }
-    );
-  }
-  try {
-    // Apply rate limiting
-    const rateLimitResult = rateLimit(request, { limit: 20, windowMs: 60000 });
-    
-    if (!rateLimitResult.success) {
-      const retryAfter = Math.ceil((rateLimitResult.resetTime! - Date.now()) / 1000);
-      logger.warn('Rate limit exceeded for fund session', { 
-        ip: request.headers.get('x-forwarded-for') || 'unknown' 
-      });
-      
-      return NextResponse.json(
-        { 
-          error: 'Too many requests. Please try again later.',
-          retryAfter 
-        },
-        { 
-          status: 429,
-          headers: {
-            ...corsHeaders,
-            'Retry-After': String(retryAfter)
-          }
-        }
-      );
-    }
+export const POST = withRequestLogging(
+  '/api/fund/session',
+  async (request: NextRequest) => {
+    let headers: Record<string, string> = {};
 
-    const body = await request.json();
-    const { address, blockchains = ['base'] } = body;
+    try {
+      let body;
+      try {
+        body = await request.json();
+      } catch {
+        return invalidJsonResponse();
+      }
 
-    if (!address) {
-      return NextResponse.json(
-        { error: 'Address is required' },
-        { status: 400, headers: corsHeaders }
+      // Apply rate limiting (per IP and wallet, see RATE_LIMIT_POLICIES)
+      const rateLimitResult = await rateLimit(
+        request,
+        '/api/fund/session',
+        body?.addresses?.[0]?.address ?? body?.address
       );
-    }
 
-    // Generate session token using the existing session API
-    // Validate host against trusted domains to prevent SSRF
-    const host = request.headers.get('host') || 'localhost:3000';
-    const trustedHosts = [
-      'localhost:3000',
-      'localhost:3001',
-      'onramp-demo-application-git-main-coinbase-vercel.vercel.app',
-      'www.onrampdemo.com',
-    ];
-    
-    if (!trustedHosts.some(trusted => host.includes(trusted))) {
-      logger.warn('Untrusted host attempted internal API call', { host });
-      return NextResponse.json(
-        { error: 'Invalid host' },
-        { status: 403, headers: corsHeaders }
-      );
-    }
-    
-    const protocol = host.includes('localhost') ? 'http' : 'https';
-    const sessionApiUrl = `${protocol}://${host}/api/session`;
-    
-    const sessionResponse = await fetch(
-      sessionApiUrl,
-      {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          addresses: [{
-            address,
-            blockchains
-          }]
-        }),
+      if (!rateLimitResult.success) {
+        logger.warn('Rate limit exceeded for fund session', {
+          ip: request.headers.get('x-forwarded-for') || 'unknown',
+        });
+        return rateLimitExceededResponse(rateLimitResult);
       }
-    );
 
-    if (!sessionResponse.ok) {
-      const error = await sessionResponse.json();
-      logger.error('Failed to generate session token for fund', { error });
-      return NextResponse.json(
-        { error: 'Failed to generate session token' },
-        { status: sessionResponse.status, headers: corsHeaders }
+      headers = rateLimitHeaders(rateLimitResult);
+
+      const validationResult = fundSessionRequestSchema.safeParse(body);
+
+      if (!validationResult.success) {
+        return invalidRequestResponse(validationResult.error, headers);
+      }
+
+      const { addresses, assets } = validationResult.data;
+
+      // ✅ Only mint tokens for the wallet proven via Sign-In with Ethereum
+      const session = await getSiweSession(request);
+      if (!session) {
+        return NextResponse.json(
+          { error: 'Sign in with Ethereum required' },
+          { status: 401, headers }
+        );
+      }
+
+      const unproven = findUnprovenAddress(
+        session,
+        addresses.map((a) => a.address)
       );
-    }
+      if (unproven) {
+        logger.warn('Session token requested for an unproven address', {
+          address: unproven,
+        });
+        return NextResponse.json(
+          { error: 'Address does not match the signed-in wallet' },
+          { status: 403, headers }
+        );
+      }
 
-    const data = await sessionResponse.json();
-    logger.info('Fund session token generated successfully');
+      // ✅ Resolve the client's public IP (required by CDP API)
+      const clientIp = resolveClientIp(request);
+      if (!clientIp) {
+        logger.warn('Could not determine a public client IP');
+        return NextResponse.json(
+          { error: 'Could not determine client IP address' },
+          { status: 400, headers }
+        );
+      }
 
-    return NextResponse.json(
-      {
-        token: data.token,
-        channel_id: data.channel_id
-      },
-      { headers: corsHeaders }
-    );
+      const { token, channelId } = await createSessionToken({
+        addresses,
+        assets,
+        clientIp,
+      });
 
-  } catch (error) {
-    logger.error('Error in fund session endpoint', { error });
-    return NextResponse.json(
-      { error: 'Internal server error' },
-      { status: 500, headers: corsHeaders }
-    );
+      logger.info('Fund session token generated successfully');
+
+      return NextResponse.json(
+        {
+          token,
+          channel_id: channelId,
+        },
+        { headers }
+      );
+    } catch (error) {
+      logger.error('Error in fund session endpoint', { error });
+      return cdpErrorResponse(
+        error,
+        'Failed to generate session token',
+        headers
+      );
+    }
   }
-}
+);
@@ -0,0 +1,111 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { logger } from '../../utils/logger';
+import {
+  clearPhoneVerificationCookie,
+  getPhoneVerification,
+  PHONE_CODE_TTL_SECONDS,
+  sendPhoneVerificationCode,
+} from '../../utils/phoneVerification';
+import {
+  rateLimit,
+  rateLimitExceededResponse,
+  rateLimitHeaders,
+} from '../../utils/rateLimit';
+import { withRequestLogging } from '../../utils/requestLogging';
+import {
+  invalidJsonResponse,
+  invalidRequestResponse,
+} from '../../utils/requestValidation';
+import { phoneVerificationStartRequestSchema } from '../../utils/validation';
+import {
+  PhoneVerificationCodeResponse,
+  PhoneVerificationResponse,
+} from '../../types';
+
+/**
+ * Phone verification for guest checkout orders
+ *
+ * GET    -> { phoneNumber, verifiedAt } verified in this browser (or nulls)
+ * POST   -> sends a code by SMS to { phoneNumber }, returns { expiresAt }
+ * DELETE -> forgets the verified number
+ *
+ * The code is checked by POST /api/phone-verification/verify;
+ * /api/apple-pay/order only accepts orders for the number verified there.
+ */
+export const GET = withRequestLogging(
+  '/api/phone-verification',
+  async (request: NextRequest) => {
+    const verification = await getPhoneVerification(request);
+    const response: PhoneVerificationResponse = {
+      phoneNumber: verification?.phoneNumber ?? null,
+      verifiedAt: verification?.verifiedAt ?? null,
+    };
+    return NextResponse.json(response);
+  }
+);
+
+export const POST = withRequestLogging(
+  '/api/phone-verification',
+  async (request: NextRequest) => {
+    let headers: Record<string, string> = {};
+
+    try {
+      let body;
+      try {
+        body = await request.json();
+      } catch {
+        return invalidJsonResponse();
+      }
+
+      const rateLimitResult = await rateLimit(
+        request,
+        '/api/phone-verification',
+        typeof body?.phoneNumber === 'string' ? body.phoneNumber : undefined
+      );
+
+      if (!rateLimitResult.success) {
+        return rateLimitExceededResponse(rateLimitResult);
+      }
+
+      headers = rateLimitHeaders(rateLimitResult);
+
+      const validationResult =
+        phoneVerificationStartRequestSchema.safeParse(body);
+
+      if (!validationResult.success) {
+        return invalidRequestResponse(validationResult.error, headers);
+      }
+
+      const { phoneNumber } = validationResult.data;
+      const sent: PhoneVerificationCodeResponse = {
+        expiresAt: new Date(
+          Date.now() + PHONE_CODE_TTL_SECONDS * 1000
+        ).toISOString(),
+      };
+      const response = NextResponse.json(sent, { headers });
+      await sendPhoneVerificationCode(response, phoneNumber);
+
+      logger.info('Phone verification code sent', { phoneNumber });
+      return response;
+    } catch (error) {
+      logger.error('Error sending phone verification code', { error });
+      return NextResponse.json(
+        { error: 'Failed to send verification code' },
+        { status: 500, headers }
+      );
+    }
+  }
+);
+
+export const DELETE = withRequestLogging(
+  '/api/phone-verification',
+  async () => {
+    const body: PhoneVerificationResponse = {
+      phoneNumber: null,
+      verifiedAt: null,
+    };
+    const response = NextResponse.json(body);
+    clearPhoneVerificationCookie(response);
+    return response;
+  }
+);
@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { logger } from '../../../utils/logger';
+import {
+  setPhoneChallengeCookie,
+  setPhoneVerificationCookie,
+  verifyPhoneVerificationCode,
+} from '../../../utils/phoneVerification';
+import {
+  rateLimit,
+  rateLimitExceededResponse,
+  rateLimitHeaders,
+} from '../../../utils/rateLimit';
+import { withRequestLogging } from '../../../utils/requestLogging';
+import {
+  invalidJsonResponse,
+  invalidRequestResponse,
+} from '../../../utils/requestValidation';
+import { phoneVerificationCheckRequestSchema } from '../../../utils/validation';
+import { PhoneVerificationResponse } from '../../../types';
+
+/**
+ * POST /api/phone-verification/verify
+ * Checks { phoneNumber, code } against the code sent by
+ * POST /api/phone-verification and, if it matches, records the number as
+ * verified in this browser for 60 days
+ */
+export const POST = withRequestLogging(
+  '/api/phone-verification/verify',
+  async (request: NextRequest) => {
+    let headers: Record<string, string> = {};
+
+    try {
+      let body;
+      try {
+        body = await request.json();
+      } catch {
+        return invalidJsonResponse();
+      }
+
+      const rateLimitResult = await rateLimit(
+        request,
+        '/api/phone-verification/verify'
+      );
+
+      if (!rateLimitResult.success) {
+        return rateLimitExceededResponse(rateLimitResult);
+      }
+
+      headers = rateLimitHeaders(rateLimitResult);
+
+      const validationResult =
+        phoneVerificationCheckRequestSchema.safeParse(body);
+
+      if (!validationResult.success) {
+        return invalidRequestResponse(validationResult.error, headers);
+      }
+
+      const { phoneNumber, code } = validationResult.data;
+      const result = await verifyPhoneVerificationCode(
+        request,
+        phoneNumber,
+        code
+      );
+
+      if (!result.valid) {
+        logger.warn('Phone verification failed', {
+          phoneNumber,
+          reason: result.reason,
+        });
+        const response = NextResponse.json(
+          { error: 'Phone verification failed', details: result.reason },
+          { status: 400, headers }
+        );
+        if (result.challenge !== undefined) {
+          setPhoneChallengeCookie(response, result.challenge);
+        }
+        return response;
+      }
+
+      const verified: PhoneVerificationResponse = result.verification;
+      const response = NextResponse.json(verified, { headers });
+      await setPhoneVerificationCookie(response, result.verification);
+
+      logger.info('Phone number verified', { phoneNumber });
+      return response;
+    } catch (error) {
+      logger.error('Error verifying phone number', { error });
+      return NextResponse.json(
+        { error: 'Failed to verify phone number' },
+        { status: 500, headers }
+      );
+    }
+  }
+);
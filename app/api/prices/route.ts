@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { logger } from '../../utils/logger';
+import { DEFAULT_PRICE_SYMBOLS } from '../../utils/priceProviders';
+import { getCryptoPrices } from '../../utils/priceService';
+import { withRequestLogging } from '../../utils/requestLogging';
+import { invalidRequestResponse } from '../../utils/requestValidation';
+import { pricesQuerySchema } from '../../utils/validation';
+
+/**
+ * GET /api/prices
+ * Market prices of crypto assets in a fiat currency, from the provider
+ * selected by PRICE_PROVIDER (coingecko, cdp or static)
+ *
+ * Query Parameters:
+ * - fiat (optional): ISO 4217 currency code, defaults to 'USD'
+ * - symbols (optional): Comma-separated asset codes (e.g., 'BTC,ETH'),
+ *   defaults to every asset the demo lists
+ *
+ * Each price has a `stale` flag; assets without a known price are omitted.
+ */
+export const GET = withRequestLogging(
+  '/api/prices',
+  async (request: NextRequest) => {
+    try {
+      const searchParams = request.nextUrl.searchParams;
+      const validationResult = pricesQuerySchema.safeParse({
+        fiat: searchParams.get('fiat') || undefined,
+        symbols: searchParams.get('symbols') || undefined,
+      });
+
+      if (!validationResult.success) {
+        return invalidRequestResponse(validationResult.error);
+      }
+
+      const { fiat, symbols = DEFAULT_PRICE_SYMBOLS } = validationResult.data;
+      const result = await getCryptoPrices(symbols, fiat);
+
+      if (Object.keys(result.prices).length === 0) {
+        logger.warn('No prices available', { fiat, provider: result.provider });
+        return NextResponse.json(
+          { error: `Prices unavailable for ${fiat}` },
+          { status: 502 }
+        );
+      }
+
+      return NextResponse.json(result);
+    } catch (error) {
+      logger.error('Error fetching prices', { error });
+      return NextResponse.json(
+        { error: 'Failed to fetch prices' },
+        { status: 500 }
+      );
+    }
+  }
+);
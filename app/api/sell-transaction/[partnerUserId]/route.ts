@@ -0,0 +1,111 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  sellTransactionSchema,
+  transactionsResponseSchema,
+} from '../../../utils/apiSchemas';
+import { CdpClient, cdpErrorResponse } from '../../../utils/cdpClient';
+import { logger } from '../../../utils/logger';
+import { withRequestLogging } from '../../../utils/requestLogging';
+import { invalidRequestResponse } from '../../../utils/requestValidation';
+import {
+  getSiweSession,
+  isSessionPartnerUserId,
+} from '../../../utils/siweSession';
+import { sellTransactionParamsSchema } from '../../../utils/validation';
+import {
+  PendingSellTransaction,
+  PendingSellTransactionResponse,
+} from '../../../types';
+
+// Started sells are waiting for the user's crypto
+const AWAITING_DEPOSIT_STATUS = 'TRANSACTION_STATUS_STARTED';
+const PAGE_SIZE = '10';
+
+// Raw offramp transactions from the CDP sell transaction status API
+// https://docs.cdp.coinbase.com/api-reference/rest-api/onramp-offramp/get-offramp-transactions
+const sellTransactionsSchema = transactionsResponseSchema(
+  sellTransactionSchema
+);
+
+/**
+ * GET /api/sell-transaction/[partnerUserId]
+ * Returns the newest sell transaction still waiting for the user to send
+ * crypto to Coinbase, or null if there is none
+ *
+ * The response includes the Coinbase deposit address, so it's only served
+ * for the wallet proven via Sign-In with Ethereum.
+ */
+export const GET = withRequestLogging(
+  '/api/sell-transaction/[partnerUserId]',
+  async (
+    request: NextRequest,
+    { params }: { params: { partnerUserId: string } }
+  ) => {
+    try {
+      const validationResult = sellTransactionParamsSchema.safeParse(params);
+      if (!validationResult.success) {
+        return invalidRequestResponse(validationResult.error);
+      }
+
+      const { partnerUserId } = validationResult.data;
+
+      const session = await getSiweSession(request);
+      if (!session) {
+        return NextResponse.json(
+          { error: 'Sign in with Ethereum required' },
+          { status: 401 }
+        );
+      }
+
+      if (!isSessionPartnerUserId(session, partnerUserId)) {
+        logger.warn('Sell transaction requested for another wallet', {
+          address: session.address,
+        });
+        return NextResponse.json(
+          { error: 'Address does not match the signed-in wallet' },
+          { status: 403 }
+        );
+      }
+
+      const client = CdpClient.fromEnv();
+      const data = await client.get(
+        `/onramp/v1/sell/user/${encodeURIComponent(partnerUserId)}/transactions`,
+        { query: { page_size: PAGE_SIZE }, schema: sellTransactionsSchema }
+      );
+
+      const pending = data.transactions
+        .filter(
+          (tx) =>
+            tx.status === AWAITING_DEPOSIT_STATUS &&
+            !!tx.to_address &&
+            !!tx.network
+        )
+        .sort(
+          (a, b) =>
+            new Date(b.created_at).getTime() - new Date(a.created_at).getTime()
+        )[0];
+
+      const transaction: PendingSellTransaction | null = pending
+        ? {
+            transactionId: pending.transaction_id,
+            asset: pending.asset,
+            network: pending.network as string,
+            amount: pending.sell_amount.value,
+            toAddress: pending.to_address as string,
+            createdAt: pending.created_at,
+          }
+        : null;
+
+      logger.info('Pending sell transaction fetched', {
+        found: !!transaction,
+        transactionId: transaction?.transactionId,
+      });
+
+      const response: PendingSellTransactionResponse = { transaction };
+      return NextResponse.json(response);
+    } catch (error) {
+      logger.error('Error fetching pending sell transaction', { error });
+      return cdpErrorResponse(error, 'Failed to fetch sell transaction');
+    }
+  }
+);
@@ -0,0 +1,119 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { logger } from '../../utils/logger';
+import {
+  rateLimit,
+  rateLimitExceededResponse,
+  rateLimitHeaders,
+} from '../../utils/rateLimit';
+import { withRequestLogging } from '../../utils/requestLogging';
+import {
+  invalidJsonResponse,
+  invalidRequestResponse,
+} from '../../utils/requestValidation';
+import {
+  clearSiweSessionCookie,
+  createSiweNonce,
+  getSiweSession,
+  setSiweNonceCookie,
+  setSiweSessionCookie,
+  verifySiweSignIn,
+} from '../../utils/siweSession';
+import { siweVerifyRequestSchema } from '../../utils/validation';
+
+/**
+ * Sign-In with Ethereum
+ *
+ * GET    -> { nonce, address } issues a nonce for the next sign in and
+ *           returns the signed-in address (or null)
+ * POST   -> verifies { message, signature } and sets the session cookie
+ * DELETE -> signs out
+ *
+ * /api/session and /api/fund/session only mint tokens for the address proven
+ * here.
+ */
+export const GET = withRequestLogging(
+  '/api/siwe',
+  async (request: NextRequest) => {
+    try {
+      const session = await getSiweSession(request);
+      const nonce = createSiweNonce();
+
+      const response = NextResponse.json({
+        nonce,
+        address: session?.address ?? null,
+      });
+      await setSiweNonceCookie(response, nonce);
+      return response;
+    } catch (error) {
+      logger.error('Error issuing SIWE nonce', { error });
+      return NextResponse.json(
+        { error: 'Failed to issue nonce' },
+        { status: 500 }
+      );
+    }
+  }
+);
+
+export const POST = withRequestLogging(
+  '/api/siwe',
+  async (request: NextRequest) => {
+    let headers: Record<string, string> = {};
+
+    try {
+      const rateLimitResult = await rateLimit(request, '/api/siwe');
+
+      if (!rateLimitResult.success) {
+        logger.warn('Rate limit exceeded for SIWE sign in', {
+          ip: request.headers.get('x-forwarded-for') || 'unknown',
+        });
+        return rateLimitExceededResponse(rateLimitResult);
+      }
+
+      headers = rateLimitHeaders(rateLimitResult);
+
+      let body;
+      try {
+        body = await request.json();
+      } catch {
+        return invalidJsonResponse(headers);
+      }
+      const validationResult = siweVerifyRequestSchema.safeParse(body);
+
+      if (!validationResult.success) {
+        return invalidRequestResponse(validationResult.error, headers);
+      }
+
+      const { message, signature } = validationResult.data;
+      const result = await verifySiweSignIn(request, message, signature);
+
+      if (!result.valid) {
+        logger.warn('SIWE verification failed', { reason: result.reason });
+        return NextResponse.json(
+          { error: 'Sign in failed', reason: result.reason },
+          { status: 401, headers }
+        );
+      }
+
+      const response = NextResponse.json(
+        { address: result.session.address },
+        { headers }
+      );
+      await setSiweSessionCookie(response, result.session);
+
+      logger.info('SIWE session created', { address: result.session.address });
+      return response;
+    } catch (error) {
+      logger.error('Error verifying SIWE message', { error });
+      return NextResponse.json(
+        { error: 'Failed to verify sign in' },
+        { status: 500, headers }
+      );
+    }
+  }
+);
+
+export const DELETE = withRequestLogging('/api/siwe', async () => {
+  const response = NextResponse.json({ address: null });
+  clearSiweSessionCookie(response);
+  return response;
+});
@@ -0,0 +1,227 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z, ZodError } from 'zod';
+import {
+  ApiBuyTransaction,
+  ApiSellTransaction,
+  buyTransactionSchema,
+  sellTransactionSchema,
+  transactionsResponseSchema,
+} from '../../../utils/apiSchemas';
+import { CdpClient, cdpErrorResponse } from '../../../utils/cdpClient';
+import { logger } from '../../../utils/logger';
+import { withRequestLogging } from '../../../utils/requestLogging';
+import { invalidRequestResponse } from '../../../utils/requestValidation';
+import {
+  getSiweSession,
+  isSessionPartnerUserId,
+} from '../../../utils/siweSession';
+import { transactionHistoryQuerySchema } from '../../../utils/validation';
+import { Order, TransactionHistoryResponse } from '../../../types';
+
+// Page keys for the buy and sell histories, encoded into one opaque key
+const pageKeysSchema = z.object({
+  buy: z.string().optional(),
+  sell: z.string().optional(),
+});
+
+type PageKeys = z.infer<typeof pageKeysSchema>;
+
+// Raw CDP transaction lists
+// Buy: https://docs.cdp.coinbase.com/api-reference/rest-api/onramp-offramp/get-onramp-transactions
+// Sell: https://docs.cdp.coinbase.com/api-reference/rest-api/onramp-offramp/get-offramp-transactions
+const buyTransactionsSchema = transactionsResponseSchema(buyTransactionSchema);
+const sellTransactionsSchema = transactionsResponseSchema(
+  sellTransactionSchema
+);
+
+function mapStatus(status: string): Order['status'] {
+  if (status.endsWith('_SUCCESS')) {
+    return 'completed';
+  }
+  if (status.endsWith('_FAILED')) {
+    return 'failed';
+  }
+  return 'pending';
+}
+
+function mapBuyTransaction(tx: ApiBuyTransaction): Order {
+  return {
+    id: tx.transaction_id,
+    created_at: tx.created_at,
+    type: 'buy',
+    asset: tx.purchase_currency,
+    amount: tx.purchase_amount?.value || '0',
+    status: mapStatus(tx.status),
+    network: tx.purchase_network,
+    fiat_total: tx.payment_total
+      ? `${tx.payment_total.value} ${tx.payment_total.currency}`
+      : undefined,
+    tx_hash: tx.tx_hash || undefined,
+  };
+}
+
+function mapSellTransaction(tx: ApiSellTransaction): Order {
+  return {
+    id: tx.transaction_id,
+    created_at: tx.created_at,
+    type: 'sell',
+    asset: tx.asset,
+    amount: tx.sell_amount?.value || '0',
+    status: mapStatus(tx.status),
+    network: tx.network,
+    fiat_total: tx.total ? `${tx.total.value} ${tx.total.currency}` : undefined,
+    tx_hash: tx.tx_hash || undefined,
+  };
+}
+
+function decodePageKey(pageKey: string | undefined): PageKeys | null {
+  if (!pageKey) {
+    return {};
+  }
+  try {
+    const decoded = JSON.parse(Buffer.from(pageKey, 'base64url').toString());
+    const result = pageKeysSchema.safeParse(decoded);
+    return result.success ? result.data : null;
+  } catch {
+    return null;
+  }
+}
+
+function encodePageKey(keys: PageKeys): string | undefined {
+  if (!keys.buy && !keys.sell) {
+    return undefined;
+  }
+  return Buffer.from(JSON.stringify(keys)).toString('base64url');
+}
+
+/**
+ * GET /api/transaction-history/[partnerUserId]
+ * Fetches onramp (buy) and offramp (sell) transactions for a partner user
+ *
+ * Query Parameters:
+ * - type (optional): 'buy', 'sell' or 'all' (default)
+ * - page_key (optional): Opaque next_page_key from a previous response
+ * - page_size (optional): Transactions per history, 1-50 (default 10)
+ *
+ * With type 'all' both histories are paged together, so a page can hold up
+ * to twice page_size orders. Only served for the wallet proven via Sign-In
+ * with Ethereum.
+ */
+export const GET = withRequestLogging(
+  '/api/transaction-history/[partnerUserId]',
+  async (
+    request: NextRequest,
+    { params }: { params: { partnerUserId: string } }
+  ) => {
+    try {
+      const searchParams = request.nextUrl.searchParams;
+      const validationResult = transactionHistoryQuerySchema.safeParse({
+        partnerUserId: params.partnerUserId,
+        type: searchParams.get('type'),
+        page_size: searchParams.get('page_size'),
+        page_key: searchParams.get('page_key'),
+      });
+
+      if (!validationResult.success) {
+        return invalidRequestResponse(validationResult.error);
+      }
+
+      const {
+        partnerUserId,
+        type,
+        page_size: pageSize,
+        page_key: pageKey,
+      } = validationResult.data;
+
+      const session = await getSiweSession(request);
+      if (!session) {
+        return NextResponse.json(
+          { error: 'Sign in with Ethereum required' },
+          { status: 401 }
+        );
+      }
+
+      if (!isSessionPartnerUserId(session, partnerUserId)) {
+        logger.warn('Transaction history requested for another wallet', {
+          address: session.address,
+        });
+        return NextResponse.json(
+          { error: 'Address does not match the signed-in wallet' },
+          { status: 403 }
+        );
+      }
+
+      const pageKeys = decodePageKey(pageKey);
+      if (!pageKeys) {
+        return invalidRequestResponse(
+          new ZodError([
+            { code: 'custom', path: ['page_key'], message: 'Invalid page key' },
+          ])
+        );
+      }
+
+      const client = CdpClient.fromEnv();
+
+      // On later pages, skip a history that has already been exhausted
+      const isFirstPage = !pageKeys.buy && !pageKeys.sell;
+      const includeBuy =
+        type !== 'sell' && (isFirstPage || type === 'buy' || !!pageKeys.buy);
+      const includeSell =
+        type !== 'buy' && (isFirstPage || type === 'sell' || !!pageKeys.sell);
+
+      const userPath = encodeURIComponent(partnerUserId);
+
+      logger.debug('Fetching transaction history', {
+        partnerUserId,
+        type,
+        pageSize,
+      });
+
+      const [buyResult, sellResult] = await Promise.all([
+        includeBuy
+          ? client.get(`/onramp/v1/buy/user/${userPath}/transactions`, {
+              query: { page_key: pageKeys.buy, page_size: String(pageSize) },
+              schema: buyTransactionsSchema,
+            })
+          : null,
+        includeSell
+          ? client.get(`/onramp/v1/sell/user/${userPath}/transactions`, {
+              query: { page_key: pageKeys.sell, page_size: String(pageSize) },
+              schema: sellTransactionsSchema,
+            })
+          : null,
+      ]);
+
+      const orders = [
+        ...(buyResult?.transactions || []).map(mapBuyTransaction),
+        ...(sellResult?.transactions || []).map(mapSellTransaction),
+      ].sort(
+        (a, b) =>
+          new Date(b.created_at).getTime() - new Date(a.created_at).getTime()
+      );
+
+      const totalCount =
+        Number(buyResult?.total_count || 0) +
+        Number(sellResult?.total_count || 0);
+
+      logger.info('Transaction history fetched successfully', {
+        orderCount: orders.length,
+        totalCount,
+      });
+
+      const history: TransactionHistoryResponse = {
+        orders,
+        next_page_key: encodePageKey({
+          buy: buyResult?.next_page_key,
+          sell: sellResult?.next_page_key,
+        }),
+        total_count: totalCount,
+      };
+
+      return NextResponse.json(history);
+    } catch (error) {
+      logger.error('Error fetching transaction history', { error });
+      return cdpErrorResponse(error, 'Failed to fetch transaction history');
+    }
+  }
+);
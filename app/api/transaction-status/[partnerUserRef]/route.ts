@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isGuestPartnerUserRef } from '../../../utils/guestCheckout';
+import { logger } from '../../../utils/logger';
+import { withRequestLogging } from '../../../utils/requestLogging';
+import { invalidRequestResponse } from '../../../utils/requestValidation';
+import {
+  getSiweSession,
+  isSessionPartnerUserId,
+} from '../../../utils/siweSession';
+import { transactionStatusParamsSchema } from '../../../utils/validation';
+import { getTransactionsForUser } from '../../../utils/webhookStore';
+import { TransactionStatusResponse } from '../../../types';
+
+/**
+ * GET /api/transaction-status/[partnerUserRef]
+ * Returns the transaction state received through CDP webhooks for a
+ * partnerUserRef (Apple Pay orders) or partnerUserId (onramp/offramp URLs)
+ *
+ * Apple Pay partnerUserRefs are unguessable, so holding one is enough.
+ * partnerUserIds come from wallet addresses and are only served for the
+ * wallet proven via Sign-In with Ethereum.
+ */
+export const GET = withRequestLogging(
+  '/api/transaction-status/[partnerUserRef]',
+  async (
+    request: NextRequest,
+    { params }: { params: { partnerUserRef: string } }
+  ) => {
+    const validationResult = transactionStatusParamsSchema.safeParse(params);
+
+    if (!validationResult.success) {
+      return invalidRequestResponse(validationResult.error);
+    }
+
+    const { partnerUserRef } = validationResult.data;
+
+    if (!isGuestPartnerUserRef(partnerUserRef)) {
+      const session = await getSiweSession(request);
+      if (!session) {
+        return NextResponse.json(
+          { error: 'Sign in with Ethereum required' },
+          { status: 401 }
+        );
+      }
+
+      if (!isSessionPartnerUserId(session, partnerUserRef)) {
+        logger.warn('Transaction status requested for another wallet', {
+          address: session.address,
+        });
+        return NextResponse.json(
+          { error: 'Address does not match the signed-in wallet' },
+          { status: 403 }
+        );
+      }
+    }
+    const status: TransactionStatusResponse = {
+      transactions: getTransactionsForUser(partnerUserRef),
+    };
+
+    return NextResponse.json(status);
+  }
+);
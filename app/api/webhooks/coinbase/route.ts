@@ -0,0 +1,184 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  WebhookEvent,
+  webhookEventSchema,
+  WebhookTransaction,
+} from '../../../utils/apiSchemas';
+import { logger } from '../../../utils/logger';
+import { withRequestLogging } from '../../../utils/requestLogging';
+import { invalidRequestResponse } from '../../../utils/requestValidation';
+import { verifyWebhookSignature } from '../../../utils/webhookSignature';
+import {
+  applyTransactionUpdate,
+  markEventProcessed,
+  WebhookTransactionUpdate,
+} from '../../../utils/webhookStore';
+import { WebhookTransactionState } from '../../../types';
+
+// Webhook payload sent by CDP for onramp/offramp transaction events
+// Docs: https://docs.cdp.coinbase.com/onramp-&-offramp/webhooks
+//
+// Event types: onramp.transaction.{created,updated,success,failed} and the
+// same for offramp. The transaction is either at the top level or under
+// `data`; v1 transactions use snake_case, v2 orders (Apple Pay) camelCase.
+// See webhookEventSchema for the accepted fields.
+type WebhookAmount = string | { value: string; currency: string };
+
+// v1 statuses end in _SUCCESS/_FAILED, v2 order statuses in _COMPLETED
+function mapStatus(
+  eventType: string,
+  status?: string
+): WebhookTransactionState['status'] {
+  if (
+    eventType.endsWith('.success') ||
+    status?.endsWith('_SUCCESS') ||
+    status?.endsWith('_COMPLETED')
+  ) {
+    return 'completed';
+  }
+  if (eventType.endsWith('.failed') || status?.endsWith('_FAILED')) {
+    return 'failed';
+  }
+  return 'pending';
+}
+
+function amountValue(amount?: WebhookAmount): string | undefined {
+  return typeof amount === 'string' ? amount : amount?.value;
+}
+
+function formatFiat(
+  amount?: WebhookAmount,
+  fallbackCurrency?: string
+): string | undefined {
+  if (!amount) {
+    return undefined;
+  }
+  return typeof amount === 'string'
+    ? `${amount} ${fallbackCurrency || ''}`.trim()
+    : `${amount.value} ${amount.currency}`;
+}
+
+/**
+ * Maps a webhook event to a stored transaction update
+ * @returns null if the event does not describe a transaction we can key
+ */
+function toTransactionUpdate(
+  event: WebhookEvent
+): WebhookTransactionUpdate | null {
+  const { eventType } = event;
+  const tx: WebhookTransaction = event.data || event;
+
+  const transactionId = tx.transactionId || tx.transaction_id || tx.orderId;
+  const partnerUserRef =
+    tx.partnerUserRef || tx.partnerUserId || tx.partner_user_ref;
+
+  if (!transactionId || !partnerUserRef) {
+    return null;
+  }
+
+  return {
+    transactionId,
+    partnerUserRef,
+    type: eventType.startsWith('offramp.') ? 'sell' : 'buy',
+    status: mapStatus(eventType, tx.status),
+    rawStatus: tx.status,
+    lastEventType: eventType,
+    asset: tx.purchaseCurrency || tx.purchase_currency || tx.asset,
+    amount: amountValue(
+      tx.purchaseAmount || tx.purchase_amount || tx.sell_amount
+    ),
+    network: tx.destinationNetwork || tx.purchase_network || tx.network,
+    fiatTotal: formatFiat(
+      tx.paymentTotal || tx.payment_total || tx.total,
+      tx.paymentCurrency
+    ),
+    txHash: tx.txHash || tx.tx_hash || undefined,
+    updatedAt:
+      tx.updatedAt ||
+      tx.updated_at ||
+      tx.createdAt ||
+      tx.created_at ||
+      new Date().toISOString(),
+  };
+}
+
+/**
+ * POST /api/webhooks/coinbase
+ * Receives CDP onramp/offramp transaction webhooks
+ *
+ * - Verifies the X-Hook0-Signature header with COINBASE_WEBHOOK_SECRET
+ * - Acknowledges duplicate deliveries (same event id) without reprocessing
+ * - Stores the latest state per partnerUserRef/partnerUserId, readable via
+ *   GET /api/transaction-status/[partnerUserRef]
+ */
+export const POST = withRequestLogging(
+  '/api/webhooks/coinbase',
+  async (request: NextRequest) => {
+    const secret = process.env.COINBASE_WEBHOOK_SECRET;
+    if (!secret) {
+      logger.error('Missing COINBASE_WEBHOOK_SECRET');
+      return NextResponse.json(
+        { error: 'Server configuration error' },
+        { status: 500 }
+      );
+    }
+
+    // Signatures are computed over the raw body, so read it before parsing
+    const rawBody = await request.text();
+
+    const verification = verifyWebhookSignature(
+      rawBody,
+      request.headers,
+      secret
+    );
+    if (!verification.valid) {
+      logger.warn('Rejected webhook with invalid signature', {
+        reason: verification.reason,
+      });
+      return NextResponse.json({ error: 'Invalid signature' }, { status: 401 });
+    }
+
+    let body: unknown;
+    try {
+      body = JSON.parse(rawBody);
+    } catch {
+      return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+    }
+
+    const validationResult = webhookEventSchema.safeParse(body);
+    if (!validationResult.success) {
+      return invalidRequestResponse(validationResult.error);
+    }
+
+    const event = validationResult.data;
+    // Guaranteed by webhookEventSchema
+    const eventId = (event.eventId || event.id) as string;
+
+    const update = toTransactionUpdate(event);
+
+    if (!markEventProcessed(eventId)) {
+      logger.info('Ignoring duplicate webhook event', { eventId });
+      return NextResponse.json({ received: true, duplicate: true });
+    }
+
+    if (!update) {
+      // Acknowledge events we don't track so CDP stops retrying them
+      logger.info('Ignoring webhook event without transaction reference', {
+        eventId,
+        eventType: event.eventType,
+      });
+      return NextResponse.json({ received: true });
+    }
+
+    const state = applyTransactionUpdate(eventId, update);
+
+    logger.info('Webhook event processed', {
+      eventId,
+      eventType: event.eventType,
+      transactionId: state.transactionId,
+      status: state.status,
+    });
+
+    return NextResponse.json({ received: true });
+  }
+);
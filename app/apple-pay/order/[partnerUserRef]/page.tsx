@@ -0,0 +1,51 @@
+"use client";
+
+import { Suspense } from "react";
+import { useSearchParams } from "next/navigation";
+import { Header } from "../../../components/Header";
+import { Footer } from "../../../components/Footer";
+import ApplePayOrderTracker from "../../../components/ApplePayOrderTracker";
+
+interface ApplePayOrderPageProps {
+  params: { partnerUserRef: string };
+}
+
+// useSearchParams needs a Suspense boundary
+function ApplePayOrderContent({ partnerUserRef }: { partnerUserRef: string }) {
+  const searchParams = useSearchParams();
+
+  return (
+    <ApplePayOrderTracker
+      partnerUserRef={partnerUserRef}
+      orderId={searchParams.get("orderId") || undefined}
+    />
+  );
+}
+
+/**
+ * /apple-pay/order/[partnerUserRef]
+ * Tracks a guest checkout order until it completes, e.g. after the tab with
+ * the payment iframe was closed
+ */
+export default function ApplePayOrderPage({ params }: ApplePayOrderPageProps) {
+  const partnerUserRef = decodeURIComponent(params.partnerUserRef);
+
+  return (
+    <div className="flex flex-col min-h-screen">
+      <Header />
+      <main className="flex-grow bg-[#fafafa] dark:bg-[#111]">
+        <div className="container mx-auto px-4 pt-28 pb-16">
+          <div className="max-w-2xl mx-auto">
+            <h1 className="text-3xl md:text-4xl font-bold mb-8 text-center">
+              Guest Checkout Order
+            </h1>
+            <Suspense fallback={<div className="text-center">Loading...</div>}>
+              <ApplePayOrderContent partnerUserRef={partnerUserRef} />
+            </Suspense>
+          </div>
+        </div>
+      </main>
+      <Footer />
+    </div>
+  );
+}
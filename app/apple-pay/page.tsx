@@ -4,7 +4,7 @@ import React from "react";
 import Link from "next/link";
 import { Header } from "../components/Header";
 import { Footer } from "../components/Footer";
-import ApplePayFeature from "../components/ApplePayFeature";
+import GuestCheckoutFeature from "../components/GuestCheckoutFeature";
 
 export default function ApplePayPage() {
   return (
@@ -27,7 +27,7 @@ export default function ApplePayPage() {
               <div className="inline-flex items-center px-4 py-2 rounded-full bg-blue-50 dark:bg-blue-900/30 border border-blue-200 dark:border-blue-800 mb-6">
                 <span className="w-2 h-2 rounded-full bg-blue-500 mr-2"></span>
                 <span className="text-blue-700 dark:text-blue-300 text-sm font-medium whitespace-nowrap">
-                  Apple Pay Integration • US Only • Fastest Onramp
+                  Apple Pay & Debit Card • Guest Checkout • Fastest Onramp
                 </span>
               </div>
 
@@ -51,7 +51,7 @@ export default function ApplePayPage() {
           </div>
         </section>
 
-        <ApplePayFeature />
+        <GuestCheckoutFeature defaultPaymentMethod="GUEST_CHECKOUT_APPLE_PAY" />
       </main>
       <Footer />
     </div>
@@ -0,0 +1,223 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { useApplePayOrderStatus } from "../hooks/useApplePayOrderStatus";
+import { useWebhookTransactions } from "../hooks/useWebhookTransactions";
+import {
+  findStoredApplePayOrder,
+  StoredApplePayOrder,
+} from "../utils/applePayOrders";
+import { getNetworkExplorerTxUrl } from "../utils/explorers";
+import { ApplePayOrderStatus } from "../types";
+
+interface ApplePayOrderTrackerProps {
+  partnerUserRef: string;
+  // Takes precedence over the order stored in this browser, so a link with
+  // ?orderId= also works on another device
+  orderId?: string;
+}
+
+const STATUS_STEPS: ApplePayOrderStatus[] = [
+  "pending",
+  "processing",
+  "completed",
+];
+
+const STATUS_LABELS: Record<ApplePayOrderStatus, string> = {
+  pending: "Waiting for payment",
+  processing: "Processing",
+  completed: "Completed",
+  failed: "Failed",
+};
+
+/**
+ * Status of one Apple Pay order, resumable from its partnerUserRef
+ * The order id comes from the ?orderId= link, the orders stored in this
+ * browser or, failing both, the webhook events received for the
+ * partnerUserRef.
+ */
+export default function ApplePayOrderTracker({
+  partnerUserRef,
+  orderId: linkedOrderId,
+}: ApplePayOrderTrackerProps) {
+  const [storedOrder, setStoredOrder] = useState<StoredApplePayOrder>();
+  const [storageRead, setStorageRead] = useState(false);
+
+  // Read after mount: the server render has no localStorage
+  useEffect(() => {
+    setStoredOrder(findStoredApplePayOrder(partnerUserRef));
+    setStorageRead(true);
+  }, [partnerUserRef]);
+
+  const needsWebhookLookup = storageRead && !linkedOrderId && !storedOrder;
+  const { transactions: webhookTransactions } = useWebhookTransactions(
+    needsWebhookLookup ? partnerUserRef : undefined
+  );
+  const webhookOrderId = webhookTransactions.find(
+    (transaction) => transaction.type === "buy"
+  )?.transactionId;
+
+  const orderId = linkedOrderId || storedOrder?.orderId || webhookOrderId;
+  const { order, error, isPolling } = useApplePayOrderStatus(orderId);
+
+  const network = order?.destinationNetwork || storedOrder?.network;
+  const explorerUrl =
+    order?.txHash && network
+      ? getNetworkExplorerTxUrl(network, order.txHash)
+      : null;
+
+  if (!orderId) {
+    return (
+      <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-8 text-center">
+        <p className="text-gray-700 dark:text-gray-300 mb-2">
+          {storageRead
+            ? "Looking for an order with this reference..."
+            : "Loading order..."}
+        </p>
+        {needsWebhookLookup && (
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            This order wasn&apos;t created in this browser. It will appear once
+            Coinbase sends a webhook event for{" "}
+            <span className="font-mono">{partnerUserRef}</span>.
+          </p>
+        )}
+      </div>
+    );
+  }
+
+  const currentStep = order ? STATUS_STEPS.indexOf(order.status) : -1;
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-8 space-y-6">
+      {/* Status */}
+      <div className="flex items-center justify-between">
+        <h2 className="text-2xl font-bold">Order status</h2>
+        <span
+          className={`px-3 py-1 rounded-full text-sm font-medium ${
+            order?.status === "completed"
+              ? "bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-300"
+              : order?.status === "failed"
+                ? "bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300"
+                : "bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-300"
+          }`}
+        >
+          {order ? STATUS_LABELS[order.status] : "Loading..."}
+        </span>
+      </div>
+
+      {order?.status !== "failed" && (
+        <ol className="flex items-center gap-2 text-sm">
+          {STATUS_STEPS.map((step, index) => (
+            <li key={step} className="flex-1">
+              <div
+                className={`h-2 rounded-full ${
+                  index <= currentStep
+                    ? "bg-blue-600"
+                    : "bg-gray-200 dark:bg-gray-700"
+                }`}
+              />
+              <span className="block mt-1 text-gray-600 dark:text-gray-400">
+                {STATUS_LABELS[step]}
+              </span>
+            </li>
+          ))}
+        </ol>
+      )}
+
+      {error && (
+        <div className="p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg text-red-700 dark:text-red-300 text-sm">
+          {error}
+          {isPolling && " (retrying)"}
+        </div>
+      )}
+
+      {/* Details */}
+      <dl className="bg-gray-50 dark:bg-gray-900 rounded-lg p-4 space-y-3 text-sm">
+        <div className="flex justify-between">
+          <dt className="text-gray-600 dark:text-gray-400">Amount</dt>
+          <dd className="font-semibold">
+            {order?.purchaseAmount
+              ? `${order.purchaseAmount} ${order.purchaseCurrency || ""}`
+              : storedOrder
+                ? `${storedOrder.amount} ${storedOrder.paymentCurrency} of ${storedOrder.asset}`
+                : "-"}
+          </dd>
+        </div>
+        {order?.paymentTotal && (
+          <div className="flex justify-between">
+            <dt className="text-gray-600 dark:text-gray-400">Total paid</dt>
+            <dd className="font-semibold">
+              {order.paymentTotal} {order.paymentCurrency}
+            </dd>
+          </div>
+        )}
+        {network && (
+          <div className="flex justify-between">
+            <dt className="text-gray-600 dark:text-gray-400">Network</dt>
+            <dd className="font-semibold capitalize">{network}</dd>
+          </div>
+        )}
+        {order?.destinationAddress && (
+          <div className="flex justify-between items-start">
+            <dt className="text-gray-600 dark:text-gray-400">To</dt>
+            <dd className="font-mono text-xs break-all text-right max-w-[300px]">
+              {order.destinationAddress}
+            </dd>
+          </div>
+        )}
+        <div className="flex justify-between items-start">
+          <dt className="text-gray-600 dark:text-gray-400">Order ID</dt>
+          <dd className="font-mono text-xs break-all text-right max-w-[300px]">
+            {orderId}
+          </dd>
+        </div>
+        <div className="flex justify-between items-start">
+          <dt className="text-gray-600 dark:text-gray-400">Reference</dt>
+          <dd className="font-mono text-xs break-all text-right max-w-[300px]">
+            {partnerUserRef}
+          </dd>
+        </div>
+        {order?.txHash && (
+          <div className="flex justify-between items-start">
+            <dt className="text-gray-600 dark:text-gray-400">Tx Hash</dt>
+            <dd className="font-mono text-xs break-all text-right max-w-[300px]">
+              {explorerUrl ? (
+                <a
+                  href={explorerUrl}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-blue-600 dark:text-blue-400 hover:underline"
+                >
+                  {order.txHash} →
+                </a>
+              ) : (
+                order.txHash
+              )}
+            </dd>
+          </div>
+        )}
+        {order?.updatedAt && (
+          <div className="flex justify-between">
+            <dt className="text-gray-600 dark:text-gray-400">Updated</dt>
+            <dd>{new Date(order.updatedAt).toLocaleString()}</dd>
+          </div>
+        )}
+      </dl>
+
+      {isPolling && (
+        <p className="text-xs text-gray-500 dark:text-gray-400 text-center">
+          Checking for updates automatically. You can close this page and reopen
+          it from the Apple Pay page later.
+        </p>
+      )}
+
+      <Link
+        href="/apple-pay"
+        className="block text-center text-blue-600 dark:text-blue-400 hover:underline font-medium"
+      >
+        ← Back to Apple Pay
+      </Link>
+    </div>
+  );
+}
@@ -27,44 +27,55 @@ export const ChainTokenSelector = () => {
     buyOptions,
     sellOptions,
     loadingBuyOptions,
+    loadingSellOptions,
+    buyOptionsError,
+    sellOptionsError,
+    reloadRampData,
     isOnrampActive,
   } = useCoinbaseRampTransaction();
 
   const [tokenDropdownOpen, setTokenDropdownOpen] = useState(false);
   const [networkDropdownOpen, setNetworkDropdownOpen] = useState(false);
 
-  const handleTokenSelect = (purchaseCurrency: any) => {
-    if (isOnrampActive) {
-      setSelectedPurchaseCurrency(purchaseCurrency);
-
-      // If the currency has networks, select the first one or BASE if available
-      if (purchaseCurrency.networks && purchaseCurrency.networks.length > 0) {
-        const baseNetwork = purchaseCurrency.networks.find(
-          (network: any) => network.name.toUpperCase() === "BASE"
-        );
-        setSelectedPurchaseCurrencyNetwork(
-          baseNetwork || purchaseCurrency.networks[0]
-        );
-      }
-    } else {
-      setSelectedSellCurrency(purchaseCurrency);
-
-      // If the currency has networks, select the first one or BASE if available
-      if (purchaseCurrency.networks && purchaseCurrency.networks.length > 0) {
-        const baseNetwork = purchaseCurrency.networks.find(
-          (network: any) => network.name.toUpperCase() === "BASE"
-        );
-        setSelectedSellCurrencyNetwork(
-          baseNetwork || purchaseCurrency.networks[0]
-        );
-      }
-    }
+  const loading = isOnrampActive ? loadingBuyOptions : loadingSellOptions;
+  const error = isOnrampActive ? buyOptionsError : sellOptionsError;
+  const options = isOnrampActive ? buyOptions : sellOptions;
+
+  // Buy and sell assets have different shapes; list them uniformly. The
+  // network is picked by the context (keeps the current one or Base).
+  const tokens = useMemo(
+    () =>
+      isOnrampActive
+        ? (buyOptions?.purchaseCurrencies || []).map((currency) => ({
+            symbol: currency.symbol,
+            name: currency.name,
+            select: () => setSelectedPurchaseCurrency(currency),
+          }))
+        : (sellOptions?.sell_currencies || []).map((currency) => ({
+            symbol: currency.code,
+            name: currency.name,
+            select: () => setSelectedSellCurrency(currency),
+          })),
+    [
+      isOnrampActive,
+      buyOptions,
+      sellOptions,
+      setSelectedPurchaseCurrency,
+      setSelectedSellCurrency,
+    ]
+  );
+
+  const handleTokenSelect = (select: () => void) => {
+    select();
     setTokenDropdownOpen(false);
   };
 
-  const handleNetworkSelect = (network: any) => {
+  const handleNetworkSelect = (network: Chain) => {
     if (isOnrampActive) {
-      setSelectedPurchaseCurrencyNetwork(network);
+      setSelectedPurchaseCurrencyNetwork(
+        selectedPurchaseCurrency?.networks.find((n) => n.id === network.id) ??
+          null
+      );
     } else {
       setSelectedSellCurrencyNetwork(network);
     }
@@ -73,20 +84,18 @@ export const ChainTokenSelector = () => {
 
   const getSelectedCurrency = () => {
     return isOnrampActive
-      ? selectedPurchaseCurrency?.id
-      : selectedSellCurrency?.id;
+      ? selectedPurchaseCurrency?.symbol
+      : selectedSellCurrency?.code;
   };
 
   const getSelectedNetwork = () => {
-    if (isOnrampActive && selectedPurchaseCurrencyNetwork) {
-      return selectedPurchaseCurrencyNetwork.displayName;
-    } else if (!isOnrampActive && selectedSellCurrencyNetwork) {
-      return selectedSellCurrencyNetwork.display_name;
-    }
-    return "Select Network";
+    const network = isOnrampActive
+      ? selectedPurchaseCurrencyNetwork
+      : selectedSellCurrencyNetwork;
+    return network?.name || "Select Network";
   };
 
-  const getAvailableNetworks = useMemo(() => {
+  const getAvailableNetworks = useMemo((): Chain[] => {
     if (isOnrampActive && selectedPurchaseCurrency) {
       return selectedPurchaseCurrency.networks || [];
     } else if (!isOnrampActive && selectedSellCurrency) {
@@ -95,14 +104,26 @@ export const ChainTokenSelector = () => {
     return [];
   }, [isOnrampActive, selectedPurchaseCurrency, selectedSellCurrency]);
 
-  // Helper function to get the display name of a network regardless of its type
-  const getNetworkDisplayName = (network: any) => {
-    return isOnrampActive ? network.displayName : network.display_name;
-  };
+  if (error) {
+    return (
+      <div className="w-full p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-700">
+        <p>
+          Could not load {isOnrampActive ? "buy" : "sell"} options: {error}
+        </p>
+        <button
+          type="button"
+          className="mt-2 font-medium underline"
+          onClick={reloadRampData}
+        >
+          Retry
+        </button>
+      </div>
+    );
+  }
 
   return (
     <div className="w-full">
-      {loadingBuyOptions ? (
+      {loading ? (
         <>
           <div className="h-10 w-full rounded-lg bg-gray-200 animate-pulse mb-4"></div>
           <div className="h-10 w-full rounded-lg bg-gray-200 animate-pulse"></div>
@@ -134,17 +155,20 @@ export const ChainTokenSelector = () => {
 
             {tokenDropdownOpen && (
               <div className="absolute z-10 mt-1 w-full bg-white shadow-lg max-h-60 rounded-md py-1 text-base ring-1 ring-black ring-opacity-5 overflow-auto focus:outline-none sm:text-sm">
-                {(
-                  (isOnrampActive
-                    ? buyOptions?.purchaseCurrencies
-                    : sellOptions?.sell_currencies) || []
-                ).map((currency) => (
+                {tokens.length === 0 && (
+                  <div className="py-2 pl-3 pr-9 text-gray-500">
+                    {options
+                      ? "No assets available for this region"
+                      : "Select your region to see available assets"}
+                  </div>
+                )}
+                {tokens.map((token) => (
                   <div
-                    key={currency.id}
+                    key={token.symbol}
                     className="cursor-pointer select-none relative py-2 pl-3 pr-9 hover:bg-gray-100"
-                    onClick={() => handleTokenSelect(currency)}
+                    onClick={() => handleTokenSelect(token.select)}
                   >
-                    {currency.name}
+                    {token.name}
                   </div>
                 ))}
               </div>
@@ -180,11 +204,11 @@ export const ChainTokenSelector = () => {
                 <div className="absolute z-10 mt-1 w-full bg-white shadow-lg max-h-60 rounded-md py-1 text-base ring-1 ring-black ring-opacity-5 overflow-auto focus:outline-none sm:text-sm">
                   {getAvailableNetworks.map((network) => (
                     <div
-                      key={getNetworkDisplayName(network)}
+                      key={network.id}
                       className="cursor-pointer select-none relative py-2 pl-3 pr-9 hover:bg-gray-100 capitalize"
                       onClick={() => handleNetworkSelect(network)}
                     >
-                      {getNetworkDisplayName(network)}
+                      {network.name}
                     </div>
                   ))}
                 </div>
@@ -0,0 +1,80 @@
+"use client";
+
+import { CoinbaseIframeEventLogEntry } from "../hooks/useCoinbaseIframeEvents";
+import {
+  CoinbaseIframeEvent,
+  isCoinbaseIframeErrorEvent,
+} from "../utils/coinbaseIframeEvents";
+
+interface CoinbaseIframeEventLogProps {
+  events: CoinbaseIframeEventLogEntry[];
+  onClear?: () => void;
+}
+
+function describeEvent(event: CoinbaseIframeEvent): string | null {
+  if (isCoinbaseIframeErrorEvent(event)) {
+    return [event.data.errorCode, event.data.errorMessage]
+      .filter(Boolean)
+      .join(": ");
+  }
+  if (event.eventName === "onramp_api.polling_success" && event.data?.txHash) {
+    return `txHash ${event.data.txHash}`;
+  }
+  return null;
+}
+
+/**
+ * Events received from an embedded Coinbase page (see
+ * useCoinbaseIframeEvents), newest last
+ */
+export default function CoinbaseIframeEventLog({
+  events,
+  onClear,
+}: CoinbaseIframeEventLogProps) {
+  return (
+    <div className="p-3 bg-gray-50 dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg text-sm">
+      <div className="flex justify-between items-center mb-2">
+        <span className="font-medium text-gray-700 dark:text-gray-300">
+          Iframe events
+        </span>
+        {onClear && events.length > 0 && (
+          <button
+            onClick={onClear}
+            className="text-xs text-gray-500 dark:text-gray-400 hover:underline"
+          >
+            Clear
+          </button>
+        )}
+      </div>
+      {events.length === 0 ? (
+        <p className="text-gray-500 dark:text-gray-400">
+          Waiting for first event...
+        </p>
+      ) : (
+        <ol className="space-y-1 font-mono text-xs max-h-48 overflow-y-auto">
+          {events.map(({ id, event, receivedAt }) => {
+            const details = describeEvent(event);
+            return (
+              <li
+                key={id}
+                className={
+                  isCoinbaseIframeErrorEvent(event)
+                    ? "text-red-600 dark:text-red-400"
+                    : event.eventName.endsWith("_success")
+                      ? "text-green-700 dark:text-green-400"
+                      : "text-gray-700 dark:text-gray-300"
+                }
+              >
+                <span className="text-gray-500 dark:text-gray-400">
+                  [{receivedAt.toLocaleTimeString()}]
+                </span>{" "}
+                {event.eventName}
+                {details && <span className="break-all"> - {details}</span>}
+              </li>
+            );
+          })}
+        </ol>
+      )}
+    </div>
+  );
+}
@@ -8,6 +8,11 @@ interface Currency {
   name: string;
 }
 
+interface PaymentMethod {
+  id: string;
+  name: string;
+}
+
 export const CurrencySelector = () => {
   const {
     isOnrampActive,
@@ -20,49 +25,59 @@ export const CurrencySelector = () => {
     selectedCountry,
     setSelectedCurrency,
     loadingBuyOptions,
+    loadingSellOptions,
+    buyOptionsError,
+    sellOptionsError,
   } = useCoinbaseRampTransaction();
 
   const [currencyDropdownOpen, setCurrencyDropdownOpen] = useState(false);
   const [paymentMethodDropdownOpen, setPaymentMethodDropdownOpen] =
     useState(false);
 
-  const handleCurrencySelect = (currency: any) => {
-    if (isOnrampActive && buyOptions) {
-      setSelectedCurrency(currency);
-      setRampTransaction({
-        ...rampTransaction,
-        currency: currency?.id,
-      });
-    } else if (sellOptions) {
-      setSelectedCurrency(currency);
-      setRampTransaction({
-        ...rampTransaction,
-        currency: currency?.id,
-      });
-    }
+  const handleCurrencySelect = (currency: Currency) => {
+    setSelectedCurrency(currency);
+    setRampTransaction({
+      ...rampTransaction,
+      currency: currency.id,
+    });
     setCurrencyDropdownOpen(false);
   };
 
-  const handlePaymentMethodSelect = (method: any) => {
-    if (selectedCountry?.paymentMethods) {
-      setSelectedPaymentMethod(method);
-      setRampTransaction({
-        ...rampTransaction,
-        paymentMethod: method.id,
-      });
-    }
+  const handlePaymentMethodSelect = (method: PaymentMethod) => {
+    setSelectedPaymentMethod(method);
+    setRampTransaction({
+      ...rampTransaction,
+      paymentMethod: method.id,
+    });
     setPaymentMethodDropdownOpen(false);
   };
 
-  const getCurrencies = () => {
+  // Fiat to pay with (onramp) or cash out to (offramp)
+  const getCurrencies = (): Currency[] => {
+    return isOnrampActive
+      ? buyOptions?.paymentCurrencies || []
+      : (sellOptions?.cashout_currencies || []).map(({ code, name }) => ({
+          id: code,
+          name,
+        }));
+  };
+
+  // Onramp payment methods come from the country config, offramp cashout
+  // methods from the selected fiat currency
+  const getPaymentMethods = (): PaymentMethod[] => {
+    if (isOnrampActive) {
+      return selectedCountry?.paymentMethods || [];
+    }
     return (
-      (isOnrampActive
-        ? buyOptions?.paymentCurrencies
-        : sellOptions?.sell_currencies) || []
+      sellOptions?.cashout_currencies.find(
+        (currency) => currency.code === selectedCurrency?.id
+      )?.cashout_methods || []
     );
   };
 
-  if (loadingBuyOptions) {
+  const error = isOnrampActive ? buyOptionsError : sellOptionsError;
+
+  if (isOnrampActive ? loadingBuyOptions : loadingSellOptions) {
     return (
       <div className="w-full">
         <div className="h-10 w-full bg-gray-200 animate-pulse rounded-lg mb-4"></div>
@@ -71,6 +86,14 @@ export const CurrencySelector = () => {
     );
   }
 
+  if (error) {
+    return (
+      <div className="w-full p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-700">
+        Could not load currencies: {error}
+      </div>
+    );
+  }
+
   return (
     <div className="w-full">
       {/* Currency Selector */}
@@ -80,7 +103,7 @@ export const CurrencySelector = () => {
           className="w-full flex justify-between items-center px-3 py-2 border border-gray-300 rounded-md shadow-sm bg-white text-sm font-medium text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-green-500"
           onClick={() => setCurrencyDropdownOpen(!currencyDropdownOpen)}
         >
-          {rampTransaction?.currency || "Select Currency"}
+          {selectedCurrency?.id || "Select Currency"}
           <svg
             className="h-5 w-5 text-gray-400"
             xmlns="http://www.w3.org/2000/svg"
@@ -112,7 +135,7 @@ export const CurrencySelector = () => {
       </div>
 
       {/* Payment Method Selector */}
-      {selectedCurrency && selectedCountry?.paymentMethods && (
+      {selectedCurrency && getPaymentMethods().length > 0 && (
         <div className="relative">
           <button
             type="button"
@@ -139,7 +162,7 @@ export const CurrencySelector = () => {
 
           {paymentMethodDropdownOpen && (
             <div className="absolute z-10 mt-1 w-full bg-white shadow-lg max-h-60 rounded-md py-1 text-base ring-1 ring-black ring-opacity-5 overflow-auto focus:outline-none sm:text-sm">
-              {(selectedCountry?.paymentMethods || []).map((paymentMethod) => (
+              {getPaymentMethods().map((paymentMethod) => (
                 <div
                   key={paymentMethod.id}
                   className="cursor-pointer select-none relative py-2 pl-3 pr-9 hover:bg-gray-100"
@@ -0,0 +1,142 @@
+"use client";
+
+import { useState } from "react";
+import { DiagnosticCheck, DiagnosticsResponse } from "../types";
+import {
+  diagnosticsResponseSchema,
+  getApiErrorMessage,
+  parseApiResponse,
+} from "../utils/apiSchemas";
+
+const STATUS_ICONS: Record<DiagnosticCheck["status"], string> = {
+  pass: "✓",
+  fail: "✗",
+  skip: "–",
+};
+
+const STATUS_STYLES: Record<DiagnosticCheck["status"], string> = {
+  pass: "text-green-700",
+  fail: "text-red-700",
+  skip: "text-gray-500",
+};
+
+function ChecksTable({ checks }: { checks: DiagnosticCheck[] }) {
+  return (
+    <table className="w-full text-sm border border-gray-200">
+      <thead>
+        <tr className="bg-gray-100 text-left">
+          <th className="p-2">Check</th>
+          <th className="p-2">HTTP</th>
+          <th className="p-2">Latency</th>
+          <th className="p-2">Result</th>
+        </tr>
+      </thead>
+      <tbody>
+        {checks.map((check) => (
+          <tr key={check.id} className="border-b border-gray-200 align-top">
+            <td className="p-2">
+              <span className={`mr-2 ${STATUS_STYLES[check.status]}`}>
+                {STATUS_ICONS[check.status]}
+              </span>
+              {check.name}
+            </td>
+            <td className="p-2 font-mono">{check.httpStatus ?? "–"}</td>
+            <td className="p-2 font-mono">
+              {check.latencyMs !== undefined ? `${check.latencyMs} ms` : "–"}
+            </td>
+            <td className="p-2 break-words">
+              {check.detail}
+              {check.hint && (
+                <div className="mt-1 text-orange-700">{check.hint}</div>
+              )}
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+/**
+ * Runs the live CDP and CORS checks of POST /api/diagnostics and shows the
+ * result of each
+ */
+export default function DiagnosticsPanel() {
+  const [result, setResult] = useState<DiagnosticsResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+
+  const handleRun = async () => {
+    setIsRunning(true);
+    setError(null);
+
+    try {
+      const response = await fetch("/api/diagnostics", { method: "POST" });
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(
+          getApiErrorMessage(errorData, "Failed to run diagnostics")
+        );
+      }
+
+      setResult(
+        parseApiResponse(
+          diagnosticsResponseSchema,
+          await response.json(),
+          "diagnostics"
+        )
+      );
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : "Failed to run diagnostics"
+      );
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const failures = result
+    ? [...result.cdp, ...result.cors].filter(({ status }) => status === "fail")
+        .length
+    : 0;
+
+  return (
+    <div className="space-y-4">
+      <button
+        onClick={handleRun}
+        disabled={isRunning}
+        className="px-4 py-2 rounded-lg bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white font-medium"
+      >
+        {isRunning ? "Running checks..." : "Run diagnostics"}
+      </button>
+
+      {error && (
+        <div className="p-4 bg-red-50 text-red-700 rounded-lg">{error}</div>
+      )}
+
+      {result && (
+        <div className="space-y-4">
+          <p className={failures ? "text-red-700" : "text-green-700"}>
+            {failures
+              ? `${failures} check${failures === 1 ? "" : "s"} failed`
+              : "All checks passed"}
+            <span className="ml-2 text-gray-500">
+              ({new Date(result.ranAt).toLocaleString()}
+              {result.cdpApiBaseUrl && `, against ${result.cdpApiBaseUrl}`})
+            </span>
+          </p>
+
+          <div>
+            <h3 className="font-bold mb-2">CDP API</h3>
+            <ChecksTable checks={result.cdp} />
+          </div>
+
+          <div>
+            <h3 className="font-bold mb-2">CORS</h3>
+            <ChecksTable checks={result.cors} />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
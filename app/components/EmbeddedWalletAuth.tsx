@@ -1,9 +1,16 @@
 "use client";
 
 import { AuthButton } from "@coinbase/cdp-react/components/AuthButton";
-import { useIsSignedIn, useEvmAddress, useSignOut } from "@coinbase/cdp-hooks";
+import {
+  useIsSignedIn,
+  useEvmAddress,
+  useSignEvmMessage,
+  useSignOut,
+} from "@coinbase/cdp-hooks";
 import { useEffect, useState } from "react";
+import { base } from "viem/chains";
 import { useCoinbaseRampTransaction } from "../contexts/CoinbaseRampTransactionContext";
+import { clearSession, signInWithEthereum } from "../queries";
 
 interface EmbeddedWalletAuthProps {
   hideAddress?: boolean;
@@ -19,7 +26,12 @@ export const EmbeddedWalletAuth = ({
   const { isSignedIn } = useIsSignedIn();
   const { evmAddress } = useEvmAddress();
   const { signOut } = useSignOut();
+  const { signEvmMessage } = useSignEvmMessage();
   const [copied, setCopied] = useState(false);
+  // SIWE failures leave the embedded wallet signed in but the app signed
+  // out, so keep the error on screen with a retry
+  const [signInError, setSignInError] = useState<string | null>(null);
+  const [signInAttempt, setSignInAttempt] = useState(0);
 
   const {
     setRampTransaction,
@@ -29,12 +41,36 @@ export const EmbeddedWalletAuth = ({
 
   // Sync authenticated state with embedded wallet
   useEffect(() => {
+    let cancelled = false;
+    setSignInError(null);
+
     if (isSignedIn && evmAddress) {
-      setAuthenticated(true);
-      setRampTransaction({
-        ...rampTransaction,
-        wallet: evmAddress,
-      });
+      // Prove the wallet to the server with SIWE (signed silently by the
+      // embedded wallet) so /api/session will mint tokens for it
+      signInWithEthereum({
+        address: evmAddress,
+        chainId: base.id,
+        signMessage: async (message) =>
+          (await signEvmMessage({ evmAccount: evmAddress, message }))
+            .signature,
+      })
+        .then(() => {
+          // Ignore sign-ins for a wallet that has since signed out or changed
+          if (cancelled) return;
+          setAuthenticated(true);
+          setRampTransaction({
+            ...rampTransaction,
+            wallet: evmAddress,
+          });
+        })
+        .catch((err) => {
+          console.error("Error occurred when authenticating user", err);
+          if (!cancelled) {
+            setSignInError(
+              err instanceof Error ? err.message : "Wallet sign-in failed"
+            );
+          }
+        });
     } else {
       setAuthenticated(false);
       setRampTransaction({
@@ -42,7 +78,11 @@ export const EmbeddedWalletAuth = ({
         wallet: undefined,
       });
     }
-  }, [isSignedIn, evmAddress]);
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isSignedIn, evmAddress, signInAttempt]);
 
   const truncateAddress = (address: string) => {
     if (!address) return "";
@@ -59,6 +99,9 @@ export const EmbeddedWalletAuth = ({
 
   const handleSignOut = async () => {
     await signOut();
+    await clearSession().catch((err) =>
+      console.error("Error occurred when signing out", err)
+    );
     setAuthenticated(false);
     setRampTransaction({
       ...rampTransaction,
@@ -66,9 +109,25 @@ export const EmbeddedWalletAuth = ({
     });
   };
 
+  const signInErrorNotice = signInError && (
+    <div className="flex items-center gap-2 text-sm text-red-600 dark:text-red-400">
+      <span className="max-w-xs truncate" title={signInError}>
+        Sign-in failed: {signInError}
+      </span>
+      <button
+        onClick={() => setSignInAttempt((attempt) => attempt + 1)}
+        className="px-2 py-1 font-medium border border-red-300 dark:border-red-700 rounded-lg hover:bg-red-50 dark:hover:bg-red-900/20 transition-colors"
+      >
+        Retry
+      </button>
+    </div>
+  );
+
   if (isSignedIn && evmAddress && !hideAddress) {
     return (
       <div className="flex items-center gap-3">
+        {signInErrorNotice}
+
         {/* Wallet Address Display */}
         <div className="flex items-center gap-2 px-3 py-2 bg-gray-100 dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700">
           <div className="flex items-center gap-2">
@@ -109,6 +168,7 @@ export const EmbeddedWalletAuth = ({
 
   return (
     <div>
+      {signInErrorNotice}
       <AuthButton className={buttonStyle} />
     </div>
   );
@@ -1,12 +1,10 @@
 "use client";
 
 import React, { useState, useEffect, useCallback } from "react";
-import {
-  FundButton as CoinbaseFundButton,
-  getOnrampBuyUrl,
-} from "@coinbase/onchainkit/fund";
+import { FundButton as CoinbaseFundButton } from "@coinbase/onchainkit/fund";
 import { useAccount } from "wagmi";
 import { useSessionToken } from "../hooks/useSessionToken";
+import { buildRampUrl } from "../utils/rampUtils";
 
 interface FundButtonProps {
   customText?: string;
@@ -54,7 +52,8 @@ export function FundButton({
       // Generate funding URL with session token
       // ✅ When using sessionToken, do NOT include projectId, addresses, or assets
       // They are already encoded in the session token
-      const url = getOnrampBuyUrl({
+      const url = buildRampUrl({
+        type: "onramp",
         sessionToken,
         presetFiatAmount: presetAmount,
         fiatCurrency: "USD",
@@ -4,7 +4,7 @@ import React, { useState, useEffect } from "react";
 import { FundButton } from "@coinbase/onchainkit/fund";
 import { useCoinbaseRampTransaction } from "../contexts/CoinbaseRampTransactionContext";
 import { useAccount } from "wagmi";
-import { getOnrampBuyUrl } from "@coinbase/onchainkit/fund";
+import { buildRampUrl } from "../utils/rampUtils";
 
 // Custom ChevronDown component instead of importing from lucide-react
 const ChevronDown = () => (
@@ -92,15 +92,21 @@ export function FundButtonFeature() {
     console.log("getCustomOnrampUrl called with:", { address, cdpProjectId });
     if (!address || !cdpProjectId) return undefined;
 
-    const url = getOnrampBuyUrl({
-      projectId: cdpProjectId,
-      addresses: { [address]: ["base"] },
-      assets: [selectedAsset],
-      presetFiatAmount: 20,
-      fiatCurrency: "USD",
-    });
-    console.log("Generated onramp URL:", url);
-    return url;
+    try {
+      const url = buildRampUrl({
+        type: "onramp",
+        appId: cdpProjectId,
+        addresses: { [address]: ["base"] },
+        assets: [selectedAsset],
+        presetFiatAmount: 20,
+        fiatCurrency: "USD",
+      });
+      console.log("Generated onramp URL:", url);
+      return url;
+    } catch (error) {
+      console.error("Error generating onramp URL:", error);
+      return undefined;
+    }
   };
 
   return (
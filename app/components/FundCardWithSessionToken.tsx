@@ -3,7 +3,7 @@
 import React, { useState, useEffect, useCallback } from "react";
 import { useCoinbaseRampTransaction } from "../contexts/CoinbaseRampTransactionContext";
 import { useSessionToken } from "../hooks/useSessionToken";
-import { getOnrampBuyUrl } from "@coinbase/onchainkit/fund";
+import { buildRampUrl } from "../utils/rampUtils";
 
 interface FundCardWithSessionTokenProps {
   assetSymbol?: string;
@@ -72,7 +72,8 @@ export function FundCardWithSessionToken({
       // Generate funding URL with session token
       // ✅ When using sessionToken, do NOT include projectId, addresses, or assets
       // They are already encoded in the session token
-      const url = getOnrampBuyUrl({
+      const url = buildRampUrl({
+        type: "onramp",
         sessionToken,
         presetFiatAmount: parseFloat(amount),
         fiatCurrency: currency,
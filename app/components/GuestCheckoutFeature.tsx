@@ -1,17 +1,51 @@
 "use client";
 
-import { useState, useEffect, useCallback, useRef } from "react";
+import { useState, useEffect, useRef } from "react";
 import { useCoinbaseRampTransaction } from "../contexts/CoinbaseRampTransactionContext";
 import confetti from "canvas-confetti";
-
-interface ApplePayOrder {
-  paymentLinkUrl: string;
-  orderId: string;
-  partnerUserRef?: string;
-}
+import Link from "next/link";
+import { useCoinbaseIframeEvents } from "../hooks/useCoinbaseIframeEvents";
+import { useWebhookTransactions } from "../hooks/useWebhookTransactions";
+import CoinbaseIframeEventLog from "./CoinbaseIframeEventLog";
+import PhoneVerification from "./PhoneVerification";
+import { getPhoneVerification } from "../queries";
+import { PhoneVerificationResponse } from "../types";
+import {
+  applePayOrderResponseSchema,
+  getApiErrorMessage,
+  parseApiResponse,
+} from "../utils/apiSchemas";
+import { validateAddressForNetwork } from "../utils/addressValidation";
+import {
+  getStoredApplePayOrders,
+  saveApplePayOrder,
+  StoredApplePayOrder,
+} from "../utils/applePayOrders";
+import {
+  COINBASE_IFRAME_ORIGINS,
+  getCoinbaseIframeErrorMessage,
+  getIframeOrigin,
+  isCoinbaseIframeErrorEvent,
+} from "../utils/coinbaseIframeEvents";
+import { getNetworkExplorerTxUrl } from "../utils/explorers";
+import {
+  getPaySimulatorOrigin,
+  resolveCheckoutUrl,
+} from "../utils/paySimulator";
+import {
+  DEFAULT_GUEST_CHECKOUT_CURRENCY,
+  DEFAULT_GUEST_CHECKOUT_PAYMENT_METHOD,
+  GUEST_CHECKOUT_COUNTRIES,
+  GUEST_CHECKOUT_CURRENCIES,
+  GUEST_CHECKOUT_PAYMENT_METHODS,
+  GuestCheckoutPaymentMethod,
+  GuestCheckoutPaymentMethodId,
+  validateGuestCheckoutPhoneNumber,
+} from "../utils/guestCheckout";
 
 interface TransactionDetails {
   amount: string;
+  currency: string;
   asset: string;
   network: string;
   destinationAddress: string;
@@ -19,29 +53,94 @@ interface TransactionDetails {
   txHash?: string;
 }
 
-export default function ApplePayFeature() {
+interface GuestCheckoutFeatureProps {
+  // Method selected when the form opens; the user can pick another
+  defaultPaymentMethod?: GuestCheckoutPaymentMethodId;
+}
+
+const SUPPORTED_COUNTRY_NAMES = GUEST_CHECKOUT_COUNTRIES.map(
+  ({ name }) => name
+).join(", ");
+
+/**
+ * Headless onramp checkout: creates a guest checkout order (v2 orders API)
+ * for the picked payment method and embeds its payment page
+ */
+export default function GuestCheckoutFeature({
+  defaultPaymentMethod = DEFAULT_GUEST_CHECKOUT_PAYMENT_METHOD,
+}: GuestCheckoutFeatureProps) {
   const { rampTransaction, authenticated } = useCoinbaseRampTransaction();
 
   // Only use embedded wallet address - do not fall back to wagmi wallet
-  // This ensures users must connect with embedded wallet for Apple Pay
+  // This ensures users must connect with embedded wallet for guest checkout
   const address = authenticated ? rampTransaction?.wallet : undefined;
   const isConnected = authenticated && !!rampTransaction?.wallet;
   const [showSuccessModal, setShowSuccessModal] = useState(false);
   const [email, setEmail] = useState("");
   const [phoneNumber, setPhoneNumber] = useState("");
   const [amount, setAmount] = useState("20");
+  const [paymentCurrency, setPaymentCurrency] = useState(
+    DEFAULT_GUEST_CHECKOUT_CURRENCY
+  );
+  const [paymentMethodId, setPaymentMethodId] =
+    useState<GuestCheckoutPaymentMethodId>(defaultPaymentMethod);
   const [asset, setAsset] = useState("USDC");
   const [network, setNetwork] = useState("base");
   const [destinationAddress, setDestinationAddress] = useState("");
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [iframeUrl, setIframeUrl] = useState<string | null>(null);
-  const [eventLogs, setEventLogs] = useState<string[]>([]);
   const [transactionDetails, setTransactionDetails] = useState<TransactionDetails | null>(null);
+  const [phoneVerification, setPhoneVerification] =
+    useState<PhoneVerificationResponse | null>(null);
+  // Recorded when the user ticks the terms box, sent as agreementAcceptedAt
+  const [agreementAcceptedAt, setAgreementAcceptedAt] = useState<
+    string | null
+  >(null);
+
+  // Checked on every change so a network the wallet can't receive on is
+  // flagged before the order is created
+  const addressCheck = destinationAddress
+    ? validateAddressForNetwork(destinationAddress, network)
+    : null;
+  const addressError =
+    addressCheck && !addressCheck.valid ? addressCheck.reason : null;
+  const phoneCheck = phoneNumber
+    ? validateGuestCheckoutPhoneNumber(phoneNumber)
+    : null;
+  const phoneError = phoneCheck && !phoneCheck.valid ? phoneCheck.reason : null;
+  const phoneCurrency = phoneCheck?.valid ? phoneCheck.country.currency : null;
+  const isPhoneVerified =
+    !!phoneCheck?.valid && phoneVerification?.phoneNumber === phoneNumber;
+  const paymentMethod: GuestCheckoutPaymentMethod =
+    GUEST_CHECKOUT_PAYMENT_METHODS.find(({ id }) => id === paymentMethodId) ||
+    GUEST_CHECKOUT_PAYMENT_METHODS[0];
+  const txExplorerUrl = transactionDetails?.txHash
+    ? getNetworkExplorerTxUrl(
+        transactionDetails.network,
+        transactionDetails.txHash
+      )
+    : null;
   const [currentOrderId, setCurrentOrderId] = useState<string | null>(null);
+  const [partnerUserRef, setPartnerUserRef] = useState<string | undefined>();
+  // Orders created in this browser, which can be reopened after the
+  // payment iframe is gone
+  const [storedOrders, setStoredOrders] = useState<StoredApplePayOrder[]>([]);
+
+  useEffect(() => {
+    setStoredOrders(getStoredApplePayOrders());
+  }, []);
+
+  // Server-side order state, delivered by Coinbase webhooks
+  const { transactions: webhookTransactions } =
+    useWebhookTransactions(partnerUserRef);
+  const webhookOrder = webhookTransactions.find(
+    (transaction) => transaction.transactionId === currentOrderId
+  );
 
   // Use refs to avoid useEffect dependencies that cause re-renders
   const amountRef = useRef(amount);
+  const paymentCurrencyRef = useRef(paymentCurrency);
   const assetRef = useRef(asset);
   const networkRef = useRef(network);
   const destinationAddressRef = useRef(destinationAddress);
@@ -50,11 +149,33 @@ export default function ApplePayFeature() {
   // Update refs when values change
   useEffect(() => {
     amountRef.current = amount;
+    paymentCurrencyRef.current = paymentCurrency;
     assetRef.current = asset;
     networkRef.current = network;
     destinationAddressRef.current = destinationAddress;
     currentOrderIdRef.current = currentOrderId;
-  }, [amount, asset, network, destinationAddress, currentOrderId]);
+  }, [
+    amount,
+    paymentCurrency,
+    asset,
+    network,
+    destinationAddress,
+    currentOrderId,
+  ]);
+
+  // A number verified earlier in this browser doesn't need a new code
+  useEffect(() => {
+    getPhoneVerification()
+      .then(setPhoneVerification)
+      .catch((err) => console.error("Error loading phone verification:", err));
+  }, []);
+
+  // Pay in the currency of the phone number's country by default
+  useEffect(() => {
+    if (phoneCurrency) {
+      setPaymentCurrency(phoneCurrency);
+    }
+  }, [phoneCurrency]);
 
   // Update destination address when wallet connects
   useEffect(() => {
@@ -63,52 +184,49 @@ export default function ApplePayFeature() {
     }
   }, [address]);
 
-  // Listen for post message events from the iframe
-  // Use useCallback to create a stable handler that won't cause re-renders
-  const handleMessage = useCallback((event: MessageEvent) => {
-      // Only accept messages from Coinbase
-      if (!event.origin.includes('coinbase.com')) return;
-
-      // Parse the event data if it's a string (Coinbase sends JSON strings)
-      let parsedData;
-      try {
-        parsedData = typeof event.data === 'string' ? JSON.parse(event.data) : event.data;
-      } catch (e) {
-        console.error('Failed to parse postMessage data:', e);
-        return;
-      }
-
-      // Check if parsedData has the expected structure
-      if (!parsedData || typeof parsedData !== 'object') return;
-
-      const { eventName, data } = parsedData;
+  // Events from the payment iframe; only messages from the embedded page's
+  // exact origin are trusted
+  const iframeOrigin = iframeUrl
+    ? getIframeOrigin(iframeUrl) || getPaySimulatorOrigin(iframeUrl)
+    : null;
+  const {
+    events: iframeEvents,
+    on: onIframeEvent,
+    onAny: onAnyIframeEvent,
+    clearEvents: clearIframeEvents,
+  } = useCoinbaseIframeEvents(
+    iframeOrigin ? [iframeOrigin] : COINBASE_IFRAME_ORIGINS
+  );
 
-      // Skip if no eventName
-      if (!eventName) return;
+  useEffect(
+    () =>
+      onAnyIframeEvent((event) => {
+        if (isCoinbaseIframeErrorEvent(event)) {
+          setError(getCoinbaseIframeErrorMessage(event));
+        }
+      }),
+    [onAnyIframeEvent]
+  );
 
-      console.log('✅ Apple Pay Event:', eventName, data);
-      
-      const timestamp = new Date().toLocaleTimeString();
-      const logMessage = `[${timestamp}] ${eventName}${data?.errorMessage ? ` - ${data.errorMessage}` : ''}${data?.errorCode ? ` (${data.errorCode})` : ''}`;
-      
-      setEventLogs(prev => [...prev, logMessage]);
+  useEffect(
+    () => onIframeEvent('onramp_api.commit_success', () => setError(null)),
+    [onIframeEvent]
+  );
 
-      // Handle specific events
-      if (eventName === 'onramp_api.load_error' || eventName === 'onramp_api.commit_error' || eventName === 'onramp_api.polling_error') {
-        setError(data?.errorMessage || 'An error occurred');
-      } else if (eventName === 'onramp_api.commit_success') {
-        setError(null);
-      } else if (eventName === 'onramp_api.polling_success') {
+  useEffect(
+    () =>
+      onIframeEvent('onramp_api.polling_success', (event) => {
         setError(null);
         // Payment successful! Show success message in the same modal
         // Use refs to get current values without causing re-renders
         setTransactionDetails({
           amount: amountRef.current,
+          currency: paymentCurrencyRef.current,
           asset: assetRef.current,
           network: networkRef.current,
           destinationAddress: destinationAddressRef.current,
           orderId: currentOrderIdRef.current || undefined,
-          txHash: data?.txHash || undefined,
+          txHash: event.data?.txHash || undefined,
         });
         setShowSuccessModal(true);
         // Keep payment modal open, but success content will show instead
@@ -139,14 +257,9 @@ export default function ApplePayFeature() {
             requestAnimationFrame(frame);
           }
         }());
-      }
-    }, []); // Empty dependency array - handler is stable and won't re-create
-
-  // Set up the event listener once
-  useEffect(() => {
-    window.addEventListener('message', handleMessage);
-    return () => window.removeEventListener('message', handleMessage);
-  }, [handleMessage]); // Only depends on the stable handleMessage function
+      }),
+    [onIframeEvent]
+  );
 
   const handleCreateOrder = async () => {
     setError(null);
@@ -158,11 +271,23 @@ export default function ApplePayFeature() {
         throw new Error("Please fill in all required fields");
       }
 
-      if (!phoneNumber.match(/^\+1\d{10}$/)) {
-        throw new Error("Phone number must be in format +1XXXXXXXXXX (US only)");
+      if (addressError) {
+        throw new Error(addressError);
+      }
+
+      if (phoneError) {
+        throw new Error(phoneError);
       }
 
-      // Call backend API to create the Apple Pay order
+      if (!isPhoneVerified) {
+        throw new Error("Please verify your phone number");
+      }
+
+      if (!agreementAcceptedAt) {
+        throw new Error("Please accept the terms to continue");
+      }
+
+      // Call backend API to create the guest checkout order
       const response = await fetch('/api/apple-pay/order', {
         method: 'POST',
         headers: {
@@ -175,23 +300,44 @@ export default function ApplePayFeature() {
           asset,
           network,
           destinationAddress,
+          paymentMethod: paymentMethodId,
+          paymentCurrency,
+          agreementAcceptedAt,
         }),
       });
 
       if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.error || 'Failed to create order');
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(
+          getApiErrorMessage(errorData, 'Failed to create order')
+        );
       }
 
-      const data: ApplePayOrder = await response.json();
+      const data = parseApiResponse(
+        applePayOrderResponseSchema,
+        await response.json(),
+        'order'
+      );
 
       // Save order ID for transaction tracking
       setCurrentOrderId(data.orderId);
+      setPartnerUserRef(data.partnerUserRef);
+      saveApplePayOrder({
+        orderId: data.orderId,
+        partnerUserRef: data.partnerUserRef,
+        amount,
+        paymentCurrency,
+        asset,
+        network,
+        createdAt: new Date().toISOString(),
+      });
+      setStoredOrders(getStoredApplePayOrders());
 
-      // Original URL from API
-      const originalUrl = data.paymentLinkUrl;
+      // Original URL from API (the local simulator's when it's enabled)
+      const originalUrl = resolveCheckoutUrl(data.paymentLinkUrl);
 
-      // IMPORTANT: useApplePaySandbox=true is ONLY needed for localhost testing
+      // IMPORTANT: the sandbox param (useApplePaySandbox=true for Apple Pay)
+      // is ONLY needed for localhost testing
       // Per engineering guidance: "Localhost will never work with Apple Pay,
       // to test iframe integration locally add the query param 'useApplePaySandbox=true'"
       //
@@ -200,19 +346,17 @@ export default function ApplePayFeature() {
       const isLocalhost = window.location.hostname === 'localhost' ||
                          window.location.hostname === '127.0.0.1';
 
-      const iframeUrl = isLocalhost
-        ? `${originalUrl}${originalUrl.includes('?') ? '&' : '?'}useApplePaySandbox=true`
+      const sandboxParam = paymentMethod.localhostSandboxParam;
+      const iframeUrl = isLocalhost && sandboxParam
+        ? `${originalUrl}${originalUrl.includes('?') ? '&' : '?'}${sandboxParam}=true`
         : originalUrl;
 
-      console.log('Apple Pay order created successfully');
+      console.log('Guest checkout order created successfully');
       console.log('Environment:', isLocalhost ? 'localhost' : 'production');
       console.log('Payment URL:', iframeUrl);
 
+      clearIframeEvents();
       setIframeUrl(iframeUrl); // Set iframe URL to show natively
-      setEventLogs([
-        `[${new Date().toLocaleTimeString()}] Order created successfully`,
-        `[${new Date().toLocaleTimeString()}] Loading Apple Pay button...`
-      ]);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'An error occurred');
     } finally {
@@ -227,14 +371,26 @@ export default function ApplePayFeature() {
           {/* Info Banner */}
           <div className="mb-8 p-6 bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded-lg">
             <h3 className="font-bold text-blue-900 dark:text-blue-200 mb-3 text-lg">
-              🍎 Apple Pay Onramp - Native Experience
+              Guest Checkout Onramp - Native Experience
             </h3>
             <ul className="text-sm text-blue-800 dark:text-blue-300 space-y-2">
               <li>✓ Fastest onramp experience available</li>
-              <li>✓ US users only (valid US phone number required)</li>
-              <li>✓ Apple Pay button embedded directly in iframe</li>
+              <li>
+                ✓ Pay with{" "}
+                {GUEST_CHECKOUT_PAYMENT_METHODS.map(({ label }) => label).join(
+                  " or "
+                )}
+                , no Coinbase account needed
+              </li>
+              <li>✓ Phone numbers from {SUPPORTED_COUNTRY_NAMES}</li>
+              <li>✓ Payment page embedded directly in iframe</li>
               <li>✓ Sandbox mode enabled for testing (no charges)</li>
-              <li>✓ Localhost testing enabled with useApplePaySandbox=true</li>
+              {paymentMethod.localhostSandboxParam && (
+                <li>
+                  ✓ Localhost testing enabled with{" "}
+                  {paymentMethod.localhostSandboxParam}=true
+                </li>
+              )}
             </ul>
           </div>
 
@@ -244,28 +400,32 @@ export default function ApplePayFeature() {
               📋 Requirements
             </h3>
             <ul className="text-sm text-yellow-800 dark:text-yellow-300 space-y-1">
-              <li>• Email and phone must be verified via OTP (in production)</li>
+              <li>• Phone must be verified with a code sent by SMS</li>
               <li>• Phone must be re-verified every 60 days</li>
-              <li>• Users must accept Coinbase's Terms of Service</li>
-              <li>• For testing: Any valid US phone format (+1XXXXXXXXXX)</li>
+              <li>• Users must accept Coinbase&apos;s Terms of Service</li>
+              <li>
+                • For testing: Any valid phone number in international format
+                (e.g. +12025550123); with SMS_PROVIDER=console the code is
+                printed in the server log
+              </li>
             </ul>
           </div>
 
           {/* Demo Card */}
           <div className="bg-gradient-to-br from-gray-50 to-white dark:from-gray-800 dark:to-gray-900 p-8 rounded-2xl shadow-lg border border-gray-200 dark:border-gray-700">
             <h2 className="text-2xl font-bold mb-6 text-center">
-              Try Apple Pay Onramp
+              Try Guest Checkout
             </h2>
 
             {!isConnected ? (
               <div className="text-center py-12">
                 <div className="p-4 bg-blue-50 border border-blue-200 rounded-lg mb-4 text-left">
                   <p className="text-sm text-blue-800">
-                    <strong>Note:</strong> Apple Pay requires CDP Embedded Wallet. Please sign in with your embedded wallet to continue.
+                    <strong>Note:</strong> Guest checkout requires CDP Embedded Wallet. Please sign in with your embedded wallet to continue.
                   </p>
                 </div>
                 <p className="text-gray-600 dark:text-gray-400 mb-4">
-                  Please connect your embedded wallet to use Apple Pay
+                  Please connect your embedded wallet to use guest checkout
                 </p>
               </div>
             ) : (
@@ -297,7 +457,10 @@ export default function ApplePayFeature() {
                     <div className="bg-gray-50 dark:bg-gray-900 rounded-lg p-4 space-y-3 mb-6 text-left">
                       <div className="flex justify-between">
                         <span className="text-gray-600 dark:text-gray-400">Amount</span>
-                        <span className="font-semibold">${transactionDetails.amount} USD</span>
+                        <span className="font-semibold">
+                          {transactionDetails.amount}{" "}
+                          {transactionDetails.currency}
+                        </span>
                       </div>
                       <div className="flex justify-between">
                         <span className="text-gray-600 dark:text-gray-400">Asset</span>
@@ -330,21 +493,27 @@ export default function ApplePayFeature() {
                       {transactionDetails.txHash && transactionDetails.txHash !== '0x' ? (
                         <div className="flex justify-between items-start">
                           <span className="text-gray-600 dark:text-gray-400">Tx Hash</span>
-                          <a
-                            href={`https://basescan.org/tx/${transactionDetails.txHash}`}
-                            target="_blank"
-                            rel="noopener noreferrer"
-                            className="font-mono text-xs font-semibold text-blue-600 dark:text-blue-400 hover:underline break-all text-right max-w-[300px]"
-                          >
-                            View on BaseScan →
-                          </a>
+                          {txExplorerUrl ? (
+                            <a
+                              href={txExplorerUrl}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="font-mono text-xs font-semibold text-blue-600 dark:text-blue-400 hover:underline break-all text-right max-w-[300px]"
+                            >
+                              View on explorer →
+                            </a>
+                          ) : (
+                            <span className="font-mono text-xs font-semibold break-all text-right max-w-[300px]">
+                              {transactionDetails.txHash}
+                            </span>
+                          )}
                         </div>
                       ) : (
                         <div className="pt-3 border-t border-gray-200 dark:border-gray-700">
                           <p className="text-xs text-gray-500 dark:text-gray-400 italic text-center">
                             In sandbox mode, no real blockchain transaction occurs.
                             <br />
-                            In production, you'll receive a transaction hash here.
+                            In production, you&apos;ll receive a transaction hash here.
                           </p>
                         </div>
                       )}
@@ -360,6 +529,7 @@ export default function ApplePayFeature() {
                         setEmail("");
                         setPhoneNumber("");
                         setAmount("20");
+                        setAgreementAcceptedAt(null);
                       }}
                       className="w-full bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700 text-white font-semibold py-3 px-6 rounded-lg transition-all"
                     >
@@ -367,7 +537,7 @@ export default function ApplePayFeature() {
                     </button>
                   </div>
                 ) : iframeUrl ? (
-                  /* Show Apple Pay iframe natively */
+                  /* Show the payment page iframe natively */
                   <div className="space-y-4">
                     {/* Show error if any */}
                     {error && (
@@ -376,26 +546,51 @@ export default function ApplePayFeature() {
                       </div>
                     )}
 
-                    {/* Apple Pay iframe embedded natively */}
+                    {/* Payment page iframe embedded natively */}
                     <div className="bg-white dark:bg-gray-800 rounded-xl overflow-hidden border border-gray-200 dark:border-gray-700">
                       <iframe
                         src={iframeUrl}
                         className="w-full h-[500px] border-0"
-                        title="Apple Pay Purchase"
+                        title={`${paymentMethod.label} Purchase`}
                         allow="payment"
                         onLoad={() => {
-                          console.log('Apple Pay iframe loaded');
-                          setEventLogs(prev => [...prev, `[${new Date().toLocaleTimeString()}] Apple Pay ready`]);
+                          console.log('Payment iframe loaded');
                           setIsLoading(false);
                         }}
                         onError={(e) => {
                           console.error('Iframe error:', e);
-                          setError('Failed to load Apple Pay. Try refreshing.');
+                          setError('Failed to load the payment page. Try refreshing.');
                           setIsLoading(false);
                         }}
                       />
                     </div>
 
+                    {/* Order status from webhooks */}
+                    <div className="p-3 bg-gray-50 dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg text-sm flex justify-between">
+                      <span className="text-gray-600 dark:text-gray-400">Webhook status</span>
+                      <span className="font-semibold capitalize">
+                        {webhookOrder
+                          ? webhookOrder.status
+                          : "Waiting for first event..."}
+                      </span>
+                    </div>
+
+                    <CoinbaseIframeEventLog
+                      events={iframeEvents}
+                      onClear={clearIframeEvents}
+                    />
+
+                    {partnerUserRef && currentOrderId && (
+                      <Link
+                        href={`/apple-pay/order/${encodeURIComponent(
+                          partnerUserRef
+                        )}?orderId=${encodeURIComponent(currentOrderId)}`}
+                        className="block text-center text-sm text-blue-600 dark:text-blue-400 hover:underline"
+                      >
+                        Track this order on its own page →
+                      </Link>
+                    )}
+
                     {/* Back button */}
                     <button
                       onClick={() => {
@@ -418,6 +613,28 @@ export default function ApplePayFeature() {
                       </div>
                     )}
 
+                    {/* Payment Method */}
+                    <div>
+                      <label className="block text-sm font-medium mb-2">
+                        Payment Method
+                      </label>
+                      <select
+                        value={paymentMethodId}
+                        onChange={(e) =>
+                          setPaymentMethodId(
+                            e.target.value as GuestCheckoutPaymentMethodId
+                          )
+                        }
+                        className="w-full px-4 py-3 border rounded-lg dark:bg-gray-700 dark:border-gray-600 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      >
+                        {GUEST_CHECKOUT_PAYMENT_METHODS.map(({ id, label }) => (
+                          <option key={id} value={id}>
+                            {label}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+
                     {/* Email */}
                     <div>
                       <label className="block text-sm font-medium mb-2">
@@ -435,16 +652,29 @@ export default function ApplePayFeature() {
                     {/* Phone Number */}
                     <div>
                       <label className="block text-sm font-medium mb-2">
-                        Phone Number (US) *
+                        Phone Number *
                       </label>
                       <input
                         type="tel"
                         value={phoneNumber}
                         onChange={(e) => setPhoneNumber(e.target.value)}
-                        placeholder="+12345678901"
+                        placeholder="+12025550123"
                         className="w-full px-4 py-3 border rounded-lg dark:bg-gray-700 dark:border-gray-600 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                       />
-                      <p className="text-xs text-gray-500 mt-1">Format: +1XXXXXXXXXX</p>
+                      {phoneError ? (
+                        <p className="text-xs text-red-600 mt-1">
+                          {phoneError}
+                        </p>
+                      ) : (
+                        <p className="text-xs text-gray-500 mt-1">
+                          International format, from {SUPPORTED_COUNTRY_NAMES}
+                        </p>
+                      )}
+                      <PhoneVerification
+                        phoneNumber={phoneCheck?.valid ? phoneNumber : null}
+                        verification={phoneVerification}
+                        onVerified={setPhoneVerification}
+                      />
                     </div>
 
                     {/* Destination Address */}
@@ -459,20 +689,40 @@ export default function ApplePayFeature() {
                         placeholder="0x..."
                         className="w-full px-4 py-3 border rounded-lg dark:bg-gray-700 dark:border-gray-600 bg-gray-50 dark:bg-gray-800 cursor-not-allowed font-mono text-sm"
                       />
-                      <p className="text-xs text-gray-500 mt-1">Using your connected wallet address</p>
+                      {addressError ? (
+                        <p className="text-xs text-red-600 mt-1">
+                          {addressError}
+                        </p>
+                      ) : (
+                        <p className="text-xs text-gray-500 mt-1">Using your connected wallet address</p>
+                      )}
                     </div>
 
                     {/* Amount */}
                     <div>
                       <label className="block text-sm font-medium mb-2">
-                        Amount (USD)
+                        Amount ({paymentCurrency})
                       </label>
-                      <input
-                        type="number"
-                        value={amount}
-                        onChange={(e) => setAmount(e.target.value)}
-                        className="w-full px-4 py-3 border rounded-lg dark:bg-gray-700 dark:border-gray-600 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                      />
+                      <div className="flex gap-2">
+                        <input
+                          type="number"
+                          value={amount}
+                          onChange={(e) => setAmount(e.target.value)}
+                          className="w-full px-4 py-3 border rounded-lg dark:bg-gray-700 dark:border-gray-600 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                        />
+                        <select
+                          value={paymentCurrency}
+                          onChange={(e) => setPaymentCurrency(e.target.value)}
+                          aria-label="Payment currency"
+                          className="px-4 py-3 border rounded-lg dark:bg-gray-700 dark:border-gray-600 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                        >
+                          {GUEST_CHECKOUT_CURRENCIES.map((currency) => (
+                            <option key={currency} value={currency}>
+                              {currency}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
                     </div>
 
                     {/* Asset */}
@@ -508,7 +758,9 @@ export default function ApplePayFeature() {
                       <div className="grid grid-cols-2 gap-4 text-sm">
                         <div>
                           <span className="text-gray-600 dark:text-gray-400">Amount:</span>
-                          <span className="ml-2 font-medium">${amount} USD</span>
+                          <span className="ml-2 font-medium">
+                            {amount} {paymentCurrency}
+                          </span>
                         </div>
                         <div>
                           <span className="text-gray-600 dark:text-gray-400">Asset:</span>
@@ -518,6 +770,12 @@ export default function ApplePayFeature() {
                           <span className="text-gray-600 dark:text-gray-400">Network:</span>
                           <span className="ml-2 font-medium capitalize">{network}</span>
                         </div>
+                        <div>
+                          <span className="text-gray-600 dark:text-gray-400">Method:</span>
+                          <span className="ml-2 font-medium">
+                            {paymentMethod.label}
+                          </span>
+                        </div>
                         <div>
                           <span className="text-gray-600 dark:text-gray-400">Mode:</span>
                           <span className="ml-2 font-medium text-green-600">Sandbox</span>
@@ -525,14 +783,85 @@ export default function ApplePayFeature() {
                       </div>
                     </div>
 
+                    {/* Terms */}
+                    <label className="flex items-start gap-2 text-sm">
+                      <input
+                        type="checkbox"
+                        checked={!!agreementAcceptedAt}
+                        onChange={(e) =>
+                          setAgreementAcceptedAt(
+                            e.target.checked ? new Date().toISOString() : null
+                          )
+                        }
+                        className="mt-1"
+                      />
+                      <span>
+                        I accept the Coinbase{" "}
+                        <a
+                          href="https://www.coinbase.com/legal/user_agreement"
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="text-blue-600 dark:text-blue-400 hover:underline"
+                        >
+                          User Agreement
+                        </a>{" "}
+                        and{" "}
+                        <a
+                          href="https://www.coinbase.com/legal/privacy"
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="text-blue-600 dark:text-blue-400 hover:underline"
+                        >
+                          Privacy Policy
+                        </a>
+                      </span>
+                    </label>
+
                     {/* Action Button */}
                     <button
                       onClick={handleCreateOrder}
-                      disabled={isLoading || !email || !phoneNumber || !destinationAddress}
+                      disabled={
+                        isLoading ||
+                        !email ||
+                        !phoneNumber ||
+                        !destinationAddress ||
+                        !!addressError ||
+                        !!phoneError ||
+                        !isPhoneVerified ||
+                        !agreementAcceptedAt
+                      }
                       className="w-full bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700 disabled:from-gray-400 disabled:to-gray-400 text-white font-semibold py-4 px-6 rounded-xl transition-all transform hover:scale-[1.02] disabled:scale-100 shadow-lg disabled:cursor-not-allowed"
                     >
-                      {isLoading ? "Creating Order..." : "Add Funds with Apple Pay"}
+                      {isLoading
+                        ? "Creating Order..."
+                        : `Add Funds with ${paymentMethod.label}`}
                     </button>
+
+                    {/* Orders that can be resumed */}
+                    {storedOrders.length > 0 && (
+                      <div className="pt-4 border-t border-gray-200 dark:border-gray-700">
+                        <h4 className="text-sm font-medium mb-2">
+                          Previous orders
+                        </h4>
+                        <ul className="space-y-1 text-sm">
+                          {storedOrders.map((order) => (
+                            <li key={order.partnerUserRef}>
+                              <Link
+                                href={`/apple-pay/order/${encodeURIComponent(
+                                  order.partnerUserRef
+                                )}`}
+                                className="text-blue-600 dark:text-blue-400 hover:underline"
+                              >
+                                {order.amount} {order.paymentCurrency} of{" "}
+                                {order.asset} on{" "}
+                                {order.network} ·{" "}
+                                {new Date(order.createdAt).toLocaleString()}
+                              </Link>
+                            </li>
+                          ))}
+                        </ul>
+                      </div>
+                    )}
                   </>
                 )}
               </div>
@@ -10,6 +10,17 @@ import {
 } from "../utils/offrampApi";
 import { useSearchParams } from "next/navigation";
 import OfframpNotification from "./OfframpNotification";
+import OfframpInstructionsModal from "./OfframpInstructionsModal";
+import { usePersistedRampState } from "../hooks/usePersistedRampState";
+import { RampState } from "../utils/rampState";
+import {
+  getApiErrorMessage,
+  parseApiResponse,
+  sellQuoteResponseSchema,
+} from "../utils/apiSchemas";
+import { validateAddressForNetwork } from "../utils/addressValidation";
+import { resolveCheckoutUrl } from "../utils/paySimulator";
+import { buildRampUrl } from "../utils/rampUtils";
 
 // Define types for the modal component
 interface SimpleModalProps {
@@ -192,6 +203,17 @@ const US_STATES = [
   { code: "DC", name: "District of Columbia" },
 ];
 
+// Selections used when neither the URL nor localStorage has one
+const OFFRAMP_DEFAULTS: RampState = {
+  asset: "USDC",
+  network: "base",
+  amount: "10",
+  country: "US",
+  subdivision: "CA",
+  paymentMethod: "",
+  currency: "USD",
+};
+
 export default function OfframpFeature() {
   const { rampTransaction, authenticated } = useCoinbaseRampTransaction();
 
@@ -199,19 +221,46 @@ export default function OfframpFeature() {
   // This ensures users must connect with embedded wallet for offramp
   const address = authenticated ? rampTransaction?.wallet : undefined;
   const isConnected = authenticated && !!rampTransaction?.wallet;
-  const [selectedAsset, setSelectedAsset] = useState("USDC");
-  const [amount, setAmount] = useState("10");
-  const [selectedNetwork, setSelectedNetwork] = useState("base");
+
+  // Selections are kept in the URL and localStorage so links can be shared
+  const {
+    state: rampState,
+    update: updateRampState,
+    restored,
+    validateRestored,
+  } = usePersistedRampState("offramp", OFFRAMP_DEFAULTS);
+  const {
+    asset: selectedAsset,
+    amount,
+    network: selectedNetwork,
+    country: selectedCountry,
+    subdivision: selectedSubdivision,
+    currency: selectedCashoutCurrency,
+    paymentMethod: selectedCashoutMethod,
+  } = rampState;
+  const setSelectedAsset = (asset: string) => updateRampState({ asset });
+  const setAmount = (value: string) => updateRampState({ amount: value });
+  const setSelectedNetwork = (network: string) =>
+    updateRampState({ network });
+
+  // Crypto is sent from the embedded (EVM) wallet, so the sell network has
+  // to accept its address
+  const addressCheck = address
+    ? validateAddressForNetwork(address, selectedNetwork)
+    : null;
+  const addressError =
+    addressCheck && !addressCheck.valid ? addressCheck.reason : null;
+  const setSelectedSubdivision = (subdivision: string) =>
+    updateRampState({ subdivision });
+  const setSelectedCashoutMethod = (paymentMethod: string) =>
+    updateRampState({ paymentMethod });
+
   const [showAdvanced, setShowAdvanced] = useState(false);
   const [generatedUrl, setGeneratedUrl] = useState("");
   const [showUrlModal, setShowUrlModal] = useState(false);
-  const [selectedCountry, setSelectedCountry] = useState("US");
-  const [selectedSubdivision, setSelectedSubdivision] = useState("CA");
   const [availableAssets, setAvailableAssets] = useState<CryptoAsset[]>([]);
   const [availableNetworks, setAvailableNetworks] = useState<Network[]>([]);
   const [isLoading, setIsLoading] = useState(false);
-  const [selectedCashoutCurrency, setSelectedCashoutCurrency] = useState("USD");
-  const [selectedCashoutMethod, setSelectedCashoutMethod] = useState("");
   const [cashoutMethods, setCashoutMethods] = useState<CashoutMethodOption[]>(
     []
   );
@@ -310,6 +359,7 @@ export default function OfframpFeature() {
   const [activeTab, setActiveTab] = useState<"api" | "url">("api");
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
   const [showNotification, setShowNotification] = useState<boolean>(false);
+  const [showSendStep, setShowSendStep] = useState(false);
 
   // Data states
   const [countries, setCountries] = useState<Country[]>([]);
@@ -362,6 +412,14 @@ export default function OfframpFeature() {
     }
   }, [status, searchParams]);
 
+  // Returning from Coinbase: the sell is only complete once the crypto is
+  // sent, so continue with the send step
+  useEffect(() => {
+    if (status && isConnected) {
+      setShowSendStep(true);
+    }
+  }, [status, isConnected]);
+
   // Fetch countries on component mount
   useEffect(() => {
     const fetchCountries = async () => {
@@ -384,11 +442,82 @@ export default function OfframpFeature() {
     fetchCountries();
   }, []);
 
+  // Reset restored selections (e.g. from a shared link) that the sell
+  // config doesn't offer; assets, networks and cashout options are checked
+  // when the sell options load
+  useEffect(() => {
+    if (countries.length === 0) return;
+
+    let countrySubdivisions: string[] | undefined = [];
+    if (selectedCountry === "US") {
+      countrySubdivisions = subdivisions.length > 0 ? subdivisions : undefined;
+    }
+    validateRestored({
+      countries: countries.map((country) => country.code),
+      subdivisions: countrySubdivisions,
+    });
+  }, [countries, subdivisions, selectedCountry, validateRestored]);
+
   // Fetch assets and networks when country or subdivision changes
   useEffect(() => {
-    if (!selectedCountry) return;
+    if (!restored || !selectedCountry) return;
     fetchAssets();
-  }, [selectedCountry, selectedSubdivision]);
+  }, [restored, selectedCountry, selectedSubdivision]);
+
+  // Applies sell options, keeping the current selections they still offer
+  const applySellOptions = (
+    sellCurrencies: CryptoAsset[],
+    fiatCurrencies: FiatCurrency[]
+  ) => {
+    const selection: Partial<RampState> = {};
+
+    if (sellCurrencies.length > 0) {
+      setAvailableAssets(sellCurrencies);
+
+      // Keep the selected asset if offered, otherwise prefer USDC
+      const asset =
+        sellCurrencies.find((a) => a.code === selectedAsset) ||
+        sellCurrencies.find((a) => a.code === "USDC") ||
+        sellCurrencies[0];
+      selection.asset = asset.code;
+
+      // Show our predefined networks that are compatible with the asset
+      const mergedNetworks = networks.filter((network) =>
+        assetNetworkMap[asset.code]?.includes(network.id)
+      );
+      setAvailableNetworks(mergedNetworks);
+
+      if (!mergedNetworks.some((network) => network.id === selectedNetwork)) {
+        selection.network =
+          assetNetworkMap[asset.code]?.[0] || mergedNetworks[0]?.id || "";
+      }
+    }
+
+    if (fiatCurrencies.length > 0) {
+      setCashoutCurrencies(fiatCurrencies);
+
+      // Keep the selected cashout currency if offered, otherwise prefer USD
+      const currency =
+        fiatCurrencies.find((c) => c.code === selectedCashoutCurrency) ||
+        fiatCurrencies.find((c) => c.code === "USD") ||
+        fiatCurrencies[0];
+      selection.currency = currency.code;
+
+      const methods = currency.cashout_methods || [];
+      if (methods.length > 0) {
+        setCashoutMethods(methods);
+
+        // Keep the selected method if offered, otherwise prefer ACH
+        const method =
+          methods.find((m) => m.id === selectedCashoutMethod) ||
+          methods.find((m) => m.id === "ACH_BANK_ACCOUNT") ||
+          methods[0];
+        selection.paymentMethod = method.id;
+      }
+    }
+
+    updateRampState(selection);
+  };
 
   // Fetch assets and networks from API
   const fetchAssets = async () => {
@@ -398,118 +527,14 @@ export default function OfframpFeature() {
         selectedCountry,
         selectedSubdivision
       );
-
-      // Set available assets from API response
-      if (options.sell_currencies && options.sell_currencies.length > 0) {
-        setAvailableAssets(options.sell_currencies);
-
-        // Check if USDC is available in the response
-        const usdcAsset = options.sell_currencies.find(
-          (a) => a.code === "USDC"
-        );
-
-        // Only update the selected asset if USDC is not available
-        if (!usdcAsset) {
-          const initialAsset = options.sell_currencies[0].code;
-          setSelectedAsset(initialAsset);
-
-          // Find networks for the selected asset from API response
-          const assetNetworksFromApi =
-            options.sell_currencies.find((a) => a.code === initialAsset)
-              ?.networks || [];
-
-          // Merge API networks with our predefined networks to ensure we have all needed networks
-          const mergedNetworks = networks.filter((network) =>
-            assetNetworkMap[initialAsset]?.includes(network.id)
-          );
-
-          setAvailableNetworks(mergedNetworks);
-
-          // Set initial network that's compatible with the asset
-          if (
-            assetNetworkMap[initialAsset] &&
-            assetNetworkMap[initialAsset].length > 0
-          ) {
-            setSelectedNetwork(assetNetworkMap[initialAsset][0]);
-          } else if (mergedNetworks.length > 0) {
-            setSelectedNetwork(mergedNetworks[0].id);
-          }
-        } else {
-          // USDC is available, ensure we have the correct networks for it
-          const mergedNetworks = networks.filter((network) =>
-            assetNetworkMap["USDC"]?.includes(network.id)
-          );
-
-          setAvailableNetworks(mergedNetworks);
-
-          // Keep Base as the selected network if it's compatible with USDC
-          if (!assetNetworkMap["USDC"]?.includes("base")) {
-            // If Base is not compatible with USDC, select the first compatible network
-            setSelectedNetwork(assetNetworkMap["USDC"][0]);
-          }
-        }
-      }
-
-      // Set available cashout methods from API response
-      if (options.cashout_currencies && options.cashout_currencies.length > 0) {
-        setCashoutCurrencies(options.cashout_currencies);
-
-        // Prefer USD as the cashout currency
-        const usdCurrency =
-          options.cashout_currencies.find((c) => c.code === "USD") ||
-          options.cashout_currencies[0];
-        setSelectedCashoutCurrency(usdCurrency.code);
-
-        // Set available cashout methods for the selected currency
-        if (
-          usdCurrency.cashout_methods &&
-          usdCurrency.cashout_methods.length > 0
-        ) {
-          setCashoutMethods(usdCurrency.cashout_methods);
-
-          // Prefer ACH_BANK_ACCOUNT as the cashout method for USD
-          const achMethod = usdCurrency.cashout_methods.find(
-            (m) => m.id === "ACH_BANK_ACCOUNT"
-          );
-          setSelectedCashoutMethod(
-            achMethod ? achMethod.id : usdCurrency.cashout_methods[0].id
-          );
-        }
-      }
+      applySellOptions(
+        options.sell_currencies || [],
+        options.cashout_currencies || []
+      );
     } catch (error) {
       console.error("Error fetching sell options:", error);
       // Use default values if API fails
-      setAvailableAssets(defaultAssets);
-
-      // Set USDC as the default asset
-      setSelectedAsset("USDC");
-
-      // Set networks for USDC
-      const mergedNetworks = networks.filter((network) =>
-        assetNetworkMap["USDC"]?.includes(network.id)
-      );
-      setAvailableNetworks(mergedNetworks);
-
-      // Set Base as the default network
-      setSelectedNetwork("base");
-
-      // Set default cashout currencies and methods
-      setCashoutCurrencies(defaultCashoutCurrencies);
-      setSelectedCashoutCurrency("USD");
-
-      // Find ACH_BANK_ACCOUNT method for USD
-      const usdCurrency = defaultCashoutCurrencies.find(
-        (c) => c.code === "USD"
-      );
-      if (usdCurrency && usdCurrency.cashout_methods) {
-        setCashoutMethods(usdCurrency.cashout_methods);
-        const achMethod = usdCurrency.cashout_methods.find(
-          (m) => m.id === "ACH_BANK_ACCOUNT"
-        );
-        setSelectedCashoutMethod(
-          achMethod ? achMethod.id : usdCurrency.cashout_methods[0].id
-        );
-      }
+      applySellOptions(defaultAssets, defaultCashoutCurrencies);
     } finally {
       setIsLoading(false);
     }
@@ -521,10 +546,11 @@ export default function OfframpFeature() {
     if (assetNetworkMap[selectedAsset]) {
       const compatibleNetworks = assetNetworkMap[selectedAsset];
       if (!compatibleNetworks.includes(selectedNetwork)) {
-        setSelectedNetwork(compatibleNetworks[0]); // Set to first compatible network
+        // Set to first compatible network
+        updateRampState({ network: compatibleNetworks[0] });
       }
     }
-  }, [selectedAsset, selectedNetwork]);
+  }, [selectedAsset, selectedNetwork, updateRampState]);
 
   // Handle asset change
   const handleAssetChange = (assetCode: string) => {
@@ -563,6 +589,11 @@ export default function OfframpFeature() {
       return;
     }
 
+    if (addressError) {
+      setErrorMessage(addressError);
+      return;
+    }
+
     if (!isConnected) {
       setErrorMessage("Please connect your embedded wallet first");
       return;
@@ -602,17 +633,19 @@ export default function OfframpFeature() {
 
       // Build offramp URL with session token and default values
       // This shows the input/validation screen instead of skipping to confirmation
-      const offrampUrl = new URL('https://pay.coinbase.com/v3/sell/input');
-      offrampUrl.searchParams.set('sessionToken', sessionToken);
-      offrampUrl.searchParams.set('partnerUserId', address.substring(0, 49));
-      offrampUrl.searchParams.set('redirectUrl', `${window.location.origin}/offramp`);
-      offrampUrl.searchParams.set('defaultAsset', selectedAsset);
-      offrampUrl.searchParams.set('defaultNetwork', selectedNetwork);
-      offrampUrl.searchParams.set('defaultCashoutMethod', selectedCashoutMethod);
-      offrampUrl.searchParams.set('fiatCurrency', selectedCashoutCurrency);
+      const offrampUrl = buildRampUrl({
+        type: 'offramp',
+        sessionToken,
+        partnerUserId: address.substring(0, 49),
+        redirectUrl: `${window.location.origin}/offramp`,
+        defaultAsset: selectedAsset,
+        defaultNetwork: selectedNetwork,
+        defaultCashoutMethod: selectedCashoutMethod,
+        fiatCurrency: selectedCashoutCurrency,
+      });
 
       console.log("🚀 Opening Coinbase offramp page...");
-      console.log("📝 Offramp URL with validation:", offrampUrl.toString());
+      console.log("📝 Offramp URL with validation:", offrampUrl);
       console.log("ℹ️  URL includes: sessionToken, defaultAsset, defaultNetwork, defaultPaymentMethod");
       console.log("\n═══════════════════════════════════════════════════════");
       console.log("⚠️  CRITICAL: Offramp Transaction Requirements");
@@ -631,7 +664,7 @@ export default function OfframpFeature() {
       console.log("═══════════════════════════════════════════════════════\n");
 
       // Open the offramp URL
-      window.open(offrampUrl.toString(), "_blank");
+      window.open(resolveCheckoutUrl(offrampUrl), "_blank");
     } catch (error) {
       console.error('Error creating offramp:', error);
       setErrorMessage(error instanceof Error ? error.message : 'Failed to create offramp. Please try again.');
@@ -652,6 +685,11 @@ export default function OfframpFeature() {
       return;
     }
 
+    if (addressError) {
+      setErrorMessage(addressError);
+      return;
+    }
+
     if (!selectedCashoutMethod) {
       setErrorMessage("Please select a cashout method");
       return;
@@ -683,12 +721,19 @@ export default function OfframpFeature() {
       if (!response.ok) {
         const error = await response.json();
         console.error('Sell Quote API error response:', error);
-        const errorMsg = error.details || error.error || 'Failed to generate offramp quote';
+        const errorMsg = getApiErrorMessage(
+          error,
+          'Failed to generate offramp quote'
+        );
         const hint = error.hint ? `\n${error.hint}` : '';
         throw new Error(errorMsg + hint);
       }
 
-      const data = await response.json();
+      const data = parseApiResponse(
+        sellQuoteResponseSchema,
+        await response.json(),
+        'sell quote'
+      );
 
       console.log('✅ Sell quote response received for URL generation:', data);
 
@@ -700,7 +745,7 @@ export default function OfframpFeature() {
       console.log("✨ Generated offramp URL:", data.offramp_url);
       console.log("💡 Note: Recipients will need actual", selectedAsset, "in their wallet to complete this transaction");
 
-      setGeneratedUrl(data.offramp_url);
+      setGeneratedUrl(resolveCheckoutUrl(data.offramp_url));
       setShowUrlModal(true);
     } catch (error) {
       console.error('Error generating offramp URL:', error);
@@ -819,11 +864,13 @@ export default function OfframpFeature() {
                 <div className="relative">
                   <select
                     value={selectedCountry}
-                    onChange={(e) => {
-                      setSelectedCountry(e.target.value);
+                    onChange={(e) =>
                       // Reset subdivision when country changes
-                      setSelectedSubdivision("");
-                    }}
+                      updateRampState({
+                        country: e.target.value,
+                        subdivision: "",
+                      })
+                    }
                     className="block w-full bg-white border border-gray-300 rounded-lg py-3 px-4 pr-8 appearance-none focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent text-gray-800"
                   >
                     {countries.map((country) => (
@@ -945,6 +992,11 @@ export default function OfframpFeature() {
                     {assetNetworkMap[selectedAsset].length > 1 ? "s" : ""}
                   </p>
                 )}
+                {addressError && (
+                  <p className="text-sm text-red-600 mt-1">
+                    {addressError}. Choose a network your wallet supports.
+                  </p>
+                )}
               </div>
 
               {/* Amount Input */}
@@ -1072,9 +1124,9 @@ export default function OfframpFeature() {
               {/* Action Button */}
               <button
                 onClick={activeTab === "api" ? handleOfframp : handleGenerateUrl}
-                disabled={!isConnected || isGeneratingToken}
+                disabled={!isConnected || isGeneratingToken || !!addressError}
                 className={`w-full font-medium py-3 px-4 rounded-lg transition-all shadow-md hover:shadow-lg ${
-                  !isConnected || isGeneratingToken
+                  !isConnected || isGeneratingToken || addressError
                     ? "bg-gray-300 text-gray-500 cursor-not-allowed"
                     : "bg-blue-600 hover:bg-blue-700 text-white"
                 }`}
@@ -1115,6 +1167,14 @@ export default function OfframpFeature() {
                   <p className="text-gray-500 text-sm">
                     A simple button that opens the Coinbase Offramp flow
                   </p>
+                  {isConnected && (
+                    <button
+                      onClick={() => setShowSendStep(true)}
+                      className="mt-4 text-purple-600 hover:underline text-sm"
+                    >
+                      Already sold on Coinbase? Send your crypto
+                    </button>
+                  )}
                 </div>
               ) : (
                 <div className="space-y-4">
@@ -1213,6 +1273,18 @@ export default function OfframpFeature() {
         />
       )}
 
+      {/* Send crypto to Coinbase to complete the sell */}
+      {showSendStep && address && (
+        <OfframpInstructionsModal
+          onClose={() => setShowSendStep(false)}
+          asset={selectedAsset}
+          network={selectedNetwork}
+          evmAddress={address as `0x${string}`}
+          partnerUserId={address.substring(0, 49)}
+          assets={availableAssets}
+        />
+      )}
+
       {/* Notification */}
       {showNotification && (
         <OfframpNotification
@@ -1,18 +1,105 @@
 "use client";
 
-import React from "react";
+import React, { useCallback, useEffect, useState } from "react";
+import { useSendEvmTransaction } from "@coinbase/cdp-hooks";
+import type { Chain } from "viem";
+import { CryptoAsset, fetchPendingSellTransaction } from "../utils/offrampApi";
+import {
+  buildOfframpTransfer,
+  getExplorerTxUrl,
+} from "../utils/offrampTransfer";
+import { PendingSellTransaction } from "../types";
 
 interface OfframpInstructionsModalProps {
   onClose: () => void;
   asset: string;
   network: string;
+  // Embedded wallet that sends the crypto
+  evmAddress: `0x${string}`;
+  // partnerUserId the offramp URL was opened with
+  partnerUserId: string;
+  // Sell options, used to look up token contracts
+  assets: CryptoAsset[];
 }
 
+/**
+ * Final offramp step: sends the crypto for the pending sell transaction to
+ * the Coinbase deposit address from the embedded wallet and tracks the
+ * on-chain confirmation
+ */
 export default function OfframpInstructionsModal({
   onClose,
   asset,
   network,
+  evmAddress,
+  partnerUserId,
+  assets,
 }: OfframpInstructionsModalProps) {
+  const { sendEvmTransaction, data: sendState } = useSendEvmTransaction();
+  const [pending, setPending] = useState<PendingSellTransaction | null>(null);
+  const [isLoadingPending, setIsLoadingPending] = useState(true);
+  const [isSending, setIsSending] = useState(false);
+  const [sendChain, setSendChain] = useState<Chain | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadPending = useCallback(async () => {
+    setIsLoadingPending(true);
+    setError(null);
+    try {
+      const { transaction } = await fetchPendingSellTransaction(partnerUserId);
+      setPending(transaction);
+    } catch (err) {
+      console.error("Failed to load pending sell transaction:", err);
+      setError(
+        err instanceof Error ? err.message : "Failed to load sell transaction"
+      );
+    } finally {
+      setIsLoadingPending(false);
+    }
+  }, [partnerUserId]);
+
+  useEffect(() => {
+    loadPending();
+  }, [loadPending]);
+
+  const handleSend = async () => {
+    if (!pending) return;
+
+    setError(null);
+    setIsSending(true);
+    try {
+      const contractAddress = assets
+        .find((a) => a.code === pending.asset)
+        ?.networks.find((n) => n.id === pending.network)?.contractAddress;
+      const { chain, options } = await buildOfframpTransfer(
+        pending,
+        evmAddress,
+        contractAddress
+      );
+      setSendChain(chain);
+      await sendEvmTransaction(options);
+    } catch (err) {
+      console.error("Failed to send offramp transfer:", err);
+      setError(err instanceof Error ? err.message : "Failed to send crypto");
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const txHash =
+    sendState.status === "pending"
+      ? sendState.hash
+      : sendState.status === "success"
+        ? sendState.receipt.transactionHash
+        : undefined;
+  const explorerUrl =
+    sendChain && txHash && getExplorerTxUrl(sendChain, txHash);
+  const isConfirmed =
+    sendState.status === "success" && sendState.receipt.status === "success";
+  const isReverted =
+    sendState.status === "success" && sendState.receipt.status === "reverted";
+  const hasSent = sendState.status === "pending" || isConfirmed;
+
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
       <div className="bg-white rounded-xl shadow-xl max-w-2xl w-full p-6 relative">
@@ -59,29 +146,62 @@ export default function OfframpInstructionsModal({
         </div>
 
         <div className="space-y-4 text-gray-700">
-          <p>
-            After clicking "Cash out now" in the Coinbase interface, you need to
-            complete these steps:
-          </p>
+          {isLoadingPending ? (
+            <p>Looking up your Coinbase sell transaction...</p>
+          ) : pending ? (
+            <>
+              <p>
+                Send{" "}
+                <strong>
+                  {pending.amount} {pending.asset}
+                </strong>{" "}
+                on the <strong>{pending.network} network</strong> to the
+                Coinbase deposit address below within{" "}
+                <strong>15 minutes</strong>, or the offramp request will expire.
+              </p>
+              <div className="bg-gray-50 p-3 rounded-lg font-mono text-sm break-all">
+                {pending.toAddress}
+              </div>
+
+              {sendState.status === "pending" && (
+                <p className="text-blue-700">
+                  Transaction sent, waiting for confirmation...
+                </p>
+              )}
+              {isConfirmed && (
+                <p className="text-green-700">
+                  Confirmed in block {sendState.receipt.blockNumber.toString()}.
+                  Coinbase will process your cashout once it receives the funds.
+                </p>
+              )}
+              {isReverted && (
+                <p className="text-red-700">
+                  The transaction failed on-chain. No funds were sent; you can
+                  try again.
+                </p>
+              )}
+              {sendState.status === "error" && (
+                <p className="text-red-700">{sendState.error.message}</p>
+              )}
+              {explorerUrl && (
+                <a
+                  href={explorerUrl}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-purple-600 hover:underline text-sm"
+                >
+                  View transaction
+                </a>
+              )}
+            </>
+          ) : (
+            <p>
+              No sell transaction is waiting for your {asset} on {network} yet.
+              Finish the sell on Coinbase, then check again.
+            </p>
+          )}
 
-          <ol className="list-decimal pl-5 space-y-2">
-            <li>
-              <strong>Send your {asset}</strong> to the Coinbase address shown
-              in the interface.
-            </li>
-            <li>
-              Make sure to send it on the <strong>{network} network</strong> as
-              selected.
-            </li>
-            <li>
-              Complete this transaction within <strong>15 minutes</strong>, or
-              the offramp request will expire.
-            </li>
-            <li>
-              Once Coinbase receives and confirms your transaction, they will
-              process your cashout.
-            </li>
-          </ol>
+          {error && <p className="text-red-700">{error}</p>}
 
           <div className="bg-yellow-50 p-4 rounded-lg mt-4">
             <div className="flex">
@@ -114,12 +234,31 @@ export default function OfframpInstructionsModal({
           </div>
         </div>
 
-        <div className="mt-6 flex justify-center">
+        <div className="mt-6 flex justify-center gap-3">
+          {pending && !hasSent && (
+            <button
+              onClick={handleSend}
+              disabled={isSending}
+              className="px-6 py-2 bg-purple-600 hover:bg-purple-700 disabled:opacity-50 text-white font-medium rounded-lg transition-colors"
+            >
+              {isSending
+                ? "Sending..."
+                : `Send ${pending.amount} ${pending.asset}`}
+            </button>
+          )}
+          {!pending && !isLoadingPending && (
+            <button
+              onClick={loadPending}
+              className="px-6 py-2 bg-purple-600 hover:bg-purple-700 text-white font-medium rounded-lg transition-colors"
+            >
+              Check again
+            </button>
+          )}
           <button
             onClick={onClose}
-            className="px-6 py-2 bg-purple-600 hover:bg-purple-700 text-white font-medium rounded-lg transition-colors"
+            className="px-6 py-2 bg-gray-100 hover:bg-gray-200 text-gray-800 font-medium rounded-lg transition-colors"
           >
-            I Understand
+            {isConfirmed ? "Done" : "Close"}
           </button>
         </div>
       </div>
@@ -2,10 +2,13 @@
 
 import React, { useState, useEffect, useMemo } from "react";
 import { useCoinbaseRampTransaction } from "../contexts/CoinbaseRampTransactionContext";
-import { generateOnrampURL } from "../utils/rampUtils";
+import { buildRampUrl } from "../utils/rampUtils";
+import { resolveCheckoutUrl } from "../utils/paySimulator";
 import {
   fetchBuyConfig,
   fetchBuyOptions,
+  fetchBuyQuote,
+  BuyQuoteParams,
   Country,
   PurchaseCurrency,
   Network,
@@ -15,6 +18,10 @@ import {
 } from "../utils/onrampApi";
 import GeneratedLinkModal from "./GeneratedLinkModal";
 import { fetchCryptoPrices } from "../utils/priceUtils";
+import { BuyQuoteResponse, CryptoPricesResponse } from "../types";
+import { usePersistedRampState } from "../hooks/usePersistedRampState";
+import { RampState } from "../utils/rampState";
+import { validateAddressForNetwork } from "../utils/addressValidation";
 
 // Define payment method descriptions
 const PAYMENT_METHOD_DESCRIPTIONS: Record<string, string> = {
@@ -101,6 +108,17 @@ const getDefaultNetworkForAsset = (asset: string): string => {
   return assetNetworkMap[asset][0]; // Return first compatible network
 };
 
+// Selections used when neither the URL nor localStorage has one
+const ONRAMP_DEFAULTS: RampState = {
+  asset: "USDC",
+  network: "base",
+  amount: "10",
+  country: "US",
+  subdivision: "",
+  paymentMethod: "CARD",
+  currency: "USD",
+};
+
 // US States list
 const US_STATES = [
   { code: "AL", name: "Alabama" },
@@ -164,20 +182,61 @@ export default function OnrampFeature() {
   const address = authenticated ? rampTransaction?.wallet : undefined;
   const isConnected = authenticated && !!rampTransaction?.wallet;
   const [activeTab, setActiveTab] = useState<"api" | "url">("api");
-  const [selectedAsset, setSelectedAsset] = useState("USDC");
-  const [amount, setAmount] = useState("10");
-  const [selectedNetwork, setSelectedNetwork] = useState("base");
+
+  // Selections are kept in the URL and localStorage so links can be shared
+  const {
+    state: rampState,
+    update: updateRampState,
+    restored,
+    validateRestored,
+  } = usePersistedRampState("onramp", ONRAMP_DEFAULTS);
+  const {
+    asset: selectedAsset,
+    amount,
+    network: selectedNetwork,
+    currency: selectedPaymentCurrency,
+    country: selectedCountry,
+    subdivision: selectedState,
+    paymentMethod: selectedPaymentMethod,
+  } = rampState;
+  const setSelectedAsset = (asset: string) => updateRampState({ asset });
+  const setAmount = (value: string) => updateRampState({ amount: value });
+
+  // The embedded wallet is an EVM account, so it can't receive on every
+  // network the asset is listed on
+  const addressCheck = address
+    ? validateAddressForNetwork(address, selectedNetwork)
+    : null;
+  const addressError =
+    addressCheck && !addressCheck.valid ? addressCheck.reason : null;
+  const setSelectedNetwork = (network: string) =>
+    updateRampState({ network });
+  const setSelectedPaymentCurrency = (currency: string) =>
+    updateRampState({ currency });
+  const setSelectedCountry = (country: string) =>
+    updateRampState({ country });
+  const setSelectedState = (subdivision: string) =>
+    updateRampState({ subdivision });
+  const setSelectedPaymentMethod = (paymentMethod: string) =>
+    updateRampState({ paymentMethod });
+
   const [showAdvanced, setShowAdvanced] = useState(false);
   const [generatedUrl, setGeneratedUrl] = useState("");
   const [showUrlModal, setShowUrlModal] = useState(false);
   const [enableGuestCheckout, setEnableGuestCheckout] = useState(true);
-  const [selectedPaymentCurrency, setSelectedPaymentCurrency] = useState("USD");
-  const [selectedCountry, setSelectedCountry] = useState("US");
-  const [selectedState, setSelectedState] = useState("");
-  const [cryptoPrices, setCryptoPrices] = useState<Record<string, number>>({});
+  const [priceData, setPriceData] = useState<CryptoPricesResponse | null>(
+    null
+  );
   const [isLoadingPrices, setIsLoadingPrices] = useState(false);
   const [useSecureInit, setUseSecureInit] = useState(true);
   const [isGeneratingToken, setIsGeneratingToken] = useState(false);
+  const [buyQuote, setBuyQuote] = useState<BuyQuoteResponse | null>(null);
+  // Request the current buyQuote was fetched for
+  const [quotedParams, setQuotedParams] = useState<BuyQuoteParams | null>(
+    null
+  );
+  const [isLoadingQuote, setIsLoadingQuote] = useState(false);
+  const [quoteError, setQuoteError] = useState<string | null>(null);
 
   // API data state
   const [apiCountries, setApiCountries] = useState<Country[]>([]);
@@ -187,6 +246,18 @@ export default function OnrampFeature() {
   const [isLoadingConfig, setIsLoadingConfig] = useState(false);
   const [isLoadingOptions, setIsLoadingOptions] = useState(false);
 
+  // Prices in the selected payment currency; ignore prices still loaded
+  // for a previous currency
+  const cryptoPrices = useMemo(() => {
+    const prices: Record<string, number> = {};
+    if (priceData?.fiat === selectedPaymentCurrency) {
+      Object.entries(priceData.prices).forEach(([symbol, quote]) => {
+        prices[symbol] = quote.price;
+      });
+    }
+    return prices;
+  }, [priceData, selectedPaymentCurrency]);
+
   // Use API data if available, otherwise fallback to hardcoded data
   const paymentMethods = useMemo(() => {
     if (apiPaymentMethods.length > 0) {
@@ -208,8 +279,6 @@ export default function OnrampFeature() {
     ];
   }, [apiPaymentMethods]);
 
-  const [selectedPaymentMethod, setSelectedPaymentMethod] = useState("CARD");
-
   // Use API data for assets if available, otherwise use hardcoded list
   const assetsFromApi = useMemo(() => {
     if (apiPurchaseCurrencies.length > 0) {
@@ -230,46 +299,46 @@ export default function OnrampFeature() {
     }
     // Fallback to hardcoded data
     return [
-    { symbol: "ETH", name: "Ethereum", price: cryptoPrices["ETH"] || 3500 },
-    { symbol: "USDC", name: "USD Coin", price: cryptoPrices["USDC"] || 1 },
-    { symbol: "BTC", name: "Bitcoin", price: cryptoPrices["BTC"] || 67000 },
-    { symbol: "SOL", name: "Solana", price: cryptoPrices["SOL"] || 140 },
-    { symbol: "MATIC", name: "Polygon", price: cryptoPrices["MATIC"] || 0.8 },
-    { symbol: "AVAX", name: "Avalanche", price: cryptoPrices["AVAX"] || 35 },
-    { symbol: "ADA", name: "Cardano", price: cryptoPrices["ADA"] || 0.45 },
-    { symbol: "DOT", name: "Polkadot", price: cryptoPrices["DOT"] || 7 },
-    { symbol: "DOGE", name: "Dogecoin", price: cryptoPrices["DOGE"] || 0.1 },
+    { symbol: "ETH", name: "Ethereum", price: cryptoPrices["ETH"] || 0 },
+    { symbol: "USDC", name: "USD Coin", price: cryptoPrices["USDC"] || 0 },
+    { symbol: "BTC", name: "Bitcoin", price: cryptoPrices["BTC"] || 0 },
+    { symbol: "SOL", name: "Solana", price: cryptoPrices["SOL"] || 0 },
+    { symbol: "MATIC", name: "Polygon", price: cryptoPrices["MATIC"] || 0 },
+    { symbol: "AVAX", name: "Avalanche", price: cryptoPrices["AVAX"] || 0 },
+    { symbol: "ADA", name: "Cardano", price: cryptoPrices["ADA"] || 0 },
+    { symbol: "DOT", name: "Polkadot", price: cryptoPrices["DOT"] || 0 },
+    { symbol: "DOGE", name: "Dogecoin", price: cryptoPrices["DOGE"] || 0 },
     {
       symbol: "SHIB",
       name: "Shiba Inu",
-      price: cryptoPrices["SHIB"] || 0.00002,
+      price: cryptoPrices["SHIB"] || 0,
     },
-    { symbol: "XRP", name: "XRP", price: cryptoPrices["XRP"] || 0.5 },
-    { symbol: "LTC", name: "Litecoin", price: cryptoPrices["LTC"] || 80 },
-    { symbol: "UNI", name: "Uniswap", price: cryptoPrices["UNI"] || 8 },
-    { symbol: "LINK", name: "Chainlink", price: cryptoPrices["LINK"] || 15 },
-    { symbol: "AAVE", name: "Aave", price: cryptoPrices["AAVE"] || 90 },
-    { symbol: "ATOM", name: "Cosmos", price: cryptoPrices["ATOM"] || 8 },
-    { symbol: "USDT", name: "Tether", price: cryptoPrices["USDT"] || 1 },
-    { symbol: "DAI", name: "Dai", price: cryptoPrices["DAI"] || 1 },
+    { symbol: "XRP", name: "XRP", price: cryptoPrices["XRP"] || 0 },
+    { symbol: "LTC", name: "Litecoin", price: cryptoPrices["LTC"] || 0 },
+    { symbol: "UNI", name: "Uniswap", price: cryptoPrices["UNI"] || 0 },
+    { symbol: "LINK", name: "Chainlink", price: cryptoPrices["LINK"] || 0 },
+    { symbol: "AAVE", name: "Aave", price: cryptoPrices["AAVE"] || 0 },
+    { symbol: "ATOM", name: "Cosmos", price: cryptoPrices["ATOM"] || 0 },
+    { symbol: "USDT", name: "Tether", price: cryptoPrices["USDT"] || 0 },
+    { symbol: "DAI", name: "Dai", price: cryptoPrices["DAI"] || 0 },
     {
       symbol: "WBTC",
       name: "Wrapped Bitcoin",
-      price: cryptoPrices["WBTC"] || 67000,
+      price: cryptoPrices["WBTC"] || 0,
     },
-    { symbol: "BCH", name: "Bitcoin Cash", price: cryptoPrices["BCH"] || 300 },
-    { symbol: "APE", name: "ApeCoin", price: cryptoPrices["APE"] || 1.5 },
-    { symbol: "XLM", name: "Stellar", price: cryptoPrices["XLM"] || 0.1 },
-    { symbol: "FIL", name: "Filecoin", price: cryptoPrices["FIL"] || 5 },
-    { symbol: "NEAR", name: "NEAR Protocol", price: cryptoPrices["NEAR"] || 5 },
-    { symbol: "ALGO", name: "Algorand", price: cryptoPrices["ALGO"] || 0.15 },
+    { symbol: "BCH", name: "Bitcoin Cash", price: cryptoPrices["BCH"] || 0 },
+    { symbol: "APE", name: "ApeCoin", price: cryptoPrices["APE"] || 0 },
+    { symbol: "XLM", name: "Stellar", price: cryptoPrices["XLM"] || 0 },
+    { symbol: "FIL", name: "Filecoin", price: cryptoPrices["FIL"] || 0 },
+    { symbol: "NEAR", name: "NEAR Protocol", price: cryptoPrices["NEAR"] || 0 },
+    { symbol: "ALGO", name: "Algorand", price: cryptoPrices["ALGO"] || 0 },
     {
       symbol: "MANA",
       name: "Decentraland",
-      price: cryptoPrices["MANA"] || 0.4,
+      price: cryptoPrices["MANA"] || 0,
     },
-    { symbol: "SAND", name: "The Sandbox", price: cryptoPrices["SAND"] || 0.4 },
-    { symbol: "TRX", name: "TRON", price: cryptoPrices["TRX"] || 0.1 },
+    { symbol: "SAND", name: "The Sandbox", price: cryptoPrices["SAND"] || 0 },
+    { symbol: "TRX", name: "TRON", price: cryptoPrices["TRX"] || 0 },
   ].sort((a, b) => a.name.localeCompare(b.name));
   }, [assetsFromApi, cryptoPrices]);
 
@@ -365,8 +434,12 @@ export default function OnrampFeature() {
       .sort((a, b) => a.name.localeCompare(b.name));
   }, [apiCountries]);
 
-  // Fetch Buy Config on component mount
+  // Fetch Buy Config once the persisted selections are restored
   useEffect(() => {
+    if (!restored) {
+      return;
+    }
+
     const loadBuyConfig = async () => {
       setIsLoadingConfig(true);
       try {
@@ -386,7 +459,7 @@ export default function OnrampFeature() {
     };
 
     loadBuyConfig();
-  }, []);
+  }, [restored]);
 
   // Fetch Buy Options when country or subdivision changes
   useEffect(() => {
@@ -409,10 +482,44 @@ export default function OnrampFeature() {
       }
     };
 
-    if (selectedCountry) {
+    if (restored && selectedCountry) {
       loadBuyOptions();
     }
-  }, [selectedCountry, selectedState, apiCountries]);
+  }, [restored, selectedCountry, selectedState, apiCountries]);
+
+  // Reset restored selections (e.g. from a shared link) that the live
+  // config and options don't offer
+  useEffect(() => {
+    if (
+      isLoadingConfig ||
+      isLoadingOptions ||
+      apiCountries.length === 0 ||
+      apiPurchaseCurrencies.length === 0
+    ) {
+      return;
+    }
+
+    validateRestored({
+      countries: apiCountries.map((country) => country.id),
+      subdivisions:
+        selectedCountry === "US" ? US_STATES.map((state) => state.code) : [],
+      assets: apiPurchaseCurrencies.map((currency) => ({
+        code: currency.symbol,
+        networks: currency.networks.map((network) => network.id),
+      })),
+      currencies: apiPaymentCurrencies.map((currency) => currency.id),
+      paymentMethods: paymentMethods.map((method) => method.id),
+    });
+  }, [
+    isLoadingConfig,
+    isLoadingOptions,
+    apiCountries,
+    apiPurchaseCurrencies,
+    apiPaymentCurrencies,
+    paymentMethods,
+    selectedCountry,
+    validateRestored,
+  ]);
 
   // Initialize network based on selected asset
   useEffect(() => {
@@ -420,22 +527,34 @@ export default function OnrampFeature() {
     if (assetNetworkMap[selectedAsset]) {
       const compatibleNetworks = assetNetworkMap[selectedAsset];
       if (!compatibleNetworks.includes(selectedNetwork)) {
-        setSelectedNetwork(getDefaultNetworkForAsset(selectedAsset));
+        updateRampState({
+          network: getDefaultNetworkForAsset(selectedAsset),
+        });
       }
     }
-  }, [selectedAsset, selectedNetwork]);
+  }, [selectedAsset, selectedNetwork, updateRampState]);
 
-  // Fetch cryptocurrency prices on component mount
+  // Fetch cryptocurrency prices in the selected payment currency
   useEffect(() => {
+    if (!restored) {
+      return;
+    }
+
+    let cancelled = false;
+
     const getPrices = async () => {
       setIsLoadingPrices(true);
       try {
-        const prices = await fetchCryptoPrices();
-        setCryptoPrices(prices);
+        const prices = await fetchCryptoPrices(selectedPaymentCurrency);
+        if (!cancelled) {
+          setPriceData(prices);
+        }
       } catch (error) {
         console.error("Failed to fetch cryptocurrency prices:", error);
       } finally {
-        setIsLoadingPrices(false);
+        if (!cancelled) {
+          setIsLoadingPrices(false);
+        }
       }
     };
 
@@ -444,8 +563,106 @@ export default function OnrampFeature() {
     // Refresh prices every 60 seconds
     const intervalId = setInterval(getPrices, 60000);
 
-    return () => clearInterval(intervalId);
-  }, []);
+    return () => {
+      cancelled = true;
+      clearInterval(intervalId);
+    };
+  }, [restored, selectedPaymentCurrency]);
+
+  // Quote request for the current purchase, or null without a valid amount
+  const buyQuoteParams = useMemo<BuyQuoteParams | null>(() => {
+    const numericAmount = parseFloat(amount);
+    if (isNaN(numericAmount) || numericAmount <= 0) {
+      return null;
+    }
+    return {
+      purchaseCurrency: selectedAsset,
+      purchaseNetwork: selectedNetwork,
+      paymentAmount: numericAmount.toFixed(2),
+      paymentCurrency: selectedPaymentCurrency,
+      paymentMethod: selectedPaymentMethod,
+      country: selectedCountry,
+      subdivision:
+        selectedCountry === "US" ? selectedState || undefined : undefined,
+    };
+  }, [
+    amount,
+    selectedAsset,
+    selectedNetwork,
+    selectedPaymentCurrency,
+    selectedPaymentMethod,
+    selectedCountry,
+    selectedState,
+  ]);
+
+  // Fetch a buy quote for the fee breakdown whenever the purchase changes
+  useEffect(() => {
+    if (!buyQuoteParams) {
+      setBuyQuote(null);
+      setQuotedParams(null);
+      setQuoteError(null);
+      return;
+    }
+
+    let cancelled = false;
+
+    // Debounce so typing an amount doesn't fire a quote per keystroke
+    const timeoutId = setTimeout(async () => {
+      setIsLoadingQuote(true);
+      try {
+        const quote = await fetchBuyQuote(buyQuoteParams);
+        if (!cancelled) {
+          setBuyQuote(quote);
+          setQuotedParams(buyQuoteParams);
+          setQuoteError(null);
+        }
+      } catch (error) {
+        console.error("Failed to fetch buy quote:", error);
+        if (!cancelled) {
+          // Fall back to the price estimate below
+          setBuyQuote(null);
+          setQuotedParams(null);
+          setQuoteError(error instanceof Error ? error.message : "Quote unavailable");
+        }
+      } finally {
+        if (!cancelled) {
+          setIsLoadingQuote(false);
+        }
+      }
+    }, 500);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeoutId);
+    };
+  }, [buyQuoteParams]);
+
+  // The quote ID locks the quoted price, so only send it while the quote
+  // still matches the selection; it goes stale during the debounce above
+  const currentQuoteId =
+    buyQuote && quotedParams === buyQuoteParams ? buyQuote.quote_id : undefined;
+
+  // Estimated crypto amount from market prices, used when no quote is available
+  const estimatedCryptoAmount = useMemo(() => {
+    const selectedAssetObj = assets.find((a) => a.symbol === selectedAsset);
+    if (selectedAssetObj && selectedAssetObj.price) {
+      const cryptoAmount = parseFloat(amount) / selectedAssetObj.price;
+      // Format based on the asset
+      if (selectedAsset === "BTC" || selectedAsset === "WBTC") {
+        return cryptoAmount.toFixed(7);
+      } else if (selectedAsset === "SHIB") {
+        return cryptoAmount.toFixed(0);
+      } else {
+        return cryptoAmount.toFixed(6);
+      }
+    }
+    return null;
+  }, [assets, selectedAsset, amount]);
+
+  // The server flags prices it couldn't refresh recently
+  const isPriceStale =
+    priceData?.fiat === selectedPaymentCurrency &&
+    !!priceData.prices[selectedAsset]?.stale;
 
   // Handle asset change
   const handleAssetChange = (assetCode: string) => {
@@ -519,6 +736,39 @@ export default function OnrampFeature() {
     }
   };
 
+  // Checkout URL for the current selections; alerts and returns null when
+  // Coinbase would reject them
+  const buildOnrampUrl = (walletAddress: string, sessionToken?: string) => {
+    try {
+      return buildRampUrl({
+        type: "onramp",
+        // A session token already carries the addresses and assets
+        ...(sessionToken
+          ? {
+              sessionToken,
+              quoteId: currentQuoteId,
+            }
+          : {
+              appId: process.env.NEXT_PUBLIC_CDP_PROJECT_ID,
+              addresses: { [walletAddress]: [selectedNetwork] },
+              assets: [selectedAsset],
+              enableGuestCheckout,
+            }),
+        defaultAsset: selectedAsset,
+        defaultNetwork: selectedNetwork,
+        defaultPaymentMethod: selectedPaymentMethod.toUpperCase(),
+        presetFiatAmount: amount,
+        fiatCurrency: selectedPaymentCurrency,
+        partnerUserId: walletAddress.substring(0, 49),
+        redirectUrl: window.location.origin + "/onramp",
+      });
+    } catch (error) {
+      console.error("Error generating onramp URL:", error);
+      alert(error instanceof Error ? error.message : "Invalid onramp URL");
+      return null;
+    }
+  };
+
   // Generate one-time URL
   const handleGenerateUrl = async () => {
     if (!authenticated && activeTab === "url") {
@@ -526,11 +776,16 @@ export default function OnrampFeature() {
       return;
     }
 
-    if (!address && activeTab === "url") {
+    if (!address) {
       alert("No wallet address found. Please ensure you're signed in with your embedded wallet");
       return;
     }
 
+    if (addressError) {
+      alert(addressError);
+      return;
+    }
+
     let sessionToken: string | undefined;
     
     // Generate session token if secure init is enabled
@@ -540,19 +795,10 @@ export default function OnrampFeature() {
       sessionToken = token || undefined;
     }
 
-    const url = generateOnrampURL({
-      asset: selectedAsset,
-      amount,
-      network: selectedNetwork,
-      paymentMethod: selectedPaymentMethod,
-      paymentCurrency: selectedPaymentCurrency,
-      address: address || "0x0000000000000000000000000000000000000000",
-      redirectUrl: window.location.origin + "/onramp",
-      enableGuestCheckout, // Add guest checkout option
-      sessionToken, // Include session token if generated
-    });
+    const url = buildOnrampUrl(address, sessionToken);
+    if (!url) return;
 
-    setGeneratedUrl(url);
+    setGeneratedUrl(resolveCheckoutUrl(url));
     setShowUrlModal(true);
   };
 
@@ -568,6 +814,11 @@ export default function OnrampFeature() {
       return;
     }
 
+    if (addressError) {
+      alert(addressError);
+      return;
+    }
+
     if (!isConnected) {
       alert("Please connect your embedded wallet first");
       return;
@@ -583,19 +834,10 @@ export default function OnrampFeature() {
     }
 
     // Note: This is a demo app - actual payments require ownership of assets and sufficient funds
-    const url = generateOnrampURL({
-      asset: selectedAsset,
-      amount,
-      network: selectedNetwork,
-      paymentMethod: selectedPaymentMethod,
-      paymentCurrency: selectedPaymentCurrency,
-      address: address || "0x0000000000000000000000000000000000000000",
-      redirectUrl: window.location.origin + "/onramp",
-      enableGuestCheckout, // Add guest checkout option
-      sessionToken, // Include session token if generated
-    });
+    const url = buildOnrampUrl(address, sessionToken);
+    if (!url) return;
 
-    window.open(url, "_blank");
+    window.open(resolveCheckoutUrl(url), "_blank");
   };
 
   const handleCopyUrl = () => {
@@ -785,6 +1027,11 @@ export default function OnrampFeature() {
                       assetNetworkMap[selectedAsset].length > 1 ? "s" : ""
                     }`}
                 </p>
+                {addressError && (
+                  <p className="text-sm text-red-600 mt-1">
+                    {addressError}. Choose a network your wallet supports.
+                  </p>
+                )}
               </div>
 
               {/* Amount Input */}
@@ -935,9 +1182,9 @@ export default function OnrampFeature() {
               {/* Action Button */}
               <button
                 onClick={activeTab === "api" ? handleOnramp : handleGenerateUrl}
-                disabled={!isConnected || isGeneratingToken}
+                disabled={!isConnected || isGeneratingToken || !!addressError}
                 className={`w-full font-medium py-3 px-4 rounded-lg transition-all shadow-md hover:shadow-lg ${
-                  !isConnected || isGeneratingToken
+                  !isConnected || isGeneratingToken || addressError
                     ? "bg-gray-300 text-gray-500 cursor-not-allowed"
                     : "bg-blue-600 hover:bg-blue-700 text-white"
                 }`}
@@ -1025,27 +1272,11 @@ export default function OnrampFeature() {
                       </div>
                       <div className="flex items-center text-gray-800">
                         <span className="mr-1">
-                          {(() => {
-                            const selectedAssetObj = assets.find(
-                              (a) => a.symbol === selectedAsset
-                            );
-                            if (selectedAssetObj && selectedAssetObj.price) {
-                              const cryptoAmount =
-                                parseFloat(amount) / selectedAssetObj.price;
-                              // Format based on the asset
-                              if (
-                                selectedAsset === "BTC" ||
-                                selectedAsset === "WBTC"
-                              ) {
-                                return cryptoAmount.toFixed(7);
-                              } else if (selectedAsset === "SHIB") {
-                                return cryptoAmount.toFixed(0);
-                              } else {
-                                return cryptoAmount.toFixed(6);
-                              }
-                            }
-                            return amount;
-                          })()}
+                          {buyQuote
+                            ? buyQuote.purchase_amount.value
+                            : estimatedCryptoAmount
+                              ? `~${estimatedCryptoAmount}`
+                              : "—"}
                         </span>
                         <span>{selectedAsset}</span>
                         <span className="ml-1">
@@ -1055,6 +1286,11 @@ export default function OnrampFeature() {
                             ?.name || selectedNetwork}
                         </span>
                       </div>
+                      {!buyQuote && isPriceStale && (
+                        <div className="text-xs text-amber-600 mt-1">
+                          Estimate uses a market price that may be outdated
+                        </div>
+                      )}
                     </div>
                     <div className="mb-4">
                       <div className="text-sm text-gray-500 mb-1">
@@ -1075,6 +1311,58 @@ export default function OnrampFeature() {
                   </div>
                 )}
               </div>
+
+              {/* Fee Breakdown */}
+              <div className="mt-6 p-4 bg-gray-50 dark:bg-gray-700/50 border border-gray-200 dark:border-gray-600 rounded-lg">
+                <div className="flex justify-between items-center mb-3">
+                  <h4 className="font-medium text-gray-800 dark:text-white">
+                    Fee Breakdown
+                  </h4>
+                  {isLoadingQuote && (
+                    <span className="text-xs text-gray-500">
+                      Updating quote...
+                    </span>
+                  )}
+                </div>
+                {buyQuote ? (
+                  <dl className="space-y-2 text-sm">
+                    {[
+                      { label: "Subtotal", money: buyQuote.payment_subtotal },
+                      { label: "Coinbase fee", money: buyQuote.coinbase_fee },
+                      { label: "Network fee", money: buyQuote.network_fee },
+                    ].map(({ label, money }) => (
+                      <div key={label} className="flex justify-between">
+                        <dt className="text-gray-500 dark:text-gray-400">{label}</dt>
+                        <dd className="text-gray-800 dark:text-gray-200">
+                          {money.value} {money.currency}
+                        </dd>
+                      </div>
+                    ))}
+                    <div className="flex justify-between pt-2 border-t border-gray-200 dark:border-gray-600 font-medium">
+                      <dt className="text-gray-800 dark:text-white">Total</dt>
+                      <dd className="text-gray-800 dark:text-white">
+                        {buyQuote.payment_total.value}{" "}
+                        {buyQuote.payment_total.currency}
+                      </dd>
+                    </div>
+                    <div className="flex justify-between">
+                      <dt className="text-gray-500 dark:text-gray-400">You receive</dt>
+                      <dd className="text-gray-800 dark:text-gray-200">
+                        {buyQuote.purchase_amount.value}{" "}
+                        {buyQuote.purchase_amount.currency}
+                      </dd>
+                    </div>
+                  </dl>
+                ) : (
+                  <p className="text-sm text-gray-500 dark:text-gray-400">
+                    {quoteError
+                      ? estimatedCryptoAmount
+                        ? `Live quote unavailable, showing an estimate from market prices: ~${estimatedCryptoAmount} ${selectedAsset} before fees.${isPriceStale ? " The market price may be outdated." : ""}`
+                        : "Live quote and market price unavailable."
+                      : "Enter an amount to see the fee breakdown."}
+                  </p>
+                )}
+              </div>
             </div>
           </div>
 
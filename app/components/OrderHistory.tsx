@@ -1,37 +1,157 @@
-import { useEffect, useState } from "react";
+import { useCallback, useEffect, useMemo, useState } from "react";
 import { useCoinbaseRampTransaction } from "../contexts/CoinbaseRampTransactionContext";
+import { useWebhookTransactions } from "../hooks/useWebhookTransactions";
 import { getOrdersByPartnerUserId } from "../queries";
 import { Order } from "../types";
 
+const PAGE_SIZE = 10;
+
+type TypeFilter = "all" | "buy" | "sell";
+type StatusFilter = "all" | Order["status"];
+
 export const OrderHistory = () => {
   const { partnerUserId } = useCoinbaseRampTransaction();
   const [orders, setOrders] = useState<Order[]>([]);
   const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [typeFilter, setTypeFilter] = useState<TypeFilter>("all");
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>("all");
+  // Keys for every page visited so far; the last entry is the current page
+  const [pageKeys, setPageKeys] = useState<(string | undefined)[]>([
+    undefined,
+  ]);
+  const [nextPageKey, setNextPageKey] = useState<string | undefined>();
+  const [refreshCount, setRefreshCount] = useState(0);
+
+  const currentPageKey = pageKeys[pageKeys.length - 1];
+
+  // Webhook deliveries are fresher than the history API, so they win
+  const { transactions: webhookTransactions } =
+    useWebhookTransactions(partnerUserId);
 
   useEffect(() => {
     const getOrders = async () => {
-      if (partnerUserId) {
-        setLoading(true);
-        try {
-          const fetchedOrders = await getOrdersByPartnerUserId({
-            partnerUserId,
-          });
-          console.info("orders by partner user id", fetchedOrders);
-          setOrders(fetchedOrders || []);
-        } catch (error) {
-          console.error("Error fetching orders:", error);
-        } finally {
-          setLoading(false);
-        }
+      if (!partnerUserId) {
+        setOrders([]);
+        return;
+      }
+
+      setLoading(true);
+      setError(null);
+      try {
+        const history = await getOrdersByPartnerUserId({
+          partnerUserId,
+          pageKey: currentPageKey,
+          pageSize: PAGE_SIZE,
+          type: typeFilter,
+        });
+        console.info("orders by partner user id", history);
+        setOrders(history.orders || []);
+        setNextPageKey(history.next_page_key);
+      } catch (error) {
+        console.error("Error fetching orders:", error);
+        setError(
+          `Could not load transaction history: ${
+            error instanceof Error ? error.message : "Unknown error"
+          }`
+        );
+        setOrders([]);
+        setNextPageKey(undefined);
+      } finally {
+        setLoading(false);
       }
     };
 
     getOrders();
-  }, [partnerUserId]);
+  }, [partnerUserId, currentPageKey, typeFilter, refreshCount]);
+
+  const liveOrders = useMemo(
+    () =>
+      orders.map((order) => {
+        const update = webhookTransactions.find(
+          (transaction) => transaction.transactionId === order.id
+        );
+        return update
+          ? {
+              ...order,
+              status: update.status,
+              tx_hash: update.txHash || order.tx_hash,
+              live: true,
+            }
+          : order;
+      }),
+    [orders, webhookTransactions]
+  );
+
+  // Status isn't filterable upstream, so it only applies to the loaded page
+  const filteredOrders = useMemo(
+    () =>
+      statusFilter === "all"
+        ? liveOrders
+        : liveOrders.filter((order) => order.status === statusFilter),
+    [liveOrders, statusFilter]
+  );
+
+  const handleTypeChange = (type: TypeFilter) => {
+    setTypeFilter(type);
+    setPageKeys([undefined]);
+  };
+
+  const handleRefresh = useCallback(() => {
+    setPageKeys([undefined]);
+    setRefreshCount((count) => count + 1);
+  }, []);
+
+  const handleNextPage = () => {
+    if (nextPageKey) {
+      setPageKeys((keys) => [...keys, nextPageKey]);
+    }
+  };
+
+  const handlePreviousPage = () => {
+    setPageKeys((keys) => (keys.length > 1 ? keys.slice(0, -1) : keys));
+  };
 
   return (
     <div className="order-history w-full p-4">
-      <h2 className="text-xl font-semibold mb-4">Order History</h2>
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-semibold">Order History</h2>
+        <button
+          onClick={handleRefresh}
+          disabled={loading}
+          className="px-3 py-1 text-sm border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+        >
+          Refresh
+        </button>
+      </div>
+
+      <div className="flex gap-4 mb-4">
+        <label className="text-sm text-gray-600">
+          Type
+          <select
+            value={typeFilter}
+            onChange={(e) => handleTypeChange(e.target.value as TypeFilter)}
+            className="ml-2 border border-gray-300 rounded-md px-2 py-1 text-gray-800"
+          >
+            <option value="all">All</option>
+            <option value="buy">Buy</option>
+            <option value="sell">Sell</option>
+          </select>
+        </label>
+        <label className="text-sm text-gray-600">
+          Status
+          <select
+            value={statusFilter}
+            onChange={(e) => setStatusFilter(e.target.value as StatusFilter)}
+            className="ml-2 border border-gray-300 rounded-md px-2 py-1 text-gray-800"
+          >
+            <option value="all">All</option>
+            <option value="completed">Completed</option>
+            <option value="pending">Pending</option>
+            <option value="failed">Failed</option>
+          </select>
+        </label>
+      </div>
 
       {loading ? (
         <div className="flex justify-center py-8">
@@ -49,7 +169,11 @@ export const OrderHistory = () => {
             </div>
           </div>
         </div>
-      ) : orders.length > 0 ? (
+      ) : error ? (
+        <div className="text-center py-8 text-red-600">
+          <p>{error}</p>
+        </div>
+      ) : filteredOrders.length > 0 ? (
         <div className="overflow-x-auto">
           <table className="min-w-full divide-y divide-gray-200">
             <thead className="bg-gray-50">
@@ -87,8 +211,8 @@ export const OrderHistory = () => {
               </tr>
             </thead>
             <tbody className="bg-white divide-y divide-gray-200">
-              {orders.map((order, index) => (
-                <tr key={index}>
+              {filteredOrders.map((order) => (
+                <tr key={order.id}>
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                     {new Date(order.created_at).toLocaleDateString()}
                   </td>
@@ -97,9 +221,19 @@ export const OrderHistory = () => {
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                     {order.asset}
+                    {order.network && (
+                      <span className="block text-xs text-gray-400">
+                        {order.network}
+                      </span>
+                    )}
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                     {order.amount}
+                    {order.fiat_total && (
+                      <span className="block text-xs text-gray-400">
+                        {order.fiat_total}
+                      </span>
+                    )}
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap">
                     <span
@@ -113,6 +247,14 @@ export const OrderHistory = () => {
                     >
                       {order.status}
                     </span>
+                    {"live" in order && (
+                      <span
+                        className="block text-xs text-gray-400"
+                        title="Updated by a Coinbase webhook"
+                      >
+                        live
+                      </span>
+                    )}
                   </td>
                 </tr>
               ))}
@@ -122,7 +264,31 @@ export const OrderHistory = () => {
       ) : (
         <div className="text-center py-8 text-gray-500">
           <p>No transaction history found.</p>
-          <p className="text-sm mt-2">Complete a transaction to see it here.</p>
+          <p className="text-sm mt-2">
+            {orders.length > 0
+              ? "No transactions on this page match the selected status."
+              : "Complete a transaction to see it here."}
+          </p>
+        </div>
+      )}
+
+      {(pageKeys.length > 1 || nextPageKey) && (
+        <div className="flex justify-between items-center mt-4">
+          <button
+            onClick={handlePreviousPage}
+            disabled={loading || pageKeys.length <= 1}
+            className="px-3 py-1 text-sm border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+          >
+            Previous
+          </button>
+          <span className="text-sm text-gray-500">Page {pageKeys.length}</span>
+          <button
+            onClick={handleNextPage}
+            disabled={loading || !nextPageKey}
+            className="px-3 py-1 text-sm border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+          >
+            Next
+          </button>
         </div>
       )}
     </div>
@@ -0,0 +1,235 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { useSearchParams } from "next/navigation";
+import {
+  CoinbaseIframeEvent,
+  COINBASE_IFRAME_ERROR_CODES,
+} from "../utils/coinbaseIframeEvents";
+import {
+  DEFAULT_SIMULATED_ERROR_CODES,
+  getSimulatedEvents,
+  getSimulatedRedirectUrl,
+  parseSimulatedCheckout,
+  SIMULATED_LOAD_EVENTS,
+  SIMULATED_OUTCOME_LABELS,
+  SIMULATED_OUTCOMES,
+  SimulatedOutcome,
+} from "../utils/paySimulator";
+
+// Gap between events, so listeners see them arrive one by one
+const EVENT_INTERVAL_MS = 400;
+
+const CHECKOUT_TITLES = {
+  onramp: "Onramp checkout",
+  offramp: "Offramp checkout",
+  payment_link: "Embedded payment page",
+};
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// The app embeds this page on its own origin; no other parent gets events
+function postToParent(event: CoinbaseIframeEvent) {
+  window.parent.postMessage(JSON.stringify(event), window.location.origin);
+}
+
+interface PaySimulatorProps {
+  // Checkout path below /simulator, e.g. "buy/select-asset"
+  path: string;
+}
+
+/**
+ * Stands in for a pay.coinbase.com checkout: shows the validated query and
+ * reports the outcome the tester picks back to the app
+ */
+export default function PaySimulator({ path }: PaySimulatorProps) {
+  const searchParams = useSearchParams();
+  const request = useMemo(
+    () => parseSimulatedCheckout(path, new URLSearchParams(searchParams)),
+    [path, searchParams]
+  );
+  const [isEmbedded, setIsEmbedded] = useState(false);
+  const [outcome, setOutcome] = useState<SimulatedOutcome>("success");
+  const [errorCode, setErrorCode] = useState("");
+  const [sentEvents, setSentEvents] = useState<CoinbaseIframeEvent[]>([]);
+  const [isSending, setIsSending] = useState(false);
+  const [result, setResult] = useState<string | null>(null);
+
+  useEffect(() => {
+    const embedded = window.parent !== window;
+    setIsEmbedded(embedded);
+    if (embedded) {
+      SIMULATED_LOAD_EVENTS.forEach(postToParent);
+      setSentEvents(SIMULATED_LOAD_EVENTS);
+    }
+  }, []);
+
+  const isError = outcome === "commit_error" || outcome === "polling_error";
+  const selectedErrorCode = isError
+    ? errorCode || DEFAULT_SIMULATED_ERROR_CODES[outcome]
+    : "";
+
+  const handleComplete = async () => {
+    setResult(null);
+
+    if (isEmbedded) {
+      setIsSending(true);
+      for (const event of getSimulatedEvents(outcome, selectedErrorCode)) {
+        postToParent(event);
+        setSentEvents((events) => [...events, event]);
+        await sleep(EVENT_INTERVAL_MS);
+      }
+      setIsSending(false);
+      return;
+    }
+
+    if (!request.redirectUrl) {
+      setResult(
+        "No redirectUrl: the hosted checkout would stay on its own result page."
+      );
+      return;
+    }
+
+    // Only the app's own pages, so this page can't be used as an open
+    // redirect
+    const redirectUrl = getSimulatedRedirectUrl(request.redirectUrl, outcome);
+    if (new URL(redirectUrl).origin !== window.location.origin) {
+      setResult(
+        `redirectUrl is on another origin, not following: ${redirectUrl}`
+      );
+      return;
+    }
+    window.location.assign(redirectUrl);
+  };
+
+  const params = Array.from(searchParams.entries());
+  const canComplete =
+    request.issues.length === 0 &&
+    (isEmbedded || request.checkout !== "payment_link");
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900 p-6">
+      <div className="max-w-xl mx-auto space-y-6">
+        <div>
+          <span className="inline-block px-2 py-1 text-xs font-medium rounded bg-amber-100 text-amber-800 mb-2">
+            Simulator - nothing is sent to Coinbase
+          </span>
+          <h1 className="text-2xl font-bold">
+            {CHECKOUT_TITLES[request.checkout]}
+          </h1>
+          <p className="text-sm text-gray-500 font-mono break-all">/{path}</p>
+        </div>
+
+        {request.issues.length > 0 ? (
+          <div className="p-4 rounded-lg bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800">
+            <h2 className="font-semibold text-red-800 dark:text-red-300 mb-2">
+              Coinbase would reject this checkout
+            </h2>
+            <ul className="text-sm text-red-700 dark:text-red-300 space-y-1">
+              {request.issues.map(({ path: field, message }, index) => (
+                <li key={index}>
+                  {field && <span className="font-mono">{field}: </span>}
+                  {message}
+                </li>
+              ))}
+            </ul>
+          </div>
+        ) : (
+          request.checkout !== "payment_link" && (
+            <p className="text-sm text-green-700 dark:text-green-400">
+              ✓ Query parameters are valid
+            </p>
+          )
+        )}
+
+        <table className="w-full text-sm bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700">
+          <tbody>
+            {params.length === 0 ? (
+              <tr>
+                <td className="p-2 text-gray-500">No query parameters</td>
+              </tr>
+            ) : (
+              params.map(([key, value]) => (
+                <tr
+                  key={key}
+                  className="border-b last:border-0 border-gray-100 dark:border-gray-700"
+                >
+                  <td className="p-2 font-mono text-gray-500 align-top">
+                    {key}
+                  </td>
+                  <td className="p-2 font-mono break-all">{value}</td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+
+        <div className="space-y-3">
+          <h2 className="font-semibold">Outcome</h2>
+          <div className="grid grid-cols-2 gap-2">
+            {SIMULATED_OUTCOMES.map((value) => (
+              <label
+                key={value}
+                className="flex items-center gap-2 p-2 rounded border border-gray-200 dark:border-gray-700 text-sm cursor-pointer"
+              >
+                <input
+                  type="radio"
+                  name="outcome"
+                  value={value}
+                  checked={outcome === value}
+                  onChange={() => setOutcome(value)}
+                />
+                {SIMULATED_OUTCOME_LABELS[value]}
+              </label>
+            ))}
+          </div>
+          {isError && (
+            <select
+              value={selectedErrorCode}
+              onChange={(e) => setErrorCode(e.target.value)}
+              aria-label="Error code"
+              className="w-full px-3 py-2 border rounded-lg dark:bg-gray-700 dark:border-gray-600 text-sm font-mono"
+            >
+              {COINBASE_IFRAME_ERROR_CODES.map((code) => (
+                <option key={code} value={code}>
+                  {code}
+                </option>
+              ))}
+            </select>
+          )}
+          <button
+            onClick={handleComplete}
+            disabled={!canComplete || isSending}
+            className="w-full py-3 rounded-lg bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white font-semibold"
+          >
+            {isEmbedded
+              ? isSending
+                ? "Sending events..."
+                : "Send events to the app"
+              : "Finish and return to the app"}
+          </button>
+          {!isEmbedded && request.checkout === "payment_link" && (
+            <p className="text-sm text-gray-500">
+              Payment links only report outcomes as events to the page that
+              embeds them. Open this page from guest checkout.
+            </p>
+          )}
+          {result && <p className="text-sm text-gray-500">{result}</p>}
+        </div>
+
+        {isEmbedded && sentEvents.length > 0 && (
+          <div>
+            <h2 className="font-semibold mb-2">Sent events</h2>
+            <ul className="text-xs font-mono space-y-1">
+              {sentEvents.map((event, index) => (
+                <li key={index} className="break-all">
+                  {JSON.stringify(event)}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
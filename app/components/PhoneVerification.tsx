@@ -0,0 +1,127 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { sendPhoneVerificationCode, verifyPhoneNumber } from "../queries";
+import { PhoneVerificationResponse } from "../types";
+import { PHONE_CODE_LENGTH } from "../utils/guestCheckout";
+
+interface PhoneVerificationProps {
+  // Valid E.164 number to verify, or null while the input is invalid
+  phoneNumber: string | null;
+  // Number verified in this browser (see GET /api/phone-verification)
+  verification: PhoneVerificationResponse | null;
+  onVerified: (verification: PhoneVerificationResponse) => void;
+}
+
+/**
+ * One-time code step for the guest checkout phone number: sends a code by
+ * SMS and checks it, which records the number as verified for 60 days
+ */
+export default function PhoneVerification({
+  phoneNumber,
+  verification,
+  onVerified,
+}: PhoneVerificationProps) {
+  const [code, setCode] = useState("");
+  const [codeExpiresAt, setCodeExpiresAt] = useState<string | null>(null);
+  const [isSending, setIsSending] = useState(false);
+  const [isVerifying, setIsVerifying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // A code only works for the number it was sent to
+  useEffect(() => {
+    setCode("");
+    setCodeExpiresAt(null);
+    setError(null);
+  }, [phoneNumber]);
+
+  if (!phoneNumber) {
+    return null;
+  }
+
+  if (verification?.phoneNumber === phoneNumber && verification.verifiedAt) {
+    return (
+      <p className="text-xs text-green-600 dark:text-green-400 mt-1">
+        ✓ Verified on {new Date(verification.verifiedAt).toLocaleDateString()}
+      </p>
+    );
+  }
+
+  const handleSendCode = async () => {
+    setError(null);
+    setIsSending(true);
+    try {
+      const { expiresAt } = await sendPhoneVerificationCode(phoneNumber);
+      setCode("");
+      setCodeExpiresAt(expiresAt);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to send code");
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const handleVerify = async () => {
+    setError(null);
+    setIsVerifying(true);
+    try {
+      onVerified(await verifyPhoneNumber(phoneNumber, code));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to verify code");
+    } finally {
+      setIsVerifying(false);
+    }
+  };
+
+  return (
+    <div className="mt-2 space-y-2">
+      {codeExpiresAt ? (
+        <>
+          <div className="flex gap-2">
+            <input
+              type="text"
+              inputMode="numeric"
+              autoComplete="one-time-code"
+              maxLength={PHONE_CODE_LENGTH}
+              value={code}
+              onChange={(e) => setCode(e.target.value.replace(/\D/g, ""))}
+              placeholder={"0".repeat(PHONE_CODE_LENGTH)}
+              aria-label="Verification code"
+              className="w-full px-4 py-2 border rounded-lg dark:bg-gray-700 dark:border-gray-600 focus:ring-2 focus:ring-blue-500 focus:border-transparent font-mono tracking-widest"
+            />
+            <button
+              type="button"
+              onClick={handleVerify}
+              disabled={isVerifying || code.length !== PHONE_CODE_LENGTH}
+              className="px-4 py-2 rounded-lg bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white text-sm font-medium whitespace-nowrap"
+            >
+              {isVerifying ? "Verifying..." : "Verify"}
+            </button>
+          </div>
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            Code sent by SMS, valid until{" "}
+            {new Date(codeExpiresAt).toLocaleTimeString()}.{" "}
+            <button
+              type="button"
+              onClick={handleSendCode}
+              disabled={isSending}
+              className="text-blue-600 dark:text-blue-400 hover:underline"
+            >
+              {isSending ? "Sending..." : "Send a new code"}
+            </button>
+          </p>
+        </>
+      ) : (
+        <button
+          type="button"
+          onClick={handleSendCode}
+          disabled={isSending}
+          className="px-4 py-2 rounded-lg border border-blue-600 text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/20 disabled:opacity-50 text-sm font-medium"
+        >
+          {isSending ? "Sending code..." : "Send verification code"}
+        </button>
+      )}
+      {error && <p className="text-xs text-red-600">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,255 @@
+"use client";
+
+import { useState } from "react";
+import { countryNames, fetchBuyOptions } from "../utils/onrampApi";
+import { fetchSellOptions } from "../utils/offrampApi";
+import {
+  checkRampOptions,
+  getBuyOptionSets,
+  getSellOptionSets,
+  InspectedParamStatus,
+  inspectRampUrl,
+  RampOptionCheck,
+  RampUrlInspection,
+} from "../utils/rampUrlInspector";
+
+const STATUS_STYLES: Record<InspectedParamStatus, string> = {
+  ok: "bg-green-100 text-green-800",
+  invalid: "bg-red-100 text-red-800",
+  conflict: "bg-orange-100 text-orange-800",
+  unknown: "bg-yellow-100 text-yellow-800",
+};
+
+const SESSION_TOKEN_STYLES = {
+  active: "text-green-700",
+  expired: "text-red-700",
+  unknown: "text-gray-700",
+};
+
+/**
+ * Decodes a pasted onramp/offramp URL (e.g. from a support ticket) and
+ * checks it against the live options for a country (see
+ * utils/rampUrlInspector.ts)
+ */
+export default function RampUrlInspector() {
+  const [url, setUrl] = useState("");
+  const [generatedAt, setGeneratedAt] = useState("");
+  const [country, setCountry] = useState("US");
+  const [subdivision, setSubdivision] = useState("");
+  const [inspection, setInspection] = useState<RampUrlInspection | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [checks, setChecks] = useState<RampOptionCheck[] | null>(null);
+  const [optionsError, setOptionsError] = useState<string | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+
+  const handleInspect = async () => {
+    setInspection(null);
+    setError(null);
+    setChecks(null);
+    setOptionsError(null);
+
+    let result: RampUrlInspection;
+    try {
+      result = inspectRampUrl(url, {
+        generatedAt: generatedAt ? new Date(generatedAt) : undefined,
+      });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Invalid URL");
+      return;
+    }
+    setInspection(result);
+
+    // Live options only; the sample data used when the API fails would
+    // make the checks meaningless
+    const state = country === "US" && subdivision ? subdivision : undefined;
+    try {
+      setIsChecking(true);
+      const optionSets =
+        result.type === "onramp"
+          ? getBuyOptionSets(
+              await fetchBuyOptions(country, state, { fallbackOnError: false })
+            )
+          : getSellOptionSets(
+              await fetchSellOptions(country, state, {
+                fallbackOnError: false,
+              })
+            );
+      setChecks(checkRampOptions(result, optionSets));
+    } catch (err) {
+      setOptionsError(
+        err instanceof Error ? err.message : "Failed to load options"
+      );
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <textarea
+        value={url}
+        onChange={(e) => setUrl(e.target.value)}
+        placeholder="https://pay.coinbase.com/buy/select-asset?..."
+        rows={3}
+        className="w-full px-3 py-2 border rounded-lg font-mono text-sm"
+      />
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <label className="text-sm">
+          <span className="block text-gray-600 mb-1">Country</span>
+          <select
+            value={country}
+            onChange={(e) => setCountry(e.target.value)}
+            className="w-full px-3 py-2 border rounded-lg"
+          >
+            {Object.entries(countryNames).map(([code, name]) => (
+              <option key={code} value={code}>
+                {name} ({code})
+              </option>
+            ))}
+          </select>
+        </label>
+        {country === "US" && (
+          <label className="text-sm">
+            <span className="block text-gray-600 mb-1">State</span>
+            <input
+              value={subdivision}
+              onChange={(e) => setSubdivision(e.target.value.toUpperCase())}
+              placeholder="e.g. NY"
+              maxLength={3}
+              className="w-full px-3 py-2 border rounded-lg"
+            />
+          </label>
+        )}
+        <label className="text-sm">
+          <span className="block text-gray-600 mb-1">
+            Link generated at (optional)
+          </span>
+          <input
+            type="datetime-local"
+            value={generatedAt}
+            onChange={(e) => setGeneratedAt(e.target.value)}
+            className="w-full px-3 py-2 border rounded-lg"
+          />
+        </label>
+      </div>
+      <button
+        onClick={handleInspect}
+        disabled={!url.trim() || isChecking}
+        className="px-4 py-2 rounded-lg bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white font-medium"
+      >
+        {isChecking ? "Checking options..." : "Inspect"}
+      </button>
+
+      {error && (
+        <div className="p-4 bg-red-50 text-red-700 rounded-lg">{error}</div>
+      )}
+
+      {inspection && (
+        <div className="space-y-4">
+          <p>
+            <span className="font-medium">
+              {inspection.type === "onramp" ? "Onramp" : "Offramp"} checkout
+            </span>
+            {inspection.params.every(({ status }) => status === "ok") &&
+              inspection.issues.length === 0 && (
+                <span className="ml-2 text-green-700">
+                  ✓ All parameters are valid
+                </span>
+              )}
+          </p>
+
+          {inspection.issues.length > 0 && (
+            <ul className="p-4 bg-red-50 text-red-700 rounded-lg text-sm space-y-1">
+              {inspection.issues.map(({ path, message }) => (
+                <li key={`${path}: ${message}`}>
+                  <span className="font-mono">{path}</span>: {message}
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <table className="w-full text-sm border border-gray-200">
+            <tbody>
+              {inspection.params.map((param, index) => (
+                <tr key={index} className="border-b border-gray-200 align-top">
+                  <td className="p-2 font-mono">{param.name}</td>
+                  <td className="p-2 font-mono break-all">
+                    {param.decoded !== undefined ? (
+                      <pre className="whitespace-pre-wrap">
+                        {JSON.stringify(param.decoded, null, 2)}
+                      </pre>
+                    ) : (
+                      param.value
+                    )}
+                  </td>
+                  <td className="p-2">
+                    <span
+                      className={`px-2 py-0.5 rounded text-xs font-medium ${STATUS_STYLES[param.status]}`}
+                    >
+                      {param.status}
+                    </span>
+                    {param.messages.map((message) => (
+                      <div key={message} className="mt-1 text-gray-600">
+                        {message}
+                      </div>
+                    ))}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          {inspection.sessionToken && (
+            <div className="p-4 bg-white border border-gray-200 rounded-lg text-sm">
+              <h3 className="font-bold mb-1">Session token</h3>
+              <p
+                className={SESSION_TOKEN_STYLES[inspection.sessionToken.state]}
+              >
+                {inspection.sessionToken.message}
+                {inspection.sessionToken.expiresAt &&
+                  ` (${inspection.sessionToken.expiresAt.toLocaleString()})`}
+              </p>
+            </div>
+          )}
+
+          <div className="p-4 bg-white border border-gray-200 rounded-lg text-sm">
+            <h3 className="font-bold mb-2">
+              Live {inspection.type === "onramp" ? "buy" : "sell"} options for{" "}
+              {countryNames[country] || country}
+            </h3>
+            {isChecking ? (
+              <p>Loading...</p>
+            ) : optionsError ? (
+              <p className="text-red-700">
+                Couldn&apos;t load the options: {optionsError}
+              </p>
+            ) : checks && checks.length === 0 ? (
+              <p className="text-gray-600">
+                The URL doesn&apos;t name an asset, network, currency or payment
+                method to check.
+              </p>
+            ) : (
+              <ul className="space-y-1">
+                {checks?.map((check, index) => (
+                  <li key={index}>
+                    <span
+                      className={
+                        check.supported ? "text-green-700" : "text-red-700"
+                      }
+                    >
+                      {check.supported ? "✓" : "✗"}
+                    </span>{" "}
+                    <span className="font-mono">
+                      {check.param}={check.value}
+                    </span>
+                    : {check.message}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
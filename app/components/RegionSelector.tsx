@@ -3,13 +3,6 @@ import Image from "next/image";
 import { useMemo, useState } from "react";
 import { useCoinbaseRampTransaction } from "../contexts/CoinbaseRampTransactionContext";
 
-// Define interfaces for type safety
-interface Country {
-  id: string;
-  name: string;
-  subdivisions: string[];
-}
-
 export const RegionSelector = () => {
   const {
     countries,
@@ -18,6 +11,8 @@ export const RegionSelector = () => {
     setSelectedSubdivision,
     selectedSubdivision,
     loadingBuyConfig,
+    buyConfigError,
+    reloadRampData,
   } = useCoinbaseRampTransaction();
 
   const [countryDropdownOpen, setCountryDropdownOpen] = useState(false);
@@ -25,7 +20,7 @@ export const RegionSelector = () => {
 
   const subdivisions = useMemo(() => {
     if (selectedCountry) {
-      return selectedCountry.subdivisions;
+      return selectedCountry.subdivisions ?? [];
     }
     return [];
   }, [selectedCountry]);
@@ -53,6 +48,17 @@ export const RegionSelector = () => {
           <div className="h-10 w-full rounded-lg bg-gray-200 animate-pulse"></div>
           <div className="h-10 w-full rounded-lg bg-gray-200 animate-pulse"></div>
         </div>
+      ) : buyConfigError ? (
+        <div className="flex items-center justify-between p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-700">
+          <span>Could not load supported countries: {buyConfigError}</span>
+          <button
+            type="button"
+            className="ml-4 font-medium underline"
+            onClick={reloadRampData}
+          >
+            Retry
+          </button>
+        </div>
       ) : (
         <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
           <div className="relative">
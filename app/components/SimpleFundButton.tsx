@@ -1,9 +1,10 @@
 "use client";
 
 import React, { useState, useEffect, useCallback } from "react";
-import { FundButton, getOnrampBuyUrl } from "@coinbase/onchainkit/fund";
+import { FundButton } from "@coinbase/onchainkit/fund";
 import { useAccount } from "wagmi";
 import { useSessionToken } from "../hooks/useSessionToken";
+import { buildRampUrl } from "../utils/rampUtils";
 
 export function SimpleFundButton() {
   const { address, isConnected, chainId } = useAccount();
@@ -40,7 +41,8 @@ export function SimpleFundButton() {
       // Generate funding URL with session token
       // ✅ When using sessionToken, do NOT include projectId, addresses, or assets
       // They are already encoded in the session token
-      const url = getOnrampBuyUrl({
+      const url = buildRampUrl({
+        type: "onramp",
         sessionToken,
         presetFiatAmount: 20,
         fiatCurrency: "USD",
@@ -3,8 +3,7 @@
 import { useEffect, useState } from "react";
 import { useAccount, useConnect, useSignMessage } from "wagmi";
 import { useCoinbaseRampTransaction } from "../contexts/CoinbaseRampTransactionContext";
-import { setSession } from "../queries";
-import { SiweMessage } from "siwe";
+import { clearSession, signInWithEthereum } from "../queries";
 import {
   ConnectWallet,
   Wallet,
@@ -25,10 +24,10 @@ export const WalletConnector = ({
   hideEns = false,
   buttonStyle = "px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors",
 }: IWalletConnectorProps) => {
-  const { address, isConnected } = useAccount();
+  const { address, chainId, isConnected } = useAccount();
   const { connect, connectors } = useConnect();
   const { signMessageAsync } = useSignMessage();
-  const [isSigningIn, setIsSigningIn] = useState(false);
+  const [signInError, setSignInError] = useState<string | null>(null);
 
   const {
     setRampTransaction,
@@ -37,12 +36,43 @@ export const WalletConnector = ({
     setAuthenticated,
   } = useCoinbaseRampTransaction();
 
-  // Auto sign-in when wallet is connected
+  // A new wallet gets a fresh sign-in attempt
   useEffect(() => {
-    if (isConnected && address && !authenticated && !isSigningIn) {
-      handleSignIn();
+    setSignInError(null);
+  }, [isConnected, address]);
+
+  // Auto sign-in when wallet is connected; after a failure wait for Retry
+  useEffect(() => {
+    if (!isConnected || !address || authenticated || signInError) {
+      return;
     }
-  }, [isConnected, address, authenticated]);
+
+    let cancelled = false;
+
+    // Sign a SIWE message; the server keeps the session in an HTTP-only
+    // cookie and only mints session tokens for this address
+    signInWithEthereum({
+      address,
+      chainId: chainId ?? 1,
+      signMessage: (message) => signMessageAsync({ message }),
+    })
+      .then(() => {
+        // Ignore sign-ins for a wallet that has since disconnected or changed
+        if (!cancelled) setAuthenticated(true);
+      })
+      .catch((err) => {
+        console.error("Error occurred when authenticating user", err);
+        if (!cancelled) {
+          setSignInError(
+            err instanceof Error ? err.message : "Wallet sign-in failed"
+          );
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isConnected, address, authenticated, signInError]);
 
   useEffect(() => {
     if (authenticated && address && rampTransaction?.wallet !== address) {
@@ -66,46 +96,11 @@ export const WalletConnector = ({
     }
   };
 
-  const handleSignIn = async () => {
-    if (!address) return;
-    setIsSigningIn(true);
-
-    try {
-      // Create a SIWE message
-      const message = new SiweMessage({
-        domain: window.location.host,
-        address,
-        statement: "Sign in with Ethereum to Coinbase Ramp.",
-        uri: window.location.origin,
-        version: "1",
-        chainId: 1,
-        nonce: Math.random().toString(36).substring(2, 10),
-      });
-
-      // Sign the message
-      const signature = await signMessageAsync({
-        message: message.prepareMessage(),
-      });
-
-      // Mock session setup
-      await setSession({
-        message,
-        signature,
-      });
-
-      setAuthenticated(true);
-    } catch (err) {
-      console.error("Error occurred when authenticating user", err);
-    } finally {
-      setIsSigningIn(false);
-    }
-  };
-
-  const handleDisconnect = () => {
-    // Clear the session cookie
-    document.cookie = `coinbase-ramp-demo-app-auth=; path=/; expires=Thu, 01 Jan 1970 00:00:00 GMT; SameSite=Strict${
-      process.env.NODE_ENV === "production" ? "; Secure" : ""
-    }`;
+  const handleDisconnect = async () => {
+    // The session cookie is HTTP-only, so only the server can clear it
+    await clearSession().catch((err) =>
+      console.error("Error occurred when signing out", err)
+    );
     setAuthenticated(false);
   };
 
@@ -120,7 +115,20 @@ export const WalletConnector = ({
 
   // If connected and authenticated, show wallet info with dropdown
   return (
-    <div className="flex justify-end">
+    <div className="flex items-center justify-end gap-3">
+      {signInError && (
+        <div className="flex items-center gap-2 text-sm text-red-600">
+          <span className="max-w-xs truncate" title={signInError}>
+            Sign-in failed: {signInError}
+          </span>
+          <button
+            onClick={() => setSignInError(null)}
+            className="px-2 py-1 font-medium border border-red-300 rounded-md hover:bg-red-50 transition-colors"
+          >
+            Retry
+          </button>
+        </div>
+      )}
       <Wallet>
         <ConnectWallet>
           <Avatar className="h-6 w-6" />
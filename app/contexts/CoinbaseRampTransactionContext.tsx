@@ -1,72 +1,56 @@
 "use client";
 import {
   createContext,
+  useCallback,
   useContext,
   useState,
   useEffect,
   ReactNode,
 } from "react";
 import { RampTransaction } from "../types/RampTransaction";
-
-interface Country {
-  id: string;
-  name: string;
-  subdivisions: string[];
-  paymentMethods?: Array<{
-    id: string;
-    name?: string;
-  }>;
-}
+import {
+  BuyOptionsResponse,
+  Country,
+  Network,
+  PurchaseCurrency,
+  fetchBuyConfig,
+  fetchBuyOptions,
+} from "../utils/onrampApi";
+import {
+  CryptoAsset,
+  SellOptionsResponse,
+  fetchSellOptions,
+} from "../utils/offrampApi";
 
 interface Currency {
   id: string;
   name: string;
 }
 
-interface Network {
-  name: string;
-  displayName: string;
-}
-
-interface PurchaseCurrency {
-  id: string;
-  name: string;
-  symbol: string;
-  networks: Network[];
-}
-
-interface SellCurrencyNetwork {
-  name: string;
-  display_name: string;
-}
-
-interface SellCurrency {
-  id: string;
-  name: string;
-  networks: SellCurrencyNetwork[];
-}
-
-interface BuyOptions {
-  paymentCurrencies: Currency[];
-  purchaseCurrencies: PurchaseCurrency[];
-}
-
-interface SellOptions {
-  sell_currencies: SellCurrency[];
-}
+type SellCurrency = CryptoAsset;
+type SellCurrencyNetwork = CryptoAsset["networks"][number];
 
 interface CoinbaseRampTransactionContextType {
+  // Countries and payment methods from the Buy Config API
   countries: Country[];
+  loadingBuyConfig: boolean;
+  buyConfigError: string | null;
   selectedCountry: Country | null;
   setSelectedCountry: (country: Country) => void;
+  // ISO 3166-2 subdivision code (e.g. "NY"); required for US options
   selectedSubdivision: string | null;
   setSelectedSubdivision: (subdivision: string | null) => void;
   selectedCurrency: Currency | null;
   setSelectedCurrency: (currency: Currency | null) => void;
-  buyOptions: BuyOptions | null;
-  sellOptions: SellOptions | null;
-  loadingBuyConfig: boolean;
+  // Options for the selected country/subdivision; null until loaded
+  buyOptions: BuyOptionsResponse | null;
   loadingBuyOptions: boolean;
+  buyOptionsError: string | null;
+  sellOptions: SellOptionsResponse | null;
+  loadingSellOptions: boolean;
+  sellOptionsError: string | null;
+  // Refetches config and options after an error
+  reloadRampData: () => void;
   selectedPurchaseCurrency: PurchaseCurrency | null;
   setSelectedPurchaseCurrency: (currency: PurchaseCurrency) => void;
   selectedPurchaseCurrencyNetwork: Network | null;
@@ -89,145 +73,193 @@ const CoinbaseRampTransactionContext = createContext<
   CoinbaseRampTransactionContextType | undefined
 >(undefined);
 
-// Sample data for demonstration
-const sampleCountries: Country[] = [
-  {
-    id: "US",
-    name: "United States",
-    subdivisions: ["California", "New York", "Texas"],
-    paymentMethods: [
-      { id: "credit_card", name: "Credit Card" },
-      { id: "debit_card", name: "Debit Card" },
-      { id: "bank_transfer", name: "Bank Transfer" },
-    ],
-  },
-  {
-    id: "CA",
-    name: "Canada",
-    subdivisions: ["Ontario", "Quebec", "British Columbia"],
-    paymentMethods: [
-      { id: "credit_card", name: "Credit Card" },
-      { id: "debit_card", name: "Debit Card" },
-    ],
-  },
-  {
-    id: "GB",
-    name: "United Kingdom",
-    subdivisions: [],
-    paymentMethods: [
-      { id: "credit_card", name: "Credit Card" },
-      { id: "bank_transfer", name: "Bank Transfer" },
-    ],
-  },
-  {
-    id: "DE",
-    name: "Germany",
-    subdivisions: [],
-    paymentMethods: [
-      { id: "credit_card", name: "Credit Card" },
-      { id: "sepa", name: "SEPA Transfer" },
-    ],
-  },
-];
-
-const sampleCurrencies: Currency[] = [
-  { id: "USD", name: "US Dollar" },
-  { id: "EUR", name: "Euro" },
-  { id: "GBP", name: "British Pound" },
-];
+// Preferred selections when the live data offers them
+const DEFAULT_COUNTRY = "US";
+const DEFAULT_FIAT = "USD";
+const DEFAULT_ASSET = "USDC";
+const DEFAULT_NETWORK = "base";
 
-const sampleNetworks: Network[] = [
-  { name: "ethereum", displayName: "Ethereum" },
-  { name: "base", displayName: "Base" },
-  { name: "optimism", displayName: "Optimism" },
-];
+const errorMessage = (error: unknown) =>
+  error instanceof Error ? error.message : String(error);
 
-const samplePurchaseCurrencies: PurchaseCurrency[] = [
-  { id: "BTC", name: "Bitcoin", symbol: "₿", networks: sampleNetworks },
-  { id: "ETH", name: "Ethereum", symbol: "Ξ", networks: sampleNetworks },
-  { id: "USDC", name: "USD Coin", symbol: "$", networks: sampleNetworks },
-];
-
-const sampleSellCurrencies: SellCurrency[] = [
-  {
-    id: "BTC",
-    name: "Bitcoin",
-    networks: sampleNetworks.map((n) => ({
-      name: n.name,
-      display_name: n.displayName,
-    })),
-  },
-  {
-    id: "ETH",
-    name: "Ethereum",
-    networks: sampleNetworks.map((n) => ({
-      name: n.name,
-      display_name: n.displayName,
-    })),
-  },
-  {
-    id: "USDC",
-    name: "USD Coin",
-    networks: sampleNetworks.map((n) => ({
-      name: n.name,
-      display_name: n.displayName,
-    })),
-  },
-];
+// Keeps the current selection if it is still offered, otherwise falls back
+// to the preferred id or the first item
+function reconcile<T>(
+  items: T[],
+  getId: (item: T) => string,
+  current: T | null,
+  preferredId: string
+): T | null {
+  return (
+    items.find((item) => current && getId(item) === getId(current)) ??
+    items.find((item) => getId(item) === preferredId) ??
+    items[0] ??
+    null
+  );
+}
 
 export const CoinbaseRampTransactionProvider = ({
   children,
 }: {
   children: ReactNode;
 }) => {
-  const [countries] = useState<Country[]>(sampleCountries);
-  const [selectedCountry, setSelectedCountry] = useState<Country | null>(
-    sampleCountries[0]
-  );
+  const [countries, setCountries] = useState<Country[]>([]);
+  const [loadingBuyConfig, setLoadingBuyConfig] = useState(true);
+  const [buyConfigError, setBuyConfigError] = useState<string | null>(null);
+  const [selectedCountry, setSelectedCountry] = useState<Country | null>(null);
   const [selectedSubdivision, setSelectedSubdivision] = useState<string | null>(
     null
   );
   const [selectedCurrency, setSelectedCurrency] = useState<Currency | null>(
-    sampleCurrencies[0]
+    null
   );
-  const [loadingBuyConfig, setLoadingBuyConfig] = useState(false);
+  const [buyOptions, setBuyOptions] = useState<BuyOptionsResponse | null>(null);
   const [loadingBuyOptions, setLoadingBuyOptions] = useState(false);
-  const [buyOptions, setBuyOptions] = useState<BuyOptions | null>({
-    paymentCurrencies: sampleCurrencies,
-    purchaseCurrencies: samplePurchaseCurrencies,
-  });
-  const [sellOptions, setSellOptions] = useState<SellOptions | null>({
-    sell_currencies: sampleSellCurrencies,
-  });
+  const [buyOptionsError, setBuyOptionsError] = useState<string | null>(null);
+  const [sellOptions, setSellOptions] = useState<SellOptionsResponse | null>(
+    null
+  );
+  const [loadingSellOptions, setLoadingSellOptions] = useState(false);
+  const [sellOptionsError, setSellOptionsError] = useState<string | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
   const [selectedPurchaseCurrency, setSelectedPurchaseCurrency] =
-    useState<PurchaseCurrency | null>(samplePurchaseCurrencies[0]);
+    useState<PurchaseCurrency | null>(null);
   const [selectedPurchaseCurrencyNetwork, setSelectedPurchaseCurrencyNetwork] =
-    useState<Network | null>(sampleNetworks[0]);
+    useState<Network | null>(null);
   const [selectedSellCurrency, setSelectedSellCurrency] =
-    useState<SellCurrency | null>(sampleSellCurrencies[0]);
+    useState<SellCurrency | null>(null);
   const [selectedSellCurrencyNetwork, setSelectedSellCurrencyNetwork] =
-    useState<SellCurrencyNetwork | null>({
-      name: sampleNetworks[0].name,
-      display_name: sampleNetworks[0].displayName,
-    });
+    useState<SellCurrencyNetwork | null>(null);
   const [isOnrampActive, setIsOnrampActive] = useState(true);
   const [rampTransaction, setRampTransaction] = useState<RampTransaction>({});
   const [authenticated, setAuthenticated] = useState(false);
-  const partnerUserId = "demo-user-123"; // Sample partner user ID
+  // Matches the partnerUserId our onramp/offramp URLs send to Coinbase
+  const partnerUserId = rampTransaction.wallet?.substring(0, 49);
 
-  // Simulate loading data
+  const reloadRampData = useCallback(() => setReloadKey((key) => key + 1), []);
+
+  // Load supported countries (Buy Config API)
   useEffect(() => {
+    let cancelled = false;
     setLoadingBuyConfig(true);
+    setBuyConfigError(null);
+
+    fetchBuyConfig({ fallbackOnError: false })
+      .then((config) => {
+        if (cancelled) return;
+        setCountries(config.countries);
+        setSelectedCountry((current) =>
+          reconcile(config.countries, (c) => c.id, current, DEFAULT_COUNTRY)
+        );
+      })
+      .catch((error) => {
+        if (!cancelled) setBuyConfigError(errorMessage(error));
+      })
+      .finally(() => {
+        if (!cancelled) setLoadingBuyConfig(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [reloadKey]);
+
+  const countryId = selectedCountry?.id;
+  // Options for countries with subdivisions (US) depend on the subdivision
+  const needsSubdivision =
+    !!selectedCountry?.subdivisions?.length && !selectedSubdivision;
+
+  // Load buy and sell options for the selected country/subdivision
+  useEffect(() => {
+    setBuyOptions(null);
+    setSellOptions(null);
+    setBuyOptionsError(null);
+    setSellOptionsError(null);
+
+    if (!countryId || needsSubdivision) {
+      return;
+    }
+
+    let cancelled = false;
+    const subdivision = selectedSubdivision ?? undefined;
     setLoadingBuyOptions(true);
+    setLoadingSellOptions(true);
 
-    // Simulate API call
-    const timer = setTimeout(() => {
-      setLoadingBuyConfig(false);
+    fetchBuyOptions(countryId, subdivision, { fallbackOnError: false })
+      .then((options) => {
+        if (!cancelled) setBuyOptions(options);
+      })
+      .catch((error) => {
+        if (!cancelled) setBuyOptionsError(errorMessage(error));
+      })
+      .finally(() => {
+        if (!cancelled) setLoadingBuyOptions(false);
+      });
+
+    fetchSellOptions(countryId, subdivision, { fallbackOnError: false })
+      .then((options) => {
+        if (!cancelled) setSellOptions(options);
+      })
+      .catch((error) => {
+        if (!cancelled) setSellOptionsError(errorMessage(error));
+      })
+      .finally(() => {
+        if (!cancelled) setLoadingSellOptions(false);
+      });
+
+    return () => {
+      cancelled = true;
       setLoadingBuyOptions(false);
-    }, 1000);
+      setLoadingSellOptions(false);
+    };
+  }, [countryId, selectedSubdivision, needsSubdivision, reloadKey]);
+
+  // Keep selections valid for the loaded options
+  useEffect(() => {
+    if (!buyOptions) return;
+    setSelectedCurrency((current) =>
+      reconcile(
+        buyOptions.paymentCurrencies,
+        (c) => c.id,
+        current,
+        DEFAULT_FIAT
+      )
+    );
+    setSelectedPurchaseCurrency((current) =>
+      reconcile(
+        buyOptions.purchaseCurrencies,
+        (c) => c.symbol,
+        current,
+        DEFAULT_ASSET
+      )
+    );
+  }, [buyOptions]);
+
+  useEffect(() => {
+    if (!sellOptions) return;
+    setSelectedSellCurrency((current) =>
+      reconcile(
+        sellOptions.sell_currencies,
+        (c) => c.code,
+        current,
+        DEFAULT_ASSET
+      )
+    );
+  }, [sellOptions]);
 
-    return () => clearTimeout(timer);
-  }, []);
+  useEffect(() => {
+    const networks = selectedPurchaseCurrency?.networks ?? [];
+    setSelectedPurchaseCurrencyNetwork((current) =>
+      reconcile(networks, (n) => n.id, current, DEFAULT_NETWORK)
+    );
+  }, [selectedPurchaseCurrency]);
+
+  useEffect(() => {
+    const networks = selectedSellCurrency?.networks ?? [];
+    setSelectedSellCurrencyNetwork((current) =>
+      reconcile(networks, (n) => n.id, current, DEFAULT_NETWORK)
+    );
+  }, [selectedSellCurrency]);
 
   const setSelectedPaymentMethod = (method: any) => {
     // Implementation for setting payment method
@@ -237,6 +269,8 @@ export const CoinbaseRampTransactionProvider = ({
     <CoinbaseRampTransactionContext.Provider
       value={{
         countries,
+        loadingBuyConfig,
+        buyConfigError,
         selectedCountry,
         setSelectedCountry,
         selectedSubdivision,
@@ -244,9 +278,12 @@ export const CoinbaseRampTransactionProvider = ({
         selectedCurrency,
         setSelectedCurrency,
         buyOptions,
-        sellOptions,
-        loadingBuyConfig,
         loadingBuyOptions,
+        buyOptionsError,
+        sellOptions,
+        loadingSellOptions,
+        sellOptionsError,
+        reloadRampData,
         selectedPurchaseCurrency,
         setSelectedPurchaseCurrency,
         selectedPurchaseCurrencyNetwork,
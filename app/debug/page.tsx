@@ -1,7 +1,9 @@
 'use client';
 
 import { useEffect, useState } from 'react';
+import DiagnosticsPanel from '../components/DiagnosticsPanel';
 import { Header } from '../components/Header';
+import RampUrlInspector from '../components/RampUrlInspector';
 import { WalletConnector } from '../components/WalletConnector';
 
 export default function DebugPage() {
@@ -186,6 +188,24 @@ export default function DebugPage() {
               </li>
             </ol>
           </div>
+
+          <div className="mt-8 p-4 bg-gray-50 border border-gray-200 rounded-lg">
+            <h2 className="text-xl font-bold mb-2">Ramp URL Inspector</h2>
+            <p className="mb-4 text-gray-600">
+              Paste a pay.coinbase.com onramp or offramp link to decode its
+              parameters and check them against the live options.
+            </p>
+            <RampUrlInspector />
+          </div>
+
+          <div className="mt-8 p-4 bg-gray-50 border border-gray-200 rounded-lg">
+            <h2 className="text-xl font-bold mb-2">Diagnostics</h2>
+            <p className="mb-4 text-gray-600">
+              Makes a live request to every CDP endpoint the app uses and checks
+              the allowed origins for this host.
+            </p>
+            <DiagnosticsPanel />
+          </div>
         </div>
       </main>
     </div>
@@ -0,0 +1,82 @@
+import { useEffect, useState } from 'react';
+import { getApplePayOrderStatus } from '../queries';
+import { ApplePayOrderStatusResponse } from '../types';
+
+const INITIAL_POLL_DELAY_MS = 2000;
+const MAX_POLL_DELAY_MS = 30000;
+const BACKOFF_FACTOR = 1.5;
+
+interface UseApplePayOrderStatusReturn {
+  order: ApplePayOrderStatusResponse | null;
+  error: string | null;
+  // False once the order is completed or failed
+  isPolling: boolean;
+}
+
+const isFinal = (order: ApplePayOrderStatusResponse | null) =>
+  order?.status === 'completed' || order?.status === 'failed';
+
+/**
+ * Polls an Apple Pay order until it completes or fails. Pass undefined to
+ * stop polling.
+ * The delay grows while nothing changes (and after errors) and is reset
+ * when the status moves on, so a long-pending order isn't hammered.
+ */
+export function useApplePayOrderStatus(
+  orderId: string | undefined
+): UseApplePayOrderStatusReturn {
+  const [order, setOrder] = useState<ApplePayOrderStatusResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setOrder(null);
+    setError(null);
+
+    if (!orderId) {
+      return;
+    }
+
+    let cancelled = false;
+    let timeout: ReturnType<typeof setTimeout> | undefined;
+    let delay = INITIAL_POLL_DELAY_MS;
+    let lastStatus: string | undefined;
+
+    const poll = async () => {
+      try {
+        const result = await getApplePayOrderStatus(orderId);
+        if (cancelled) {
+          return;
+        }
+
+        setOrder(result);
+        setError(null);
+        if (isFinal(result)) {
+          return;
+        }
+
+        delay =
+          result.rawStatus === lastStatus
+            ? Math.min(delay * BACKOFF_FACTOR, MAX_POLL_DELAY_MS)
+            : INITIAL_POLL_DELAY_MS;
+        lastStatus = result.rawStatus;
+      } catch (err) {
+        if (cancelled) {
+          return;
+        }
+        setError(err instanceof Error ? err.message : 'Unknown error');
+        delay = Math.min(delay * BACKOFF_FACTOR, MAX_POLL_DELAY_MS);
+      }
+
+      timeout = setTimeout(poll, delay);
+    };
+
+    poll();
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [orderId]);
+
+  return { order, error, isPolling: !!orderId && !isFinal(order) };
+}
@@ -0,0 +1,97 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  COINBASE_IFRAME_ORIGINS,
+  CoinbaseIframeEvent,
+  CoinbaseIframeEventBus,
+  isAllowedIframeOrigin,
+  parseCoinbaseIframeEvent,
+} from '../utils/coinbaseIframeEvents';
+import { logger } from '../utils/logger';
+
+const MAX_LOGGED_EVENTS = 100;
+
+export interface CoinbaseIframeEventLogEntry {
+  id: number;
+  event: CoinbaseIframeEvent;
+  origin: string;
+  receivedAt: Date;
+}
+
+interface UseCoinbaseIframeEventsReturn {
+  // Received events, oldest first (the last MAX_LOGGED_EVENTS)
+  events: CoinbaseIframeEventLogEntry[];
+  // Typed subscriptions; both return the unsubscribe function
+  on: CoinbaseIframeEventBus['on'];
+  onAny: CoinbaseIframeEventBus['onAny'];
+  clearEvents: () => void;
+}
+
+/**
+ * Listens for onramp_api.* postMessage events from embedded Coinbase pages
+ * Messages are only accepted from an exact origin in `allowedOrigins` (use
+ * getIframeOrigin(iframeUrl) to trust just the embedded page); messages
+ * from other origins or with unknown event names are dropped.
+ *
+ * @example
+ * const { events, on } = useCoinbaseIframeEvents();
+ * useEffect(
+ *   () => on('onramp_api.polling_success', (event) => ...),
+ *   [on]
+ * );
+ */
+export function useCoinbaseIframeEvents(
+  allowedOrigins: readonly string[] = COINBASE_IFRAME_ORIGINS
+): UseCoinbaseIframeEventsReturn {
+  const [events, setEvents] = useState<CoinbaseIframeEventLogEntry[]>([]);
+  const busRef = useRef(new CoinbaseIframeEventBus());
+  const nextIdRef = useRef(0);
+
+  // Read by the listener, so a new array each render doesn't re-subscribe
+  const allowedOriginsRef = useRef(allowedOrigins);
+  allowedOriginsRef.current = allowedOrigins;
+
+  useEffect(() => {
+    const handleMessage = (message: MessageEvent) => {
+      if (!isAllowedIframeOrigin(message.origin, allowedOriginsRef.current)) {
+        return;
+      }
+
+      const event = parseCoinbaseIframeEvent(message.data);
+      if (!event) {
+        logger.warn('Unrecognized message from Coinbase iframe', {
+          origin: message.origin,
+        });
+        return;
+      }
+
+      logger.debug('Coinbase iframe event', {
+        eventName: event.eventName,
+        data: event.data,
+      });
+
+      const entry: CoinbaseIframeEventLogEntry = {
+        id: nextIdRef.current++,
+        event,
+        origin: message.origin,
+        receivedAt: new Date(),
+      };
+      setEvents((prev) => [...prev, entry].slice(-MAX_LOGGED_EVENTS));
+      busRef.current.emit(event);
+    };
+
+    window.addEventListener('message', handleMessage);
+    return () => window.removeEventListener('message', handleMessage);
+  }, []);
+
+  const on = useCallback<CoinbaseIframeEventBus['on']>(
+    (eventName, listener) => busRef.current.on(eventName, listener),
+    []
+  );
+  const onAny = useCallback<CoinbaseIframeEventBus['onAny']>(
+    (listener) => busRef.current.onAny(listener),
+    []
+  );
+  const clearEvents = useCallback(() => setEvents([]), []);
+
+  return { events, on, onAny, clearEvents };
+}
@@ -0,0 +1,113 @@
+import { useCallback, useEffect, useState } from 'react';
+import {
+  LiveRampOptions,
+  RampState,
+  RampStateField,
+  parseRampState,
+  resolveRampState,
+  serializeRampState,
+} from '../utils/rampState';
+
+const STORAGE_PREFIX = 'coinbase-ramp-demo-app:';
+
+interface UsePersistedRampStateReturn {
+  state: RampState;
+  update: (changes: Partial<RampState>) => void;
+  // False until the URL/localStorage state has been read; wait for it
+  // before loading data that depends on the selections
+  restored: boolean;
+  // Replaces restored selections the live options don't offer. Only the
+  // first call after restoring applies; later changes come from the UI,
+  // which only offers live options.
+  validateRestored: (live: LiveRampOptions) => RampStateField[];
+}
+
+function readStoredState(storageKey: string): Partial<RampState> {
+  try {
+    const stored = window.localStorage.getItem(STORAGE_PREFIX + storageKey);
+    return stored ? parseRampState(new URLSearchParams(stored)) : {};
+  } catch {
+    // Storage may be unavailable (private mode, blocked cookies)
+    return {};
+  }
+}
+
+/**
+ * Keeps ramp selections in the page URL and localStorage
+ *
+ * On load, a URL with any ramp parameter wins over localStorage so shared
+ * links reproduce the linked configuration exactly. Changes are written
+ * back with history.replaceState, keeping unrelated query parameters.
+ * @param storageKey - Separate key per feature (e.g. "onramp")
+ */
+export function usePersistedRampState(
+  storageKey: string,
+  defaults: RampState
+): UsePersistedRampStateReturn {
+  const [state, setState] = useState<RampState>(defaults);
+  const [restored, setRestored] = useState(false);
+  const [validated, setValidated] = useState(false);
+
+  // Read after mount: the server render has no URL or storage to read
+  useEffect(() => {
+    const fromUrl = parseRampState(new URLSearchParams(window.location.search));
+    const persisted =
+      Object.keys(fromUrl).length > 0 ? fromUrl : readStoredState(storageKey);
+
+    setState((current) => ({ ...current, ...persisted }));
+    setRestored(true);
+  }, [storageKey]);
+
+  useEffect(() => {
+    if (!restored) {
+      return;
+    }
+
+    const params = serializeRampState(
+      state,
+      new URLSearchParams(window.location.search)
+    );
+    const query = params.toString();
+    window.history.replaceState(
+      window.history.state,
+      '',
+      `${window.location.pathname}${query ? `?${query}` : ''}`
+    );
+
+    try {
+      window.localStorage.setItem(
+        STORAGE_PREFIX + storageKey,
+        serializeRampState(state).toString()
+      );
+    } catch {
+      // Persisting is best effort
+    }
+  }, [state, restored, storageKey]);
+
+  const update = useCallback((changes: Partial<RampState>) => {
+    setState((current) => ({ ...current, ...changes }));
+  }, []);
+
+  const validateRestored = useCallback(
+    (live: LiveRampOptions) => {
+      if (!restored || validated) {
+        return [];
+      }
+
+      const { state: resolved, invalid } = resolveRampState(
+        state,
+        live,
+        defaults
+      );
+      if (invalid.length > 0) {
+        console.warn('Unsupported ramp selections were reset:', invalid);
+        setState(resolved);
+      }
+      setValidated(true);
+      return invalid;
+    },
+    [state, defaults, restored, validated]
+  );
+
+  return { state, update, restored, validateRestored };
+}
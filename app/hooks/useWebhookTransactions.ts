@@ -0,0 +1,58 @@
+import { useEffect, useState } from 'react';
+import { getWebhookTransactions } from '../queries';
+import { WebhookTransactionState } from '../types';
+
+const POLL_INTERVAL_MS = 5000;
+
+interface UseWebhookTransactionsReturn {
+  transactions: WebhookTransactionState[];
+  error: string | null;
+}
+
+/**
+ * Polls the transaction state our webhook receiver stored for a
+ * partnerUserRef/partnerUserId. Pass undefined to stop polling.
+ */
+export function useWebhookTransactions(
+  partnerUserRef: string | undefined
+): UseWebhookTransactionsReturn {
+  const [transactions, setTransactions] = useState<WebhookTransactionState[]>(
+    []
+  );
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setTransactions([]);
+    setError(null);
+
+    if (!partnerUserRef) {
+      return;
+    }
+
+    let cancelled = false;
+
+    const poll = async () => {
+      try {
+        const result = await getWebhookTransactions(partnerUserRef);
+        if (!cancelled) {
+          setTransactions(result);
+          setError(null);
+        }
+      } catch (err) {
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : 'Unknown error');
+        }
+      }
+    };
+
+    poll();
+    const interval = setInterval(poll, POLL_INTERVAL_MS);
+
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [partnerUserRef]);
+
+  return { transactions, error };
+}
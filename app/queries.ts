@@ -1,10 +1,23 @@
 import { SiweMessage } from 'siwe';
+import {
+  applePayOrderStatusResponseSchema,
+  getApiErrorMessage,
+  parseApiResponse,
+  phoneVerificationCodeResponseSchema,
+  phoneVerificationResponseSchema,
+  sessionTokenRouteResponseSchema,
+  siweSessionResponseSchema,
+  transactionHistoryResponseSchema,
+  transactionStatusResponseSchema,
+} from './utils/apiSchemas';
 import {
   AggregatorInputParams,
   SellOptionsRequest,
   SellOptionsResponse,
   SellQuoteRequest,
   SellQuoteResponse,
+  SessionRequest,
+  SiweSessionResponse,
 } from './types';
 
 export async function generateSecureToken({
@@ -29,7 +42,11 @@ export async function generateSecureToken({
         'Failed to fetch secure token: ensure valid inputs, crypto wallet matches network, and secure connection'
       );
     }
-    const json = await response.json();
+    const json = parseApiResponse(
+      sessionTokenRouteResponseSchema,
+      await response.json(),
+      'session token'
+    );
     return json.token;
   } catch (error) {
     throw error;
@@ -94,59 +111,217 @@ export async function generateSellQuote(request: SellQuoteRequest) {
   }
 }
 
+export async function getSiweSession(): Promise<SiweSessionResponse> {
+  const response = await fetch('/api/siwe');
+
+  if (!response.ok) {
+    console.log(await response.text());
+    throw new Error('Failed to get sign in nonce');
+  }
+
+  return parseApiResponse(
+    siweSessionResponseSchema,
+    await response.json(),
+    'sign in'
+  );
+}
+
 export async function setSession({
   message,
   signature,
-}: {
-  message: SiweMessage;
-  signature: `0x${string}`;
-}) {
-  try {
-    const response = await fetch('/api/session', {
-      method: 'POST',
-      body: JSON.stringify({ message, signature }),
-    });
+}: SessionRequest): Promise<SiweSessionResponse> {
+  const response = await fetch('/api/siwe', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ message, signature }),
+  });
 
-    if (!response.ok) {
-      console.log(await response.text());
-      throw new Error('Failed to set session');
-    }
+  if (!response.ok) {
+    console.log(await response.text());
+    throw new Error('Failed to set session');
+  }
 
-    const json = await response.json();
-    return json;
-  } catch (error) {
-    throw error;
+  return parseApiResponse(
+    siweSessionResponseSchema,
+    await response.json(),
+    'sign in'
+  );
+}
+
+export async function clearSession(): Promise<void> {
+  await fetch('/api/siwe', { method: 'DELETE' });
+}
+
+/**
+ * Signs in with Ethereum: fetches a nonce, has the wallet sign the SIWE
+ * message and exchanges the signature for the session cookie that
+ * /api/session requires
+ * @param signMessage - Signs a plain text message with the wallet
+ */
+export async function signInWithEthereum({
+  address,
+  chainId,
+  signMessage,
+}: {
+  address: `0x${string}`;
+  chainId: number;
+  signMessage: (message: string) => Promise<`0x${string}`>;
+}): Promise<SiweSessionResponse> {
+  const { nonce, address: signedInAddress } = await getSiweSession();
+
+  // Reuse the existing session for the same wallet
+  if (signedInAddress?.toLowerCase() === address.toLowerCase()) {
+    return { address: signedInAddress };
   }
+
+  const message = new SiweMessage({
+    domain: window.location.host,
+    address,
+    statement: 'Sign in with Ethereum to Coinbase Ramp.',
+    uri: window.location.origin,
+    version: '1',
+    chainId,
+    nonce,
+  }).prepareMessage();
+
+  const signature = await signMessage(message);
+  return setSession({ message, signature });
 }
 
 export async function getOrdersByPartnerUserId({
   partnerUserId,
   pageKey,
   pageSize,
+  type,
 }: {
   partnerUserId: string;
   pageKey?: string;
   pageSize?: number;
+  type?: 'buy' | 'sell' | 'all';
 }) {
   try {
-    let url = `/api/transaction-history/${partnerUserId}`;
-
-    if (pageKey && pageSize) {
-      url += `?page_key=${pageKey}&page_size=${pageSize}`;
-    } else if (pageKey) {
-      url += `?page_key=${pageKey}`;
-    } else if (pageSize) {
-      url += `?page_size=${pageSize}`;
-    }
+    const params = new URLSearchParams();
+    if (pageKey) params.append('page_key', pageKey);
+    if (pageSize) params.append('page_size', String(pageSize));
+    if (type) params.append('type', type);
+
+    const query = params.toString();
+    const url = `/api/transaction-history/${encodeURIComponent(
+      partnerUserId
+    )}${query ? `?${query}` : ''}`;
+
+    // Requires a Sign-In with Ethereum session for the same wallet
     const response = await fetch(url);
+    if (!response.ok) {
+      const body = await response.json().catch(() => ({}));
+      throw new Error(
+        getApiErrorMessage(body, 'Failed to fetch orders by partner user id')
+      );
+    }
+
+    return parseApiResponse(
+      transactionHistoryResponseSchema,
+      await response.json(),
+      'transaction history'
+    );
+  } catch (error) {
+    throw error;
+  }
+}
+
+export async function getWebhookTransactions(partnerUserRef: string) {
+  try {
+    const response = await fetch(
+      `/api/transaction-status/${encodeURIComponent(partnerUserRef)}`
+    );
     if (!response.ok) {
       console.log(await response.text());
-      throw new Error('Failed to fetch orders by partner user id');
+      throw new Error('Failed to fetch transaction status');
     }
 
-    const json = await response.json();
-    return json;
+    const json = parseApiResponse(
+      transactionStatusResponseSchema,
+      await response.json(),
+      'transaction status'
+    );
+    return json.transactions;
   } catch (error) {
     throw error;
   }
 }
+
+export async function getApplePayOrderStatus(orderId: string) {
+  const response = await fetch(
+    `/api/apple-pay/order/${encodeURIComponent(orderId)}`
+  );
+  if (!response.ok) {
+    const body = await response.json().catch(() => ({}));
+    throw new Error(getApiErrorMessage(body, 'Failed to fetch order status'));
+  }
+
+  return parseApiResponse(
+    applePayOrderStatusResponseSchema,
+    await response.json(),
+    'order status'
+  );
+}
+
+/**
+ * Returns the phone number verified in this browser, if any
+ */
+export async function getPhoneVerification() {
+  const response = await fetch('/api/phone-verification');
+  if (!response.ok) {
+    const body = await response.json().catch(() => ({}));
+    throw new Error(
+      getApiErrorMessage(body, 'Failed to fetch phone verification')
+    );
+  }
+
+  return parseApiResponse(
+    phoneVerificationResponseSchema,
+    await response.json(),
+    'phone verification'
+  );
+}
+
+/**
+ * Sends a verification code by SMS; check it with verifyPhoneNumber
+ */
+export async function sendPhoneVerificationCode(phoneNumber: string) {
+  const response = await fetch('/api/phone-verification', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ phoneNumber }),
+  });
+  if (!response.ok) {
+    const body = await response.json().catch(() => ({}));
+    throw new Error(
+      getApiErrorMessage(body, 'Failed to send verification code')
+    );
+  }
+
+  return parseApiResponse(
+    phoneVerificationCodeResponseSchema,
+    await response.json(),
+    'verification code'
+  );
+}
+
+export async function verifyPhoneNumber(phoneNumber: string, code: string) {
+  const response = await fetch('/api/phone-verification/verify', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ phoneNumber, code }),
+  });
+  if (!response.ok) {
+    const body = await response.json().catch(() => ({}));
+    throw new Error(getApiErrorMessage(body, 'Failed to verify phone number'));
+  }
+
+  return parseApiResponse(
+    phoneVerificationResponseSchema,
+    await response.json(),
+    'phone verification'
+  );
+}
@@ -0,0 +1,31 @@
+"use client";
+
+import { Suspense } from "react";
+import PaySimulator from "../../components/PaySimulator";
+import { isPaySimulatorEnabled } from "../../utils/paySimulator";
+
+interface SimulatorPageProps {
+  params: { path?: string[] };
+}
+
+/**
+ * /simulator/[...path]
+ * Local stand-in for pay.coinbase.com/[...path] (see utils/paySimulator.ts)
+ */
+export default function SimulatorPage({ params }: SimulatorPageProps) {
+  if (!isPaySimulatorEnabled()) {
+    return (
+      <main className="p-6 text-center">
+        The checkout simulator is disabled. Set NEXT_PUBLIC_PAY_SIMULATOR=true
+        to use it.
+      </main>
+    );
+  }
+
+  // useSearchParams needs a Suspense boundary
+  return (
+    <Suspense fallback={<div className="p-6 text-center">Loading...</div>}>
+      <PaySimulator path={(params.path || []).join("/")} />
+    </Suspense>
+  );
+}
@@ -1,4 +1,3 @@
-import { SiweMessage } from 'siwe';
 import { Address } from 'viem';
 
 export type AggregatorInputParams = {
@@ -124,11 +123,17 @@ export type SellQuoteResponse = {
   quote_id: string;
 };
 
+// Body of POST /api/siwe; `message` is the prepared EIP-4361 text
 export type SessionRequest = {
-  message: SiweMessage;
+  message: string;
   signature: `0x${string}`;
 };
 
+export type SiweSessionResponse = {
+  nonce?: string;
+  address: string | null;
+};
+
 export type TxSuccessSummaryPayload = {
   purchaseAmount: number;
   purchaseCurrency: string;
@@ -137,9 +142,125 @@ export type TxSuccessSummaryPayload = {
 
 export interface Order {
   created_at: string;
-  type: string;
+  type: 'buy' | 'sell';
   asset: string;
   amount: string;
   status: 'completed' | 'pending' | 'failed';
   id: string;
+  network?: string;
+  fiat_total?: string;
+  tx_hash?: string;
 }
+
+export type TransactionHistoryResponse = {
+  orders: Order[];
+  next_page_key?: string;
+  total_count: number;
+};
+
+// Latest transaction state received through CDP webhooks
+export type WebhookTransactionState = {
+  transactionId: string;
+  partnerUserRef: string;
+  type: 'buy' | 'sell';
+  status: Order['status'];
+  rawStatus?: string;
+  lastEventType: string;
+  lastEventId: string;
+  asset?: string;
+  amount?: string;
+  network?: string;
+  fiatTotal?: string;
+  txHash?: string;
+  updatedAt: string;
+};
+
+export type TransactionStatusResponse = {
+  transactions: WebhookTransactionState[];
+};
+
+// Apple Pay (v2) order state, from GET /api/apple-pay/order/[orderId]
+export type ApplePayOrderStatus =
+  'pending' | 'processing' | 'completed' | 'failed';
+
+export type ApplePayOrderStatusResponse = {
+  orderId: string;
+  status: ApplePayOrderStatus;
+  // CDP order status, e.g. ONRAMP_ORDER_STATUS_PENDING_PAYMENT
+  rawStatus: string;
+  partnerUserRef?: string;
+  purchaseAmount?: string;
+  purchaseCurrency?: string;
+  paymentTotal?: string;
+  paymentCurrency?: string;
+  destinationAddress?: string;
+  destinationNetwork?: string;
+  txHash?: string;
+  createdAt?: string;
+  updatedAt?: string;
+};
+
+// Phone number verified in this browser, from /api/phone-verification
+// (null if none, or if the verification is older than 60 days)
+export type PhoneVerificationResponse = {
+  phoneNumber: string | null;
+  verifiedAt: string | null;
+};
+
+// Code sent by POST /api/phone-verification
+export type PhoneVerificationCodeResponse = {
+  expiresAt: string;
+};
+
+// Market price of one unit of an asset, from GET /api/prices
+export type AssetPrice = {
+  price: number;
+  updatedAt: string;
+  // True when the price is older than the server's staleness threshold,
+  // e.g. because the price provider is failing
+  stale: boolean;
+};
+
+export type CryptoPricesResponse = {
+  fiat: string;
+  provider: string;
+  // Keyed by asset symbol; assets without a known price are omitted
+  prices: Record<string, AssetPrice>;
+};
+
+// Sell transaction waiting for the user to send crypto to Coinbase, from
+// GET /api/sell-transaction/[partnerUserId]
+export type PendingSellTransaction = {
+  transactionId: string;
+  asset: string;
+  network: string;
+  amount: string;
+  // Coinbase deposit address the crypto must be sent to
+  toAddress: string;
+  createdAt: string;
+};
+
+export type PendingSellTransactionResponse = {
+  transaction: PendingSellTransaction | null;
+};
+
+// One live check run by POST /api/diagnostics
+export type DiagnosticCheck = {
+  id: string;
+  name: string;
+  status: 'pass' | 'fail' | 'skip';
+  // Upstream HTTP status and time of the last response, when one arrived
+  httpStatus?: number;
+  latencyMs?: number;
+  detail?: string;
+  // What to change when the check fails
+  hint?: string;
+};
+
+export type DiagnosticsResponse = {
+  ranAt: string;
+  // CDP_API_BASE_URL, or null for the real CDP APIs
+  cdpApiBaseUrl: string | null;
+  cdp: DiagnosticCheck[];
+  cors: DiagnosticCheck[];
+};
@@ -0,0 +1,354 @@
+/**
+ * Destination address formats per network
+ *
+ * Shared by the API route schemas (validation.ts) and the ramp forms, so an
+ * address is rejected the same way on both sides. Checksums are verified for
+ * EVM (EIP-55), Bitcoin, XRP, Tron and the bech32 formats; the remaining
+ * networks are checked by format and length.
+ */
+import { isAddress, sha256 } from 'viem';
+
+export type AddressValidationResult =
+  { valid: true } | { valid: false; reason: string };
+
+interface AddressFormat {
+  name: string;
+  // Returns why the address is invalid, or null if it's valid
+  validate: (address: string) => string | null;
+}
+
+const BASE58_ALPHABET =
+  '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+const RIPPLE_BASE58_ALPHABET =
+  'rpshnaf39wBUDNEGHJKLM4PQRST7VWXYZ2bcdeCg65jkm8oFqi1tuvAxyz';
+const BECH32_CHARSET = 'qpzry9x8gf2tvdw0s3jn54khce6mua7l';
+const BECH32M_CONST = 0x2bc830a3;
+
+function decodeBase58(value: string, alphabet: string): Uint8Array | null {
+  if (!value) {
+    return null;
+  }
+
+  // Big-endian base 256 digits, least significant first while decoding
+  const bytes: number[] = [];
+  for (const char of value) {
+    let carry = alphabet.indexOf(char);
+    if (carry < 0) {
+      return null;
+    }
+    for (let i = 0; i < bytes.length; i++) {
+      carry += bytes[i] * 58;
+      bytes[i] = carry & 0xff;
+      carry >>= 8;
+    }
+    while (carry > 0) {
+      bytes.push(carry & 0xff);
+      carry >>= 8;
+    }
+  }
+
+  // Each leading zero digit encodes a leading zero byte
+  for (let i = 0; i < value.length && value[i] === alphabet[0]; i++) {
+    bytes.push(0);
+  }
+  return Uint8Array.from(bytes.reverse());
+}
+
+// Payload of a base58 string ending in a double SHA-256 checksum
+function decodeBase58Check(
+  value: string,
+  alphabet = BASE58_ALPHABET
+): Uint8Array | null {
+  const bytes = decodeBase58(value, alphabet);
+  if (!bytes || bytes.length < 5) {
+    return null;
+  }
+
+  const payload = bytes.slice(0, -4);
+  const checksum = sha256(sha256(payload, 'bytes'), 'bytes');
+  const matches = bytes.slice(-4).every((byte, i) => byte === checksum[i]);
+  return matches ? payload : null;
+}
+
+function bech32Polymod(values: number[]): number {
+  const generator = [
+    0x3b6a57b2, 0x26508e6d, 0x1ea119fa, 0x3d4233dd, 0x2a1462b3,
+  ];
+  let checksum = 1;
+  values.forEach((value) => {
+    const top = checksum >>> 25;
+    checksum = ((checksum & 0x1ffffff) << 5) ^ value;
+    generator.forEach((gen, i) => {
+      if ((top >>> i) & 1) {
+        checksum ^= gen;
+      }
+    });
+  });
+  return checksum >>> 0;
+}
+
+interface Bech32Decoded {
+  hrp: string;
+  // 5-bit words without the checksum
+  words: number[];
+  encoding: 'bech32' | 'bech32m';
+}
+
+// BIP-173/BIP-350 decoding; Cardano addresses exceed the 90 char limit
+function decodeBech32(address: string, maxLength = 90): Bech32Decoded | null {
+  // Either case is allowed, but not mixed
+  const value = address.toLowerCase();
+  if (
+    address.length > maxLength ||
+    (address !== value && address !== address.toUpperCase())
+  ) {
+    return null;
+  }
+
+  const separator = value.lastIndexOf('1');
+  if (separator < 1 || separator + 7 > value.length) {
+    return null;
+  }
+
+  const hrp = value.slice(0, separator);
+  const words: number[] = [];
+  for (const char of value.slice(separator + 1)) {
+    const word = BECH32_CHARSET.indexOf(char);
+    if (word < 0) {
+      return null;
+    }
+    words.push(word);
+  }
+
+  const expandedHrp = [
+    ...Array.from(hrp, (char) => char.charCodeAt(0) >> 5),
+    0,
+    ...Array.from(hrp, (char) => char.charCodeAt(0) & 31),
+  ];
+  const polymod = bech32Polymod([...expandedHrp, ...words]);
+  const encoding =
+    polymod === 1 ? 'bech32' : polymod === BECH32M_CONST ? 'bech32m' : null;
+  if (!encoding) {
+    return null;
+  }
+
+  return { hrp, words: words.slice(0, -6), encoding };
+}
+
+// Regroups 5-bit words into bytes, rejecting non-zero padding
+function wordsToBytes(words: number[]): number[] | null {
+  let accumulator = 0;
+  let bits = 0;
+  const bytes: number[] = [];
+  for (const word of words) {
+    accumulator = (accumulator << 5) | word;
+    bits += 5;
+    while (bits >= 8) {
+      bits -= 8;
+      bytes.push((accumulator >> bits) & 0xff);
+    }
+  }
+  if (bits >= 5 || (accumulator << (8 - bits)) & 0xff) {
+    return null;
+  }
+  return bytes;
+}
+
+function validateEvmAddress(address: string): string | null {
+  if (!/^0x[a-fA-F0-9]{40}$/.test(address)) {
+    return 'Must be a 0x-prefixed 40 character hex address';
+  }
+  // Mixed-case addresses must match their EIP-55 checksum
+  return isAddress(address, { strict: true })
+    ? null
+    : 'Address checksum is invalid';
+}
+
+function validateBitcoinAddress(address: string): string | null {
+  if (address.toLowerCase().startsWith('bc1')) {
+    const decoded = decodeBech32(address);
+    if (!decoded || decoded.hrp !== 'bc' || decoded.words.length === 0) {
+      return 'Invalid bech32 address or checksum';
+    }
+
+    // Segwit v0 uses bech32, v1+ (taproot) bech32m (BIP-350)
+    const [version, ...programWords] = decoded.words;
+    const program = wordsToBytes(programWords);
+    const expectedEncoding = version === 0 ? 'bech32' : 'bech32m';
+    if (
+      version > 16 ||
+      decoded.encoding !== expectedEncoding ||
+      !program ||
+      program.length < 2 ||
+      program.length > 40 ||
+      (version === 0 && program.length !== 20 && program.length !== 32)
+    ) {
+      return 'Invalid segwit address';
+    }
+    return null;
+  }
+
+  // Legacy P2PKH (version 0x00, starts with 1) and P2SH (0x05, starts with 3)
+  const payload = decodeBase58Check(address);
+  if (!payload || payload.length !== 21) {
+    return 'Invalid address or checksum';
+  }
+  return payload[0] === 0x00 || payload[0] === 0x05
+    ? null
+    : 'Not a mainnet address';
+}
+
+function validateSolanaAddress(address: string): string | null {
+  // Public keys are 32 bytes
+  return decodeBase58(address, BASE58_ALPHABET)?.length === 32
+    ? null
+    : 'Must be a base58 encoded 32 byte public key';
+}
+
+function validateCardanoAddress(address: string): string | null {
+  // Shelley addresses are bech32 'addr1...'
+  if (address.startsWith('addr1')) {
+    return decodeBech32(address, 120)?.hrp === 'addr'
+      ? null
+      : 'Invalid address or checksum';
+  }
+  // Byron addresses are base58 'Ae2...' or 'DdzFF...'
+  return /^(Ae2|DdzFF)/.test(address) && decodeBase58(address, BASE58_ALPHABET)
+    ? null
+    : "Must be a Shelley 'addr1' or Byron address";
+}
+
+function validatePolkadotAddress(address: string): string | null {
+  // SS58: network prefix 0, 32 byte public key and a 2 byte checksum
+  const bytes = decodeBase58(address, BASE58_ALPHABET);
+  return bytes?.length === 35 && bytes[0] === 0
+    ? null
+    : 'Must be a Polkadot SS58 address';
+}
+
+function validateCosmosAddress(address: string): string | null {
+  const decoded = decodeBech32(address);
+  const bytes = decoded && wordsToBytes(decoded.words);
+  return decoded?.hrp === 'cosmos' &&
+    decoded.encoding === 'bech32' &&
+    (bytes?.length === 20 || bytes?.length === 32)
+    ? null
+    : "Must be a 'cosmos1' address";
+}
+
+function validateXrpAddress(address: string): string | null {
+  // Classic addresses: version 0x00 and a 20 byte account id
+  const payload = decodeBase58Check(address, RIPPLE_BASE58_ALPHABET);
+  return payload?.length === 21 && payload[0] === 0x00
+    ? null
+    : 'Invalid address or checksum';
+}
+
+function validateTronAddress(address: string): string | null {
+  // Version 0x41 and a 20 byte account id ('T...')
+  const payload = decodeBase58Check(address);
+  return payload?.length === 21 && payload[0] === 0x41
+    ? null
+    : 'Invalid address or checksum';
+}
+
+function validateFormat(pattern: RegExp, reason: string) {
+  return (address: string) => (pattern.test(address) ? null : reason);
+}
+
+const EVM_FORMAT: AddressFormat = {
+  name: 'EVM',
+  validate: validateEvmAddress,
+};
+
+const BITCOIN_FORMAT: AddressFormat = {
+  name: 'Bitcoin',
+  validate: validateBitcoinAddress,
+};
+
+// Ramp network ids (see assetNetworkMap in onrampApi.ts) to address formats
+const ADDRESS_FORMATS: Record<string, AddressFormat> = {
+  ethereum: EVM_FORMAT,
+  base: EVM_FORMAT,
+  optimism: EVM_FORMAT,
+  arbitrum: EVM_FORMAT,
+  polygon: EVM_FORMAT,
+  'avalanche-c-chain': EVM_FORMAT,
+  unichain: EVM_FORMAT,
+  'bnb-chain': EVM_FORMAT,
+  bitcoin: BITCOIN_FORMAT,
+  // Lightning purchases are delivered to a Bitcoin address
+  'bitcoin-lightning': BITCOIN_FORMAT,
+  solana: { name: 'Solana', validate: validateSolanaAddress },
+  aptos: {
+    name: 'Aptos',
+    validate: validateFormat(
+      /^0x[a-fA-F0-9]{1,64}$/,
+      'Must be a 0x-prefixed hex address of up to 64 characters'
+    ),
+  },
+  cardano: { name: 'Cardano', validate: validateCardanoAddress },
+  polkadot: { name: 'Polkadot', validate: validatePolkadotAddress },
+  cosmos: { name: 'Cosmos', validate: validateCosmosAddress },
+  xrp: { name: 'XRP', validate: validateXrpAddress },
+  algorand: {
+    name: 'Algorand',
+    validate: validateFormat(
+      /^[A-Z2-7]{58}$/,
+      'Must be a 58 character base32 address'
+    ),
+  },
+  filecoin: {
+    name: 'Filecoin',
+    validate: validateFormat(
+      /^f(0\d{1,20}|[12][a-z2-7]{39}|3[a-z2-7]{84}|4\d{1,20}f[a-z2-7]{1,80})$/,
+      "Must be an 'f0'-'f4' address"
+    ),
+  },
+  near: {
+    name: 'NEAR',
+    // Implicit (64 hex chars) or named accounts like 'alice.near'
+    validate: validateFormat(
+      /^([a-f0-9]{64}|(?=.{2,64}$)(([a-z\d]+[-_])*[a-z\d]+\.)*([a-z\d]+[-_])*[a-z\d]+)$/,
+      'Must be a NEAR account id'
+    ),
+  },
+  stellar: {
+    name: 'Stellar',
+    validate: validateFormat(
+      /^G[A-Z2-7]{55}$/,
+      "Must be a 56 character 'G...' public key"
+    ),
+  },
+  tron: { name: 'Tron', validate: validateTronAddress },
+};
+
+/**
+ * Whether addresses on a network are checked beyond a length limit
+ */
+export function isAddressValidationSupported(network: string): boolean {
+  // Own keys only, so 'constructor' and friends aren't formats
+  return Object.hasOwn(ADDRESS_FORMATS, network);
+}
+
+/**
+ * Checks that an address is valid on the given ramp network
+ * Networks without a registered format are accepted, leaving validation to
+ * CDP, so newly listed networks keep working.
+ * @param network - Ramp network id (e.g. 'base', 'bitcoin', 'solana')
+ */
+export function validateAddressForNetwork(
+  address: string,
+  network: string
+): AddressValidationResult {
+  if (!isAddressValidationSupported(network)) {
+    return { valid: true };
+  }
+
+  const format = ADDRESS_FORMATS[network];
+
+  const reason = format.validate(address);
+  return reason
+    ? { valid: false, reason: `Invalid ${format.name} address: ${reason}` }
+    : { valid: true };
+}
@@ -0,0 +1,491 @@
+/**
+ * Response schemas for the CDP APIs and for our own API routes
+ *
+ * Routes parse upstream responses with these before passing them on, and
+ * the client fetchers parse route responses with the same schemas, so both
+ * sides agree on one shape. Unknown fields are kept (passthrough) so newer
+ * CDP fields still reach the UI.
+ */
+import { z } from 'zod';
+import { formatValidationIssues, type ValidationIssue } from './validation';
+import type {
+  ApplePayOrderStatusResponse,
+  BuyQuoteResponse,
+  CryptoPricesResponse,
+  DiagnosticsResponse,
+  PendingSellTransactionResponse,
+  PhoneVerificationCodeResponse,
+  PhoneVerificationResponse,
+  SiweSessionResponse,
+  TransactionHistoryResponse,
+  TransactionStatusResponse,
+} from '../types';
+
+// Optional upstream fields are sometimes sent as null
+const optional = <T extends z.ZodTypeAny>(schema: T) =>
+  schema.nullish().transform((val) => val ?? undefined);
+
+const optionalString = optional(z.string());
+
+const amountValueSchema = z
+  .object({ value: z.string(), currency: z.string() })
+  .passthrough();
+
+const paymentMethodLimitSchema = z
+  .object({ id: z.string(), min: z.string(), max: z.string() })
+  .passthrough();
+
+const fiatCurrencySchema = z
+  .object({ id: z.string(), limits: z.array(paymentMethodLimitSchema) })
+  .passthrough();
+
+const networkSchema = z
+  .object({
+    name: z.string(),
+    display_name: z.string(),
+    chain_id: optional(z.number()),
+    contract_address: optionalString,
+  })
+  .passthrough();
+
+const cryptoAssetSchema = z
+  .object({
+    id: z.string(),
+    symbol: z.string(),
+    name: z.string(),
+    networks: z.array(networkSchema),
+    icon_url: optionalString,
+  })
+  .passthrough();
+
+const supportedCountrySchema = z
+  .object({
+    id: z.string(),
+    payment_methods: z.array(z.object({ id: z.string() }).passthrough()),
+    subdivisions: optional(z.array(z.string())),
+  })
+  .passthrough();
+
+// GET /onramp/v1/buy/config and /onramp/v1/sell/config (also returned
+// unchanged by /api/buy-config and /api/sell-config)
+export const rampConfigResponseSchema = z
+  .object({ countries: z.array(supportedCountrySchema) })
+  .passthrough();
+
+// GET /onramp/v1/buy/options (also returned by /api/buy-options)
+export const buyOptionsResponseSchema = z
+  .object({
+    payment_currencies: z.array(fiatCurrencySchema),
+    purchase_currencies: z.array(cryptoAssetSchema),
+  })
+  .passthrough();
+
+// GET /onramp/v1/sell/options (also returned by /api/sell-options)
+export const sellOptionsResponseSchema = z
+  .object({
+    cashout_currencies: z.array(fiatCurrencySchema),
+    sell_currencies: z.array(cryptoAssetSchema),
+  })
+  .passthrough();
+
+// POST /onramp/v1/buy/quote (also returned by /api/buy-quote)
+export const buyQuoteResponseSchema: z.ZodType<
+  BuyQuoteResponse,
+  z.ZodTypeDef,
+  unknown
+> = z
+  .object({
+    coinbase_fee: amountValueSchema,
+    network_fee: amountValueSchema,
+    payment_subtotal: amountValueSchema,
+    payment_total: amountValueSchema,
+    purchase_amount: amountValueSchema,
+    quote_id: z.string(),
+  })
+  .passthrough();
+
+// POST /onramp/v1/sell/quote (also returned by /api/sell-quote)
+// offramp_url is only set when the One-Click-Sell fields were sent
+export const sellQuoteResponseSchema = z
+  .object({
+    quote_id: z.string(),
+    offramp_url: optionalString,
+    sell_amount: optional(amountValueSchema),
+    cashout_total: optional(amountValueSchema),
+  })
+  .passthrough();
+
+export type SellQuoteApiResponse = z.infer<typeof sellQuoteResponseSchema>;
+
+// POST /onramp/v1/token
+export const sessionTokenResponseSchema = z
+  .object({
+    token: z.string().min(1),
+    channelId: optionalString,
+    channel_id: optionalString,
+  })
+  .passthrough();
+
+// POST /platform/v2/onramp/orders
+// Guest checkout needs the payment link, so it's required here
+export const onrampOrderResponseSchema = z
+  .object({
+    order: z.object({ orderId: z.string() }).passthrough(),
+    paymentLink: z.object({ url: z.string().url() }).passthrough(),
+  })
+  .passthrough();
+
+// GET /platform/v2/onramp/orders/{orderId}
+// Amounts are decimal strings; only the fields the order view needs are
+// listed
+export const onrampOrderDetailsResponseSchema = z
+  .object({
+    order: z
+      .object({
+        orderId: z.string(),
+        status: z.string(), // e.g. ONRAMP_ORDER_STATUS_PROCESSING
+        partnerUserRef: optionalString,
+        purchaseAmount: optionalString,
+        purchaseCurrency: optionalString,
+        paymentTotal: optionalString,
+        paymentCurrency: optionalString,
+        destinationAddress: optionalString,
+        destinationNetwork: optionalString,
+        txHash: optionalString,
+        createdAt: optionalString,
+        updatedAt: optionalString,
+      })
+      .passthrough(),
+  })
+  .passthrough();
+
+// GET /onramp/v1/buy/user/{partnerUserId}/transactions
+export const buyTransactionSchema = z
+  .object({
+    transaction_id: z.string(),
+    status: z.string(), // e.g. ONRAMP_TRANSACTION_STATUS_SUCCESS
+    purchase_currency: z.string(),
+    purchase_network: optionalString,
+    purchase_amount: amountValueSchema,
+    payment_total: optional(amountValueSchema),
+    tx_hash: optionalString,
+    created_at: z.string(),
+  })
+  .passthrough();
+
+export type ApiBuyTransaction = z.infer<typeof buyTransactionSchema>;
+
+// GET /onramp/v1/sell/user/{partnerUserId}/transactions
+// to_address is the Coinbase deposit address of a started sell
+export const sellTransactionSchema = z
+  .object({
+    transaction_id: z.string(),
+    status: z.string(), // e.g. TRANSACTION_STATUS_STARTED
+    asset: z.string(),
+    network: optionalString,
+    sell_amount: amountValueSchema,
+    total: optional(amountValueSchema),
+    to_address: optionalString,
+    tx_hash: optionalString,
+    created_at: z.string(),
+  })
+  .passthrough();
+
+export type ApiSellTransaction = z.infer<typeof sellTransactionSchema>;
+
+export function transactionsResponseSchema<T extends z.ZodTypeAny>(tx: T) {
+  return z
+    .object({
+      transactions: z
+        .array(tx)
+        .nullish()
+        .transform((val) => val ?? []),
+      next_page_key: optionalString,
+      total_count: z.union([z.string(), z.number()]).nullish(),
+    })
+    .passthrough();
+}
+
+// Amounts in webhook payloads are strings (v2 orders) or value/currency
+// pairs (v1 transactions)
+const webhookAmountSchema = z.union([z.string(), amountValueSchema]);
+
+const webhookTransactionSchema = z
+  .object({
+    transactionId: optionalString,
+    transaction_id: optionalString,
+    orderId: optionalString,
+    partnerUserRef: optionalString,
+    partnerUserId: optionalString,
+    partner_user_ref: optionalString,
+    status: optionalString,
+    purchaseCurrency: optionalString,
+    purchase_currency: optionalString,
+    asset: optionalString,
+    purchaseAmount: optional(webhookAmountSchema),
+    purchase_amount: optional(amountValueSchema),
+    sell_amount: optional(amountValueSchema),
+    destinationNetwork: optionalString,
+    purchase_network: optionalString,
+    network: optionalString,
+    paymentTotal: optional(webhookAmountSchema),
+    payment_total: optional(amountValueSchema),
+    total: optional(amountValueSchema),
+    paymentCurrency: optionalString,
+    txHash: optionalString,
+    tx_hash: optionalString,
+    updatedAt: optionalString,
+    updated_at: optionalString,
+    createdAt: optionalString,
+    created_at: optionalString,
+  })
+  .passthrough();
+
+export type WebhookTransaction = z.infer<typeof webhookTransactionSchema>;
+
+// Webhook payload sent by CDP for onramp/offramp transaction events
+// The transaction is either at the top level or under `data`
+export const webhookEventSchema = webhookTransactionSchema
+  .extend({
+    eventId: optionalString,
+    id: optionalString,
+    eventType: z.string().min(1, 'eventType is required'),
+    data: webhookTransactionSchema.optional(),
+  })
+  .refine((event) => !!(event.eventId || event.id), {
+    message: 'eventId is required',
+    path: ['eventId'],
+  });
+
+export type WebhookEvent = z.infer<typeof webhookEventSchema>;
+
+// Our own route responses
+
+// POST /api/session and /api/fund/session
+export const sessionTokenRouteResponseSchema = z
+  .object({ token: z.string().min(1), channel_id: optionalString })
+  .passthrough();
+
+// POST /api/apple-pay/order
+export const applePayOrderResponseSchema = z.object({
+  orderId: z.string(),
+  paymentLinkUrl: z.string().url(),
+  partnerUserRef: z.string(),
+});
+
+export type ApplePayOrderResponse = z.infer<typeof applePayOrderResponseSchema>;
+
+// GET /api/apple-pay/order/[orderId]
+export const applePayOrderStatusResponseSchema: z.ZodType<
+  ApplePayOrderStatusResponse,
+  z.ZodTypeDef,
+  unknown
+> = z.object({
+  orderId: z.string(),
+  status: z.enum(['pending', 'processing', 'completed', 'failed']),
+  rawStatus: z.string(),
+  partnerUserRef: z.string().optional(),
+  purchaseAmount: z.string().optional(),
+  purchaseCurrency: z.string().optional(),
+  paymentTotal: z.string().optional(),
+  paymentCurrency: z.string().optional(),
+  destinationAddress: z.string().optional(),
+  destinationNetwork: z.string().optional(),
+  txHash: z.string().optional(),
+  createdAt: z.string().optional(),
+  updatedAt: z.string().optional(),
+});
+
+// GET /api/phone-verification and POST /api/phone-verification/verify
+export const phoneVerificationResponseSchema: z.ZodType<
+  PhoneVerificationResponse,
+  z.ZodTypeDef,
+  unknown
+> = z.object({
+  phoneNumber: z.string().nullable(),
+  verifiedAt: z.string().nullable(),
+});
+
+// POST /api/phone-verification
+export const phoneVerificationCodeResponseSchema: z.ZodType<
+  PhoneVerificationCodeResponse,
+  z.ZodTypeDef,
+  unknown
+> = z.object({ expiresAt: z.string() });
+
+const orderStatusSchema = z.enum(['completed', 'pending', 'failed']);
+
+// GET /api/transaction-history/[partnerUserId]
+export const transactionHistoryResponseSchema: z.ZodType<
+  TransactionHistoryResponse,
+  z.ZodTypeDef,
+  unknown
+> = z.object({
+  orders: z.array(
+    z.object({
+      id: z.string(),
+      created_at: z.string(),
+      type: z.enum(['buy', 'sell']),
+      asset: z.string(),
+      amount: z.string(),
+      status: orderStatusSchema,
+      network: z.string().optional(),
+      fiat_total: z.string().optional(),
+      tx_hash: z.string().optional(),
+    })
+  ),
+  next_page_key: z.string().optional(),
+  total_count: z.number(),
+});
+
+// GET /api/transaction-status/[partnerUserRef]
+export const transactionStatusResponseSchema: z.ZodType<
+  TransactionStatusResponse,
+  z.ZodTypeDef,
+  unknown
+> = z.object({
+  transactions: z.array(
+    z.object({
+      transactionId: z.string(),
+      partnerUserRef: z.string(),
+      type: z.enum(['buy', 'sell']),
+      status: orderStatusSchema,
+      rawStatus: z.string().optional(),
+      lastEventType: z.string(),
+      lastEventId: z.string(),
+      asset: z.string().optional(),
+      amount: z.string().optional(),
+      network: z.string().optional(),
+      fiatTotal: z.string().optional(),
+      txHash: z.string().optional(),
+      updatedAt: z.string(),
+    })
+  ),
+});
+
+// GET /api/sell-transaction/[partnerUserId]
+export const pendingSellTransactionResponseSchema: z.ZodType<
+  PendingSellTransactionResponse,
+  z.ZodTypeDef,
+  unknown
+> = z.object({
+  transaction: z
+    .object({
+      transactionId: z.string(),
+      asset: z.string(),
+      network: z.string(),
+      amount: z.string(),
+      toAddress: z.string(),
+      createdAt: z.string(),
+    })
+    .nullable(),
+});
+
+// GET and POST /api/siwe
+export const siweSessionResponseSchema: z.ZodType<
+  SiweSessionResponse,
+  z.ZodTypeDef,
+  unknown
+> = z.object({
+  nonce: z.string().optional(),
+  address: z.string().nullable(),
+});
+
+// GET /api/prices
+export const cryptoPricesResponseSchema: z.ZodType<
+  CryptoPricesResponse,
+  z.ZodTypeDef,
+  unknown
+> = z.object({
+  fiat: z.string(),
+  provider: z.string(),
+  prices: z.record(
+    z.object({
+      price: z.number(),
+      updatedAt: z.string(),
+      stale: z.boolean(),
+    })
+  ),
+});
+
+const diagnosticCheckSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  status: z.enum(['pass', 'fail', 'skip']),
+  httpStatus: z.number().optional(),
+  latencyMs: z.number().optional(),
+  detail: z.string().optional(),
+  hint: z.string().optional(),
+});
+
+// POST /api/diagnostics
+export const diagnosticsResponseSchema: z.ZodType<
+  DiagnosticsResponse,
+  z.ZodTypeDef,
+  unknown
+> = z.object({
+  ranAt: z.string(),
+  cdpApiBaseUrl: z.string().nullable(),
+  cdp: z.array(diagnosticCheckSchema),
+  cors: z.array(diagnosticCheckSchema),
+});
+
+// Error body returned by every route; `details` lists the failing fields of
+// a 400, or carries the upstream error in development
+const apiErrorSchema = z
+  .object({
+    error: z.string().optional(),
+    details: z
+      .union([
+        z.string(),
+        z.array(z.object({ path: z.string(), message: z.string() })),
+      ])
+      .optional(),
+  })
+  .passthrough();
+
+/**
+ * Parses a response body, throwing a readable error if it doesn't match
+ * @param label - Names the response in the error (e.g. 'buy quote')
+ * @throws Error listing the failing field paths
+ */
+export function parseApiResponse<T>(
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+  data: unknown,
+  label: string
+): T {
+  const result = schema.safeParse(data);
+  if (!result.success) {
+    throw new Error(
+      `Invalid ${label} response: ${describeIssues(
+        formatValidationIssues(result.error)
+      )}`
+    );
+  }
+  return result.data;
+}
+
+function describeIssues(issues: ValidationIssue[]): string {
+  return issues
+    .map(({ path, message }) => (path ? `${path}: ${message}` : message))
+    .join('; ');
+}
+
+/**
+ * Builds a message from a route's error body
+ * Field-level validation details are listed after the error.
+ */
+export function getApiErrorMessage(body: unknown, fallback: string): string {
+  const result = apiErrorSchema.safeParse(body);
+  if (!result.success) {
+    return fallback;
+  }
+
+  const { error, details } = result.data;
+  if (Array.isArray(details)) {
+    return details.length > 0
+      ? `${error || fallback}: ${describeIssues(details)}`
+      : error || fallback;
+  }
+  return details || error || fallback;
+}
@@ -0,0 +1,64 @@
+/**
+ * Apple Pay orders created in this browser, kept in localStorage so an
+ * order can be reopened by its partnerUserRef after the tab is closed
+ * (see app/apple-pay/order/[partnerUserRef]/page.tsx)
+ */
+import { z } from 'zod';
+
+const STORAGE_KEY = 'coinbase-ramp-demo-app:apple-pay-orders';
+const MAX_STORED_ORDERS = 10;
+
+const storedApplePayOrderSchema = z.object({
+  orderId: z.string(),
+  partnerUserRef: z.string(),
+  amount: z.string(),
+  // Orders stored before other currencies were supported are in USD
+  paymentCurrency: z.string().default('USD'),
+  asset: z.string(),
+  network: z.string(),
+  createdAt: z.string(),
+});
+
+export type StoredApplePayOrder = z.infer<typeof storedApplePayOrderSchema>;
+
+/**
+ * Newest first; entries that don't parse (e.g. from an older version) are
+ * dropped
+ */
+export function getStoredApplePayOrders(): StoredApplePayOrder[] {
+  try {
+    const stored = JSON.parse(window.localStorage.getItem(STORAGE_KEY) || '[]');
+    return Array.isArray(stored)
+      ? stored.flatMap((entry) => {
+          const result = storedApplePayOrderSchema.safeParse(entry);
+          return result.success ? [result.data] : [];
+        })
+      : [];
+  } catch {
+    // Storage may be unavailable (private mode, blocked cookies)
+    return [];
+  }
+}
+
+export function findStoredApplePayOrder(
+  partnerUserRef: string
+): StoredApplePayOrder | undefined {
+  return getStoredApplePayOrders().find(
+    (order) => order.partnerUserRef === partnerUserRef
+  );
+}
+
+export function saveApplePayOrder(order: StoredApplePayOrder) {
+  const orders = [
+    order,
+    ...getStoredApplePayOrders().filter(
+      (stored) => stored.partnerUserRef !== order.partnerUserRef
+    ),
+  ].slice(0, MAX_STORED_ORDERS);
+
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(orders));
+  } catch {
+    // Not fatal: the order can still be tracked while the page is open
+  }
+}
@@ -0,0 +1,406 @@
+/**
+ * Server-side client for the Coinbase Developer Platform REST APIs
+ *
+ * Owns everything the API routes used to repeat: credential lookup, host
+ * selection, per-request JWT signing, timeouts, retries and error shaping.
+ * Never import this module from client components.
+ */
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { generateJWT } from './sessionTokenApi';
+import { logger } from './logger';
+import { recordUpstreamResponse } from './requestLogging';
+import { formatValidationIssues } from './validation';
+
+// Onramp/Offramp v1 APIs live on the developer host, v2 platform APIs
+// (e.g. Apple Pay orders) live on the CDP host
+export const CDP_HOSTS = {
+  developer: 'api.developer.coinbase.com',
+  platform: 'api.cdp.coinbase.com',
+} as const;
+
+export type CdpHost = keyof typeof CDP_HOSTS;
+
+/**
+ * Base URL that replaces both CDP hosts, e.g. http://localhost:4010 for the
+ * local stand-in started by `npm run cdp:mock`; null when unset
+ */
+export function getCdpApiBaseUrl(): string | null {
+  const baseUrl = process.env.CDP_API_BASE_URL?.trim();
+  return baseUrl ? baseUrl.replace(/\/+$/, '') : null;
+}
+
+// Without credentials, requests to a CDP_API_BASE_URL stand-in are sent
+// unsigned; never in production
+function allowsUnsignedRequests(): boolean {
+  return !!getCdpApiBaseUrl() && process.env.NODE_ENV !== 'production';
+}
+
+export type CdpErrorCode =
+  | 'missing_credentials'
+  | 'auth_failed'
+  | 'timeout'
+  | 'network_error'
+  | 'upstream_error'
+  | 'invalid_response';
+
+/**
+ * The single error type thrown by CdpClient
+ * - status: HTTP status to surface to our own callers
+ * - details: raw upstream response body (only returned in development)
+ */
+export class CdpApiError extends Error {
+  readonly code: CdpErrorCode;
+  readonly status: number;
+  readonly details?: string;
+
+  constructor(
+    code: CdpErrorCode,
+    message: string,
+    status: number,
+    details?: string
+  ) {
+    super(message);
+    this.name = 'CdpApiError';
+    this.code = code;
+    this.status = status;
+    this.details = details;
+  }
+}
+
+export interface CdpCredentials {
+  keyName: string;
+  keySecret: string;
+}
+
+export interface CdpRequestOptions<T = unknown> {
+  method?: 'GET' | 'POST';
+  // Defaults to 'platform' for /platform/* paths, 'developer' otherwise
+  host?: CdpHost;
+  query?: Record<string, string | undefined>;
+  body?: unknown;
+  timeoutMs?: number;
+  retries?: number;
+  // POSTs are only retried on 5xx when the caller marks them idempotent
+  idempotent?: boolean;
+  // Response schema (see apiSchemas.ts); a mismatch is a 502
+  schema?: z.ZodType<T, z.ZodTypeDef, unknown>;
+  // Called with every upstream response, including retried ones
+  onResponse?: (status: number, latencyMs: number) => void;
+}
+
+const DEFAULT_TIMEOUT_MS = 10000;
+const DEFAULT_RETRIES = 2;
+const BASE_BACKOFF_MS = 250;
+const MAX_BACKOFF_MS = 4000;
+
+/**
+ * Reads CDP API credentials from the environment
+ * Supports both the current and the legacy variable names
+ */
+export function getCdpCredentials(): CdpCredentials | null {
+  const keyName = process.env.CDP_API_KEY || process.env.CDP_API_KEY_NAME;
+  const keySecret =
+    process.env.CDP_API_SECRET || process.env.CDP_API_KEY_PRIVATE_KEY;
+
+  if (!keyName || !keySecret) {
+    return null;
+  }
+
+  return { keyName, keySecret };
+}
+
+function resolveHost(path: string, host?: CdpHost): string {
+  if (host) {
+    return CDP_HOSTS[host];
+  }
+  return path.startsWith('/platform/')
+    ? CDP_HOSTS.platform
+    : CDP_HOSTS.developer;
+}
+
+function resolveBaseUrl(host: string): string {
+  return getCdpApiBaseUrl() || `https://${host}`;
+}
+
+// Parsed JSON body, or undefined for non-JSON responses such as HTML error
+// pages
+function parseResponseBody(responseText: string): unknown {
+  try {
+    return JSON.parse(responseText);
+  } catch {
+    return undefined;
+  }
+}
+
+// Upstream APIs are inconsistent about where they put the message
+function extractErrorMessage(responseText: string): string | undefined {
+  const data = parseResponseBody(responseText);
+  if (typeof data !== 'object' || data === null) {
+    return undefined;
+  }
+  const { errorMessage, message, error } = data as Record<string, unknown>;
+  return (errorMessage || message || error || undefined) as string | undefined;
+}
+
+function isRetryable(status: number, method: string, idempotent: boolean) {
+  if (status === 429) {
+    return true;
+  }
+  return status >= 500 && (method === 'GET' || idempotent);
+}
+
+function backoffDelay(attempt: number, retryAfter: string | null): number {
+  const retryAfterSeconds = retryAfter ? parseInt(retryAfter, 10) : NaN;
+  if (!isNaN(retryAfterSeconds)) {
+    return Math.min(retryAfterSeconds * 1000, MAX_BACKOFF_MS);
+  }
+  const exponential = BASE_BACKOFF_MS * 2 ** attempt;
+  const jitter = Math.random() * BASE_BACKOFF_MS;
+  return Math.min(exponential + jitter, MAX_BACKOFF_MS);
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+export class CdpClient {
+  // null only for unsigned requests to a CDP_API_BASE_URL stand-in
+  private credentials: CdpCredentials | null;
+
+  constructor(credentials: CdpCredentials | null) {
+    this.credentials = credentials;
+  }
+
+  /**
+   * Creates a client from environment credentials
+   * Outside production, a client for CDP_API_BASE_URL works without them.
+   * @throws CdpApiError with code 'missing_credentials' if not configured
+   */
+  static fromEnv(): CdpClient {
+    const credentials = getCdpCredentials();
+    if (!credentials && allowsUnsignedRequests()) {
+      return new CdpClient(null);
+    }
+    if (!credentials) {
+      logger.error('Missing CDP API credentials');
+      throw new CdpApiError(
+        'missing_credentials',
+        'Server configuration error',
+        500
+      );
+    }
+    return new CdpClient(credentials);
+  }
+
+  async get<T>(
+    path: string,
+    options: Omit<CdpRequestOptions<T>, 'method' | 'body'> = {}
+  ): Promise<T> {
+    return this.request<T>(path, { ...options, method: 'GET' });
+  }
+
+  async post<T>(
+    path: string,
+    body: unknown,
+    options: Omit<CdpRequestOptions<T>, 'method' | 'body'> = {}
+  ): Promise<T> {
+    return this.request<T>(path, { ...options, method: 'POST', body });
+  }
+
+  /**
+   * Performs a signed request against a CDP API
+   * @param path - API path without host or query (also used for JWT signing)
+   * @returns Parsed JSON response body, checked against options.schema
+   * when given
+   */
+  async request<T>(
+    path: string,
+    options: CdpRequestOptions<T> = {}
+  ): Promise<T> {
+    const {
+      method = 'GET',
+      query,
+      body,
+      timeoutMs = DEFAULT_TIMEOUT_MS,
+      retries = DEFAULT_RETRIES,
+      idempotent = false,
+      schema,
+    } = options;
+    const host = resolveHost(path, options.host);
+
+    const queryParams = new URLSearchParams();
+    Object.entries(query || {}).forEach(([key, value]) => {
+      if (value !== undefined && value !== '') {
+        queryParams.append(key, value);
+      }
+    });
+    const queryString = queryParams.toString();
+    const url = `${resolveBaseUrl(host)}${path}${
+      queryString ? `?${queryString}` : ''
+    }`;
+
+    for (let attempt = 0; ; attempt++) {
+      // Sign every attempt: the JWT is bound to method, host and path
+      // (never the query string) and expires after two minutes
+      let jwtToken: string | null = null;
+      try {
+        jwtToken =
+          this.credentials &&
+          (await generateJWT(
+            this.credentials.keyName,
+            this.credentials.keySecret,
+            path,
+            method,
+            host
+          ));
+      } catch (error) {
+        logger.error('JWT generation failed', { error, path });
+        throw new CdpApiError('auth_failed', 'Authentication failed', 500);
+      }
+
+      const controller = new AbortController();
+      const timeout = setTimeout(() => controller.abort(), timeoutMs);
+
+      let response: Response;
+      let responseText: string;
+      const startedAt = Date.now();
+      try {
+        response = await fetch(url, {
+          method,
+          headers: {
+            Accept: 'application/json',
+            ...(jwtToken && { Authorization: `Bearer ${jwtToken}` }),
+            ...(body !== undefined && { 'Content-Type': 'application/json' }),
+          },
+          body: body !== undefined ? JSON.stringify(body) : undefined,
+          signal: controller.signal,
+        });
+        responseText = await response.text();
+      } catch (error) {
+        const timedOut = controller.signal.aborted;
+        if (attempt < retries && (method === 'GET' || idempotent)) {
+          logger.warn('CDP API request failed, retrying', {
+            path,
+            attempt: attempt + 1,
+            timedOut,
+          });
+          await sleep(backoffDelay(attempt, null));
+          continue;
+        }
+        logger.error('CDP API request failed', { path, timedOut, error });
+        throw timedOut
+          ? new CdpApiError('timeout', 'Upstream request timed out', 504)
+          : new CdpApiError('network_error', 'Upstream request failed', 502);
+      } finally {
+        clearTimeout(timeout);
+      }
+
+      const latencyMs = Date.now() - startedAt;
+      recordUpstreamResponse('cdp', response.status, latencyMs);
+      options.onResponse?.(response.status, latencyMs);
+      logger.info('CDP API response', {
+        method,
+        path,
+        upstreamStatus: response.status,
+        latencyMs,
+        attempt: attempt + 1,
+      });
+
+      if (!response.ok) {
+        if (
+          attempt < retries &&
+          isRetryable(response.status, method, idempotent)
+        ) {
+          const delay = backoffDelay(
+            attempt,
+            response.headers.get('retry-after')
+          );
+          logger.warn('CDP API returned retryable status', {
+            path,
+            upstreamStatus: response.status,
+            attempt: attempt + 1,
+            delay,
+          });
+          await sleep(delay);
+          continue;
+        }
+
+        logger.error('CDP API error', {
+          path,
+          upstreamStatus: response.status,
+          statusText: response.statusText,
+          // Logged as an object so the logger can redact its fields
+          responseBody: parseResponseBody(responseText),
+        });
+        throw new CdpApiError(
+          'upstream_error',
+          extractErrorMessage(responseText) || response.statusText,
+          response.status,
+          responseText
+        );
+      }
+
+      let data: unknown;
+      try {
+        data = JSON.parse(responseText);
+      } catch (error) {
+        logger.error('Failed to parse CDP API response', { path, error });
+        throw new CdpApiError(
+          'invalid_response',
+          'Invalid response from server',
+          500
+        );
+      }
+
+      if (!schema) {
+        return data as T;
+      }
+
+      const result = schema.safeParse(data);
+      if (!result.success) {
+        logger.error('CDP API response does not match schema', {
+          path,
+          issues: formatValidationIssues(result.error),
+        });
+        throw new CdpApiError(
+          'invalid_response',
+          'Invalid response from server',
+          502
+        );
+      }
+      return result.data;
+    }
+  }
+}
+
+/**
+ * Shapes any error thrown while calling CDP into a route response
+ * Configuration, auth and parse failures keep their own messages; upstream
+ * failures use the route's message and only expose details in development
+ */
+export function cdpErrorResponse(
+  error: unknown,
+  message: string,
+  headers?: Record<string, string>
+): NextResponse {
+  if (!(error instanceof CdpApiError)) {
+    return NextResponse.json({ error: message }, { status: 500, headers });
+  }
+
+  if (error.code !== 'upstream_error') {
+    return NextResponse.json(
+      { error: error.message },
+      { status: error.status, headers }
+    );
+  }
+
+  return NextResponse.json(
+    {
+      error: message,
+      ...(process.env.NODE_ENV === 'development' && {
+        details: error.details,
+        status: error.status,
+      }),
+    },
+    { status: error.status, headers }
+  );
+}
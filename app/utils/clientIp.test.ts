@@ -0,0 +1,218 @@
+import { NextRequest } from 'next/server';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  getForwardedClientIp,
+  isIpInRange,
+  isPublicIp,
+  isValidIp,
+  resolveClientIp,
+} from './clientIp';
+
+function makeRequest(
+  headers: Record<string, string> = {},
+  ip?: string
+): NextRequest {
+  return new NextRequest('http://localhost/api/session', { headers, ip });
+}
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe('isIpInRange', () => {
+  it('matches IPv4 CIDR ranges', () => {
+    expect(isIpInRange('10.1.2.3', '10.0.0.0/8')).toBe(true);
+    expect(isIpInRange('11.0.0.1', '10.0.0.0/8')).toBe(false);
+    expect(isIpInRange('172.31.255.255', '172.16.0.0/12')).toBe(true);
+    expect(isIpInRange('172.32.0.0', '172.16.0.0/12')).toBe(false);
+  });
+
+  it('matches prefixes that end inside a byte', () => {
+    // 100.64.0.0/10 covers 100.64.0.0 - 100.127.255.255
+    expect(isIpInRange('100.64.0.0', '100.64.0.0/10')).toBe(true);
+    expect(isIpInRange('100.127.255.255', '100.64.0.0/10')).toBe(true);
+    expect(isIpInRange('100.63.255.255', '100.64.0.0/10')).toBe(false);
+    expect(isIpInRange('100.128.0.0', '100.64.0.0/10')).toBe(false);
+  });
+
+  it('matches IPv6 CIDR ranges, including compressed forms', () => {
+    expect(isIpInRange('fd12:3456::1', 'fc00::/7')).toBe(true);
+    expect(isIpInRange('fe80::1%eth0', 'fe80::/10')).toBe(true);
+    expect(isIpInRange('2001:db8::1', 'fc00::/7')).toBe(false);
+    expect(isIpInRange('::1', '::1/128')).toBe(true);
+  });
+
+  it('matches IPv4-mapped IPv6 addresses against IPv4 ranges', () => {
+    expect(isIpInRange('::ffff:192.168.1.1', '192.168.0.0/16')).toBe(true);
+    expect(isIpInRange('::ffff:c0a8:101', '192.168.0.0/16')).toBe(true);
+    expect(isIpInRange('::ffff:8.8.8.8', '192.168.0.0/16')).toBe(false);
+  });
+
+  it('never matches an IPv4 address against an IPv6 range', () => {
+    expect(isIpInRange('10.0.0.1', '::/0')).toBe(false);
+  });
+});
+
+describe('isPublicIp', () => {
+  it.each([
+    '8.8.8.8',
+    '203.0.113.7',
+    '2001:4860:4860::8888',
+    '::ffff:8.8.8.8',
+    '[2001:4860:4860::8888]:443',
+    '8.8.8.8:8080',
+  ])('accepts %s', (ip) => {
+    expect(isPublicIp(ip)).toBe(true);
+  });
+
+  it.each([
+    ['private', '10.0.0.1'],
+    ['private', '172.16.5.4'],
+    ['private', '192.168.1.1'],
+    ['loopback', '127.0.0.1'],
+    ['link-local', '169.254.10.10'],
+    ['CGNAT', '100.64.0.1'],
+    ['CGNAT', '100.127.255.254'],
+    ['multicast', '224.0.0.1'],
+    ['broadcast', '255.255.255.255'],
+    ['IPv6 loopback', '::1'],
+    ['IPv6 unspecified', '::'],
+    ['IPv6 unique local', 'fd00::1'],
+    ['IPv6 link-local', 'fe80::1'],
+    ['IPv4-mapped private', '::ffff:10.0.0.1'],
+    ['IPv4-mapped loopback', '::ffff:127.0.0.1'],
+  ])('rejects %s address %s', (_kind, ip) => {
+    expect(isPublicIp(ip)).toBe(false);
+  });
+
+  it.each(['', 'unknown', '256.1.1.1', '1.2.3', '1::2::3', 'fe80::g'])(
+    'rejects malformed address %j',
+    (ip) => {
+      expect(isValidIp(ip)).toBe(false);
+      expect(isPublicIp(ip)).toBe(false);
+    }
+  );
+});
+
+describe('getForwardedClientIp', () => {
+  it('prefers the IP set by the hosting platform', () => {
+    const request = makeRequest({ 'x-forwarded-for': '1.1.1.1' }, '9.9.9.9');
+    expect(getForwardedClientIp(request)).toBe('9.9.9.9');
+  });
+
+  it('takes the rightmost entry with one trusted proxy (default)', () => {
+    const request = makeRequest({
+      'x-forwarded-for': '6.6.6.6, 203.0.113.7',
+    });
+    expect(getForwardedClientIp(request)).toBe('203.0.113.7');
+  });
+
+  it('ignores spoofed leftmost entries', () => {
+    // The client sent 'X-Forwarded-For: 1.2.3.4, 8.8.4.4'; our proxy
+    // appended the address it saw
+    const request = makeRequest({
+      'x-forwarded-for': '1.2.3.4, 8.8.4.4, 198.51.100.20',
+    });
+    expect(getForwardedClientIp(request)).toBe('198.51.100.20');
+  });
+
+  it('counts TRUSTED_PROXY_HOPS entries from the right', () => {
+    vi.stubEnv('TRUSTED_PROXY_HOPS', '2');
+    const request = makeRequest({
+      'x-forwarded-for': '1.2.3.4, 203.0.113.7, 10.0.0.2',
+    });
+    expect(getForwardedClientIp(request)).toBe('203.0.113.7');
+  });
+
+  it('takes the leftmost entry when there are fewer entries than hops', () => {
+    vi.stubEnv('TRUSTED_PROXY_HOPS', '3');
+    const request = makeRequest({ 'x-forwarded-for': '203.0.113.7' });
+    expect(getForwardedClientIp(request)).toBe('203.0.113.7');
+  });
+
+  it('ignores forwarding headers with TRUSTED_PROXY_HOPS=0', () => {
+    vi.stubEnv('TRUSTED_PROXY_HOPS', '0');
+    const request = makeRequest({
+      'x-forwarded-for': '203.0.113.7',
+      'x-real-ip': '203.0.113.8',
+    });
+    expect(getForwardedClientIp(request)).toBeUndefined();
+  });
+
+  it('falls back to the default hop count for invalid values', () => {
+    vi.stubEnv('TRUSTED_PROXY_HOPS', '-1');
+    const request = makeRequest({ 'x-forwarded-for': '1.2.3.4, 8.8.8.8' });
+    expect(getForwardedClientIp(request)).toBe('8.8.8.8');
+  });
+
+  it('strips ports and brackets', () => {
+    expect(
+      getForwardedClientIp(
+        makeRequest({ 'x-forwarded-for': '[2001:db8::1]:443' })
+      )
+    ).toBe('2001:db8::1');
+    expect(
+      getForwardedClientIp(
+        makeRequest({ 'x-forwarded-for': '203.0.113.7:8080' })
+      )
+    ).toBe('203.0.113.7');
+  });
+
+  it('skips empty entries', () => {
+    const request = makeRequest({ 'x-forwarded-for': '203.0.113.7, , ' });
+    expect(getForwardedClientIp(request)).toBe('203.0.113.7');
+  });
+
+  it('uses X-Real-IP without X-Forwarded-For', () => {
+    const request = makeRequest({ 'x-real-ip': '203.0.113.7' });
+    expect(getForwardedClientIp(request)).toBe('203.0.113.7');
+  });
+});
+
+describe('resolveClientIp', () => {
+  it('returns a public forwarded IP', () => {
+    const request = makeRequest({ 'x-forwarded-for': '203.0.113.7' });
+    expect(resolveClientIp(request)).toBe('203.0.113.7');
+  });
+
+  it('does not trust a spoofed public IP in front of a private one', () => {
+    vi.stubEnv('NODE_ENV', 'production');
+    const request = makeRequest({ 'x-forwarded-for': '8.8.8.8, 10.0.0.5' });
+    expect(resolveClientIp(request)).toBeNull();
+  });
+
+  describe('in production', () => {
+    it.each([
+      ['a malformed header', { 'x-forwarded-for': 'not-an-ip' }],
+      ['a private address', { 'x-forwarded-for': '192.168.1.10' }],
+      ['a CGNAT address', { 'x-forwarded-for': '100.64.1.1' }],
+      ['no forwarding headers', {}],
+    ])('returns null for %s', (_case, headers) => {
+      vi.stubEnv('NODE_ENV', 'production');
+      expect(resolveClientIp(makeRequest(headers))).toBeNull();
+    });
+  });
+
+  describe('outside production', () => {
+    it('falls back to 192.0.2.1 for a malformed header', () => {
+      vi.stubEnv('NODE_ENV', 'development');
+      vi.stubEnv('DEV_CLIENT_IP', '');
+      const request = makeRequest({ 'x-forwarded-for': 'garbage, ,' });
+      expect(resolveClientIp(request)).toBe('192.0.2.1');
+    });
+
+    it('falls back to DEV_CLIENT_IP for a private address', () => {
+      vi.stubEnv('NODE_ENV', 'development');
+      vi.stubEnv('DEV_CLIENT_IP', '198.51.100.1');
+      const request = makeRequest({ 'x-forwarded-for': '127.0.0.1' });
+      expect(resolveClientIp(request)).toBe('198.51.100.1');
+    });
+
+    it('still returns a public forwarded IP', () => {
+      vi.stubEnv('NODE_ENV', 'development');
+      vi.stubEnv('DEV_CLIENT_IP', '198.51.100.1');
+      const request = makeRequest({ 'x-forwarded-for': '8.8.8.8' });
+      expect(resolveClientIp(request)).toBe('8.8.8.8');
+    });
+  });
+});
@@ -0,0 +1,245 @@
+/**
+ * Client IP resolution for requests that send `clientIp` to CDP
+ *
+ * CDP binds session tokens and quotes to the end user's public IP and
+ * rejects private addresses. Forwarding headers are only trusted as far as
+ * the configured number of proxies in front of the app:
+ *
+ * - TRUSTED_PROXY_HOPS: proxies that append to X-Forwarded-For (default 1,
+ *   e.g. Vercel or a single load balancer). 0 ignores forwarding headers.
+ * - DEV_CLIENT_IP: public IP used outside production when the resolved IP
+ *   is private (localhost, Docker, LAN). Defaults to 192.0.2.1 (RFC 5737).
+ */
+import { NextRequest } from 'next/server';
+
+const DEFAULT_TRUSTED_PROXY_HOPS = 1;
+const DEFAULT_DEV_CLIENT_IP = '192.0.2.1';
+
+// Ranges that never identify a user on the public internet
+const NON_PUBLIC_RANGES = [
+  // IPv4
+  '0.0.0.0/8', // "this" network
+  '10.0.0.0/8', // private
+  '100.64.0.0/10', // carrier-grade NAT
+  '127.0.0.0/8', // loopback
+  '169.254.0.0/16', // link-local
+  '172.16.0.0/12', // private
+  '192.0.0.0/24', // IETF protocol assignments
+  '192.168.0.0/16', // private
+  '198.18.0.0/15', // benchmarking
+  '224.0.0.0/4', // multicast
+  '240.0.0.0/4', // reserved, incl. broadcast
+  // IPv6
+  '::/128', // unspecified
+  '::1/128', // loopback
+  'fc00::/7', // unique local (ULA)
+  'fe80::/10', // link-local
+  'ff00::/8', // multicast
+];
+
+type IpBytes = number[];
+
+interface Cidr {
+  bytes: IpBytes;
+  prefix: number;
+}
+
+function parseIpv4(ip: string): IpBytes | null {
+  const parts = ip.split('.');
+  if (parts.length !== 4) {
+    return null;
+  }
+  const bytes = parts.map((part) =>
+    /^\d{1,3}$/.test(part) ? Number(part) : NaN
+  );
+  return bytes.every((byte) => byte >= 0 && byte <= 255) ? bytes : null;
+}
+
+function parseIpv6(ip: string): IpBytes | null {
+  let address = ip.split('%')[0]; // Drop zone id (fe80::1%eth0)
+
+  // Embedded IPv4 tail (::ffff:192.0.2.1)
+  if (address.includes('.')) {
+    const lastColon = address.lastIndexOf(':');
+    const ipv4 = parseIpv4(address.slice(lastColon + 1));
+    if (!ipv4) {
+      return null;
+    }
+    address =
+      address.slice(0, lastColon + 1) +
+      ((ipv4[0] << 8) | ipv4[1]).toString(16) +
+      ':' +
+      ((ipv4[2] << 8) | ipv4[3]).toString(16);
+  }
+
+  const halves = address.split('::');
+  if (halves.length > 2) {
+    return null;
+  }
+
+  const head = halves[0] ? halves[0].split(':') : [];
+  const tail = halves.length === 2 && halves[1] ? halves[1].split(':') : [];
+  const missing = 8 - head.length - tail.length;
+
+  if (halves.length === 1 ? head.length !== 8 : missing < 1) {
+    return null;
+  }
+
+  const groups = [
+    ...head,
+    ...Array(halves.length === 2 ? missing : 0).fill('0'),
+    ...tail,
+  ];
+  if (!groups.every((group) => /^[0-9a-f]{1,4}$/i.test(group))) {
+    return null;
+  }
+
+  return groups.flatMap((group) => {
+    const value = parseInt(group, 16);
+    return [value >> 8, value & 0xff];
+  });
+}
+
+/**
+ * Parses an IPv4 or IPv6 address into bytes
+ * IPv4-mapped IPv6 addresses (::ffff:a.b.c.d) are returned as IPv4
+ */
+function parseIp(ip: string): IpBytes | null {
+  if (!ip.includes(':')) {
+    return parseIpv4(ip);
+  }
+
+  const bytes = parseIpv6(ip);
+  if (!bytes) {
+    return null;
+  }
+
+  const isIpv4Mapped =
+    bytes.slice(0, 10).every((byte) => byte === 0) &&
+    bytes[10] === 0xff &&
+    bytes[11] === 0xff;
+  return isIpv4Mapped ? bytes.slice(12) : bytes;
+}
+
+function parseCidr(cidr: string): Cidr {
+  const [address, prefix] = cidr.split('/');
+  const bytes = parseIp(address);
+  if (!bytes) {
+    throw new Error(`Invalid CIDR range: ${cidr}`);
+  }
+  return { bytes, prefix: Number(prefix) };
+}
+
+const nonPublicCidrs = NON_PUBLIC_RANGES.map(parseCidr);
+
+function matchesCidr(bytes: IpBytes, cidr: Cidr): boolean {
+  if (bytes.length !== cidr.bytes.length) {
+    return false;
+  }
+
+  for (let bit = 0; bit < cidr.prefix; bit += 8) {
+    const index = bit / 8;
+    const bitsInByte = Math.min(8, cidr.prefix - bit);
+    const mask = (0xff << (8 - bitsInByte)) & 0xff;
+    if ((bytes[index] & mask) !== (cidr.bytes[index] & mask)) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Strips brackets and ports from forwarding header entries
+ * ("[2001:db8::1]:443" -> "2001:db8::1", "203.0.113.7:8080" -> "203.0.113.7")
+ */
+function normalizeIp(value: string): string {
+  const trimmed = value.trim();
+
+  const bracketed = trimmed.match(/^\[([^\]]+)\](?::\d+)?$/);
+  if (bracketed) {
+    return bracketed[1];
+  }
+
+  const ipv4WithPort = trimmed.match(/^(\d{1,3}(?:\.\d{1,3}){3}):\d+$/);
+  return ipv4WithPort ? ipv4WithPort[1] : trimmed;
+}
+
+export function isValidIp(ip: string): boolean {
+  return parseIp(normalizeIp(ip)) !== null;
+}
+
+/**
+ * Returns true if the address is in the range (IPv4 or IPv6 CIDR notation)
+ */
+export function isIpInRange(ip: string, cidr: string): boolean {
+  const bytes = parseIp(normalizeIp(ip));
+  return bytes !== null && matchesCidr(bytes, parseCidr(cidr));
+}
+
+/**
+ * Returns true for valid addresses outside every private, loopback,
+ * link-local, CGNAT, multicast and reserved range
+ */
+export function isPublicIp(ip: string): boolean {
+  const bytes = parseIp(normalizeIp(ip));
+  return (
+    bytes !== null && !nonPublicCidrs.some((cidr) => matchesCidr(bytes, cidr))
+  );
+}
+
+function getTrustedProxyHops(): number {
+  const hops = parseInt(process.env.TRUSTED_PROXY_HOPS || '', 10);
+  return isNaN(hops) || hops < 0 ? DEFAULT_TRUSTED_PROXY_HOPS : hops;
+}
+
+/**
+ * Returns the address of the client as seen by the outermost trusted
+ * proxy, without any public/private filtering (e.g. for rate limiting)
+ *
+ * With N trusted proxies, each appends the address it received the request
+ * from, so the client is the Nth X-Forwarded-For entry from the right.
+ * Entries further left were supplied by the client and can be spoofed.
+ */
+export function getForwardedClientIp(request: NextRequest): string | undefined {
+  // Set by the hosting platform (e.g. Vercel), not by the client
+  if (request.ip) {
+    return normalizeIp(request.ip);
+  }
+
+  const hops = getTrustedProxyHops();
+  if (hops === 0) {
+    return undefined;
+  }
+
+  const forwardedFor = request.headers
+    .get('x-forwarded-for')
+    ?.split(',')
+    .map(normalizeIp)
+    .filter(Boolean);
+
+  if (forwardedFor && forwardedFor.length > 0) {
+    return forwardedFor[Math.max(0, forwardedFor.length - hops)];
+  }
+
+  const realIp = request.headers.get('x-real-ip');
+  return realIp ? normalizeIp(realIp) : undefined;
+}
+
+/**
+ * Resolves the public client IP to send to CDP as `clientIp`
+ * @returns The client's public IP; outside production a private or missing
+ * IP is replaced by DEV_CLIENT_IP; null if no public IP can be determined
+ */
+export function resolveClientIp(request: NextRequest): string | null {
+  const ip = getForwardedClientIp(request);
+
+  if (ip && isPublicIp(ip)) {
+    return ip;
+  }
+
+  if (process.env.NODE_ENV !== 'production') {
+    return process.env.DEV_CLIENT_IP || DEFAULT_DEV_CLIENT_IP;
+  }
+
+  return null;
+}
@@ -0,0 +1,177 @@
+/**
+ * postMessage events sent by embedded Coinbase onramp pages (the Apple Pay
+ * guest checkout iframe and other onramp_api.* flows)
+ *
+ * Events are only trusted from an exact origin (see isAllowedIframeOrigin);
+ * substring checks like origin.includes('coinbase.com') also accept
+ * https://evilcoinbase.com.
+ */
+import { z } from 'zod';
+
+// Origins of the pages Coinbase serves onramp iframes from
+export const COINBASE_IFRAME_ORIGINS = ['https://pay.coinbase.com'];
+
+const errorDataSchema = z.object({
+  errorCode: z.string(),
+  errorMessage: z.string().optional(),
+});
+
+const eventSchema = <N extends string, D extends z.ZodTypeAny>(
+  eventName: N,
+  data: D
+) => z.object({ eventName: z.literal(eventName), data });
+
+const noDataSchema = z.object({}).passthrough().optional();
+
+export const coinbaseIframeEventSchema = z.discriminatedUnion('eventName', [
+  // The payment page is loading, loaded or couldn't load
+  eventSchema('onramp_api.load_pending', noDataSchema),
+  eventSchema('onramp_api.load_success', noDataSchema),
+  eventSchema('onramp_api.load_error', errorDataSchema),
+  // The user pressed the Apple Pay button and authorized or failed payment
+  eventSchema('onramp_api.apple_pay_button_pressed', noDataSchema),
+  eventSchema('onramp_api.commit_success', noDataSchema),
+  eventSchema('onramp_api.commit_error', errorDataSchema),
+  // The user closed the payment sheet
+  eventSchema('onramp_api.cancel', noDataSchema),
+  // Coinbase is waiting for the crypto to be sent
+  eventSchema('onramp_api.polling_start', noDataSchema),
+  eventSchema(
+    'onramp_api.polling_success',
+    z.object({ txHash: z.string().optional() }).passthrough().optional()
+  ),
+  eventSchema('onramp_api.polling_error', errorDataSchema),
+]);
+
+export type CoinbaseIframeEvent = z.infer<typeof coinbaseIframeEventSchema>;
+
+export type CoinbaseIframeEventName = CoinbaseIframeEvent['eventName'];
+
+// The event with a given name, e.g. for typed subscription callbacks
+export type CoinbaseIframeEventOf<N extends CoinbaseIframeEventName> = Extract<
+  CoinbaseIframeEvent,
+  { eventName: N }
+>;
+
+export type CoinbaseIframeErrorEvent = CoinbaseIframeEventOf<
+  | 'onramp_api.load_error'
+  | 'onramp_api.commit_error'
+  | 'onramp_api.polling_error'
+>;
+
+export const isCoinbaseIframeErrorEvent = (
+  event: CoinbaseIframeEvent
+): event is CoinbaseIframeErrorEvent => event.eventName.endsWith('_error');
+
+// Messages for the error codes users can act on; others fall back to the
+// errorMessage Coinbase sends
+const ERROR_CODE_MESSAGES: Record<string, string> = {
+  ERROR_CODE_GUEST_APPLE_PAY_NOT_SUPPORTED:
+    'Apple Pay is not supported on this device or browser.',
+  ERROR_CODE_GUEST_APPLE_PAY_NOT_SETUP:
+    'Apple Pay is not set up. Add a card to Apple Wallet and try again.',
+  ERROR_CODE_GUEST_CARD_SOFT_DECLINED:
+    'Your card was declined. Contact your bank or try another card.',
+  ERROR_CODE_GUEST_CARD_HARD_DECLINED:
+    'Your card was declined. Try another card.',
+  ERROR_CODE_GUEST_CARD_INSUFFICIENT_BALANCE:
+    'Your card has insufficient funds.',
+  ERROR_CODE_GUEST_CARD_PREPAID_DECLINED: 'Prepaid cards are not supported.',
+  ERROR_CODE_GUEST_INVALID_CARD: 'This card is not valid. Try another card.',
+  ERROR_CODE_GUEST_REGION_MISMATCH:
+    'Your card must be issued in the same country as your phone number.',
+  ERROR_CODE_GUEST_TRANSACTION_LIMIT:
+    'This purchase exceeds your guest checkout limit.',
+  ERROR_CODE_GUEST_TRANSACTION_BUY_FAILED:
+    'The purchase failed. You have not been charged.',
+  ERROR_CODE_GUEST_TRANSACTION_SEND_FAILED:
+    'The crypto could not be sent to your address.',
+};
+
+export const COINBASE_IFRAME_ERROR_CODES = Object.keys(ERROR_CODE_MESSAGES);
+
+/**
+ * User-facing message for an error event
+ */
+export function getCoinbaseIframeErrorMessage(
+  event: CoinbaseIframeErrorEvent
+): string {
+  return (
+    ERROR_CODE_MESSAGES[event.data.errorCode] ||
+    event.data.errorMessage ||
+    `An error occurred (${event.data.errorCode})`
+  );
+}
+
+/**
+ * Origin of an iframe URL, to match its messages exactly; null if the URL
+ * isn't https
+ */
+export function getIframeOrigin(url: string): string | null {
+  try {
+    const { protocol, origin } = new URL(url);
+    return protocol === 'https:' ? origin : null;
+  } catch {
+    return null;
+  }
+}
+
+export function isAllowedIframeOrigin(
+  origin: string,
+  allowedOrigins: readonly string[] = COINBASE_IFRAME_ORIGINS
+): boolean {
+  return allowedOrigins.includes(origin);
+}
+
+/**
+ * Parses a message's data (Coinbase sends JSON strings) into an event;
+ * null for anything that isn't a known onramp_api.* event
+ */
+export function parseCoinbaseIframeEvent(
+  data: unknown
+): CoinbaseIframeEvent | null {
+  let parsed = data;
+  if (typeof data === 'string') {
+    try {
+      parsed = JSON.parse(data);
+    } catch {
+      return null;
+    }
+  }
+
+  const result = coinbaseIframeEventSchema.safeParse(parsed);
+  return result.success ? result.data : null;
+}
+
+type Listener<E> = (event: E) => void;
+
+/**
+ * Dispatches parsed events to typed subscribers
+ * Subscribing returns the unsubscribe function, so it can be returned from
+ * a useEffect.
+ */
+export class CoinbaseIframeEventBus {
+  private listeners = new Set<Listener<CoinbaseIframeEvent>>();
+
+  on<N extends CoinbaseIframeEventName>(
+    eventName: N,
+    listener: Listener<CoinbaseIframeEventOf<N>>
+  ): () => void {
+    return this.onAny((event) => {
+      if (event.eventName === eventName) {
+        listener(event as CoinbaseIframeEventOf<N>);
+      }
+    });
+  }
+
+  onAny(listener: Listener<CoinbaseIframeEvent>): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  emit(event: CoinbaseIframeEvent) {
+    this.listeners.forEach((listener) => listener(event));
+  }
+}
@@ -0,0 +1,124 @@
+/**
+ * Origin policy for the API routes, applied by middleware.ts
+ *
+ * ✅ CORS Protection - REQUIRED by Coinbase Security Requirements
+ * This is the only place allowed origins and per-route CORS behaviour are
+ * configured; route handlers don't set CORS headers themselves.
+ * Runs in the Edge runtime, so keep this module free of Node APIs.
+ */
+
+/**
+ * - enforce: cross-origin requests must come from an allowed origin
+ * - skip: no origin checks or CORS headers (server-to-server endpoints)
+ */
+export type CorsPolicy = 'enforce' | 'skip';
+
+export interface RouteCorsConfig {
+  policy: CorsPolicy;
+  // Methods advertised in preflight responses (OPTIONS is always added)
+  methods?: string[];
+}
+
+// Used when ALLOWED_ORIGINS is not set. `*` matches one or more
+// characters of a host label, which covers Vercel preview deployments.
+const DEFAULT_ALLOWED_ORIGINS = [
+  'http://localhost:3000',
+  'http://localhost:3001',
+  // Production domains
+  'https://www.onrampdemo.com',
+  'https://onramp-demo-application.vercel.app',
+  'https://onramp-demo-application-coinbase-vercel.vercel.app',
+  // Vercel branch and preview deployments
+  'https://onramp-demo-application-*-coinbase-vercel.vercel.app',
+];
+
+const DEFAULT_METHODS = ['GET', 'POST'];
+const ALLOWED_HEADERS = 'Content-Type, Authorization, X-Request-Id';
+// Lets browser clients read the id to quote it in bug reports
+const EXPOSED_HEADERS = 'X-Request-Id';
+const MAX_AGE_SECONDS = '86400'; // 24 hours
+
+// Per-route opt-in/opt-out. Keys are path prefixes; the longest match wins
+// and API routes that aren't listed are enforced with DEFAULT_METHODS.
+export const ROUTE_CORS_CONFIG: Record<string, RouteCorsConfig> = {
+  '/api/session': { policy: 'enforce', methods: ['POST'] },
+  '/api/fund/session': { policy: 'enforce', methods: ['POST'] },
+  '/api/siwe': { policy: 'enforce', methods: ['GET', 'POST', 'DELETE'] },
+  // Also covers POST /api/phone-verification/verify
+  '/api/phone-verification': {
+    policy: 'enforce',
+    methods: ['GET', 'POST', 'DELETE'],
+  },
+  // POST creates an order, GET /api/apple-pay/order/[orderId] reads one
+  '/api/apple-pay/order': { policy: 'enforce', methods: ['GET', 'POST'] },
+  '/api/buy-quote': { policy: 'enforce', methods: ['POST'] },
+  '/api/sell-quote': { policy: 'enforce', methods: ['POST'] },
+  '/api/buy-config': { policy: 'enforce', methods: ['GET'] },
+  '/api/buy-options': { policy: 'enforce', methods: ['GET'] },
+  '/api/sell-config': { policy: 'enforce', methods: ['GET'] },
+  '/api/sell-options': { policy: 'enforce', methods: ['GET'] },
+  '/api/prices': { policy: 'enforce', methods: ['GET'] },
+  '/api/transaction-history': { policy: 'enforce', methods: ['GET'] },
+  '/api/transaction-status': { policy: 'enforce', methods: ['GET'] },
+  '/api/sell-transaction': { policy: 'enforce', methods: ['GET'] },
+  '/api/diagnostics': { policy: 'enforce', methods: ['POST'] },
+  // Called by Coinbase servers and authenticated by signature
+  '/api/webhooks/coinbase': { policy: 'skip' },
+};
+
+function normalizeOrigin(origin: string): string {
+  return origin.trim().replace(/\/+$/, '').toLowerCase();
+}
+
+function originPattern(origin: string): RegExp {
+  const escaped = normalizeOrigin(origin)
+    .split('*')
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('[a-z0-9-]+');
+  return new RegExp(`^${escaped}$`);
+}
+
+/**
+ * Origins (with `*` wildcards) allowed to call the API cross-origin
+ * - fromEnv: false when ALLOWED_ORIGINS is unset and the defaults apply
+ */
+export function getAllowedOrigins(): { origins: string[]; fromEnv: boolean } {
+  const configured = process.env.ALLOWED_ORIGINS?.split(',').filter((origin) =>
+    origin.trim()
+  );
+  return configured?.length
+    ? { origins: configured.map((origin) => origin.trim()), fromEnv: true }
+    : { origins: DEFAULT_ALLOWED_ORIGINS, fromEnv: false };
+}
+
+const allowedOriginPatterns = getAllowedOrigins().origins.map(originPattern);
+
+export function isOriginAllowed(origin: string): boolean {
+  const normalized = normalizeOrigin(origin);
+  return allowedOriginPatterns.some((pattern) => pattern.test(normalized));
+}
+
+export function getRouteCorsConfig(pathname: string): RouteCorsConfig {
+  const match = Object.keys(ROUTE_CORS_CONFIG)
+    .filter(
+      (prefix) => pathname === prefix || pathname.startsWith(`${prefix}/`)
+    )
+    .sort((a, b) => b.length - a.length)[0];
+
+  return match ? ROUTE_CORS_CONFIG[match] : { policy: 'enforce' };
+}
+
+export function buildCorsHeaders(
+  origin: string,
+  config: RouteCorsConfig
+): Record<string, string> {
+  const methods = [...(config.methods || DEFAULT_METHODS), 'OPTIONS'];
+  return {
+    'Access-Control-Allow-Origin': origin,
+    'Access-Control-Allow-Methods': methods.join(', '),
+    'Access-Control-Allow-Headers': ALLOWED_HEADERS,
+    'Access-Control-Expose-Headers': EXPOSED_HEADERS,
+    'Access-Control-Max-Age': MAX_AGE_SECONDS,
+    Vary: 'Origin',
+  };
+}
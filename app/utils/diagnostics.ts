@@ -0,0 +1,418 @@
+/**
+ * Live checks behind POST /api/diagnostics (the diagnostics panel on the
+ * debug page)
+ *
+ * Each CDP check makes one real, unretried request with fixed sample inputs
+ * and reports the upstream status, latency and, when it fails, a hint at
+ * the likely misconfiguration. Nothing is bought or sold: the order check
+ * only looks up an order id that doesn't exist.
+ * Never import this module from client components.
+ */
+import { randomUUID } from 'crypto';
+import { DiagnosticCheck } from '../types';
+import {
+  buyOptionsResponseSchema,
+  buyQuoteResponseSchema,
+  rampConfigResponseSchema,
+  sellOptionsResponseSchema,
+  sellQuoteResponseSchema,
+  sessionTokenResponseSchema,
+} from './apiSchemas';
+import {
+  CDP_HOSTS,
+  CdpApiError,
+  CdpClient,
+  CdpHost,
+  getCdpApiBaseUrl,
+  getCdpCredentials,
+} from './cdpClient';
+import { getAllowedOrigins, isOriginAllowed } from './cors';
+import { generateJWT } from './sessionTokenApi';
+
+const CHECK_TIMEOUT_MS = 8000;
+
+// Sample inputs; any supported values would do
+const SAMPLE_COUNTRY = 'US';
+const SAMPLE_SUBDIVISION = 'NY';
+const SAMPLE_REGION = `${SAMPLE_COUNTRY}-${SAMPLE_SUBDIVISION}`;
+const SAMPLE_ADDRESS = '0x4315d134aCd3221a02dD380ADE3aF39Ce219037c';
+
+/**
+ * Diagnostics make paid CDP calls and expose configuration details, so
+ * production deployments have to opt in with ENABLE_DIAGNOSTICS=true
+ */
+export function isDiagnosticsEnabled(): boolean {
+  return (
+    process.env.NODE_ENV !== 'production' ||
+    process.env.ENABLE_DIAGNOSTICS === 'true'
+  );
+}
+
+const MISSING_CREDENTIALS_HINT =
+  'Set CDP_API_KEY and CDP_API_SECRET, or CDP_API_BASE_URL for the local stand-in (npm run cdp:mock)';
+
+// What to change for a failed CDP request
+function getCdpErrorHint(error: unknown): string | undefined {
+  if (!(error instanceof CdpApiError)) {
+    return undefined;
+  }
+
+  switch (error.code) {
+    case 'missing_credentials':
+      return MISSING_CREDENTIALS_HINT;
+    case 'auth_failed':
+      return 'Could not sign the request: CDP_API_SECRET must be the full private key of the API key, with line breaks written as \\n';
+    case 'timeout':
+    case 'network_error':
+      return `Could not reach ${
+        getCdpApiBaseUrl() || 'the CDP API'
+      }; check the network and CDP_API_BASE_URL`;
+    case 'invalid_response':
+      return 'The response did not have the expected shape; CDP_API_BASE_URL may point at something other than the CDP API';
+  }
+
+  if (error.message.includes('Domain is not allow listed')) {
+    return 'Add the domain to CDP Portal > Payments > Domain allowlist';
+  }
+  if (error.status === 401) {
+    return 'CDP rejected the credentials: CDP_API_KEY and CDP_API_SECRET must belong to the same Secret API key, and the key must not be deleted or expired';
+  }
+  if (error.status === 403) {
+    return 'The API key may not call this API: check its permissions and that Onramp is enabled for the project';
+  }
+  if (error.status === 429) {
+    return 'Rate limited by CDP; wait a minute before running the diagnostics again';
+  }
+  if (error.status >= 500) {
+    return 'CDP returned a server error; try again later';
+  }
+  return undefined;
+}
+
+// errorType of a v2 (platform) error body, e.g. 'not_found'
+function getPlatformErrorType(error: CdpApiError): string | undefined {
+  try {
+    const { errorType } = JSON.parse(error.details ?? '');
+    return typeof errorType === 'string' ? errorType : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Runs one check, timing it and capturing the upstream response
+ * @param run - Performs the request; returns a detail for the report
+ * @param expected - Upstream error that counts as a pass: its status and
+ * the errorType of CDP's own v2 error body, with the detail to report for it
+ */
+async function runCheck(
+  id: string,
+  name: string,
+  run: (
+    onResponse: (status: number, latencyMs: number) => void
+  ) => Promise<string>,
+  expected?: { status: number; errorType: string; detail: string }
+): Promise<DiagnosticCheck> {
+  let httpStatus: number | undefined;
+  let latencyMs: number | undefined;
+  const onResponse = (status: number, latency: number) => {
+    httpStatus = status;
+    latencyMs = latency;
+  };
+  const startedAt = Date.now();
+
+  try {
+    const detail = await run(onResponse);
+    return {
+      id,
+      name,
+      status: 'pass',
+      httpStatus,
+      latencyMs: latencyMs ?? Date.now() - startedAt,
+      detail,
+    };
+  } catch (error) {
+    if (error instanceof CdpApiError && error.status === expected?.status) {
+      // Anything in front of CDP can answer 404 for a wrong path or host
+      const errorType = getPlatformErrorType(error);
+      return errorType === expected.errorType
+        ? {
+            id,
+            name,
+            status: 'pass',
+            httpStatus,
+            latencyMs,
+            detail: expected.detail,
+          }
+        : {
+            id,
+            name,
+            status: 'fail',
+            httpStatus,
+            latencyMs,
+            detail: `Expected a CDP ${expected.errorType} error, got ${
+              errorType ? `errorType ${errorType}` : 'a response without one'
+            }`,
+            hint: 'The response did not come from the CDP API; check CDP_API_BASE_URL and the request path',
+          };
+    }
+    return {
+      id,
+      name,
+      status: 'fail',
+      httpStatus,
+      latencyMs: latencyMs ?? Date.now() - startedAt,
+      detail: error instanceof Error ? error.message : 'Unknown error',
+      hint: getCdpErrorHint(error),
+    };
+  }
+}
+
+// The host and a path each check signs for
+const SIGNING_TARGETS: Record<CdpHost, string> = {
+  developer: '/onramp/v1/buy/config',
+  platform: '/platform/v2/onramp/orders',
+};
+
+async function checkJwtSigning(host: CdpHost): Promise<DiagnosticCheck> {
+  const id = `jwt_${host}`;
+  const name = `JWT signing for ${CDP_HOSTS[host]}`;
+  const credentials = getCdpCredentials();
+
+  if (!credentials) {
+    return getCdpApiBaseUrl() && process.env.NODE_ENV !== 'production'
+      ? {
+          id,
+          name,
+          status: 'skip',
+          detail: 'No credentials; requests to CDP_API_BASE_URL are unsigned',
+        }
+      : {
+          id,
+          name,
+          status: 'fail',
+          detail: 'CDP API credentials are not configured',
+          hint: MISSING_CREDENTIALS_HINT,
+        };
+  }
+
+  return runCheck(id, name, async () => {
+    try {
+      await generateJWT(
+        credentials.keyName,
+        credentials.keySecret,
+        SIGNING_TARGETS[host],
+        'GET',
+        CDP_HOSTS[host]
+      );
+    } catch {
+      throw new CdpApiError('auth_failed', 'Authentication failed', 500);
+    }
+    return `Signed GET ${CDP_HOSTS[host]}${SIGNING_TARGETS[host]}`;
+  });
+}
+
+/**
+ * Runs every CDP check in turn, so they don't trip CDP's rate limits
+ * @param clientIp - Public IP to mint the session token for; the check is
+ * skipped without one
+ */
+export async function runCdpDiagnostics(
+  clientIp: string | null
+): Promise<DiagnosticCheck[]> {
+  const checks: DiagnosticCheck[] = [
+    await checkJwtSigning('developer'),
+    await checkJwtSigning('platform'),
+  ];
+
+  let client: CdpClient;
+  try {
+    client = CdpClient.fromEnv();
+  } catch (error) {
+    // Without credentials every request fails the same way
+    return checks.concat({
+      id: 'cdp_client',
+      name: 'CDP API requests',
+      status: 'fail',
+      detail: error instanceof Error ? error.message : 'Unknown error',
+      hint: getCdpErrorHint(error),
+    });
+  }
+
+  const request = { retries: 0, timeoutMs: CHECK_TIMEOUT_MS };
+  const options = { country: SAMPLE_COUNTRY, subdivision: SAMPLE_SUBDIVISION };
+
+  checks.push(
+    clientIp
+      ? await runCheck('session_token', 'Session token', async (onResponse) => {
+          await client.post(
+            '/onramp/v1/token',
+            {
+              addresses: [{ address: SAMPLE_ADDRESS, blockchains: ['base'] }],
+              assets: ['USDC'],
+              clientIp,
+            },
+            { ...request, onResponse, schema: sessionTokenResponseSchema }
+          );
+          return 'Minted a token for a sample address';
+        })
+      : {
+          id: 'session_token',
+          name: 'Session token',
+          status: 'skip',
+          detail: 'Could not determine a public client IP for the token',
+        },
+    await runCheck('buy_config', 'Buy config', async (onResponse) => {
+      const { countries } = await client.get('/onramp/v1/buy/config', {
+        ...request,
+        onResponse,
+        schema: rampConfigResponseSchema,
+      });
+      return `${countries.length} countries`;
+    }),
+    await runCheck('sell_config', 'Sell config', async (onResponse) => {
+      const { countries } = await client.get('/onramp/v1/sell/config', {
+        ...request,
+        onResponse,
+        schema: rampConfigResponseSchema,
+      });
+      return `${countries.length} countries`;
+    }),
+    await runCheck('buy_options', 'Buy options', async (onResponse) => {
+      const data = await client.get('/onramp/v1/buy/options', {
+        ...request,
+        onResponse,
+        query: options,
+        schema: buyOptionsResponseSchema,
+      });
+      return `${data.purchase_currencies.length} assets for ${SAMPLE_REGION}`;
+    }),
+    await runCheck('sell_options', 'Sell options', async (onResponse) => {
+      const data = await client.get('/onramp/v1/sell/options', {
+        ...request,
+        onResponse,
+        query: options,
+        schema: sellOptionsResponseSchema,
+      });
+      return `${data.sell_currencies.length} assets for ${SAMPLE_REGION}`;
+    }),
+    await runCheck('buy_quote', 'Buy quote', async (onResponse) => {
+      const data = await client.post(
+        '/onramp/v1/buy/quote',
+        {
+          purchaseCurrency: 'USDC',
+          purchaseNetwork: 'base',
+          paymentAmount: '10.00',
+          paymentCurrency: 'USD',
+          paymentMethod: 'CARD',
+          ...options,
+        },
+        { ...request, onResponse, schema: buyQuoteResponseSchema }
+      );
+      return `10.00 USD buys ${data.purchase_amount.value} USDC`;
+    }),
+    await runCheck('sell_quote', 'Sell quote', async (onResponse) => {
+      const data = await client.post(
+        '/onramp/v1/sell/quote',
+        {
+          sellCurrency: 'USDC',
+          sellNetwork: 'base',
+          sellAmount: '10',
+          cashoutCurrency: 'USD',
+          paymentMethod: 'ACH_BANK_ACCOUNT',
+          ...options,
+        },
+        { ...request, onResponse, schema: sellQuoteResponseSchema }
+      );
+      return data.cashout_total
+        ? `10 USDC sells for ${data.cashout_total.value} USD`
+        : `Quote ${data.quote_id}`;
+    }),
+    // A random order id can't exist, so CDP's own not_found error shows
+    // the platform host accepts our requests without creating an order
+    await runCheck(
+      'order_lookup',
+      'v2 order lookup',
+      async (onResponse) => {
+        await client.get(`/platform/v2/onramp/orders/${randomUUID()}`, {
+          ...request,
+          onResponse,
+        });
+        return 'Unexpectedly found an order for a random id';
+      },
+      {
+        status: 404,
+        errorType: 'not_found',
+        detail: 'CDP answered not_found for a random order id',
+      }
+    )
+  );
+
+  return checks;
+}
+
+/**
+ * Checks the origin policy (see cors.ts) for the origin the debug page was
+ * loaded from
+ * @param origin - Origin header of the diagnostics request
+ * @param serverOrigin - Origin the server sees itself on
+ */
+export function checkCorsConfig(
+  origin: string | null,
+  serverOrigin: string
+): DiagnosticCheck[] {
+  const { origins, fromEnv } = getAllowedOrigins();
+  const checks: DiagnosticCheck[] = [
+    {
+      id: 'allowed_origins',
+      name: 'Allowed origins',
+      status: 'pass',
+      detail: `${
+        fromEnv
+          ? 'ALLOWED_ORIGINS'
+          : 'Built-in defaults (ALLOWED_ORIGINS unset)'
+      }: ${origins.join(', ')}`,
+    },
+  ];
+
+  if (!origin) {
+    return checks.concat({
+      id: 'current_origin',
+      name: 'This origin',
+      status: 'skip',
+      detail: 'The request had no Origin header',
+    });
+  }
+
+  const allowed = isOriginAllowed(origin);
+  checks.push({
+    id: 'current_origin',
+    name: `This origin (${origin})`,
+    status: allowed || origin === serverOrigin ? 'pass' : 'fail',
+    detail: allowed
+      ? 'Allowed to call the API'
+      : origin === serverOrigin
+        ? 'Not in the allowed origins, but the API sees it as same-origin'
+        : `Not in the allowed origins, and the server sees itself on ${serverOrigin}`,
+    ...(!allowed && {
+      hint: `Add ${origin} to ALLOWED_ORIGINS (comma-separated)`,
+    }),
+  });
+
+  // Guest checkout sends the page's domain so Coinbase lets the payment
+  // page be embedded (see /api/apple-pay/order)
+  const isHttps = origin.startsWith('https://');
+  checks.push({
+    id: 'order_domain',
+    name: 'Guest checkout domain',
+    status: isHttps ? 'pass' : 'skip',
+    detail: isHttps
+      ? `Orders are created for ${origin.replace('https://', '')}`
+      : 'Over http, orders are created without a domain and the payment page opens in a new tab',
+    hint: isHttps
+      ? 'The domain must also be on CDP Portal > Payments > Domain allowlist; the order check above cannot tell'
+      : undefined,
+  });
+
+  return checks;
+}
@@ -0,0 +1,32 @@
+/**
+ * Block explorer links for the ramp networks (see assetNetworkMap in
+ * onrampApi.ts)
+ */
+
+// Transaction URL prefixes; networks without a well-known explorer are
+// left out
+const EXPLORER_TX_URLS: Record<string, string> = {
+  ethereum: 'https://etherscan.io/tx/',
+  base: 'https://basescan.org/tx/',
+  optimism: 'https://optimistic.etherscan.io/tx/',
+  arbitrum: 'https://arbiscan.io/tx/',
+  polygon: 'https://polygonscan.com/tx/',
+  'avalanche-c-chain': 'https://snowtrace.io/tx/',
+  unichain: 'https://uniscan.xyz/tx/',
+  'bnb-chain': 'https://bscscan.com/tx/',
+  bitcoin: 'https://mempool.space/tx/',
+  solana: 'https://solscan.io/tx/',
+};
+
+/**
+ * Returns the explorer page of a transaction, or null if the network has
+ * no known explorer
+ * @param network - Ramp network id (e.g. 'base')
+ */
+export function getNetworkExplorerTxUrl(
+  network: string,
+  txHash: string
+): string | null {
+  const prefix = EXPLORER_TX_URLS[network];
+  return prefix ? `${prefix}${encodeURIComponent(txHash)}` : null;
+}
@@ -0,0 +1,153 @@
+/**
+ * Guest checkout payment methods and the countries whose phone numbers can
+ * buy through them
+ *
+ * Shared by POST /api/apple-pay/order (validation.ts) and the checkout form,
+ * so a phone number or currency is rejected the same way on both sides.
+ * Keep both lists in line with what is enabled for the CDP project; CDP
+ * rejects orders for methods or countries it doesn't support.
+ */
+
+export interface GuestCheckoutPaymentMethod {
+  // paymentMethod of the v2 orders API
+  id: string;
+  label: string;
+  // Query param that makes the payment page work on localhost (the page
+  // can't be embedded on a domain that isn't allowlisted)
+  localhostSandboxParam?: string;
+}
+
+export const GUEST_CHECKOUT_PAYMENT_METHODS = [
+  {
+    id: 'GUEST_CHECKOUT_APPLE_PAY',
+    label: 'Apple Pay',
+    localhostSandboxParam: 'useApplePaySandbox',
+  },
+  { id: 'GUEST_CHECKOUT_DEBIT_CARD', label: 'Debit card' },
+] as const satisfies readonly GuestCheckoutPaymentMethod[];
+
+export type GuestCheckoutPaymentMethodId =
+  (typeof GUEST_CHECKOUT_PAYMENT_METHODS)[number]['id'];
+
+// partnerUserRef of guest checkout orders: the sandbox prefix keeps them
+// in sandbox mode, and the random id makes the ref unguessable, so (like
+// the order id) it's enough to read the order's webhook status
+const GUEST_PARTNER_USER_REF_PATTERN =
+  /^sandbox-[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+export function createGuestPartnerUserRef(): string {
+  return `sandbox-${crypto.randomUUID()}`;
+}
+
+export function isGuestPartnerUserRef(partnerUserRef: string): boolean {
+  return GUEST_PARTNER_USER_REF_PATTERN.test(partnerUserRef);
+}
+
+export const DEFAULT_GUEST_CHECKOUT_PAYMENT_METHOD =
+  'GUEST_CHECKOUT_APPLE_PAY' satisfies GuestCheckoutPaymentMethodId;
+
+export function getGuestCheckoutPaymentMethod(
+  id: string
+): GuestCheckoutPaymentMethod | undefined {
+  return GUEST_CHECKOUT_PAYMENT_METHODS.find((method) => method.id === id);
+}
+
+export interface GuestCheckoutCountry {
+  code: string;
+  name: string;
+  // E.164 country calling code, without '+'
+  callingCode: string;
+  // Digits allowed after the calling code
+  nationalNumberLengths: number[];
+  // Matched against the national number, for rules the length can't express
+  nationalNumberPattern?: RegExp;
+  // Default payment currency for phone numbers from the country
+  currency: string;
+  exampleNumber: string;
+}
+
+export const GUEST_CHECKOUT_COUNTRIES: GuestCheckoutCountry[] = [
+  {
+    code: 'US',
+    name: 'United States',
+    callingCode: '1',
+    nationalNumberLengths: [10],
+    // Area codes and exchange codes don't start with 0 or 1
+    nationalNumberPattern: /^[2-9]\d{2}[2-9]\d{6}$/,
+    currency: 'USD',
+    exampleNumber: '+12025550123',
+  },
+  {
+    code: 'GB',
+    name: 'United Kingdom',
+    callingCode: '44',
+    nationalNumberLengths: [10],
+    currency: 'GBP',
+    exampleNumber: '+447700900123',
+  },
+  {
+    code: 'FR',
+    name: 'France',
+    callingCode: '33',
+    nationalNumberLengths: [9],
+    currency: 'EUR',
+    exampleNumber: '+33612345678',
+  },
+];
+
+// Payment currencies an order can be placed in
+export const GUEST_CHECKOUT_CURRENCIES = Array.from(
+  new Set(GUEST_CHECKOUT_COUNTRIES.map((country) => country.currency))
+);
+
+export const DEFAULT_GUEST_CHECKOUT_CURRENCY = 'USD';
+
+// Digits in the one-time codes sent to verify a phone number
+export const PHONE_CODE_LENGTH = 6;
+
+export type PhoneNumberValidationResult =
+  | { valid: true; country: GuestCheckoutCountry }
+  | { valid: false; reason: string };
+
+const E164_PATTERN = /^\+[1-9]\d{1,14}$/;
+
+/**
+ * Checks that a phone number is in E.164 format (+ and up to 15 digits, no
+ * spaces) and belongs to one of GUEST_CHECKOUT_COUNTRIES
+ */
+export function validateGuestCheckoutPhoneNumber(
+  phoneNumber: string
+): PhoneNumberValidationResult {
+  if (!E164_PATTERN.test(phoneNumber)) {
+    return {
+      valid: false,
+      reason: 'Phone number must be in international format, e.g. +12025550123',
+    };
+  }
+
+  const digits = phoneNumber.slice(1);
+  const country = GUEST_CHECKOUT_COUNTRIES.find(({ callingCode }) =>
+    digits.startsWith(callingCode)
+  );
+  if (!country) {
+    return {
+      valid: false,
+      reason: `Phone numbers from this country are not supported (supported: ${GUEST_CHECKOUT_COUNTRIES.map(
+        ({ name }) => name
+      ).join(', ')})`,
+    };
+  }
+
+  const nationalNumber = digits.slice(country.callingCode.length);
+  if (
+    !country.nationalNumberLengths.includes(nationalNumber.length) ||
+    !(country.nationalNumberPattern?.test(nationalNumber) ?? true)
+  ) {
+    return {
+      valid: false,
+      reason: `Invalid ${country.name} phone number, e.g. ${country.exampleNumber}`,
+    };
+  }
+
+  return { valid: true, country };
+}
@@ -0,0 +1,74 @@
+/**
+ * Log sinks that need Node APIs, and sink selection from the environment
+ *
+ * LOG_SINKS is a comma separated list of 'stdout' and 'file' (default:
+ * stdout); the file sink appends JSON lines to LOG_FILE. Middleware logs
+ * always go to the console, as the Edge runtime has no file system.
+ * Never import this module from client components or middleware.ts.
+ */
+import { appendFileSync, mkdirSync } from 'fs';
+import { dirname } from 'path';
+import {
+  consoleLogSink,
+  getLogSinks,
+  logger,
+  setLogSinks,
+  type LogEntry,
+  type LogSink,
+} from './logger';
+
+const DEFAULT_LOG_FILE = 'logs/server.log';
+
+/**
+ * Appends one JSON line per entry to a file, e.g. to assert on logs in
+ * tests
+ * Writes are synchronous so entries keep their order and are on disk as
+ * soon as the request finishes.
+ */
+export class FileLogSink implements LogSink {
+  constructor(private path: string) {
+    mkdirSync(dirname(path), { recursive: true });
+  }
+
+  write(entry: LogEntry) {
+    appendFileSync(this.path, `${JSON.stringify(entry)}\n`);
+  }
+}
+
+/**
+ * Builds the sinks selected by LOG_SINKS and LOG_FILE
+ */
+export function createLogSinksFromEnv(): LogSink[] {
+  const names = (process.env.LOG_SINKS || 'stdout')
+    .split(',')
+    .map((name) => name.trim())
+    .filter(Boolean);
+
+  const sinks: LogSink[] = [];
+  names.forEach((name) => {
+    switch (name) {
+      case 'stdout':
+        sinks.push(consoleLogSink);
+        break;
+      case 'file':
+        sinks.push(new FileLogSink(process.env.LOG_FILE || DEFAULT_LOG_FILE));
+        break;
+      default:
+        logger.warn('Unknown log sink ignored', { name });
+    }
+  });
+
+  return sinks.length > 0 ? sinks : [consoleLogSink];
+}
+
+/**
+ * Installs the sinks from the environment, unless sinks were already set
+ * with setLogSinks (e.g. by a test)
+ */
+export function initLogSinksFromEnv() {
+  if (getLogSinks()) {
+    return;
+  }
+
+  setLogSinks(createLogSinksFromEnv());
+}
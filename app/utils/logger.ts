@@ -1,70 +1,256 @@
-type LogLevel = 'info' | 'warn' | 'error' | 'debug';
-
-class Logger {
-  private isDevelopment = process.env.NODE_ENV === 'development';
-  
-  private sanitize(data: any): any {
-    if (typeof data === 'string') {
-      // Redact potential secrets (long alphanumeric strings)
-      return data.replace(/([a-zA-Z0-9_-]{32,})/g, '***REDACTED***');
-    }
-    
-    if (typeof data === 'object' && data !== null) {
-      const sanitized: any = Array.isArray(data) ? [] : {};
-      for (const key in data) {
-        // Redact sensitive keys
-        if (/key|secret|token|password|credential|auth|private/i.test(key)) {
-          sanitized[key] = '***REDACTED***';
-        } else {
-          sanitized[key] = this.sanitize(data[key]);
-        }
-      }
-      return sanitized;
-    }
-    
-    return data;
-  }
-  
-  private log(level: LogLevel, message: string, data?: any) {
-    // Don't log debug in production
-    if (!this.isDevelopment && level === 'debug') {
-      return;
-    }
-    
-    const sanitizedData = data ? this.sanitize(data) : undefined;
-    const timestamp = new Date().toISOString();
-    
-    switch (level) {
+/**
+ * Structured JSON logger for the API routes, middleware and client hooks
+ *
+ * Every entry is one JSON object with timestamp, level and message, the
+ * request context (request id, route) while a request is being handled
+ * (see requestLogging.ts) and the fields passed by the caller.
+ * Sensitive fields are redacted by name (REDACTION_RULES); values are never
+ * rewritten by pattern, so addresses and tx hashes stay readable.
+ * Also runs in the Edge runtime and the browser, so keep it free of Node
+ * APIs; Node-only sinks live in logSinks.ts.
+ */
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export type LogContext = Record<string, unknown>;
+
+export interface LogEntry {
+  timestamp: string;
+  level: LogLevel;
+  message: string;
+  [field: string]: unknown;
+}
+
+/**
+ * Destination for log entries (stdout, a file, an array in tests)
+ * Sinks must not throw; a failing sink doesn't stop the others.
+ */
+export interface LogSink {
+  write(entry: LogEntry): void;
+}
+
+// One JSON line per entry; in Node errors and warnings go to stderr
+export const consoleLogSink: LogSink = {
+  write(entry) {
+    const line = JSON.stringify(entry);
+    switch (entry.level) {
       case 'error':
-        console.error(`[${timestamp}] [${level.toUpperCase()}]`, message, sanitizedData || '');
+        console.error(line);
         break;
       case 'warn':
-        console.warn(`[${timestamp}] [${level.toUpperCase()}]`, message, sanitizedData || '');
-        break;
-      case 'info':
-        console.info(`[${timestamp}] [${level.toUpperCase()}]`, message, sanitizedData || '');
-        break;
-      case 'debug':
-        console.log(`[${timestamp}] [${level.toUpperCase()}]`, message, sanitizedData || '');
+        console.warn(line);
         break;
+      default:
+        console.log(line);
     }
+  },
+};
+
+const REDACTED = '[REDACTED]';
+const MAX_DEPTH = 6;
+
+interface RedactionRule {
+  // Matched against the field name in lower case without '_' and '-', so
+  // apiKey, api_key and API-KEY are the same field
+  field: RegExp;
+  redact: (value: unknown) => unknown;
+}
+
+function maskEmail(value: unknown): unknown {
+  if (typeof value !== 'string') {
+    return REDACTED;
+  }
+  const [user, domain] = value.split('@');
+  return domain ? `${user.slice(0, 1)}***@${domain}` : REDACTED;
+}
+
+function maskPhoneNumber(value: unknown): unknown {
+  return typeof value === 'string' && value.length > 4
+    ? `***${value.slice(-4)}`
+    : REDACTED;
+}
+
+// Credentials and anything that authenticates a request
+const SECRET_FIELDS = [
+  'secret',
+  'password',
+  'token',
+  'apikey',
+  'keyname',
+  'privatekey',
+  'authorization',
+  'cookie',
+  'signature',
+  'jwt',
+  'credential',
+];
+
+export const REDACTION_RULES: RedactionRule[] = [
+  {
+    field: new RegExp(`(${SECRET_FIELDS.join('|')})s?$`),
+    redact: () => REDACTED,
+  },
+  // Contact details: keep enough to tell users apart
+  { field: /email$/, redact: maskEmail },
+  { field: /phone(number)?$/, redact: maskPhoneNumber },
+];
+
+function findRedactionRule(field: string): RedactionRule | undefined {
+  const normalized = field.toLowerCase().replace(/[_-]/g, '');
+  return REDACTION_RULES.find((rule) => rule.field.test(normalized));
+}
+
+const isDevelopment = () => process.env.NODE_ENV === 'development';
+
+function serializeError(error: Error): Record<string, unknown> {
+  const { code, status } = error as Error & {
+    code?: unknown;
+    status?: unknown;
+  };
+  return {
+    name: error.name,
+    message: error.message,
+    ...(code !== undefined && { code }),
+    ...(status !== undefined && { status }),
+    ...(isDevelopment() && { stack: error.stack }),
+  };
+}
+
+// Copies a value into plain JSON, applying the redaction rules by field
+function sanitize(value: unknown, depth = 0, seen = new WeakSet()): unknown {
+  if (typeof value === 'bigint') {
+    return value.toString();
+  }
+  if (typeof value === 'function' || typeof value === 'symbol') {
+    return undefined;
+  }
+  if (typeof value !== 'object' || value === null) {
+    return value;
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (seen.has(value)) {
+    return '[Circular]';
+  }
+  if (depth >= MAX_DEPTH) {
+    return '[Truncated]';
   }
-  
-  info(message: string, data?: any) {
+  seen.add(value);
+
+  const source = value instanceof Error ? serializeError(value) : value;
+  if (Array.isArray(source)) {
+    return source.map((item) => sanitize(item, depth + 1, seen));
+  }
+
+  const sanitized: Record<string, unknown> = {};
+  Object.entries(source).forEach(([field, fieldValue]) => {
+    const rule = findRedactionRule(field);
+    sanitized[field] = rule
+      ? rule.redact(fieldValue)
+      : sanitize(fieldValue, depth + 1, seen);
+  });
+  return sanitized;
+}
+
+// Sinks and the request context provider are shared across route bundles,
+// like the rate limit store
+const globalForLogger = globalThis as typeof globalThis & {
+  logSinks?: LogSink[];
+  logContextProvider?: () => LogContext | undefined;
+};
+
+/**
+ * Replaces the sinks every logger writes to (default: consoleLogSink)
+ */
+export function setLogSinks(sinks: LogSink[]) {
+  globalForLogger.logSinks = sinks;
+}
+
+/**
+ * Returns the configured sinks, or undefined if setLogSinks hasn't been
+ * called and entries go to the console
+ */
+export function getLogSinks(): LogSink[] | undefined {
+  return globalForLogger.logSinks;
+}
+
+/**
+ * Registers the source of per-request fields (see requestLogging.ts)
+ */
+export function setLogContextProvider(provider: () => LogContext | undefined) {
+  globalForLogger.logContextProvider = provider;
+}
+
+const RESERVED_FIELDS = ['timestamp', 'level', 'message'];
+
+// Objects become top-level fields; anything else is logged under a name
+function toFields(data: unknown): object | undefined {
+  if (data === undefined) {
+    return undefined;
+  }
+  if (data instanceof Error) {
+    return { error: data };
+  }
+  return typeof data === 'object' && data !== null && !Array.isArray(data)
+    ? data
+    : { data };
+}
+
+export class Logger {
+  constructor(private context: LogContext = {}) {}
+
+  /**
+   * Returns a logger that adds `context` to every entry
+   */
+  child(context: LogContext): Logger {
+    return new Logger({ ...this.context, ...context });
+  }
+
+  private log(level: LogLevel, message: string, data?: unknown) {
+    // Don't log debug in production
+    if (!isDevelopment() && level === 'debug') {
+      return;
+    }
+
+    const fields = sanitize({
+      ...globalForLogger.logContextProvider?.(),
+      ...this.context,
+      ...toFields(data),
+    }) as Record<string, unknown>;
+    RESERVED_FIELDS.forEach((field) => delete fields[field]);
+
+    const entry: LogEntry = {
+      timestamp: new Date().toISOString(),
+      level,
+      message,
+      ...fields,
+    };
+
+    (globalForLogger.logSinks || [consoleLogSink]).forEach((sink) => {
+      try {
+        sink.write(entry);
+      } catch {
+        // A broken sink must not break the request being logged
+      }
+    });
+  }
+
+  debug(message: string, data?: unknown) {
+    this.log('debug', message, data);
+  }
+
+  info(message: string, data?: unknown) {
     this.log('info', message, data);
   }
-  
-  warn(message: string, data?: any) {
+
+  warn(message: string, data?: unknown) {
     this.log('warn', message, data);
   }
-  
-  error(message: string, data?: any) {
+
+  error(message: string, data?: unknown) {
     this.log('error', message, data);
   }
-  
-  debug(message: string, data?: any) {
-    this.log('debug', message, data);
-  }
 }
 
 export const logger = new Logger();
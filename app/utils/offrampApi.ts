@@ -1,6 +1,15 @@
 /**
  * API utilities for Coinbase Offramp
  */
+import type { FetchRampDataOptions } from "./onrampApi";
+import type { PendingSellTransactionResponse } from "../types";
+import {
+  getApiErrorMessage,
+  parseApiResponse,
+  pendingSellTransactionResponseSchema,
+  rampConfigResponseSchema,
+  sellOptionsResponseSchema,
+} from "./apiSchemas";
 
 // Types for Sell Config API response
 // Based on CDP API: https://docs.cdp.coinbase.com/api-reference/rest-api/onramp-offramp/get-sell-config
@@ -88,6 +97,9 @@ export interface CryptoAsset {
   networks: {
     id: string;
     name: string;
+    chainId?: number;
+    // Token contract on this network; absent for native assets
+    contractAddress?: string;
   }[];
 }
 
@@ -151,6 +163,8 @@ export function transformSellOptionsResponse(apiResponse: ApiSellOptionsResponse
       networks: asset.networks.map((network) => ({
         id: network.name, // Use name (e.g., "ethereum") as the id
         name: network.display_name, // Use display_name (e.g., "Ethereum") for display
+        chainId: network.chain_id,
+        contractAddress: network.contract_address || undefined,
       })),
     })),
   };
@@ -217,7 +231,11 @@ export async function fetchSellConfig(): Promise<{ countries: Country[] }> {
       throw new Error('API call failed');
     }
     
-    const apiData: SellConfigResponse = await response.json();
+    const apiData: SellConfigResponse = parseApiResponse(
+      rampConfigResponseSchema,
+      await response.json(),
+      'sell config'
+    );
     // Transform CDP API format to UI-friendly format
     const transformedData = transformSellConfigResponse(apiData);
     
@@ -325,7 +343,11 @@ export async function fetchSellConfig(): Promise<{ countries: Country[] }> {
  * Fetches the available options for selling crypto from CDP API
  * API Docs: https://docs.cdp.coinbase.com/onramp/v1/sell/options
  */
-export async function fetchSellOptions(country: string, subdivision?: string): Promise<SellOptionsResponse> {
+export async function fetchSellOptions(
+  country: string,
+  subdivision?: string,
+  { fallbackOnError = true }: FetchRampDataOptions = {}
+): Promise<SellOptionsResponse> {
   try {
     // Call the real CDP Sell Options API
     const params = new URLSearchParams({ country });
@@ -346,7 +368,11 @@ export async function fetchSellOptions(country: string, subdivision?: string): P
       throw new Error(`API call failed: ${response.status} ${errorText}`);
     }
 
-    const apiData: ApiSellOptionsResponse = await response.json();
+    const apiData: ApiSellOptionsResponse = parseApiResponse(
+      sellOptionsResponseSchema,
+      await response.json(),
+      'sell options'
+    );
     console.log('📦 Raw API response:', apiData);
 
     // Transform CDP API response to UI-friendly format
@@ -361,6 +387,10 @@ export async function fetchSellOptions(country: string, subdivision?: string): P
 
     return transformedData;
   } catch (error) {
+    if (!fallbackOnError) {
+      throw error;
+    }
+
     console.error("⚠️ Error fetching sell options from CDP API, using fallback data:", error);
     console.warn("⚠️ Using mock data for assets and cashout methods. Real API data may differ.");
     // Fallback to mock data if API fails
@@ -608,3 +638,33 @@ export async function fetchSellOptions(country: string, subdivision?: string): P
     };
   }
 }
+
+/**
+ * Fetches the newest sell transaction waiting for the user's crypto
+ * Requires a Sign-In with Ethereum session for the same wallet. No fallback
+ * data: the deposit address must come from Coinbase.
+ * @param partnerUserId - The partnerUserId the offramp URL was opened with
+ */
+export async function fetchPendingSellTransaction(
+  partnerUserId: string
+): Promise<PendingSellTransactionResponse> {
+  const response = await fetch(
+    `/api/sell-transaction/${encodeURIComponent(partnerUserId)}`
+  );
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(
+      getApiErrorMessage(
+        error,
+        `Sell transaction request failed: ${response.status}`
+      )
+    );
+  }
+
+  return parseApiResponse(
+    pendingSellTransactionResponseSchema,
+    await response.json(),
+    'sell transaction'
+  );
+}
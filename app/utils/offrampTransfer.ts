@@ -0,0 +1,129 @@
+/**
+ * Builds the transfer that completes an offramp: after the user confirms
+ * the sell on Coinbase, the crypto has to be sent to the Coinbase deposit
+ * address from the sell transaction
+ */
+import type { SendEvmTransactionOptions } from '@coinbase/cdp-hooks';
+import {
+  createPublicClient,
+  encodeFunctionData,
+  erc20Abi,
+  getAddress,
+  http,
+  isAddress,
+  parseUnits,
+  type Chain,
+  type Hex,
+} from 'viem';
+import {
+  arbitrum,
+  avalanche,
+  base,
+  mainnet,
+  optimism,
+  polygon,
+} from 'viem/chains';
+import type { PendingSellTransaction } from '../types';
+
+type SendNetwork = SendEvmTransactionOptions['network'];
+
+// Ramp network ids the embedded wallet can send on, with the network name
+// the CDP send API expects
+export const OFFRAMP_SEND_NETWORKS: Record<
+  string,
+  { chain: Chain; network: SendNetwork }
+> = {
+  base: { chain: base, network: 'base' },
+  ethereum: { chain: mainnet, network: 'ethereum' },
+  optimism: { chain: optimism, network: 'optimism' },
+  arbitrum: { chain: arbitrum, network: 'arbitrum' },
+  polygon: { chain: polygon, network: 'polygon' },
+  'avalanche-c-chain': { chain: avalanche, network: 'avalanche' },
+};
+
+export interface OfframpTransfer {
+  chain: Chain;
+  options: SendEvmTransactionOptions;
+}
+
+/**
+ * Builds a native or ERC-20 transfer of the sell amount to the deposit
+ * address
+ * Token decimals are read from the contract, so amounts are never scaled
+ * with a guessed precision.
+ * @param contractAddress - Token contract from the sell options; omit for
+ * the network's native asset
+ * @throws if the network, asset or deposit address isn't supported
+ */
+export async function buildOfframpTransfer(
+  transaction: PendingSellTransaction,
+  evmAccount: `0x${string}`,
+  contractAddress?: string
+): Promise<OfframpTransfer> {
+  const target = OFFRAMP_SEND_NETWORKS[transaction.network];
+  if (!target) {
+    throw new Error(
+      `Sending on ${transaction.network} isn't supported by the embedded wallet`
+    );
+  }
+
+  if (!isAddress(transaction.toAddress)) {
+    throw new Error('Invalid Coinbase deposit address');
+  }
+  const to = getAddress(transaction.toAddress);
+  const { chain, network } = target;
+
+  if (contractAddress) {
+    if (!isAddress(contractAddress)) {
+      throw new Error(`Invalid token contract for ${transaction.asset}`);
+    }
+
+    const client = createPublicClient({ chain, transport: http() });
+    const token = getAddress(contractAddress);
+    const decimals = await client.readContract({
+      address: token,
+      abi: erc20Abi,
+      functionName: 'decimals',
+    });
+
+    const data: Hex = encodeFunctionData({
+      abi: erc20Abi,
+      functionName: 'transfer',
+      args: [to, parseUnits(transaction.amount, decimals)],
+    });
+
+    return {
+      chain,
+      options: {
+        evmAccount,
+        network,
+        transaction: { to: token, data, chainId: chain.id, type: 'eip1559' },
+      },
+    };
+  }
+
+  if (transaction.asset !== chain.nativeCurrency.symbol) {
+    throw new Error(
+      `No token contract known for ${transaction.asset} on ${chain.name}`
+    );
+  }
+
+  return {
+    chain,
+    options: {
+      evmAccount,
+      network,
+      transaction: {
+        to,
+        value: parseUnits(transaction.amount, chain.nativeCurrency.decimals),
+        chainId: chain.id,
+        type: 'eip1559',
+      },
+    },
+  };
+}
+
+export function getExplorerTxUrl(chain: Chain, hash: string): string | null {
+  const explorer = chain.blockExplorers?.default.url;
+  return explorer ? `${explorer}/tx/${hash}` : null;
+}
@@ -1,6 +1,14 @@
 /**
  * API utilities for Coinbase Onramp
  */
+import { BuyQuoteResponse } from "../types";
+import {
+  buyOptionsResponseSchema,
+  buyQuoteResponseSchema,
+  getApiErrorMessage,
+  parseApiResponse,
+  rampConfigResponseSchema,
+} from "./apiSchemas";
 
 // Types for Buy Config API response (RAW from CDP API)
 export interface ApiPaymentMethodType {
@@ -105,6 +113,12 @@ export interface BuyOptionsResponse {
   purchaseCurrencies: PurchaseCurrency[];
 }
 
+export interface FetchRampDataOptions {
+  // Return built-in sample data when the API call fails (default). Callers
+  // that show their own error state pass false to get the error instead.
+  fallbackOnError?: boolean;
+}
+
 // Country data with names
 export const countryNames: Record<string, string> = {
   // North America
@@ -312,7 +326,9 @@ const assetNetworkMap: Record<string, string[]> = {
  * API Docs: https://docs.cdp.coinbase.com/onramp/v1/buy/config
  * Returns UI-friendly format with country names and payment method descriptions
  */
-export async function fetchBuyConfig(): Promise<BuyConfigResponse> {
+export async function fetchBuyConfig({
+  fallbackOnError = true,
+}: FetchRampDataOptions = {}): Promise<BuyConfigResponse> {
   try {
     // Check if we have a valid cache
     const now = Date.now();
@@ -328,7 +344,11 @@ export async function fetchBuyConfig(): Promise<BuyConfigResponse> {
       throw new Error('API call failed');
     }
 
-    const apiData: ApiBuyConfigResponse = await response.json();
+    const apiData: ApiBuyConfigResponse = parseApiResponse(
+      rampConfigResponseSchema,
+      await response.json(),
+      'buy config'
+    );
     // Transform CDP API format to UI-friendly format
     const transformedData = transformBuyConfigResponse(apiData);
 
@@ -343,15 +363,19 @@ export async function fetchBuyConfig(): Promise<BuyConfigResponse> {
 
     return transformedData;
   } catch (error) {
-    console.error("⚠️ Error fetching buy config from CDP API, using fallback data:", error);
-    console.warn("⚠️ Using mock data for countries and payment methods. Real API data may differ.");
-
     // If API call fails and we have a cache, return the cache even if expired
     if (buyConfigCache) {
       console.warn("Returning cached buy config due to API error");
       return buyConfigCache;
     }
 
+    if (!fallbackOnError) {
+      throw error;
+    }
+
+    console.error("⚠️ Error fetching buy config from CDP API, using fallback data:", error);
+    console.warn("⚠️ Using mock data for countries and payment methods. Real API data may differ.");
+
     // Fallback to mock data if API fails
     return {
       countries: [
@@ -417,7 +441,11 @@ export async function fetchBuyConfig(): Promise<BuyConfigResponse> {
  * Fetches the available options for buying crypto from CDP API
  * API Docs: https://docs.cdp.coinbase.com/onramp/v1/buy/options
  */
-export async function fetchBuyOptions(country: string, subdivision?: string): Promise<BuyOptionsResponse> {
+export async function fetchBuyOptions(
+  country: string,
+  subdivision?: string,
+  { fallbackOnError = true }: FetchRampDataOptions = {}
+): Promise<BuyOptionsResponse> {
   try {
     // Create a cache key based on country and subdivision
     const cacheKey = `${country}${subdivision ? `-${subdivision}` : ''}`;
@@ -447,7 +475,11 @@ export async function fetchBuyOptions(country: string, subdivision?: string): Pr
       throw new Error(`API call failed: ${response.status} ${errorText}`);
     }
 
-    const apiData: ApiBuyOptionsResponse = await response.json();
+    const apiData: ApiBuyOptionsResponse = parseApiResponse(
+      buyOptionsResponseSchema,
+      await response.json(),
+      'buy options'
+    );
     console.log('📦 Raw API response:', apiData);
 
     // Transform CDP API response to UI-friendly format
@@ -466,9 +498,6 @@ export async function fetchBuyOptions(country: string, subdivision?: string): Pr
 
     return transformedData;
   } catch (error) {
-    console.error("⚠️ Error fetching buy options from CDP API, using fallback data:", error);
-    console.warn("⚠️ Using mock data for assets and payment currencies. Real API data may differ.");
-
     // If API call fails and we have a cache for this country/subdivision, return the cache even if expired
     const cacheKey = `${country}${subdivision ? `-${subdivision}` : ''}`;
     if (buyOptionsCache[cacheKey]) {
@@ -476,6 +505,13 @@ export async function fetchBuyOptions(country: string, subdivision?: string): Pr
       return buyOptionsCache[cacheKey];
     }
 
+    if (!fallbackOnError) {
+      throw error;
+    }
+
+    console.error("⚠️ Error fetching buy options from CDP API, using fallback data:", error);
+    console.warn("⚠️ Using mock data for assets and payment currencies. Real API data may differ.");
+
     // Fallback to mock data if API fails
     return {
       paymentCurrencies: [
@@ -667,3 +703,42 @@ export async function fetchBuyOptions(country: string, subdivision?: string): Pr
     };
   }
 }
+
+export interface BuyQuoteParams {
+  purchaseCurrency: string;
+  purchaseNetwork?: string;
+  paymentAmount: string;
+  paymentCurrency: string;
+  paymentMethod: string;
+  country: string;
+  subdivision?: string;
+}
+
+/**
+ * Fetches a buy quote with the real fee breakdown from CDP API
+ * API Docs: https://docs.cdp.coinbase.com/api-reference/rest-api/onramp-offramp/create-buy-quote
+ * Unlike config/options there is no fallback data: callers decide how to
+ * estimate when a quote is unavailable
+ */
+export async function fetchBuyQuote(params: BuyQuoteParams): Promise<BuyQuoteResponse> {
+  const response = await fetch('/api/buy-quote', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(params),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(
+      getApiErrorMessage(error, `Buy quote failed: ${response.status}`)
+    );
+  }
+
+  return parseApiResponse(
+    buyQuoteResponseSchema,
+    await response.json(),
+    'buy quote'
+  );
+}
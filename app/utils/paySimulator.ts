@@ -0,0 +1,186 @@
+/**
+ * Local stand-in for the hosted pay.coinbase.com checkout (app/simulator),
+ * enabled with NEXT_PUBLIC_PAY_SIMULATOR=true
+ *
+ * Checkout URLs only change origin: https://pay.coinbase.com/buy/select-asset?…
+ * opens /simulator/buy/select-asset?…, so the simulator validates exactly
+ * the query the app would send to Coinbase. The chosen outcome is reported
+ * the way Coinbase reports it: as onramp_api.* postMessage events when the
+ * page is embedded, otherwise by redirecting to redirectUrl.
+ */
+import { CoinbaseIframeEvent } from './coinbaseIframeEvents';
+import {
+  getRampType,
+  parseRampQuery,
+  RampType,
+  RampUrlError,
+} from './rampUtils';
+import { ValidationIssue } from './validation';
+
+export const PAY_SIMULATOR_PATH = '/simulator';
+
+export function isPaySimulatorEnabled(): boolean {
+  return process.env.NEXT_PUBLIC_PAY_SIMULATOR === 'true';
+}
+
+/**
+ * Moves a checkout URL onto the simulator at `origin`, keeping its path and
+ * query
+ */
+export function toPaySimulatorUrl(url: string, origin: string): string {
+  const { pathname, search } = new URL(url);
+  return `${origin}${PAY_SIMULATOR_PATH}${pathname}${search}`;
+}
+
+/**
+ * The URL to open for a checkout: the simulator's when it's enabled,
+ * otherwise the URL itself. Browser only.
+ */
+export function resolveCheckoutUrl(url: string): string {
+  return isPaySimulatorEnabled()
+    ? toPaySimulatorUrl(url, window.location.origin)
+    : url;
+}
+
+/**
+ * Origin to accept iframe events from when `url` is the simulator on this
+ * page's origin; null for any other URL. Browser only.
+ */
+export function getPaySimulatorOrigin(url: string): string | null {
+  try {
+    const { origin, pathname } = new URL(url);
+    return origin === window.location.origin &&
+      pathname.startsWith(`${PAY_SIMULATOR_PATH}/`)
+      ? origin
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+// Onramp and offramp URLs are validated; any other path is a payment link
+// from the orders API (guest checkout), which is only ever embedded
+export type SimulatedCheckout = RampType | 'payment_link';
+
+export interface SimulatedCheckoutRequest {
+  checkout: SimulatedCheckout;
+  // Why Coinbase would reject the query; empty when it's valid
+  issues: ValidationIssue[];
+  redirectUrl?: string;
+}
+
+/**
+ * Identifies and validates a checkout from the path below /simulator and
+ * its query
+ */
+export function parseSimulatedCheckout(
+  path: string,
+  params: URLSearchParams
+): SimulatedCheckoutRequest {
+  const checkout = getRampType(`/${path}`);
+  if (!checkout) {
+    return { checkout: 'payment_link', issues: [] };
+  }
+
+  try {
+    const { redirectUrl } = parseRampQuery(checkout, params);
+    return { checkout, issues: [], redirectUrl };
+  } catch (error) {
+    if (error instanceof RampUrlError) {
+      return { checkout, issues: error.issues };
+    }
+    throw error;
+  }
+}
+
+export const SIMULATED_OUTCOMES = [
+  'success',
+  'cancel',
+  'commit_error',
+  'polling_error',
+] as const;
+
+export type SimulatedOutcome = (typeof SIMULATED_OUTCOMES)[number];
+
+export const SIMULATED_OUTCOME_LABELS: Record<SimulatedOutcome, string> = {
+  success: 'Success',
+  cancel: 'Cancel',
+  commit_error: 'Commit error',
+  polling_error: 'Polling error',
+};
+
+export const DEFAULT_SIMULATED_ERROR_CODES: Record<
+  'commit_error' | 'polling_error',
+  string
+> = {
+  commit_error: 'ERROR_CODE_GUEST_CARD_SOFT_DECLINED',
+  polling_error: 'ERROR_CODE_GUEST_TRANSACTION_SEND_FAILED',
+};
+
+// Sent as soon as an embedded payment page is shown
+export const SIMULATED_LOAD_EVENTS: CoinbaseIframeEvent[] = [
+  { eventName: 'onramp_api.load_pending', data: {} },
+  { eventName: 'onramp_api.load_success', data: {} },
+];
+
+function randomTxHash(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  return `0x${Array.from(bytes, (byte) =>
+    byte.toString(16).padStart(2, '0')
+  ).join('')}`;
+}
+
+/**
+ * Events an embedded payment page sends for an outcome, in order
+ * @param errorCode - Error code of the commit or polling error
+ */
+export function getSimulatedEvents(
+  outcome: SimulatedOutcome,
+  errorCode: string
+): CoinbaseIframeEvent[] {
+  switch (outcome) {
+    case 'success':
+      return [
+        { eventName: 'onramp_api.commit_success', data: {} },
+        { eventName: 'onramp_api.polling_start', data: {} },
+        {
+          eventName: 'onramp_api.polling_success',
+          data: { txHash: randomTxHash() },
+        },
+      ];
+    case 'cancel':
+      return [{ eventName: 'onramp_api.cancel', data: {} }];
+    case 'commit_error':
+      return [{ eventName: 'onramp_api.commit_error', data: { errorCode } }];
+    case 'polling_error':
+      return [
+        { eventName: 'onramp_api.commit_success', data: {} },
+        { eventName: 'onramp_api.polling_start', data: {} },
+        { eventName: 'onramp_api.polling_error', data: { errorCode } },
+      ];
+  }
+}
+
+// `status` the app reads after the redirect (see OfframpFeature); a
+// cancelled checkout returns without one
+const REDIRECT_STATUSES: Record<SimulatedOutcome, string | null> = {
+  success: 'success',
+  cancel: null,
+  commit_error: 'error',
+  polling_error: 'error',
+};
+
+/**
+ * Where a hosted checkout sends the user after an outcome
+ */
+export function getSimulatedRedirectUrl(
+  redirectUrl: string,
+  outcome: SimulatedOutcome
+): string {
+  const url = new URL(redirectUrl);
+  const status = REDIRECT_STATUSES[outcome];
+  if (status) {
+    url.searchParams.set('status', status);
+  }
+  return url.toString();
+}
@@ -0,0 +1,248 @@
+/**
+ * OTP phone verification for guest checkout orders
+ *
+ * CDP needs the time the user verified the order's phone number, and the
+ * number must be verified again after 60 days. A one-time code is sent by
+ * SMS (smsProviders.ts); the pending challenge and the verified number are
+ * kept in HTTP-only cookies signed with SESSION_SECRET, like SIWE sessions,
+ * so no server-side storage is needed. The challenge only holds an HMAC of
+ * the code, so the code can't be recovered from the cookie. It also counts
+ * wrong guesses and is dropped after MAX_CODE_ATTEMPTS; replaying an older
+ * copy of the cookie is bounded by the verify route's per-IP rate limit.
+ * Never import this module from client components.
+ */
+import { SignJWT, decodeJwt, jwtVerify } from 'jose';
+import { NextRequest, NextResponse } from 'next/server';
+import { PHONE_CODE_LENGTH } from './guestCheckout';
+import { getSessionSecret, signedCookieOptions } from './signedCookies';
+import { getSmsProvider } from './smsProviders';
+
+export const PHONE_CHALLENGE_COOKIE = 'coinbase-ramp-demo-app-phone-challenge';
+export const PHONE_VERIFICATION_COOKIE = 'coinbase-ramp-demo-app-phone';
+
+export const PHONE_CODE_TTL_SECONDS = 10 * 60;
+export const MAX_CODE_ATTEMPTS = 5;
+const VERIFICATION_TTL_SECONDS = 60 * 24 * 60 * 60;
+
+export interface PhoneVerification {
+  phoneNumber: string;
+  // ISO 8601 time the code was entered, sent to CDP as phoneNumberVerifiedAt
+  verifiedAt: string;
+}
+
+export type PhoneCodeVerifyResult =
+  | { valid: true; verification: PhoneVerification }
+  | {
+      valid: false;
+      reason: string;
+      // After a wrong code: the challenge with the attempt counted, or null
+      // once no attempts are left (see setPhoneChallengeCookie)
+      challenge?: string | null;
+    };
+
+function generateCode(): string {
+  // The modulo bias of a 32-bit value is negligible for 6 digits
+  const value = crypto.getRandomValues(new Uint32Array(1))[0];
+  return String(value % 10 ** PHONE_CODE_LENGTH).padStart(
+    PHONE_CODE_LENGTH,
+    '0'
+  );
+}
+
+// HMAC of the code, bound to the phone number it was sent to
+async function hashCode(phoneNumber: string, code: string): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    getSessionSecret(),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const signature = await crypto.subtle.sign(
+    'HMAC',
+    key,
+    new TextEncoder().encode(`${phoneNumber}:${code}`)
+  );
+  return Array.from(new Uint8Array(signature), (byte) =>
+    byte.toString(16).padStart(2, '0')
+  ).join('');
+}
+
+// Signed challenge cookie value; `expiresAt` is in Unix seconds
+function signChallenge(
+  phoneNumber: string,
+  codeHash: string,
+  attempts: number,
+  expiresAt: number
+): Promise<string> {
+  return new SignJWT({ codeHash, attempts })
+    .setProtectedHeader({ alg: 'HS256' })
+    .setSubject(phoneNumber)
+    .setIssuedAt()
+    .setExpirationTime(expiresAt)
+    .sign(getSessionSecret());
+}
+
+/**
+ * Sends a new code to the phone number and binds it to the browser with a
+ * cookie valid for PHONE_CODE_TTL_SECONDS, replacing any pending code
+ * @throws if the SMS provider fails or isn't configured
+ */
+export async function sendPhoneVerificationCode(
+  response: NextResponse,
+  phoneNumber: string
+): Promise<void> {
+  const code = generateCode();
+  await getSmsProvider().sendSms(
+    phoneNumber,
+    `Your verification code is ${code}. It expires in ${
+      PHONE_CODE_TTL_SECONDS / 60
+    } minutes.`
+  );
+
+  const jwt = await signChallenge(
+    phoneNumber,
+    await hashCode(phoneNumber, code),
+    0,
+    Math.floor(Date.now() / 1000) + PHONE_CODE_TTL_SECONDS
+  );
+  setPhoneChallengeCookie(response, jwt);
+}
+
+/**
+ * Stores the challenge from a failed verifyPhoneVerificationCode, or drops
+ * it when it's null
+ */
+export function setPhoneChallengeCookie(
+  response: NextResponse,
+  challenge: string | null
+): void {
+  if (!challenge) {
+    response.cookies.delete(PHONE_CHALLENGE_COOKIE);
+    return;
+  }
+  // The cookie expires with the challenge
+  const { exp = 0 } = decodeJwt(challenge);
+  response.cookies.set(
+    PHONE_CHALLENGE_COOKIE,
+    challenge,
+    signedCookieOptions(Math.max(0, exp - Math.floor(Date.now() / 1000)))
+  );
+}
+
+/**
+ * Checks a code against the pending challenge cookie
+ * A wrong code returns the challenge to store next (see
+ * setPhoneChallengeCookie), so each code allows MAX_CODE_ATTEMPTS guesses.
+ */
+export async function verifyPhoneVerificationCode(
+  request: NextRequest,
+  phoneNumber: string,
+  code: string
+): Promise<PhoneCodeVerifyResult> {
+  const jwt = request.cookies.get(PHONE_CHALLENGE_COOKIE)?.value;
+  if (!jwt) {
+    return { valid: false, reason: 'No pending code, request a new one' };
+  }
+
+  const secret = getSessionSecret();
+  let payload;
+  try {
+    ({ payload } = await jwtVerify(jwt, secret));
+  } catch {
+    return { valid: false, reason: 'The code has expired, request a new one' };
+  }
+
+  if (payload.sub !== phoneNumber) {
+    return {
+      valid: false,
+      reason: 'The code was sent to another number, request a new one',
+    };
+  }
+  const attempts = typeof payload.attempts === 'number' ? payload.attempts : 0;
+  if (attempts >= MAX_CODE_ATTEMPTS) {
+    return {
+      valid: false,
+      reason: 'Too many incorrect codes, request a new one',
+      challenge: null,
+    };
+  }
+  if (payload.codeHash !== (await hashCode(phoneNumber, code))) {
+    const left = MAX_CODE_ATTEMPTS - attempts - 1;
+    return {
+      valid: false,
+      reason:
+        left > 0
+          ? `Incorrect code, ${left} attempt${left === 1 ? '' : 's'} left`
+          : 'Incorrect code, request a new one',
+      challenge:
+        left > 0 && typeof payload.codeHash === 'string' && payload.exp
+          ? await signChallenge(
+              phoneNumber,
+              payload.codeHash,
+              attempts + 1,
+              payload.exp
+            )
+          : null,
+    };
+  }
+
+  return {
+    valid: true,
+    verification: { phoneNumber, verifiedAt: new Date().toISOString() },
+  };
+}
+
+/**
+ * Stores a verified phone number in a signed HTTP-only cookie, valid for the
+ * 60 days CDP accepts a verification, and drops the challenge cookie
+ */
+export async function setPhoneVerificationCookie(
+  response: NextResponse,
+  verification: PhoneVerification
+): Promise<void> {
+  const jwt = await new SignJWT({ verifiedAt: verification.verifiedAt })
+    .setProtectedHeader({ alg: 'HS256' })
+    .setSubject(verification.phoneNumber)
+    .setIssuedAt()
+    .setExpirationTime(`${VERIFICATION_TTL_SECONDS}s`)
+    .sign(getSessionSecret());
+
+  response.cookies.set(
+    PHONE_VERIFICATION_COOKIE,
+    jwt,
+    signedCookieOptions(VERIFICATION_TTL_SECONDS)
+  );
+  response.cookies.delete(PHONE_CHALLENGE_COOKIE);
+}
+
+export function clearPhoneVerificationCookie(response: NextResponse): void {
+  response.cookies.delete(PHONE_VERIFICATION_COOKIE);
+  response.cookies.delete(PHONE_CHALLENGE_COOKIE);
+}
+
+/**
+ * Returns the phone number verified in this browser, or null if there is
+ * none or its verification is older than 60 days
+ */
+export async function getPhoneVerification(
+  request: NextRequest
+): Promise<PhoneVerification | null> {
+  const jwt = request.cookies.get(PHONE_VERIFICATION_COOKIE)?.value;
+  if (!jwt) {
+    return null;
+  }
+
+  // Outside the try: a missing secret is a configuration error, not an
+  // unverified user
+  const secret = getSessionSecret();
+  try {
+    const { payload } = await jwtVerify(jwt, secret);
+    if (!payload.sub || typeof payload.verifiedAt !== 'string') {
+      return null;
+    }
+    return { phoneNumber: payload.sub, verifiedAt: payload.verifiedAt };
+  } catch {
+    return null;
+  }
+}
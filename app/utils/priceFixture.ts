@@ -0,0 +1,49 @@
+/**
+ * Static prices for offline development and tests (PRICE_PROVIDER=static)
+ *
+ * Not market data: USD prices are rounded snapshots and other fiat prices
+ * are derived with fixed exchange rates.
+ */
+
+export const FIXTURE_USD_PRICES: Record<string, number> = {
+  BTC: 67000,
+  ETH: 3500,
+  USDC: 1,
+  USDT: 1,
+  DAI: 1,
+  WBTC: 67000,
+  SOL: 140,
+  MATIC: 0.8,
+  AVAX: 35,
+  ADA: 0.45,
+  DOT: 7,
+  LINK: 15,
+  UNI: 8,
+  AAVE: 90,
+  ATOM: 8,
+  DOGE: 0.1,
+  SHIB: 0.00002,
+  XRP: 0.5,
+  LTC: 80,
+  BCH: 300,
+  APE: 1.5,
+  XLM: 0.1,
+  FIL: 5,
+  NEAR: 5,
+  ALGO: 0.15,
+  MANA: 0.4,
+  SAND: 0.4,
+  TRX: 0.1,
+};
+
+// Units of each fiat currency per USD
+export const FIXTURE_USD_RATES: Record<string, number> = {
+  USD: 1,
+  EUR: 0.92,
+  GBP: 0.79,
+  CAD: 1.36,
+  AUD: 1.52,
+  JPY: 150,
+  CHF: 0.88,
+  SGD: 1.34,
+};
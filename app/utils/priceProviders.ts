@@ -0,0 +1,221 @@
+/**
+ * Market price sources for /api/prices
+ *
+ * Providers only fetch; caching and staleness are handled in
+ * priceService.ts so every provider reports prices the same way.
+ * Never import this module from client components.
+ */
+import { FIXTURE_USD_PRICES, FIXTURE_USD_RATES } from './priceFixture';
+import { logger } from './logger';
+import { recordUpstreamResponse } from './requestLogging';
+
+export type PriceProviderName = 'coingecko' | 'cdp' | 'static';
+
+export interface PriceProvider {
+  readonly name: PriceProviderName;
+  /**
+   * Prices of one unit of each asset in the fiat currency
+   * Assets the provider doesn't know are left out of the result.
+   * @throws if the upstream request fails
+   */
+  getPrices(symbols: string[], fiat: string): Promise<Record<string, number>>;
+}
+
+const REQUEST_TIMEOUT_MS = 5000;
+
+// CoinGecko ids for the asset symbols the demo lists
+const COINGECKO_IDS: Record<string, string> = {
+  BTC: 'bitcoin',
+  ETH: 'ethereum',
+  USDC: 'usd-coin',
+  USDT: 'tether',
+  DAI: 'dai',
+  WBTC: 'wrapped-bitcoin',
+  SOL: 'solana',
+  MATIC: 'matic-network',
+  AVAX: 'avalanche-2',
+  ADA: 'cardano',
+  DOT: 'polkadot',
+  LINK: 'chainlink',
+  UNI: 'uniswap',
+  AAVE: 'aave',
+  ATOM: 'cosmos',
+  DOGE: 'dogecoin',
+  SHIB: 'shiba-inu',
+  XRP: 'ripple',
+  LTC: 'litecoin',
+  BCH: 'bitcoin-cash',
+  APE: 'apecoin',
+  XLM: 'stellar',
+  FIL: 'filecoin',
+  NEAR: 'near',
+  ALGO: 'algorand',
+  MANA: 'decentraland',
+  SAND: 'the-sandbox',
+  TRX: 'tron',
+};
+
+export const DEFAULT_PRICE_SYMBOLS = Object.keys(COINGECKO_IDS);
+
+async function fetchJson(
+  service: string,
+  url: string,
+  headers: Record<string, string> = {}
+) {
+  const startedAt = Date.now();
+  const response = await fetch(url, {
+    headers: { Accept: 'application/json', ...headers },
+    signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    cache: 'no-store',
+  });
+  recordUpstreamResponse(service, response.status, Date.now() - startedAt);
+
+  if (!response.ok) {
+    throw new Error(`Price request failed with status ${response.status}`);
+  }
+  return response.json();
+}
+
+/**
+ * CoinGecko simple price API
+ * Works without a key; set COINGECKO_API_KEY (demo plan) for higher limits.
+ */
+export class CoinGeckoPriceProvider implements PriceProvider {
+  readonly name = 'coingecko';
+
+  constructor(private apiKey?: string) {}
+
+  async getPrices(
+    symbols: string[],
+    fiat: string
+  ): Promise<Record<string, number>> {
+    const ids = symbols
+      .map((symbol) => COINGECKO_IDS[symbol])
+      .filter((id): id is string => !!id);
+    if (ids.length === 0) {
+      return {};
+    }
+
+    const vsCurrency = fiat.toLowerCase();
+    const params = new URLSearchParams({
+      ids: ids.join(','),
+      vs_currencies: vsCurrency,
+    });
+    const data: Record<string, Record<string, unknown>> = await fetchJson(
+      'coingecko',
+      `https://api.coingecko.com/api/v3/simple/price?${params}`,
+      this.apiKey ? { 'x-cg-demo-api-key': this.apiKey } : {}
+    );
+
+    const prices: Record<string, number> = {};
+    symbols.forEach((symbol) => {
+      const price = data[COINGECKO_IDS[symbol]]?.[vsCurrency];
+      if (typeof price === 'number' && price > 0) {
+        prices[symbol] = price;
+      }
+    });
+    return prices;
+  }
+}
+
+/**
+ * Coinbase exchange rates API (api.coinbase.com), the rates behind Coinbase
+ * and CDP products
+ * Public and keyless; one request covers every asset for a fiat currency.
+ */
+export class CdpPriceProvider implements PriceProvider {
+  readonly name = 'cdp';
+
+  async getPrices(
+    symbols: string[],
+    fiat: string
+  ): Promise<Record<string, number>> {
+    const params = new URLSearchParams({ currency: fiat });
+    const data: { data?: { rates?: Record<string, string> } } = await fetchJson(
+      'coinbase',
+      `https://api.coinbase.com/v2/exchange-rates?${params}`
+    );
+
+    // Rates are units of each asset per unit of fiat
+    const rates = data.data?.rates || {};
+    const prices: Record<string, number> = {};
+    symbols.forEach((symbol) => {
+      const rate = parseFloat(rates[symbol]);
+      if (rate > 0) {
+        prices[symbol] = 1 / rate;
+      }
+    });
+    return prices;
+  }
+}
+
+/**
+ * Fixed prices from priceFixture.ts, for offline development and tests
+ */
+export class StaticPriceProvider implements PriceProvider {
+  readonly name = 'static';
+
+  constructor(
+    private usdPrices: Record<string, number> = FIXTURE_USD_PRICES,
+    private usdRates: Record<string, number> = FIXTURE_USD_RATES
+  ) {}
+
+  async getPrices(
+    symbols: string[],
+    fiat: string
+  ): Promise<Record<string, number>> {
+    const rate = this.usdRates[fiat];
+    const prices: Record<string, number> = {};
+    if (!rate) {
+      return prices;
+    }
+
+    symbols.forEach((symbol) => {
+      if (this.usdPrices[symbol]) {
+        prices[symbol] = this.usdPrices[symbol] * rate;
+      }
+    });
+    return prices;
+  }
+}
+
+// Shared across route bundles, like the rate limit store
+const globalForPrices = globalThis as typeof globalThis & {
+  priceProvider?: PriceProvider;
+};
+
+/**
+ * Returns the provider selected by PRICE_PROVIDER (default: coingecko)
+ */
+export function getPriceProvider(): PriceProvider {
+  if (globalForPrices.priceProvider) {
+    return globalForPrices.priceProvider;
+  }
+
+  const name = process.env.PRICE_PROVIDER || 'coingecko';
+  switch (name) {
+    case 'cdp':
+      globalForPrices.priceProvider = new CdpPriceProvider();
+      break;
+    case 'static':
+      globalForPrices.priceProvider = new StaticPriceProvider();
+      break;
+    default:
+      if (name !== 'coingecko') {
+        logger.warn('Unknown PRICE_PROVIDER, using coingecko', { name });
+      }
+      globalForPrices.priceProvider = new CoinGeckoPriceProvider(
+        process.env.COINGECKO_API_KEY
+      );
+  }
+
+  return globalForPrices.priceProvider;
+}
+
+/**
+ * Replaces the provider, e.g. with a StaticPriceProvider holding custom
+ * fixture prices
+ */
+export function setPriceProvider(provider: PriceProvider) {
+  globalForPrices.priceProvider = provider;
+}
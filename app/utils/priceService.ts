@@ -0,0 +1,84 @@
+/**
+ * Cached, per-fiat crypto prices served by /api/prices
+ *
+ * Each asset keeps its last known price. When the provider fails or stops
+ * returning an asset, the old price is still served but flagged stale once
+ * it's older than STALE_AFTER_MS, instead of silently substituting
+ * hardcoded prices.
+ */
+import { AssetPrice, CryptoPricesResponse } from '../types';
+import { getPriceProvider } from './priceProviders';
+import { logger } from './logger';
+
+// Don't ask the provider again for an asset within this period
+const REFRESH_INTERVAL_MS = 60 * 1000;
+const STALE_AFTER_MS = 5 * 60 * 1000;
+
+interface CachedPrice {
+  price: number;
+  updatedAt: number;
+}
+
+// Keyed by `${fiat}:${symbol}`; shared across route bundles
+const globalForPriceCache = globalThis as typeof globalThis & {
+  priceCache?: Map<string, CachedPrice>;
+  priceAttempts?: Map<string, number>;
+};
+
+function getCaches() {
+  globalForPriceCache.priceCache ??= new Map();
+  globalForPriceCache.priceAttempts ??= new Map();
+  return {
+    prices: globalForPriceCache.priceCache,
+    attempts: globalForPriceCache.priceAttempts,
+  };
+}
+
+/**
+ * Returns prices for the assets in a fiat currency, refreshing the ones
+ * not requested from the provider recently
+ * Assets without any known price are left out of the result.
+ */
+export async function getCryptoPrices(
+  symbols: string[],
+  fiat: string
+): Promise<CryptoPricesResponse> {
+  const provider = getPriceProvider();
+  const { prices, attempts } = getCaches();
+  const now = Date.now();
+  const key = (symbol: string) => `${fiat}:${symbol}`;
+
+  const due = symbols.filter(
+    (symbol) => now - (attempts.get(key(symbol)) ?? 0) >= REFRESH_INTERVAL_MS
+  );
+
+  if (due.length > 0) {
+    due.forEach((symbol) => attempts.set(key(symbol), now));
+    try {
+      const fetched = await provider.getPrices(due, fiat);
+      Object.entries(fetched).forEach(([symbol, price]) => {
+        prices.set(key(symbol), { price, updatedAt: now });
+      });
+    } catch (error) {
+      logger.warn('Price provider request failed', {
+        provider: provider.name,
+        fiat,
+        error,
+      });
+    }
+  }
+
+  const result: Record<string, AssetPrice> = {};
+  symbols.forEach((symbol) => {
+    const cached = prices.get(key(symbol));
+    if (cached) {
+      result[symbol] = {
+        price: cached.price,
+        updatedAt: new Date(cached.updatedAt).toISOString(),
+        stale: now - cached.updatedAt > STALE_AFTER_MS,
+      };
+    }
+  });
+
+  return { fiat, provider: provider.name, prices: result };
+}
@@ -0,0 +1,128 @@
+/**
+ * Serializable onramp/offramp selections, shared by the URL query and
+ * localStorage so a link like
+ *   /onramp?asset=USDC&network=base&amount=50&country=US&subdivision=NY
+ * reproduces a configuration exactly
+ */
+
+export const RAMP_STATE_FIELDS = [
+  'asset',
+  'network',
+  'amount',
+  'country',
+  'subdivision',
+  'paymentMethod',
+  'currency',
+] as const;
+
+export type RampStateField = (typeof RAMP_STATE_FIELDS)[number];
+
+export type RampState = Record<RampStateField, string>;
+
+/**
+ * Options the API currently offers; fields whose list is undefined (not
+ * loaded yet) are not checked
+ */
+export interface LiveRampOptions {
+  countries?: string[];
+  subdivisions?: string[];
+  assets?: Array<{ code: string; networks: string[] }>;
+  currencies?: string[];
+  paymentMethods?: string[];
+}
+
+const AMOUNT_PATTERN = /^\d+(\.\d{1,18})?$/;
+
+/**
+ * Reads the ramp fields present in a query string
+ * @returns Only the fields that were set; empty if the query has none
+ */
+export function parseRampState(params: URLSearchParams): Partial<RampState> {
+  const state: Partial<RampState> = {};
+  RAMP_STATE_FIELDS.forEach((field) => {
+    const value = params.get(field);
+    if (value !== null) {
+      state[field] = value.trim();
+    }
+  });
+  return state;
+}
+
+/**
+ * Writes the ramp fields into a copy of the given query, leaving unrelated
+ * parameters (e.g. `status` from a Coinbase redirect) untouched
+ */
+export function serializeRampState(
+  state: RampState,
+  params: URLSearchParams = new URLSearchParams()
+): URLSearchParams {
+  const next = new URLSearchParams(params);
+  RAMP_STATE_FIELDS.forEach((field) => {
+    if (state[field]) {
+      next.set(field, state[field]);
+    } else {
+      next.delete(field);
+    }
+  });
+  return next;
+}
+
+/**
+ * Replaces selections the live options don't offer with defaults
+ * The network is checked against the networks of the resolved asset, and
+ * the subdivision is cleared for countries without subdivisions.
+ * @returns The resolved state and the fields that were replaced
+ */
+export function resolveRampState(
+  state: RampState,
+  live: LiveRampOptions,
+  defaults: RampState
+): { state: RampState; invalid: RampStateField[] } {
+  const resolved = { ...state };
+  const invalid: RampStateField[] = [];
+
+  const check = (
+    field: RampStateField,
+    allowed: string[] | undefined,
+    fallback: string
+  ) => {
+    if (!allowed || !resolved[field] || allowed.includes(resolved[field])) {
+      return;
+    }
+    invalid.push(field);
+    resolved[field] = allowed.includes(fallback)
+      ? fallback
+      : (allowed[0] ?? '');
+  };
+
+  if (!AMOUNT_PATTERN.test(resolved.amount) || !(Number(resolved.amount) > 0)) {
+    invalid.push('amount');
+    resolved.amount = defaults.amount;
+  }
+
+  check('country', live.countries, defaults.country);
+  if (live.subdivisions && live.subdivisions.length === 0) {
+    if (resolved.subdivision) {
+      invalid.push('subdivision');
+      resolved.subdivision = '';
+    }
+  } else {
+    check('subdivision', live.subdivisions, defaults.subdivision);
+  }
+
+  check(
+    'asset',
+    live.assets?.map((asset) => asset.code),
+    defaults.asset
+  );
+  check(
+    'network',
+    live.assets?.find((asset) => asset.code === resolved.asset)?.networks,
+    defaults.network
+  );
+
+  check('currency', live.currencies, defaults.currency);
+  check('paymentMethod', live.paymentMethods, defaults.paymentMethod);
+
+  return { state: resolved, invalid };
+}
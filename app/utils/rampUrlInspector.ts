@@ -0,0 +1,397 @@
+/**
+ * Decodes a pasted pay.coinbase.com checkout URL for the ramp URL inspector
+ * on the debug page (app/components/RampUrlInspector.tsx)
+ *
+ * inspectRampUrl works on the URL alone: each parameter with its decoded
+ * value and what's wrong with it, and whether its session token has likely
+ * expired. checkRampOptions then compares the asset, networks, currency and
+ * payment method with the live buy/sell options for a country.
+ */
+import { BuyOptionsResponse } from './onrampApi';
+import { SellOptionsResponse } from './offrampApi';
+import {
+  getRampType,
+  parseRampQuery,
+  RAMP_ORIGIN,
+  RAMP_PARAM_NAMES,
+  RAMP_PATHS,
+  RampType,
+  RampUrlError,
+} from './rampUtils';
+import { ValidationIssue } from './validation';
+
+// Coinbase session tokens can only be used once and expire 5 minutes after
+// they're minted
+export const SESSION_TOKEN_TTL_MS = 5 * 60 * 1000;
+
+export type InspectedParamStatus = 'ok' | 'invalid' | 'conflict' | 'unknown';
+
+export interface InspectedParam {
+  name: string;
+  value: string;
+  // addresses and assets are JSON-encoded
+  decoded?: unknown;
+  status: InspectedParamStatus;
+  messages: string[];
+}
+
+export interface SessionTokenStatus {
+  state: 'active' | 'expired' | 'unknown';
+  message: string;
+  expiresAt?: Date;
+}
+
+export interface RampUrlInspection {
+  type: RampType;
+  params: InspectedParam[];
+  // Problems not tied to a parameter in the URL, e.g. a missing appId
+  issues: ValidationIssue[];
+  sessionToken?: SessionTokenStatus;
+}
+
+// Parameters Coinbase won't take together. The first one is where the
+// checkout validation reports the conflict; the others are flagged here.
+const CONFLICTING_PARAMS: [string, string[]][] = [
+  ['sessionToken', ['appId', 'addresses', 'assets']],
+  ['presetCryptoAmount', ['presetFiatAmount']],
+];
+
+const JSON_PARAMS = ['addresses', 'assets'];
+
+function parseJson(value: string): unknown {
+  try {
+    return JSON.parse(value);
+  } catch {
+    return undefined;
+  }
+}
+
+// exp claim of a JWT-style token; undefined for opaque tokens
+function getTokenExpiry(token: string): Date | undefined {
+  const [, payload] = token.split('.');
+  if (!payload) {
+    return undefined;
+  }
+  try {
+    const claims = JSON.parse(
+      atob(payload.replace(/-/g, '+').replace(/_/g, '/'))
+    );
+    return typeof claims.exp === 'number'
+      ? new Date(claims.exp * 1000)
+      : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function getSessionTokenStatus(
+  token: string,
+  generatedAt: Date | undefined,
+  now: Date
+): SessionTokenStatus {
+  const expiresAt =
+    getTokenExpiry(token) ||
+    (generatedAt && new Date(generatedAt.getTime() + SESSION_TOKEN_TTL_MS));
+
+  if (!expiresAt) {
+    return {
+      state: 'unknown',
+      message:
+        'Session tokens expire 5 minutes after they are minted and can ' +
+        'only be used once. Enter when the link was generated to check; ' +
+        'a link from a support ticket has almost certainly expired.',
+    };
+  }
+
+  const minutes = Math.round(
+    Math.abs(expiresAt.getTime() - now.getTime()) / 60000
+  );
+  return expiresAt.getTime() <= now.getTime()
+    ? {
+        state: 'expired',
+        message: `Expired ${minutes} min ago`,
+        expiresAt,
+      }
+    : {
+        state: 'active',
+        message: `Expires in ${minutes} min, unless it has been used`,
+        expiresAt,
+      };
+}
+
+/**
+ * Decodes a checkout URL and flags unknown, duplicate, conflicting and
+ * invalid parameters
+ * @param options.generatedAt - When the link was generated, to tell whether
+ * an opaque session token has expired
+ * @throws RampUrlError if it isn't a pay.coinbase.com checkout URL
+ */
+export function inspectRampUrl(
+  url: string,
+  options: { generatedAt?: Date; now?: Date } = {}
+): RampUrlInspection {
+  const { generatedAt, now = new Date() } = options;
+
+  let parsed: URL;
+  try {
+    parsed = new URL(url.trim());
+  } catch {
+    throw new RampUrlError('Not a valid URL');
+  }
+  const type = getRampType(parsed.pathname);
+  if (parsed.origin !== RAMP_ORIGIN || !type) {
+    throw new RampUrlError(
+      `Not a ramp checkout URL: expected ${RAMP_ORIGIN}` +
+        `${RAMP_PATHS.onramp} or ${RAMP_ORIGIN}${RAMP_PATHS.offramp}`
+    );
+  }
+
+  const known = RAMP_PARAM_NAMES[type];
+  const entries = Array.from(parsed.searchParams.entries());
+  const names = entries.map(([name]) => name);
+  const params: InspectedParam[] = entries.map(([name, value]) => ({
+    name,
+    value,
+    decoded: JSON_PARAMS.includes(name) ? parseJson(value) : undefined,
+    status: 'ok',
+    messages: [],
+  }));
+
+  // Validation issues go to the parameter they're about; the unknown
+  // parameters are flagged one by one below
+  let issues: ValidationIssue[] = [];
+  try {
+    parseRampQuery(type, parsed.searchParams);
+  } catch (error) {
+    if (!(error instanceof RampUrlError)) {
+      throw error;
+    }
+    issues = error.issues.filter(({ path, message }) => {
+      const param = params.find(({ name }) => name === path.split('.')[0]);
+      if (param) {
+        param.messages.push(message);
+        param.status = 'invalid';
+      }
+      return !param && path !== '';
+    });
+  }
+
+  params.forEach((param) => {
+    const count = names.filter((name) => name === param.name).length;
+    if (count > 1) {
+      param.messages.push(`Given ${count} times; only one value is used`);
+      param.status = 'conflict';
+    }
+  });
+
+  CONFLICTING_PARAMS.forEach(([first, others]) => {
+    const conflicting = params.filter(({ name }) => others.includes(name));
+    if (!names.includes(first) || conflicting.length === 0) {
+      return;
+    }
+    params.forEach((param) => {
+      if (param.name === first) {
+        param.status = 'conflict';
+      }
+    });
+    conflicting.forEach((param) => {
+      param.messages.push(`Conflicts with ${first}`);
+      param.status = 'conflict';
+    });
+  });
+
+  params.forEach((param) => {
+    if (known.includes(param.name)) {
+      return;
+    }
+    const match = known.find(
+      (name) => name.toLowerCase() === param.name.toLowerCase()
+    );
+    param.messages = [
+      `Not an ${type} checkout parameter` +
+        (match ? `; did you mean ${match}?` : ''),
+    ];
+    param.status = 'unknown';
+  });
+
+  const token = parsed.searchParams.get('sessionToken');
+  return {
+    type,
+    params,
+    issues,
+    ...(token && {
+      sessionToken: getSessionTokenStatus(token, generatedAt, now),
+    }),
+  };
+}
+
+// Live buy or sell options for a country, reduced to what a checkout URL
+// can name
+export interface RampOptionSets {
+  // Asset symbol -> networks it's available on
+  assets: Record<string, string[]>;
+  // Fiat currency -> payment (onramp) or cashout (offramp) method limits
+  currencies: Record<string, { id: string; min: string; max: string }[]>;
+}
+
+export function getBuyOptionSets(options: BuyOptionsResponse): RampOptionSets {
+  return {
+    assets: Object.fromEntries(
+      options.purchaseCurrencies.map(({ symbol, networks }) => [
+        symbol,
+        networks.map(({ id }) => id),
+      ])
+    ),
+    currencies: Object.fromEntries(
+      options.paymentCurrencies.map(({ id, limits }) => [id, limits])
+    ),
+  };
+}
+
+export function getSellOptionSets(
+  options: SellOptionsResponse
+): RampOptionSets {
+  return {
+    assets: Object.fromEntries(
+      options.sell_currencies.map(({ code, networks }) => [
+        code,
+        networks.map(({ id }) => id),
+      ])
+    ),
+    currencies: Object.fromEntries(
+      options.cashout_currencies.map(({ code, cashout_methods }) => [
+        code,
+        cashout_methods.map(({ id, limits }) => ({ id, ...limits[code] })),
+      ])
+    ),
+  };
+}
+
+export interface RampOptionCheck {
+  param: string;
+  value: string;
+  supported: boolean;
+  message: string;
+}
+
+/**
+ * Checks the asset, networks, fiat currency, payment or cashout method and
+ * amount of an inspected URL against the live options for a country
+ */
+export function checkRampOptions(
+  inspection: RampUrlInspection,
+  { assets, currencies }: RampOptionSets
+): RampOptionCheck[] {
+  const param = (name: string) =>
+    inspection.params.find((inspected) => inspected.name === name);
+  const unique = (values: string[]) =>
+    values.filter((value, index) => values.indexOf(value) === index);
+  // Values come from the URL, so don't let 'constructor' and friends
+  // match Object.prototype
+  const networksOf = (symbol: string) =>
+    Object.hasOwn(assets, symbol) ? assets[symbol] : undefined;
+  const methodsOf = (code: string) =>
+    Object.hasOwn(currencies, code) ? currencies[code] : undefined;
+  const checks: RampOptionCheck[] = [];
+  const check = (
+    name: string,
+    value: string,
+    supported: boolean,
+    message: string
+  ) => checks.push({ param: name, value, supported, message });
+
+  const listedAssets = param('assets')?.decoded;
+  const defaultAsset = param('defaultAsset')?.value;
+  const symbols = unique([
+    ...(Array.isArray(listedAssets) ? listedAssets.map(String) : []),
+    ...(defaultAsset ? [defaultAsset] : []),
+  ]);
+  symbols.forEach((symbol) => {
+    const assetNetworks = networksOf(symbol);
+    check(
+      symbol === defaultAsset ? 'defaultAsset' : 'assets',
+      symbol,
+      !!assetNetworks,
+      assetNetworks
+        ? `Available on ${assetNetworks.join(', ')}`
+        : 'Not available in this country'
+    );
+  });
+
+  // A network is fine if one of the named assets (or, without any, any
+  // asset) is available on it
+  const listedAddresses = param('addresses')?.decoded;
+  const defaultNetwork = param('defaultNetwork')?.value;
+  const networks = unique([
+    ...(listedAddresses && typeof listedAddresses === 'object'
+      ? Object.values(listedAddresses).flat().map(String)
+      : []),
+    ...(defaultNetwork ? [defaultNetwork] : []),
+  ]);
+  const candidates = symbols.length
+    ? symbols.filter((symbol) => networksOf(symbol))
+    : Object.keys(assets);
+  networks.forEach((network) => {
+    const supported = candidates.some((symbol) =>
+      networksOf(symbol)?.includes(network)
+    );
+    check(
+      network === defaultNetwork ? 'defaultNetwork' : 'addresses',
+      network,
+      supported,
+      supported
+        ? 'Available for the asset'
+        : symbols.length
+          ? `Not available for ${symbols.join(', ')}`
+          : 'No asset is available on it'
+    );
+  });
+
+  const fiat = param('fiatCurrency')?.value;
+  const fiatMethods = fiat ? methodsOf(fiat) : undefined;
+  if (fiat) {
+    check(
+      'fiatCurrency',
+      fiat,
+      !!fiatMethods,
+      fiatMethods
+        ? `Supported with ${fiatMethods.map(({ id }) => id).join(', ')}`
+        : 'Not supported in this country'
+    );
+  }
+
+  const methodParam =
+    inspection.type === 'onramp'
+      ? 'defaultPaymentMethod'
+      : 'defaultCashoutMethod';
+  const method = param(methodParam)?.value;
+  if (method) {
+    const methods = fiat ? fiatMethods || [] : Object.values(currencies).flat();
+    const limits = methods.find(({ id }) => id === method);
+    check(
+      methodParam,
+      method,
+      !!limits,
+      limits
+        ? 'Supported'
+        : `Not supported${fiat ? ` for ${fiat}` : ''} in this country`
+    );
+
+    // Limits are per fiat currency, so the amount needs one
+    const amount = param('presetFiatAmount')?.value;
+    if (fiat && amount && limits) {
+      const inRange =
+        parseFloat(amount) >= parseFloat(limits.min) &&
+        parseFloat(amount) <= parseFloat(limits.max);
+      check(
+        'presetFiatAmount',
+        amount,
+        inRange,
+        `${inRange ? 'Within' : 'Outside'} the ${method} limits of ` +
+          `${limits.min}-${limits.max} ${fiat}`
+      );
+    }
+  }
+
+  return checks;
+}
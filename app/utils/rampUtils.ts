@@ -1,207 +1,188 @@
 /**
- * Utility functions for Coinbase Onramp and Offramp URL generation
+ * Builds and parses Coinbase Onramp and Offramp (pay.coinbase.com) URLs
+ *
+ * Every checkout URL the app opens goes through buildRampUrl, which checks
+ * the query against the parameters Coinbase accepts (see
+ * onrampCheckoutQuerySchema / offrampCheckoutQuerySchema in validation.ts)
+ * and throws a RampUrlError instead of filling in defaults. parseRampUrl
+ * decodes such a URL back into the same typed parameters.
  */
-import { getOnrampBuyUrl } from '@coinbase/onchainkit/fund';
-
-interface OnrampURLParams {
-  asset: string;
-  amount: string;
-  network: string;
-  paymentMethod: string;
-  paymentCurrency?: string;
-  address: string;
-  redirectUrl: string;
+import { z } from 'zod';
+import {
+  formatValidationIssues,
+  offrampCheckoutParamsSchema,
+  offrampCheckoutQuerySchema,
+  onrampCheckoutParamsSchema,
+  onrampCheckoutQuerySchema,
+  ValidationIssue,
+} from './validation';
+
+export type RampType = 'onramp' | 'offramp';
+
+export const RAMP_ORIGIN = 'https://pay.coinbase.com';
+
+// Checkout path of each ramp on RAMP_ORIGIN
+export const RAMP_PATHS: Record<RampType, string> = {
+  onramp: '/buy/select-asset',
+  offramp: '/v3/sell/input',
+};
+
+// Query parameters each checkout accepts
+export const RAMP_PARAM_NAMES: Record<RampType, string[]> = {
+  onramp: Object.keys(onrampCheckoutParamsSchema.shape),
+  offramp: Object.keys(offrampCheckoutParamsSchema.shape),
+};
+
+// Ramp whose checkout is at `pathname` on RAMP_ORIGIN
+export function getRampType(pathname: string): RampType | undefined {
+  return (Object.keys(RAMP_PATHS) as RampType[]).find(
+    (type) => RAMP_PATHS[type] === pathname
+  );
+}
+
+// Parameters both checkouts accept. With a sessionToken, appId, addresses
+// and assets must be left out: they're encoded in the token.
+interface RampUrlCommonParams {
   sessionToken?: string;
+  // CDP project ID
+  appId?: string;
+  // Wallet address -> networks it may receive on
+  addresses?: Record<string, string[]>;
+  assets?: string[];
+  defaultAsset?: string;
+  defaultNetwork?: string;
+  presetFiatAmount?: string | number;
+  presetCryptoAmount?: string | number;
+  fiatCurrency?: string;
+  partnerUserId?: string;
+  redirectUrl?: string;
+  // A buy or sell quote that locks the price shown in our UI
+  quoteId?: string;
+}
+
+export interface OnrampUrlParams extends RampUrlCommonParams {
+  type: 'onramp';
+  defaultPaymentMethod?: string;
+  defaultExperience?: 'send' | 'buy';
+  handlingRequestedUrls?: boolean;
   enableGuestCheckout?: boolean;
 }
 
-interface OfframpURLParams {
-  asset: string;
-  amount: string;
-  network: string;
-  cashoutMethod: string;
-  address: string;
+export interface OfframpUrlParams extends RampUrlCommonParams {
+  type: 'offramp';
+  defaultCashoutMethod?: string;
+  // Coinbase needs both to hand the sell back to the app
+  partnerUserId: string;
   redirectUrl: string;
-  sessionToken?: string;
 }
 
-// Coinbase Developer Platform Project ID
-// Get from environment variable - fallback only for demo purposes
-const CDP_PROJECT_ID = typeof window !== 'undefined' 
-  ? (window as any).__NEXT_DATA__?.props?.pageProps?.cdpProjectId || process.env.NEXT_PUBLIC_CDP_PROJECT_ID || ''
-  : process.env.NEXT_PUBLIC_CDP_PROJECT_ID || '';
+export type RampUrlParams = OnrampUrlParams | OfframpUrlParams;
 
 /**
- * Generates a Coinbase Onramp URL with the provided parameters
+ * Thrown for parameters Coinbase would reject and for URLs that aren't
+ * ramp checkouts
+ * - issues: each invalid parameter, empty when the URL itself is unknown
  */
-export function generateOnrampURL(params: OnrampURLParams): string {
-  const {
-    asset,
-    amount,
-    network,
-    paymentMethod,
-    paymentCurrency,
-    address,
-    redirectUrl,
-    sessionToken,
-    enableGuestCheckout,
-  } = params;
-
-  // Parse amount to a number for presetFiatAmount
-  const numericAmount = parseFloat(amount);
-  if (isNaN(numericAmount)) {
-    throw new Error("Invalid amount provided");
-  }
-
-  // Base URL for Coinbase Onramp
-  const baseUrl = "https://pay.coinbase.com/buy/select-asset";
-
-  // Build query parameters
-  const queryParams = new URLSearchParams();
-
-  // If using session token, only include sessionToken and optional UI params
-  if (sessionToken) {
-    queryParams.append("sessionToken", sessionToken);
-    
-    // Optional UI parameters can still be used with session token
-    if (asset) queryParams.append("defaultAsset", asset);
-    if (network) queryParams.append("defaultNetwork", network);
-    if (paymentMethod) {
-      const formattedPaymentMethod = paymentMethod.toUpperCase();
-      queryParams.append("defaultPaymentMethod", formattedPaymentMethod);
-    }
-    if (numericAmount > 0) {
-      queryParams.append("presetFiatAmount", numericAmount.toString());
-    }
-    if (paymentCurrency) {
-      queryParams.append("fiatCurrency", paymentCurrency);
-    }
-    queryParams.append("partnerUserId", address.substring(0, 49));
-    if (redirectUrl) {
-      queryParams.append("redirectUrl", redirectUrl);
-    }
-  } else {
-    // Traditional flow without session token
-    queryParams.append("appId", CDP_PROJECT_ID);
-
-    // Format addresses as a JSON string: {"address":["network"]}
-    const addressesObj: Record<string, string[]> = {};
-    addressesObj[address || "0x0000000000000000000000000000000000000000"] = [network];
-    queryParams.append("addresses", JSON.stringify(addressesObj));
-
-    // Assets parameter
-    if (asset) {
-      queryParams.append("assets", JSON.stringify([asset]));
-      queryParams.append("defaultAsset", asset);
-    }
-
-    if (network) queryParams.append("defaultNetwork", network);
-
-    // Format payment method properly
-    if (paymentMethod) {
-      const formattedPaymentMethod = paymentMethod.toUpperCase();
-      queryParams.append("defaultPaymentMethod", formattedPaymentMethod);
-    }
+export class RampUrlError extends Error {
+  readonly issues: ValidationIssue[];
 
-    // Add fiat amount and currency
-    if (numericAmount > 0) {
-      queryParams.append("presetFiatAmount", numericAmount.toString());
-    }
+  constructor(message: string, issues: ValidationIssue[] = []) {
+    super(message);
+    this.name = 'RampUrlError';
+    this.issues = issues;
+  }
+}
 
-    if (paymentCurrency) {
-      queryParams.append("fiatCurrency", paymentCurrency);
-    }
+const RAMP_QUERY_SCHEMAS = {
+  onramp: onrampCheckoutQuerySchema,
+  offramp: offrampCheckoutQuerySchema,
+};
+
+function validateRampQuery(type: RampType, query: URLSearchParams) {
+  const result = RAMP_QUERY_SCHEMAS[type].safeParse(Object.fromEntries(query));
+  if (!result.success) {
+    const issues = formatValidationIssues(result.error);
+    const summary = issues
+      .map(({ path, message }) => (path ? `${path}: ${message}` : message))
+      .join('; ');
+    throw new RampUrlError(`Invalid ${type} URL: ${summary}`, issues);
+  }
+  return result.data;
+}
 
-    // Add partner user ID
-    queryParams.append("partnerUserId", address.substring(0, 49));
+/**
+ * Builds a checkout URL; throws a RampUrlError when Coinbase would reject
+ * the parameters. Unset and empty values are left out of the query.
+ */
+export function buildRampUrl(params: RampUrlParams): string {
+  const { type, ...fields } = params;
+  const query = new URLSearchParams();
 
-    // Add redirect URL
-    if (redirectUrl) {
-      queryParams.append("redirectUrl", redirectUrl);
-    } else {
-      queryParams.append("redirectUrl", "https://coinbase-on-off-ramp.vercel.app/onramp");
+  Object.entries(fields).forEach(([key, value]) => {
+    if (value === undefined || value === '') {
+      return;
     }
+    // addresses and assets are JSON-encoded
+    query.append(
+      key,
+      typeof value === 'object' ? JSON.stringify(value) : String(value)
+    );
+  });
+
+  validateRampQuery(type, query);
+  return `${RAMP_ORIGIN}${RAMP_PATHS[type]}?${query.toString()}`;
+}
 
-    // Add guest checkout parameter if provided
-    if (enableGuestCheckout !== undefined) {
-      queryParams.append("enableGuestCheckout", enableGuestCheckout.toString());
-    }
+/**
+ * Decodes and validates the query of a checkout; throws a RampUrlError
+ * when it's invalid
+ */
+export function parseRampQuery(
+  type: RampType,
+  query: URLSearchParams
+): RampUrlParams {
+  const data = validateRampQuery(type, query);
+
+  if (type === 'offramp') {
+    return { type, ...(data as z.infer<typeof offrampCheckoutQuerySchema>) };
   }
 
-  // Return the complete URL
-  return `${baseUrl}?${queryParams.toString()}`;
+  const { enableGuestCheckout, handlingRequestedUrls, ...onramp } =
+    data as z.infer<typeof onrampCheckoutQuerySchema>;
+  return {
+    type,
+    ...onramp,
+    ...(enableGuestCheckout && {
+      enableGuestCheckout: enableGuestCheckout === 'true',
+    }),
+    ...(handlingRequestedUrls && {
+      handlingRequestedUrls: handlingRequestedUrls === 'true',
+    }),
+  };
 }
 
 /**
- * Generates a Coinbase Offramp URL with the provided parameters
+ * Decodes a checkout URL from buildRampUrl (or Coinbase's sell quote API)
+ * into its typed parameters; throws a RampUrlError for other URLs and for
+ * invalid parameters
  */
-export function generateOfframpURL(params: OfframpURLParams): string {
+export function parseRampUrl(url: string): RampUrlParams {
+  let parsed: URL;
   try {
-    const { asset, amount, network, cashoutMethod, address, redirectUrl, sessionToken } = params;
-
-    // Base URL
-    const baseUrl = "https://pay.coinbase.com/v3/sell/input";
-
-    // Create query parameters
-    const queryParams = new URLSearchParams();
-
-    // If using session token, only include sessionToken and optional UI params
-    if (sessionToken) {
-      queryParams.append("sessionToken", sessionToken);
-      
-      // Optional UI parameters can still be used with session token
-      if (asset) queryParams.append("defaultAsset", asset);
-      if (network) queryParams.append("defaultNetwork", network);
-      if (cashoutMethod) queryParams.append("defaultCashoutMethod", cashoutMethod);
-      
-      const numericAmount = parseFloat(amount);
-      if (!isNaN(numericAmount) && numericAmount > 0) {
-        queryParams.append("presetFiatAmount", numericAmount.toString());
-      }
-      
-      queryParams.append("partnerUserId", address ? address.substring(0, 49) : "anonymous-" + Date.now());
-      if (redirectUrl) {
-        queryParams.append("redirectUrl", redirectUrl);
-      }
-    } else {
-      // Traditional flow without session token
-      queryParams.append("appId", CDP_PROJECT_ID);
-
-      // Add partner user ID
-      const userId = address ? address.substring(0, 49) : "anonymous-" + Date.now();
-      queryParams.append("partnerUserId", userId);
-
-      // Add addresses parameter
-      const addressesObj: Record<string, string[]> = {};
-      const validAddress = address || "0x4315d134aCd3221a02dD380ADE3aF39Ce219037c";
-      addressesObj[validAddress] = [network || "ethereum"];
-      queryParams.append("addresses", JSON.stringify(addressesObj));
-
-      // Add assets parameter
-      queryParams.append("assets", JSON.stringify([asset]));
-
-      // Add optional parameters
-      if (asset) queryParams.append("defaultAsset", asset);
-      if (network) queryParams.append("defaultNetwork", network);
-      if (cashoutMethod) queryParams.append("defaultCashoutMethod", cashoutMethod);
-
-      // Add amount parameter
-      const numericAmount = parseFloat(amount);
-      if (!isNaN(numericAmount) && numericAmount > 0) {
-        queryParams.append("presetFiatAmount", numericAmount.toString());
-      }
-
-      // Add redirect URL
-      queryParams.append("redirectUrl", redirectUrl || "https://coinbase-on-off-ramp.vercel.app/offramp");
-    }
+    parsed = new URL(url);
+  } catch {
+    throw new RampUrlError('Not a valid URL');
+  }
 
-    // Return the complete URL
-    return `${baseUrl}?${queryParams.toString()}`;
-  } catch (error) {
-    console.error("Error generating offramp URL:", error);
-    // Return a simple fallback URL
-    return `https://pay.coinbase.com/v3/sell/input?appId=${CDP_PROJECT_ID}&partnerUserId=anonymous&assets=["USDC"]&addresses={"0x4315d134aCd3221a02dD380ADE3aF39Ce219037c":["ethereum"]}&redirectUrl=${encodeURIComponent("https://coinbase-on-off-ramp.vercel.app/offramp")}`;
+  const type = getRampType(parsed.pathname);
+  if (parsed.origin !== RAMP_ORIGIN || !type) {
+    throw new RampUrlError(
+      `Not a ramp checkout URL: expected ${RAMP_ORIGIN}` +
+        `${RAMP_PATHS.onramp} or ${RAMP_ORIGIN}${RAMP_PATHS.offramp}`
+    );
   }
+
+  return parseRampQuery(type, parsed.searchParams);
 }
 
 /**
@@ -1,73 +1,242 @@
-import { NextRequest } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { getForwardedClientIp } from './clientIp';
+import { logger } from './logger';
+import { getRateLimitStore } from './rateLimitStore';
 
-interface RateLimitRecord {
-  count: number;
-  resetTime: number;
-}
-
-const rateLimitMap = new Map<string, RateLimitRecord>();
-
-// Clean up old entries every 5 minutes
-if (typeof setInterval !== 'undefined') {
-  setInterval(() => {
-    const now = Date.now();
-    Array.from(rateLimitMap.entries()).forEach(([key, record]) => {
-      if (now > record.resetTime) {
-        rateLimitMap.delete(key);
-      }
-    });
-  }, 5 * 60 * 1000);
-}
+export type RateLimitAlgorithm = 'sliding-window' | 'token-bucket';
 
-export interface RateLimitConfig {
+/**
+ * - sliding-window: at most `limit` requests in any `windowMs` period
+ * - token-bucket: bursts of up to `limit`, refilled at `limit` per `windowMs`
+ *
+ * `limit` applies per client IP. `identityLimit` is a lower limit for each
+ * wallet address (or phone number) an IP sends; those requests count
+ * against both, so a new identity never gets a fresh allowance.
+ * `globalLimit` caps the route across all clients.
+ */
+export interface RateLimitPolicy {
+  algorithm: RateLimitAlgorithm;
   limit: number;
   windowMs: number;
+  identityLimit?: number;
+  globalLimit?: number;
 }
 
+// ✅ Rate limit policies, declared once per route
+export const RATE_LIMIT_POLICIES = {
+  '/api/session': {
+    algorithm: 'sliding-window',
+    limit: 10,
+    windowMs: 60000,
+    identityLimit: 5,
+  },
+  '/api/fund/session': {
+    algorithm: 'sliding-window',
+    limit: 20,
+    windowMs: 60000,
+    identityLimit: 10,
+  },
+  // Applies to signing in (POST); nonces and sign out aren't limited
+  '/api/siwe': {
+    algorithm: 'sliding-window',
+    limit: 10,
+    windowMs: 60000,
+  },
+  // Every code is a paid SMS. The global cap bounds what rotating IPs and
+  // numbers (SMS pumping) can cost.
+  '/api/phone-verification': {
+    algorithm: 'sliding-window',
+    limit: 5,
+    windowMs: 10 * 60000,
+    identityLimit: 3,
+    globalLimit: 100,
+  },
+  // Each code also allows only a few wrong guesses (see phoneVerification.ts)
+  '/api/phone-verification/verify': {
+    algorithm: 'sliding-window',
+    limit: 10,
+    windowMs: 60000,
+  },
+  // Orders are created by a human tapping a button: allow a short burst,
+  // then one every 6 seconds
+  '/api/apple-pay/order': {
+    algorithm: 'token-bucket',
+    limit: 10,
+    windowMs: 60000,
+    identityLimit: 5,
+  },
+  // Each run makes about ten CDP requests
+  '/api/diagnostics': {
+    algorithm: 'sliding-window',
+    limit: 5,
+    windowMs: 60000,
+  },
+} as const satisfies Record<string, RateLimitPolicy>;
+
+export type RateLimitedRoute = keyof typeof RATE_LIMIT_POLICIES;
+
 export interface RateLimitResult {
   success: boolean;
-  remaining?: number;
-  resetTime?: number;
+  limit: number;
+  remaining: number;
+  // Unix time (ms) when the limit resets; for rejected requests, when the
+  // next request will be allowed
+  resetTime: number;
 }
 
-export function rateLimit(
+/**
+ * Builds the rate limit key for a request
+ * Keyed by client IP, plus the wallet address or partnerUserId the request
+ * is for when one is given (see identityLimit)
+ */
+export function rateLimitKey(
+  route: RateLimitedRoute,
   request: NextRequest,
-  config: RateLimitConfig = { limit: 10, windowMs: 60000 }
-): RateLimitResult {
-  // Get IP address from various headers
-  const ip = 
-    request.headers.get('x-forwarded-for')?.split(',')[0]?.trim() || 
-    request.headers.get('x-real-ip') || 
-    'anonymous';
-  
-  const now = Date.now();
-  const record = rateLimitMap.get(ip);
+  identity?: string
+): string {
+  const ip = getForwardedClientIp(request) || 'anonymous';
+  // Identities come from request bodies before validation, so don't trust
+  // their type or length
+  const user =
+    typeof identity === 'string' && identity
+      ? identity.slice(0, 100).toLowerCase()
+      : '-';
+  return `${route}:${ip}:${user}`;
+}
+
+async function applyLimit(
+  key: string,
+  algorithm: RateLimitAlgorithm,
+  limit: number,
+  windowMs: number,
+  now: number
+): Promise<RateLimitResult> {
+  const store = getRateLimitStore();
 
-  // If no record exists or the window has expired, create a new one
-  if (!record || now > record.resetTime) {
-    const resetTime = now + config.windowMs;
-    rateLimitMap.set(ip, { count: 1, resetTime });
-    return { 
-      success: true, 
-      remaining: config.limit - 1,
-      resetTime 
+  if (algorithm === 'token-bucket') {
+    const state = await store.tokenBucket(key, limit, windowMs, now);
+    const refillRate = limit / windowMs;
+    return {
+      success: state.allowed,
+      limit,
+      remaining: Math.floor(state.tokens),
+      resetTime: state.allowed
+        ? now + Math.ceil((limit - state.tokens) / refillRate)
+        : now + Math.ceil((1 - state.tokens) / refillRate),
     };
   }
 
-  // If limit exceeded, reject the request
-  if (record.count >= config.limit) {
-    return { 
-      success: false,
-      remaining: 0,
-      resetTime: record.resetTime
+  const state = await store.slidingWindow(key, limit, windowMs, now);
+  return {
+    success: state.allowed,
+    limit,
+    remaining: Math.max(0, limit - state.count),
+    resetTime: state.oldest + windowMs,
+  };
+}
+
+/**
+ * Applies a route's rate limit policy to a request
+ * The per-IP limit always applies; an identity only adds the lower
+ * identityLimit on top, and globalLimit counts every request. Fails open
+ * if the store is unreachable, so an outage of the limiter doesn't take the
+ * API down with it.
+ * @param identity - Wallet address or partnerUserId the request is for
+ */
+export async function rateLimit(
+  request: NextRequest,
+  route: RateLimitedRoute,
+  identity?: string
+): Promise<RateLimitResult> {
+  const policy: RateLimitPolicy = RATE_LIMIT_POLICIES[route];
+  const now = Date.now();
+
+  // Narrowest first, so a request it rejects doesn't use up the IP's
+  // allowance
+  const limits: { key: string; limit: number }[] = [
+    { key: rateLimitKey(route, request), limit: policy.limit },
+  ];
+  if (identity && policy.identityLimit) {
+    limits.unshift({
+      key: rateLimitKey(route, request, identity),
+      limit: policy.identityLimit,
+    });
+  }
+  if (policy.globalLimit) {
+    limits.push({ key: `${route}:global`, limit: policy.globalLimit });
+  }
+
+  try {
+    let tightest: RateLimitResult | undefined;
+    for (const { key, limit } of limits) {
+      const result = await applyLimit(
+        key,
+        policy.algorithm,
+        limit,
+        policy.windowMs,
+        now
+      );
+      if (!result.success) {
+        return result;
+      }
+      if (!tightest || result.remaining < tightest.remaining) {
+        tightest = result;
+      }
+    }
+    return tightest as RateLimitResult;
+  } catch (error) {
+    logger.error('Rate limit store unavailable, allowing request', {
+      route,
+      error,
+    });
+    return {
+      success: true,
+      limit: policy.limit,
+      remaining: policy.limit,
+      resetTime: now + policy.windowMs,
     };
   }
+}
 
-  // Increment the count
-  record.count++;
-  return { 
-    success: true,
-    remaining: config.limit - record.count,
-    resetTime: record.resetTime
+/**
+ * X-RateLimit-* headers for a result; add them to every response of a
+ * rate limited route
+ */
+export function rateLimitHeaders(
+  result: RateLimitResult
+): Record<string, string> {
+  return {
+    'X-RateLimit-Limit': String(result.limit),
+    'X-RateLimit-Remaining': String(result.remaining),
+    'X-RateLimit-Reset': String(Math.ceil(result.resetTime / 1000)),
   };
 }
+
+/**
+ * 429 response for a rejected request
+ * @param headers - Extra headers to include (e.g. CORS headers)
+ */
+export function rateLimitExceededResponse(
+  result: RateLimitResult,
+  headers: Record<string, string> = {}
+): NextResponse {
+  const retryAfter = Math.max(
+    1,
+    Math.ceil((result.resetTime - Date.now()) / 1000)
+  );
+
+  return NextResponse.json(
+    {
+      error: 'Too many requests. Please try again later.',
+      retryAfter,
+    },
+    {
+      status: 429,
+      headers: {
+        ...headers,
+        ...rateLimitHeaders(result),
+        'Retry-After': String(retryAfter),
+      },
+    }
+  );
+}
@@ -0,0 +1,296 @@
+/**
+ * Storage backends for the rate limiter
+ *
+ * Stores own the atomic state update for each algorithm; turning that
+ * state into limits, remaining counts and reset times happens in
+ * rateLimit.ts so every store reports the same headers.
+ */
+import { logger } from './logger';
+
+export interface SlidingWindowState {
+  allowed: boolean;
+  // Requests in the window, including this one if it was allowed
+  count: number;
+  // Timestamp (ms) of the oldest request still in the window
+  oldest: number;
+}
+
+export interface TokenBucketState {
+  allowed: boolean;
+  // Tokens left after this request (fractional)
+  tokens: number;
+}
+
+export interface RateLimitStore {
+  slidingWindow(
+    key: string,
+    limit: number,
+    windowMs: number,
+    now: number
+  ): Promise<SlidingWindowState>;
+  tokenBucket(
+    key: string,
+    capacity: number,
+    windowMs: number,
+    now: number
+  ): Promise<TokenBucketState>;
+}
+
+const IDLE_KEY_MS = 60 * 60 * 1000;
+
+/**
+ * In-memory store
+ * Only correct for a single long-lived process: every serverless instance
+ * gets its own counts. Used for local development and as the fallback when
+ * no Redis is configured.
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private windows = new Map<string, number[]>();
+  private buckets = new Map<
+    string,
+    { tokens: number; updated: number; expires: number }
+  >();
+
+  constructor() {
+    // Clean up idle keys every 5 minutes
+    if (typeof setInterval !== 'undefined') {
+      setInterval(() => this.cleanup(Date.now()), 5 * 60 * 1000);
+    }
+  }
+
+  async slidingWindow(
+    key: string,
+    limit: number,
+    windowMs: number,
+    now: number
+  ): Promise<SlidingWindowState> {
+    const hits = (this.windows.get(key) || []).filter(
+      (timestamp) => timestamp > now - windowMs
+    );
+
+    const allowed = hits.length < limit;
+    if (allowed) {
+      hits.push(now);
+    }
+    this.windows.set(key, hits);
+
+    return { allowed, count: hits.length, oldest: hits[0] ?? now };
+  }
+
+  async tokenBucket(
+    key: string,
+    capacity: number,
+    windowMs: number,
+    now: number
+  ): Promise<TokenBucketState> {
+    const bucket = this.buckets.get(key);
+    const refillRate = capacity / windowMs;
+
+    let tokens = bucket
+      ? Math.min(capacity, bucket.tokens + (now - bucket.updated) * refillRate)
+      : capacity;
+
+    const allowed = tokens >= 1;
+    if (allowed) {
+      tokens -= 1;
+    }
+    this.buckets.set(key, { tokens, updated: now, expires: now + windowMs });
+
+    return { allowed, tokens };
+  }
+
+  // Windows don't store their length, so drop logs idle for an hour
+  // (longer than any policy window)
+  private cleanup(now: number) {
+    Array.from(this.windows.entries()).forEach(([key, hits]) => {
+      if (hits.length === 0 || hits[hits.length - 1] < now - IDLE_KEY_MS) {
+        this.windows.delete(key);
+      }
+    });
+    Array.from(this.buckets.entries()).forEach(([key, bucket]) => {
+      if (now > bucket.expires) {
+        this.buckets.delete(key);
+      }
+    });
+  }
+}
+
+/**
+ * Minimal Redis client surface the Redis store needs
+ * Adapt ioredis/node-redis with a one-line wrapper, or use
+ * createRestRedisClient for Upstash/Vercel KV style REST endpoints.
+ */
+export interface RedisEvalClient {
+  eval(
+    script: string,
+    keys: string[],
+    args: (string | number)[]
+  ): Promise<unknown>;
+}
+
+// Sorted set of request timestamps; members get a random suffix so
+// requests in the same millisecond are counted separately
+const SLIDING_WINDOW_SCRIPT = `
+local key = KEYS[1]
+local now = tonumber(ARGV[1])
+local window = tonumber(ARGV[2])
+local limit = tonumber(ARGV[3])
+redis.call('ZREMRANGEBYSCORE', key, 0, now - window)
+local count = redis.call('ZCARD', key)
+local allowed = 0
+if count < limit then
+  redis.call('ZADD', key, now, ARGV[4])
+  count = count + 1
+  allowed = 1
+end
+redis.call('PEXPIRE', key, window)
+local oldest = redis.call('ZRANGE', key, 0, 0, 'WITHSCORES')
+return {allowed, count, oldest[2] or tostring(now)}
+`;
+
+// Lua numbers are truncated to integers in replies, so tokens come back
+// as a string
+const TOKEN_BUCKET_SCRIPT = `
+local key = KEYS[1]
+local now = tonumber(ARGV[1])
+local capacity = tonumber(ARGV[2])
+local window = tonumber(ARGV[3])
+local state = redis.call('HMGET', key, 'tokens', 'updated')
+local tokens = tonumber(state[1]) or capacity
+local updated = tonumber(state[2]) or now
+tokens = math.min(capacity, tokens + (now - updated) * capacity / window)
+local allowed = 0
+if tokens >= 1 then
+  tokens = tokens - 1
+  allowed = 1
+end
+redis.call('HSET', key, 'tokens', tostring(tokens), 'updated', now)
+redis.call('PEXPIRE', key, window)
+return {allowed, tostring(tokens)}
+`;
+
+/**
+ * Redis-backed store shared by every instance
+ * Each algorithm runs as a single Lua script, so updates are atomic.
+ */
+export class RedisRateLimitStore implements RateLimitStore {
+  private client: RedisEvalClient;
+  private prefix: string;
+
+  constructor(client: RedisEvalClient, prefix: string = 'ratelimit:') {
+    this.client = client;
+    this.prefix = prefix;
+  }
+
+  async slidingWindow(
+    key: string,
+    limit: number,
+    windowMs: number,
+    now: number
+  ): Promise<SlidingWindowState> {
+    const member = `${now}-${Math.random().toString(36).slice(2)}`;
+    const [allowed, count, oldest] = (await this.client.eval(
+      SLIDING_WINDOW_SCRIPT,
+      [`${this.prefix}sw:${key}`],
+      [now, windowMs, limit, member]
+    )) as [number, number, string];
+
+    return {
+      allowed: Number(allowed) === 1,
+      count: Number(count),
+      oldest: Number(oldest),
+    };
+  }
+
+  async tokenBucket(
+    key: string,
+    capacity: number,
+    windowMs: number,
+    now: number
+  ): Promise<TokenBucketState> {
+    const [allowed, tokens] = (await this.client.eval(
+      TOKEN_BUCKET_SCRIPT,
+      [`${this.prefix}tb:${key}`],
+      [now, capacity, windowMs]
+    )) as [number, string];
+
+    return { allowed: Number(allowed) === 1, tokens: Number(tokens) };
+  }
+}
+
+/**
+ * Redis client for REST endpoints that accept a command array
+ * (Upstash Redis, Vercel KV)
+ */
+export function createRestRedisClient(
+  url: string,
+  token: string
+): RedisEvalClient {
+  return {
+    async eval(script, keys, args) {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify([
+          'EVAL',
+          script,
+          keys.length,
+          ...keys,
+          ...args.map(String),
+        ]),
+      });
+
+      const data = await response.json();
+      if (!response.ok || data.error) {
+        throw new Error(data.error || `Redis REST error ${response.status}`);
+      }
+      return data.result;
+    },
+  };
+}
+
+// Shared across route bundles, like the webhook store
+const globalForRateLimit = globalThis as typeof globalThis & {
+  rateLimitStore?: RateLimitStore;
+};
+
+/**
+ * Returns the configured store: Redis when a REST endpoint is configured,
+ * otherwise the in-memory store
+ */
+export function getRateLimitStore(): RateLimitStore {
+  if (globalForRateLimit.rateLimitStore) {
+    return globalForRateLimit.rateLimitStore;
+  }
+
+  const url =
+    process.env.RATE_LIMIT_REDIS_REST_URL || process.env.KV_REST_API_URL;
+  const token =
+    process.env.RATE_LIMIT_REDIS_REST_TOKEN || process.env.KV_REST_API_TOKEN;
+
+  if (url && token) {
+    globalForRateLimit.rateLimitStore = new RedisRateLimitStore(
+      createRestRedisClient(url, token)
+    );
+  } else {
+    if (process.env.NODE_ENV === 'production') {
+      logger.warn(
+        'No Redis configured for rate limiting, limits are per instance'
+      );
+    }
+    globalForRateLimit.rateLimitStore = new MemoryRateLimitStore();
+  }
+
+  return globalForRateLimit.rateLimitStore;
+}
+
+/**
+ * Replaces the store, e.g. with a RedisRateLimitStore wrapping an
+ * ioredis client
+ */
+export function setRateLimitStore(store: RateLimitStore) {
+  globalForRateLimit.rateLimitStore = store;
+}
@@ -0,0 +1,24 @@
+/**
+ * Request correlation ids
+ *
+ * middleware.ts assigns every API request an id (or keeps a well-formed one
+ * sent by the caller), forwards it to the route as X-Request-Id and echoes
+ * it in the response, so one id ties together all log lines of a request.
+ * Runs in the Edge runtime, so keep this module free of Node APIs.
+ */
+
+export const REQUEST_ID_HEADER = 'X-Request-Id';
+
+// Caller supplied ids end up in logs, so only accept short, plain ids
+const REQUEST_ID_PATTERN = /^[A-Za-z0-9._:-]{8,128}$/;
+
+/**
+ * Returns the request's X-Request-Id if it's well-formed, otherwise a new
+ * random id
+ */
+export function getOrCreateRequestId(headers: Headers): string {
+  const requestId = headers.get(REQUEST_ID_HEADER);
+  return requestId && REQUEST_ID_PATTERN.test(requestId)
+    ? requestId
+    : crypto.randomUUID();
+}
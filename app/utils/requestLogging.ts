@@ -0,0 +1,107 @@
+/**
+ * Per-request logging for the API route handlers
+ *
+ * withRequestLogging runs a handler with its request id and route as log
+ * context, so every logger call made while handling the request (including
+ * from cdpClient.ts) carries them without threading a logger through. When
+ * the handler finishes one summary entry records the status, latency and
+ * the last upstream status, and the id is echoed as X-Request-Id.
+ * Never import this module from client components.
+ */
+import { AsyncLocalStorage } from 'async_hooks';
+import { NextRequest, NextResponse } from 'next/server';
+import { initLogSinksFromEnv } from './logSinks';
+import { logger, setLogContextProvider } from './logger';
+import { getOrCreateRequestId, REQUEST_ID_HEADER } from './requestId';
+
+interface RequestLogContext {
+  requestId: string;
+  route: string;
+  method: string;
+  // Last upstream response seen while handling the request
+  upstream?: { service: string; status: number; latencyMs: number };
+}
+
+// Shared across route bundles, like the rate limit store, so the context
+// provider registered by one bundle sees requests handled by another
+const globalForRequestLogging = globalThis as typeof globalThis & {
+  requestLogContext?: AsyncLocalStorage<RequestLogContext>;
+};
+
+const requestLogContext = (globalForRequestLogging.requestLogContext ??=
+  new AsyncLocalStorage<RequestLogContext>());
+
+initLogSinksFromEnv();
+setLogContextProvider(() => {
+  const context = requestLogContext.getStore();
+  return context && { requestId: context.requestId, route: context.route };
+});
+
+/**
+ * Records an upstream response (CDP, price APIs) for the current request's
+ * summary entry
+ */
+export function recordUpstreamResponse(
+  service: string,
+  status: number,
+  latencyMs: number
+) {
+  const context = requestLogContext.getStore();
+  if (context) {
+    context.upstream = { service, status, latencyMs };
+  }
+}
+
+/**
+ * Wraps a route handler with request logging
+ * Errors the handler doesn't catch are logged and answered with a 500.
+ * @param route - Route pattern for the logs, without dynamic values (e.g.
+ * '/api/transaction-history/[partnerUserId]')
+ */
+export function withRequestLogging<C = unknown>(
+  route: string,
+  handler: (request: NextRequest, context: C) => Promise<Response>
+) {
+  return async (request: NextRequest, context: C): Promise<Response> => {
+    const requestLog: RequestLogContext = {
+      requestId: getOrCreateRequestId(request.headers),
+      route,
+      method: request.method,
+    };
+    const startedAt = Date.now();
+
+    return requestLogContext.run(requestLog, async () => {
+      let response: Response;
+      try {
+        response = await handler(request, context);
+      } catch (error) {
+        logger.error('Unhandled error in route handler', { error });
+        response = NextResponse.json(
+          { error: 'Internal server error' },
+          { status: 500 }
+        );
+      }
+
+      try {
+        response.headers.set(REQUEST_ID_HEADER, requestLog.requestId);
+      } catch {
+        // Headers of some responses (e.g. redirects) are immutable
+      }
+
+      const { status } = response;
+      const level = status >= 500 ? 'error' : status >= 400 ? 'warn' : 'info';
+      logger[level]('Request completed', {
+        method: requestLog.method,
+        status,
+        latencyMs: Date.now() - startedAt,
+        ...(requestLog.upstream && {
+          upstreamService: requestLog.upstream.service,
+          upstreamStatus: requestLog.upstream.status,
+          upstreamLatencyMs: requestLog.upstream.latencyMs,
+        }),
+      });
+
+      return response;
+    });
+  };
+}
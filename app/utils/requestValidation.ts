@@ -0,0 +1,40 @@
+/**
+ * Shared 400 responses for requests that fail their Zod schema or whose
+ * body isn't JSON
+ *
+ * Every route answers invalid input the same way:
+ * `{ error: 'Invalid request data', details: [{ path, message }] }`
+ * Never import this module from client components.
+ */
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { logger } from './logger';
+import { formatValidationIssues } from './validation';
+
+export function invalidRequestResponse(
+  error: z.ZodError,
+  headers?: Record<string, string>
+): NextResponse {
+  const details = formatValidationIssues(error);
+  logger.warn('Invalid request data', { details });
+
+  return NextResponse.json(
+    { error: 'Invalid request data', details },
+    { status: 400, headers }
+  );
+}
+
+/**
+ * 400 response for a request body that `request.json()` couldn't parse
+ */
+export function invalidJsonResponse(
+  headers?: Record<string, string>
+): NextResponse {
+  const details = [{ path: '', message: 'Request body must be valid JSON' }];
+  logger.warn('Invalid request data', { details });
+
+  return NextResponse.json(
+    { error: 'Invalid request data', details },
+    { status: 400, headers }
+  );
+}
@@ -2,6 +2,7 @@
  * Session Token API utilities for secure initialization
  */
 import { generateJwt } from '@coinbase/cdp-sdk/auth';
+import { logger } from './logger';
 
 interface SessionTokenRequest {
   addresses: Array<{
@@ -22,16 +23,16 @@ interface SessionTokenResponse {
  * @param keySecret - The CDP API private key
  * @param requestPath - The API request path (defaults to /onramp/v1/token)
  * @param requestMethod - The HTTP method (defaults to POST)
+ * @param requestHost - The API host the token is scoped to
  * @returns Promise of signed JWT token
  */
 export async function generateJWT(
-  keyName: string, 
-  keySecret: string, 
+  keyName: string,
+  keySecret: string,
   requestPath: string = '/onramp/v1/token',
-  requestMethod: string = 'POST'
+  requestMethod: string = 'POST',
+  requestHost: string = 'api.developer.coinbase.com'
 ): Promise<string> {
-  const requestHost = 'api.developer.coinbase.com';
-  
   try {
     // Process the private key to ensure it has proper newlines
     // Replace literal \n with actual newlines if needed
@@ -52,7 +53,7 @@ export async function generateJWT(
     
     return token;
   } catch (error) {
-    console.error('Error generating JWT:', error);
+    logger.error('Error generating JWT', { error });
     throw error;
   }
 }
@@ -76,14 +77,14 @@ export async function generateSessionToken(
 
     if (!response.ok) {
       const error = await response.json();
-      console.error('Session token generation failed:', error);
+      logger.error('Session token generation failed', { error });
       throw new Error(error.error || 'Failed to generate session token');
     }
 
     const data: SessionTokenResponse = await response.json();
     return data.token;
   } catch (error) {
-    console.error('Error generating session token:', error);
+    logger.error('Error generating session token', { error });
     return null;
   }
 }
@@ -120,7 +121,8 @@ export function formatAddressesForToken(
  * });
  * 
  * // Use the token in onramp URL
- * const onrampUrl = generateOnrampURL({
+ * const onrampUrl = buildRampUrl({
+ *   type: "onramp",
  *   sessionToken: token,
  *   // ... other params
  * });
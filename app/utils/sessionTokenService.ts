@@ -0,0 +1,60 @@
+/**
+ * Server-side session token creation
+ *
+ * Shared by /api/session and /api/fund/session so both mint tokens the same
+ * way without one route calling the other over HTTP.
+ * Never import this module from client components.
+ */
+import { sessionTokenResponseSchema } from './apiSchemas';
+import { CdpClient } from './cdpClient';
+import { logger } from './logger';
+
+export interface SessionTokenParams {
+  addresses: Array<{
+    address: string;
+    blockchains: string[];
+  }>;
+  assets?: string[];
+  clientIp: string;
+}
+
+export interface SessionToken {
+  token: string;
+  channelId?: string;
+}
+
+/**
+ * Mints a single-use session token for the given addresses
+ * @param params - Addresses with their blockchains, optional assets and the
+ * end user's public IP (see resolveClientIp)
+ * @param client - CDP client (defaults to one built from the environment)
+ * @throws CdpApiError if credentials are missing or the CDP API fails
+ */
+export async function createSessionToken(
+  params: SessionTokenParams,
+  client: CdpClient = CdpClient.fromEnv()
+): Promise<SessionToken> {
+  const { addresses, assets, clientIp } = params;
+
+  const requestBody = {
+    addresses,
+    ...(assets && { assets }),
+    clientIp, // ✅ Include client IP as required by CDP API
+  };
+
+  logger.debug('Making request to CDP API', {
+    addressCount: addresses.length,
+    hasAssets: !!assets,
+  });
+
+  // Make request to Coinbase API (minting a token is safe to retry)
+  const data = await client.post('/onramp/v1/token', requestBody, {
+    idempotent: true,
+    schema: sessionTokenResponseSchema,
+  });
+
+  return {
+    token: data.token,
+    channelId: data.channelId || data.channel_id,
+  };
+}
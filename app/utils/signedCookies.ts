@@ -0,0 +1,53 @@
+/**
+ * Secret and options for the HTTP-only cookies signed with SESSION_SECRET
+ * (SIWE sessions in siweSession.ts, phone verification in
+ * phoneVerification.ts)
+ * Never import this module from client components.
+ */
+import { logger } from './logger';
+
+const MIN_SECRET_LENGTH = 32;
+
+// Development fallback secret, kept on globalThis because Next bundles each
+// route separately and cookies are often set and read by different routes
+const globalForSignedCookies = globalThis as typeof globalThis & {
+  sessionDevSecret?: Uint8Array;
+};
+
+/**
+ * SESSION_SECRET as key bytes; outside production a random secret is used
+ * when it isn't set
+ * @throws in production if SESSION_SECRET is missing or too short
+ */
+export function getSessionSecret(): Uint8Array {
+  const secret = process.env.SESSION_SECRET;
+  if (secret && secret.length >= MIN_SECRET_LENGTH) {
+    return new TextEncoder().encode(secret);
+  }
+
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error(
+      `SESSION_SECRET must be set to at least ${MIN_SECRET_LENGTH} characters`
+    );
+  }
+
+  if (!globalForSignedCookies.sessionDevSecret) {
+    logger.warn(
+      'SESSION_SECRET not set, using a random secret (sessions end on restart)'
+    );
+    globalForSignedCookies.sessionDevSecret = crypto.getRandomValues(
+      new Uint8Array(32)
+    );
+  }
+  return globalForSignedCookies.sessionDevSecret;
+}
+
+export function signedCookieOptions(maxAge: number) {
+  return {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'strict' as const,
+    path: '/',
+    maxAge,
+  };
+}
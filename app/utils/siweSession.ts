@@ -0,0 +1,205 @@
+/**
+ * Sign-In with Ethereum (EIP-4361) sessions
+ *
+ * The nonce and the session are both kept in HTTP-only cookies signed with
+ * SESSION_SECRET, so no server-side storage is needed. Routes that mint
+ * tokens for a wallet or return its transactions use getSiweSession to
+ * check the wallet was proven.
+ * Never import this module from client components.
+ */
+import { SignJWT, jwtVerify } from 'jose';
+import { NextRequest, NextResponse } from 'next/server';
+import { createPublicClient, getAddress, http, type Hex } from 'viem';
+import { base, baseSepolia, mainnet } from 'viem/chains';
+import {
+  generateSiweNonce,
+  parseSiweMessage,
+  verifySiweMessage,
+} from 'viem/siwe';
+import { getSessionSecret, signedCookieOptions } from './signedCookies';
+
+export const SIWE_SESSION_COOKIE = 'coinbase-ramp-demo-app-auth';
+export const SIWE_NONCE_COOKIE = 'coinbase-ramp-demo-app-siwe-nonce';
+
+// The onramp and offramp flows use the first 49 characters of the wallet
+// address as partnerUserId
+const PARTNER_USER_ID_LENGTH = 49;
+
+const SESSION_TTL_SECONDS = 24 * 60 * 60;
+const NONCE_TTL_SECONDS = 5 * 60;
+
+// Smart wallet signatures are checked on-chain (ERC-1271/6492) on the
+// chain named in the message when it's one of these
+const SIGNATURE_CHAINS = [base, baseSepolia, mainnet];
+
+export interface SiweSession {
+  address: `0x${string}`;
+  chainId: number;
+}
+
+export type SiweVerifyResult =
+  { valid: true; session: SiweSession } | { valid: false; reason: string };
+
+export function createSiweNonce(): string {
+  return generateSiweNonce();
+}
+
+/**
+ * Binds a nonce to the browser with a short-lived signed cookie; the client
+ * includes the nonce in the SIWE message it signs
+ */
+export async function setSiweNonceCookie(
+  response: NextResponse,
+  nonce: string
+): Promise<void> {
+  const jwt = await new SignJWT({ nonce })
+    .setProtectedHeader({ alg: 'HS256' })
+    .setIssuedAt()
+    .setExpirationTime(`${NONCE_TTL_SECONDS}s`)
+    .sign(getSessionSecret());
+
+  response.cookies.set(
+    SIWE_NONCE_COOKIE,
+    jwt,
+    signedCookieOptions(NONCE_TTL_SECONDS)
+  );
+}
+
+async function readNonceCookie(request: NextRequest): Promise<string | null> {
+  const jwt = request.cookies.get(SIWE_NONCE_COOKIE)?.value;
+  if (!jwt) {
+    return null;
+  }
+
+  const secret = getSessionSecret();
+  try {
+    const { payload } = await jwtVerify(jwt, secret);
+    return typeof payload.nonce === 'string' ? payload.nonce : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Verifies a signed SIWE message against the nonce cookie and the host the
+ * request was sent to
+ * @param message - EIP-4361 formatted message, exactly as signed
+ * @param signature - Signature from the wallet (EOA or smart wallet)
+ */
+export async function verifySiweSignIn(
+  request: NextRequest,
+  message: string,
+  signature: Hex
+): Promise<SiweVerifyResult> {
+  const nonce = await readNonceCookie(request);
+  if (!nonce) {
+    return { valid: false, reason: 'Missing or expired nonce' };
+  }
+
+  const fields = parseSiweMessage(message);
+  if (!fields.address || !fields.chainId) {
+    return { valid: false, reason: 'Malformed SIWE message' };
+  }
+
+  // EOA signatures don't depend on the chain; smart wallets on other chains
+  // are checked on Base, where the demo's wallets live
+  const chain = SIGNATURE_CHAINS.find((c) => c.id === fields.chainId) ?? base;
+
+  const client = createPublicClient({ chain, transport: http() });
+  const valid = await verifySiweMessage(client, {
+    message,
+    signature,
+    domain: request.headers.get('host') ?? request.nextUrl.host,
+    nonce,
+  });
+
+  if (!valid) {
+    return { valid: false, reason: 'Invalid signature or message' };
+  }
+
+  return {
+    valid: true,
+    session: { address: getAddress(fields.address), chainId: fields.chainId },
+  };
+}
+
+/**
+ * Stores a verified session in a signed HTTP-only cookie and drops the
+ * nonce cookie, so every sign in needs a fresh nonce
+ */
+export async function setSiweSessionCookie(
+  response: NextResponse,
+  session: SiweSession
+): Promise<void> {
+  const jwt = await new SignJWT({ chainId: session.chainId })
+    .setProtectedHeader({ alg: 'HS256' })
+    .setSubject(session.address)
+    .setIssuedAt()
+    .setExpirationTime(`${SESSION_TTL_SECONDS}s`)
+    .sign(getSessionSecret());
+
+  response.cookies.set(
+    SIWE_SESSION_COOKIE,
+    jwt,
+    signedCookieOptions(SESSION_TTL_SECONDS)
+  );
+  response.cookies.delete(SIWE_NONCE_COOKIE);
+}
+
+export function clearSiweSessionCookie(response: NextResponse): void {
+  response.cookies.delete(SIWE_SESSION_COOKIE);
+  response.cookies.delete(SIWE_NONCE_COOKIE);
+}
+
+/**
+ * Returns the wallet proven by the request's session cookie, or null if
+ * there is no valid session
+ */
+export async function getSiweSession(
+  request: NextRequest
+): Promise<SiweSession | null> {
+  const jwt = request.cookies.get(SIWE_SESSION_COOKIE)?.value;
+  if (!jwt) {
+    return null;
+  }
+
+  // Outside the try: a missing secret is a configuration error, not a
+  // signed-out user
+  const secret = getSessionSecret();
+  try {
+    const { payload } = await jwtVerify(jwt, secret);
+    if (!payload.sub || typeof payload.chainId !== 'number') {
+      return null;
+    }
+    return { address: getAddress(payload.sub), chainId: payload.chainId };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Returns the first address not owned by the session, if any
+ * Addresses are compared case-insensitively (EIP-55 checksums differ only in
+ * case)
+ */
+export function findUnprovenAddress(
+  session: SiweSession,
+  addresses: string[]
+): string | undefined {
+  const proven = session.address.toLowerCase();
+  return addresses.find((address) => address.toLowerCase() !== proven);
+}
+
+/**
+ * Whether a partnerUserId is the one the ramp flows use for the session's
+ * wallet (compared case-insensitively)
+ */
+export function isSessionPartnerUserId(
+  session: SiweSession,
+  partnerUserId: string
+): boolean {
+  return (
+    partnerUserId.toLowerCase() ===
+    session.address.substring(0, PARTNER_USER_ID_LENGTH).toLowerCase()
+  );
+}
@@ -0,0 +1,135 @@
+/**
+ * SMS delivery for phone verification codes
+ *
+ * The console provider only logs messages, so codes can be read from the
+ * server output during development; it is refused in production.
+ * Never import this module from client components.
+ */
+import { logger } from './logger';
+import { recordUpstreamResponse } from './requestLogging';
+
+export type SmsProviderName = 'console' | 'twilio';
+
+export interface SmsProvider {
+  readonly name: SmsProviderName;
+  /**
+   * Sends a text message
+   * @param phoneNumber - E.164 phone number
+   * @throws if the message couldn't be handed to the provider
+   */
+  sendSms(phoneNumber: string, message: string): Promise<void>;
+}
+
+const REQUEST_TIMEOUT_MS = 5000;
+
+/**
+ * Logs messages instead of sending them, for local development
+ */
+export class ConsoleSmsProvider implements SmsProvider {
+  readonly name = 'console';
+
+  async sendSms(phoneNumber: string, message: string): Promise<void> {
+    // phoneNumber is masked by the logger; the text is the point here
+    logger.info('SMS (console provider, not sent)', {
+      phoneNumber,
+      text: message,
+    });
+  }
+}
+
+/**
+ * Twilio Programmable Messaging
+ * Needs TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN and TWILIO_FROM_NUMBER.
+ */
+export class TwilioSmsProvider implements SmsProvider {
+  readonly name = 'twilio';
+
+  constructor(
+    private accountSid: string,
+    private authToken: string,
+    private fromNumber: string
+  ) {}
+
+  async sendSms(phoneNumber: string, message: string): Promise<void> {
+    const startedAt = Date.now();
+    const response = await fetch(
+      `https://api.twilio.com/2010-04-01/Accounts/${encodeURIComponent(
+        this.accountSid
+      )}/Messages.json`,
+      {
+        method: 'POST',
+        headers: {
+          Authorization: `Basic ${btoa(`${this.accountSid}:${this.authToken}`)}`,
+          'Content-Type': 'application/x-www-form-urlencoded',
+        },
+        body: new URLSearchParams({
+          To: phoneNumber,
+          From: this.fromNumber,
+          Body: message,
+        }),
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+        cache: 'no-store',
+      }
+    );
+    recordUpstreamResponse('twilio', response.status, Date.now() - startedAt);
+
+    if (!response.ok) {
+      throw new Error(`SMS request failed with status ${response.status}`);
+    }
+  }
+}
+
+// Shared across route bundles, like the rate limit store
+const globalForSms = globalThis as typeof globalThis & {
+  smsProvider?: SmsProvider;
+};
+
+/**
+ * Returns the provider selected by SMS_PROVIDER (default: console outside
+ * production)
+ * @throws if the provider isn't configured, or is console in production
+ */
+export function getSmsProvider(): SmsProvider {
+  if (globalForSms.smsProvider) {
+    return globalForSms.smsProvider;
+  }
+
+  const isProduction = process.env.NODE_ENV === 'production';
+  const name = process.env.SMS_PROVIDER || (isProduction ? '' : 'console');
+  switch (name) {
+    case 'console':
+      if (isProduction) {
+        throw new Error('SMS_PROVIDER=console cannot be used in production');
+      }
+      globalForSms.smsProvider = new ConsoleSmsProvider();
+      break;
+    case 'twilio': {
+      const { TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN, TWILIO_FROM_NUMBER } =
+        process.env;
+      if (!TWILIO_ACCOUNT_SID || !TWILIO_AUTH_TOKEN || !TWILIO_FROM_NUMBER) {
+        throw new Error(
+          'TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN and TWILIO_FROM_NUMBER must be set'
+        );
+      }
+      globalForSms.smsProvider = new TwilioSmsProvider(
+        TWILIO_ACCOUNT_SID,
+        TWILIO_AUTH_TOKEN,
+        TWILIO_FROM_NUMBER
+      );
+      break;
+    }
+    default:
+      throw new Error(
+        name ? `Unknown SMS_PROVIDER: ${name}` : 'SMS_PROVIDER must be set'
+      );
+  }
+
+  return globalForSms.smsProvider;
+}
+
+/**
+ * Replaces the provider, e.g. with one for another SMS service
+ */
+export function setSmsProvider(provider: SmsProvider) {
+  globalForSms.smsProvider = provider;
+}
@@ -1,23 +1,57 @@
 import { z } from 'zod';
-
-// Ethereum address validation
-export const ethereumAddressSchema = z.string()
-  .regex(/^0x[a-fA-F0-9]{40}$/, 'Invalid Ethereum address format');
-
-// Bitcoin address validation (simplified)
-export const bitcoinAddressSchema = z.string()
-  .regex(/^[13][a-km-zA-HJ-NP-Z1-9]{25,34}$/, 'Invalid Bitcoin address format');
-
-// Solana address validation (simplified)
-export const solanaAddressSchema = z.string()
-  .regex(/^[1-9A-HJ-NP-Za-km-z]{32,44}$/, 'Invalid Solana address format');
+import { validateAddressForNetwork } from './addressValidation';
+import {
+  DEFAULT_GUEST_CHECKOUT_CURRENCY,
+  DEFAULT_GUEST_CHECKOUT_PAYMENT_METHOD,
+  GUEST_CHECKOUT_CURRENCIES,
+  GUEST_CHECKOUT_PAYMENT_METHODS,
+  getGuestCheckoutPaymentMethod,
+  PHONE_CODE_LENGTH,
+  validateGuestCheckoutPhoneNumber,
+} from './guestCheckout';
 
 // Generic blockchain address (accepts any non-empty string for flexibility)
+// Pair it with a network via refineAddressForNetworks where one is known
 export const blockchainAddressSchema = z.string()
   .min(1, 'Address is required')
-  .max(100, 'Address is too long');
+  .max(150, 'Address is too long');
+
+// Address valid on one network (format and checksum, see
+// addressValidation.ts)
+export const networkAddressSchema = (network: string) =>
+  blockchainAddressSchema.superRefine((address, ctx) =>
+    refineAddressForNetworks(ctx, address, [network]));
+
+export const ethereumAddressSchema = networkAddressSchema('ethereum');
+export const bitcoinAddressSchema = networkAddressSchema('bitcoin');
+export const solanaAddressSchema = networkAddressSchema('solana');
+
+// Adds an issue at `path` for every distinct reason the address is invalid
+// on one of the networks (see addressValidation.ts)
+function refineAddressForNetworks(
+  ctx: z.RefinementCtx,
+  address: string,
+  networks: string[],
+  path?: string
+) {
+  const reasons = new Set<string>();
+  networks.forEach((network) => {
+    const result = validateAddressForNetwork(address, network);
+    if (!result.valid) {
+      reasons.add(result.reason);
+    }
+  });
+  reasons.forEach((message) => {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: path ? [path] : [],
+      message,
+    });
+  });
+}
 
 // Session token request validation
+// Each address must be valid on every blockchain listed with it
 export const sessionTokenRequestSchema = z.object({
   addresses: z.array(
     z.object({
@@ -25,7 +59,8 @@ export const sessionTokenRequestSchema = z.object({
       blockchains: z.array(
         z.string().min(1, 'Blockchain name is required')
       ).min(1, 'At least one blockchain is required'),
-    })
+    }).superRefine(({ address, blockchains }, ctx) =>
+      refineAddressForNetworks(ctx, address, blockchains, 'address'))
   ).min(1, 'At least one address is required')
     .max(10, 'Maximum 10 addresses allowed'),
   assets: z.array(
@@ -33,6 +68,51 @@ export const sessionTokenRequestSchema = z.object({
   ).optional(),
 });
 
+// Fund session token request validation
+// Same shape as sessionTokenRequestSchema; the legacy single-address body
+// `{ address, blockchains }` is still accepted (blockchains default to base)
+export const fundSessionRequestSchema = z.preprocess((body) => {
+  if (
+    body &&
+    typeof body === 'object' &&
+    'address' in body &&
+    !('addresses' in body)
+  ) {
+    const { address, blockchains = ['base'], ...rest } = body as {
+      address: unknown;
+      blockchains?: unknown;
+    };
+    return { ...rest, addresses: [{ address, blockchains }] };
+  }
+  return body;
+}, sessionTokenRequestSchema);
+
+// SIWE verification request validation
+// `message` is the EIP-4361 text exactly as signed by the wallet
+export const siweVerifyRequestSchema = z.object({
+  message: z.string().min(1, 'Message is required')
+    .max(4000, 'Message is too long'),
+  signature: z.string()
+    .regex(/^0x[a-fA-F0-9]+$/, 'Invalid signature format')
+    .transform((val) => val as `0x${string}`),
+});
+
+// Price request validation (GET /api/prices query)
+// `symbols` is a comma-separated list of asset codes
+export const pricesQuerySchema = z.object({
+  fiat: z.string()
+    .regex(/^[A-Z]{3}$/, 'Invalid fiat currency code')
+    .default('USD'),
+  symbols: z.string()
+    .transform((val) => val.split(',').map((symbol) => symbol.trim()))
+    .pipe(
+      z.array(z.string().regex(/^[A-Z0-9]{2,10}$/, 'Invalid asset code'))
+        .min(1, 'At least one asset is required')
+        .max(50, 'Maximum 50 assets allowed')
+    )
+    .optional(),
+});
+
 // Amount validation
 export const amountSchema = z.string()
   .regex(/^\d+(\.\d{1,18})?$/, 'Invalid amount format')
@@ -42,7 +122,7 @@ export const amountSchema = z.string()
   }, 'Amount must be a positive number')
   .refine((val) => {
     const num = parseFloat(val);
-    return num < 1000000;
+    return isNaN(num) || num < 1000000;
   }, 'Amount is too large');
 
 // Asset code validation
@@ -54,3 +134,314 @@ export const assetCodeSchema = z.string()
 export const networkIdSchema = z.string()
   .min(1, 'Network ID is required')
   .regex(/^[a-z0-9-]+$/, 'Invalid network ID format');
+
+// Field path and message of one validation failure, as returned in the
+// `details` of 400 responses
+export interface ValidationIssue {
+  path: string;
+  message: string;
+}
+
+export function formatValidationIssues(error: z.ZodError): ValidationIssue[] {
+  return error.errors.map((e) => ({
+    path: e.path.join('.'),
+    message: e.message,
+  }));
+}
+
+// Query parameters and optional body fields arrive as empty strings when a
+// form field is left blank; treat those as missing
+const emptyToUndefined = (val: unknown) =>
+  (val === '' || val === null ? undefined : val);
+
+const optionalField = <T extends z.ZodTypeAny>(schema: T) =>
+  z.preprocess(emptyToUndefined, schema.optional());
+
+// ISO 3166-1 two-letter country code
+export const countryCodeSchema = z.string()
+  .regex(/^[A-Z]{2}$/, 'Invalid country code');
+
+// ISO 3166-2 subdivision code without the country prefix (e.g. 'NY')
+export const subdivisionCodeSchema = z.string()
+  .regex(/^[A-Z0-9]{1,3}$/, 'Invalid subdivision code');
+
+// ISO 4217 currency code
+export const fiatCurrencySchema = z.string()
+  .regex(/^[A-Z]{3}$/, 'Invalid fiat currency code');
+
+// Payment or cashout method id (e.g. 'CARD', 'ACH_BANK_ACCOUNT')
+export const paymentMethodSchema = z.string()
+  .regex(/^[A-Z][A-Z0-9_]{1,49}$/, 'Invalid payment method');
+
+// partnerUserId is set by us in the onramp/offramp URL (max 50 chars)
+export const partnerUserIdSchema = z.string()
+  .regex(/^[A-Za-z0-9_-]{1,50}$/, 'Invalid partnerUserId');
+
+// partnerUserIds are wallet addresses; Apple Pay partnerUserRefs are
+// 'sandbox-' plus a UUID (older ones embed the local part of the user's
+// email, so allow the characters it may contain)
+export const partnerUserRefSchema = z.string()
+  .regex(/^[A-Za-z0-9_.+-]{1,100}$/, 'Invalid partnerUserRef');
+
+// Comma-separated list of network ids (e.g. 'ethereum,base')
+const networkListSchema = z.string()
+  .transform((val) => val.split(',').map((network) => network.trim()))
+  .pipe(z.array(networkIdSchema).max(20, 'Maximum 20 networks allowed'))
+  .transform((networks) => networks.join(','));
+
+// Buy/sell options request validation (GET /api/buy-options and
+// /api/sell-options query)
+export const rampOptionsQuerySchema = z.object({
+  country: countryCodeSchema,
+  subdivision: optionalField(subdivisionCodeSchema),
+  networks: optionalField(networkListSchema),
+});
+
+// Buy quote request validation (POST /api/buy-quote)
+export const buyQuoteRequestSchema = z.object({
+  purchaseCurrency: assetCodeSchema,
+  purchaseNetwork: optionalField(networkIdSchema),
+  paymentAmount: amountSchema,
+  paymentCurrency: fiatCurrencySchema,
+  paymentMethod: paymentMethodSchema,
+  country: countryCodeSchema,
+  subdivision: optionalField(subdivisionCodeSchema),
+});
+
+// Sell quote request validation (POST /api/sell-quote)
+// sourceAddress, redirectUrl and partnerUserId make CDP return a
+// One-Click-Sell offramp URL; sourceAddress must be valid on sellNetwork
+export const sellQuoteRequestSchema = z.object({
+  sellCurrency: assetCodeSchema,
+  sellAmount: amountSchema,
+  sellNetwork: optionalField(networkIdSchema),
+  cashoutCurrency: fiatCurrencySchema,
+  paymentMethod: paymentMethodSchema,
+  country: countryCodeSchema,
+  subdivision: optionalField(subdivisionCodeSchema),
+  sourceAddress: blockchainAddressSchema,
+  redirectUrl: z.string().url('Invalid redirect URL'),
+  partnerUserId: partnerUserIdSchema,
+}).superRefine(({ sourceAddress, sellNetwork }, ctx) => {
+  if (sellNetwork) {
+    refineAddressForNetworks(ctx, sourceAddress, [sellNetwork],
+      'sourceAddress');
+  }
+});
+
+// Guest checkout phone number: E.164 from a supported country (see
+// guestCheckout.ts)
+export const guestCheckoutPhoneNumberSchema = z.string()
+  .superRefine((phoneNumber, ctx) => {
+    const result = validateGuestCheckoutPhoneNumber(phoneNumber);
+    if (!result.valid) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: result.reason });
+    }
+  });
+
+// Phone verification code request validation
+// (POST /api/phone-verification)
+export const phoneVerificationStartRequestSchema = z.object({
+  phoneNumber: guestCheckoutPhoneNumberSchema,
+});
+
+// Phone verification request validation
+// (POST /api/phone-verification/verify)
+export const phoneVerificationCheckRequestSchema = z.object({
+  phoneNumber: guestCheckoutPhoneNumberSchema,
+  code: z.string()
+    .regex(new RegExp(`^\\d{${PHONE_CODE_LENGTH}}$`),
+      `Code must be ${PHONE_CODE_LENGTH} digits`),
+});
+
+// Terms are accepted in the form just before the order is placed; allow
+// for clock skew, but not for a timestamp the user can't have produced
+const AGREEMENT_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+const CLOCK_SKEW_MS = 5 * 60 * 1000;
+
+// Guest checkout order request validation (POST /api/apple-pay/order)
+// The form sends the amount as a number; it's forwarded to CDP as a string.
+// destinationAddress must be valid on network. agreementAcceptedAt is when
+// the user accepted the terms; the phone verification time comes from the
+// verification cookie, not the body. paymentMethod and paymentCurrency
+// default to Apple Pay and USD for clients that predate them
+export const guestCheckoutOrderRequestSchema = z.object({
+  email: z.string().email('Invalid email address'),
+  phoneNumber: guestCheckoutPhoneNumberSchema,
+  amount: z.union([z.number(), z.string()])
+    .transform((val) => String(val))
+    .pipe(amountSchema),
+  asset: assetCodeSchema,
+  network: networkIdSchema,
+  destinationAddress: blockchainAddressSchema,
+  paymentMethod: z.string()
+    .refine((id) => !!getGuestCheckoutPaymentMethod(id),
+      `Payment method must be one of ${GUEST_CHECKOUT_PAYMENT_METHODS.map(
+        ({ id }) => id).join(', ')}`)
+    .default(DEFAULT_GUEST_CHECKOUT_PAYMENT_METHOD),
+  paymentCurrency: z.string()
+    .refine((currency) => GUEST_CHECKOUT_CURRENCIES.includes(currency),
+      `Payment currency must be one of ${GUEST_CHECKOUT_CURRENCIES.join(
+        ', ')}`)
+    .default(DEFAULT_GUEST_CHECKOUT_CURRENCY),
+  agreementAcceptedAt: z.string({
+    required_error: 'The terms must be accepted',
+  })
+    .datetime('Invalid terms acceptance time')
+    .refine((val) => Date.parse(val) - Date.now() < CLOCK_SKEW_MS,
+      'Terms acceptance time is in the future')
+    .refine((val) => Date.now() - Date.parse(val) < AGREEMENT_MAX_AGE_MS,
+      'Terms acceptance has expired, accept the terms again'),
+}).superRefine(({ destinationAddress, network }, ctx) =>
+  refineAddressForNetworks(ctx, destinationAddress, [network],
+    'destinationAddress'));
+
+// Transaction history request validation
+// (GET /api/transaction-history/[partnerUserId] path and query)
+export const transactionHistoryQuerySchema = z.object({
+  partnerUserId: partnerUserIdSchema,
+  type: z.preprocess(emptyToUndefined, z.enum(['buy', 'sell', 'all'], {
+    errorMap: () => ({ message: "Type must be 'buy', 'sell' or 'all'" }),
+  }).default('all')),
+  page_size: z.preprocess(emptyToUndefined, z.coerce.number({
+    invalid_type_error: 'Page size must be a number',
+  })
+    .int('Page size must be an integer')
+    .min(1, 'Page size must be at least 1')
+    .max(50, 'Page size must be at most 50')
+    .default(10)),
+  page_key: optionalField(z.string().max(1000, 'Page key is too long')),
+});
+
+// Transaction status request validation
+// (GET /api/transaction-status/[partnerUserRef] path)
+export const transactionStatusParamsSchema = z.object({
+  partnerUserRef: partnerUserRefSchema,
+});
+
+// Apple Pay order status request validation
+// (GET /api/apple-pay/order/[orderId] path)
+// Order ids are UUIDs; they end up in the CDP request path
+export const applePayOrderParamsSchema = z.object({
+  orderId: z.string()
+    .regex(/^[A-Za-z0-9-]{1,100}$/, 'Invalid order ID'),
+});
+
+// Pending sell transaction request validation
+// (GET /api/sell-transaction/[partnerUserId] path)
+export const sellTransactionParamsSchema = z.object({
+  partnerUserId: partnerUserIdSchema,
+});
+
+// Hosted checkout query validation (the pay.coinbase.com URLs built by
+// rampUtils.ts and returned by the sell quote API, see app/simulator)
+
+// JSON-encoded query parameter, e.g. addresses={"0x...":["base"]}
+const jsonParamSchema = <T extends z.ZodTypeAny>(schema: T) => z.string()
+  .transform((val, ctx) => {
+    try {
+      return JSON.parse(val) as unknown;
+    } catch {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Invalid JSON' });
+      return z.NEVER;
+    }
+  })
+  .pipe(schema);
+
+// Each wallet address with the networks it may receive on
+const checkoutAddressesSchema = jsonParamSchema(
+  z.record(z.array(networkIdSchema).min(1, 'List at least one network')))
+  .refine((addresses) => Object.keys(addresses).length > 0,
+    'List at least one address')
+  .superRefine((addresses, ctx) =>
+    Object.entries(addresses).forEach(([address, networks]) =>
+      refineAddressForNetworks(ctx, address, networks)));
+
+const hostedCheckoutQuerySchema = z.object({
+  sessionToken: z.string().min(1, 'sessionToken must not be empty').optional(),
+  appId: z.string().min(1, 'appId must not be empty').optional(),
+  addresses: checkoutAddressesSchema.optional(),
+  assets: jsonParamSchema(z.array(assetCodeSchema)
+    .min(1, 'List at least one asset')).optional(),
+  defaultAsset: assetCodeSchema.optional(),
+  defaultNetwork: networkIdSchema.optional(),
+  presetFiatAmount: amountSchema.optional(),
+  presetCryptoAmount: amountSchema.optional(),
+  fiatCurrency: fiatCurrencySchema.optional(),
+  partnerUserId: partnerUserIdSchema.optional(),
+  redirectUrl: z.string().url('Invalid redirectUrl').optional(),
+  quoteId: z.string().min(1, 'quoteId must not be empty').optional(),
+});
+
+type HostedCheckoutQuery = z.infer<typeof hostedCheckoutQuerySchema>;
+
+// A session token replaces appId/addresses/assets; without one, appId and
+// addresses are required, and the defaults must be among what they list
+function refineHostedCheckoutQuery(
+  query: HostedCheckoutQuery,
+  ctx: z.RefinementCtx
+) {
+  const addIssue = (path: string, message: string) =>
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: [path], message });
+
+  if (query.sessionToken) {
+    if (query.appId || query.addresses || query.assets) {
+      addIssue('sessionToken',
+        'sessionToken cannot be combined with appId, addresses or assets');
+    }
+  } else {
+    if (!query.appId) {
+      addIssue('appId', 'appId is required without a sessionToken');
+    }
+    if (!query.addresses) {
+      addIssue('addresses', 'addresses is required without a sessionToken');
+    }
+  }
+
+  const networks = Object.values(query.addresses || {}).flat();
+  if (query.addresses && query.defaultNetwork &&
+    !networks.includes(query.defaultNetwork)) {
+    addIssue('defaultNetwork',
+      'defaultNetwork is not a network of any of the addresses');
+  }
+  if (query.assets && query.defaultAsset &&
+    !query.assets.includes(query.defaultAsset)) {
+    addIssue('defaultAsset', 'defaultAsset is not one of the assets');
+  }
+  if (query.presetFiatAmount && query.presetCryptoAmount) {
+    addIssue('presetCryptoAmount',
+      'Set presetFiatAmount or presetCryptoAmount, not both');
+  }
+}
+
+// Onramp checkout parameters (https://pay.coinbase.com/buy/select-asset)
+export const onrampCheckoutParamsSchema = hostedCheckoutQuerySchema.extend({
+  defaultPaymentMethod: paymentMethodSchema.optional(),
+  // 'send' opens on sending crypto from a Coinbase account, 'buy' on buying
+  defaultExperience: z.enum(['send', 'buy'], {
+    errorMap: () => ({ message: "defaultExperience must be 'send' or 'buy'" }),
+  }).optional(),
+  // Set by apps that open the checkout's requested URLs themselves (e.g.
+  // in a mobile webview)
+  handlingRequestedUrls: z.enum(['true', 'false'], {
+    errorMap: () => ({
+      message: "handlingRequestedUrls must be 'true' or 'false'" }),
+  }).optional(),
+  enableGuestCheckout: z.enum(['true', 'false'], {
+    errorMap: () => ({ message: "enableGuestCheckout must be 'true' or 'false'" }),
+  }).optional(),
+});
+
+export const onrampCheckoutQuerySchema = onrampCheckoutParamsSchema
+  .strict().superRefine(refineHostedCheckoutQuery);
+
+// Offramp checkout parameters (https://pay.coinbase.com/v3/sell/input)
+// Coinbase needs partnerUserId and redirectUrl to hand the sell back
+export const offrampCheckoutParamsSchema = hostedCheckoutQuerySchema.extend({
+  defaultCashoutMethod: paymentMethodSchema.optional(),
+  partnerUserId: partnerUserIdSchema,
+  redirectUrl: z.string().url('Invalid redirectUrl'),
+});
+
+export const offrampCheckoutQuerySchema = offrampCheckoutParamsSchema
+  .strict().superRefine(refineHostedCheckoutQuery);
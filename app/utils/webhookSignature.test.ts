@@ -0,0 +1,176 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  WEBHOOK_SIGNATURE_HEADER,
+  buildSignedPayload,
+  computeWebhookSignature,
+  verifyWebhookSignature,
+} from './webhookSignature';
+
+const SECRET = 'whsec_test_secret';
+const NOW_SECONDS = 1_760_000_000;
+const BODY = JSON.stringify({
+  eventType: 'onramp.transaction.success',
+  transactionId: 'tx_1',
+});
+
+function sign(
+  body: string,
+  {
+    secret = SECRET,
+    timestamp = NOW_SECONDS,
+    headers = {},
+  }: {
+    secret?: string;
+    timestamp?: number;
+    headers?: Record<string, string>;
+  } = {}
+): string {
+  const headerNames = Object.keys(headers);
+  const signature = computeWebhookSignature(
+    secret,
+    buildSignedPayload(
+      timestamp,
+      body,
+      headerNames,
+      headerNames.map((name) => headers[name])
+    )
+  );
+  return headerNames.length
+    ? `t=${timestamp},h=${headerNames.join(' ')},v1=${signature}`
+    : `t=${timestamp},v1=${signature}`;
+}
+
+function makeHeaders(
+  signature?: string,
+  extra: Record<string, string> = {}
+): Headers {
+  return new Headers({
+    ...extra,
+    ...(signature !== undefined && { [WEBHOOK_SIGNATURE_HEADER]: signature }),
+  });
+}
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.setSystemTime(NOW_SECONDS * 1000);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('verifyWebhookSignature', () => {
+  it('accepts a valid signature', () => {
+    expect(
+      verifyWebhookSignature(BODY, makeHeaders(sign(BODY)), SECRET)
+    ).toEqual({ valid: true });
+  });
+
+  it('accepts a valid signature over signed headers', () => {
+    const signed = {
+      'x-request-id': 'req_1',
+      'content-type': 'application/json',
+    };
+    const headers = makeHeaders(sign(BODY, { headers: signed }), signed);
+    expect(verifyWebhookSignature(BODY, headers, SECRET)).toEqual({
+      valid: true,
+    });
+  });
+
+  it('accepts a delivery with several signatures when one matches', () => {
+    const valid = sign(BODY).split('v1=')[1];
+    const header = `t=${NOW_SECONDS},v1=${'0'.repeat(64)},v1=${valid}`;
+    expect(verifyWebhookSignature(BODY, makeHeaders(header), SECRET)).toEqual({
+      valid: true,
+    });
+  });
+
+  it('rejects a tampered body', () => {
+    const tampered = BODY.replace('tx_1', 'tx_2');
+    expect(
+      verifyWebhookSignature(tampered, makeHeaders(sign(BODY)), SECRET)
+    ).toEqual({ valid: false, reason: 'signature_mismatch' });
+  });
+
+  it('rejects a tampered signed header', () => {
+    const signature = sign(BODY, { headers: { 'x-request-id': 'req_1' } });
+    const headers = makeHeaders(signature, { 'x-request-id': 'req_2' });
+    expect(verifyWebhookSignature(BODY, headers, SECRET)).toEqual({
+      valid: false,
+      reason: 'signature_mismatch',
+    });
+  });
+
+  it('rejects a signature made with another secret', () => {
+    const signature = sign(BODY, { secret: 'whsec_other_secret' });
+    expect(
+      verifyWebhookSignature(BODY, makeHeaders(signature), SECRET)
+    ).toEqual({ valid: false, reason: 'signature_mismatch' });
+  });
+
+  it('rejects a timestamp that differs from the signed one', () => {
+    const header = sign(BODY).replace(
+      `t=${NOW_SECONDS}`,
+      `t=${NOW_SECONDS + 1}`
+    );
+    expect(verifyWebhookSignature(BODY, makeHeaders(header), SECRET)).toEqual({
+      valid: false,
+      reason: 'signature_mismatch',
+    });
+  });
+
+  it.each([
+    ['stale', NOW_SECONDS - 5 * 60 - 1],
+    ['future', NOW_SECONDS + 5 * 60 + 1],
+  ])('rejects a %s timestamp', (_case, timestamp) => {
+    const signature = sign(BODY, { timestamp });
+    expect(
+      verifyWebhookSignature(BODY, makeHeaders(signature), SECRET)
+    ).toEqual({ valid: false, reason: 'timestamp_out_of_range' });
+  });
+
+  it('accepts timestamps within the tolerance', () => {
+    const signature = sign(BODY, { timestamp: NOW_SECONDS - 5 * 60 });
+    expect(
+      verifyWebhookSignature(BODY, makeHeaders(signature), SECRET)
+    ).toEqual({ valid: true });
+  });
+
+  it('applies a custom tolerance', () => {
+    const signature = sign(BODY, { timestamp: NOW_SECONDS - 60 });
+    expect(
+      verifyWebhookSignature(BODY, makeHeaders(signature), SECRET, 30)
+    ).toEqual({ valid: false, reason: 'timestamp_out_of_range' });
+  });
+
+  it('rejects a delivery without a signature header', () => {
+    expect(verifyWebhookSignature(BODY, makeHeaders(), SECRET)).toEqual({
+      valid: false,
+      reason: 'missing_signature',
+    });
+  });
+
+  it.each([
+    ['no fields', 'garbage'],
+    ['no timestamp', `v1=${'a'.repeat(64)}`],
+    ['a non-numeric timestamp', `t=now,v1=${'a'.repeat(64)}`],
+    ['no v1 signature', `t=${NOW_SECONDS}`],
+    ['an unknown scheme only', `t=${NOW_SECONDS},v0=${'a'.repeat(64)}`],
+  ])('rejects a header with %s as malformed', (_case, header) => {
+    expect(verifyWebhookSignature(BODY, makeHeaders(header), SECRET)).toEqual({
+      valid: false,
+      reason: 'malformed_signature',
+    });
+  });
+
+  it.each([
+    ['a non-hex signature', 'not-hex'],
+    ['a truncated signature', 'abcd'],
+  ])('rejects %s as a mismatch', (_case, signature) => {
+    const header = `t=${NOW_SECONDS},v1=${signature}`;
+    expect(verifyWebhookSignature(BODY, makeHeaders(header), SECRET)).toEqual({
+      valid: false,
+      reason: 'signature_mismatch',
+    });
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * Webhook signature verification for CDP Onramp/Offramp webhooks
+ *
+ * CDP signs every delivery with the subscription secret and sends:
+ *   X-Hook0-Signature: t=<unix seconds>,h=<header names>,v1=<hex hmac>
+ *
+ * The HMAC-SHA256 is computed over
+ *   `${t}.${h}.${values of the h headers joined by '.'}.${raw body}`
+ * or `${t}.${raw body}` when no headers are signed.
+ * Reference: https://docs.cdp.coinbase.com/onramp-&-offramp/webhooks
+ */
+import { createHmac, timingSafeEqual } from 'crypto';
+
+export const WEBHOOK_SIGNATURE_HEADER = 'x-hook0-signature';
+
+// Reject deliveries signed more than 5 minutes ago (replay protection)
+const DEFAULT_TOLERANCE_SECONDS = 5 * 60;
+
+export type WebhookSignatureFailure =
+  | 'missing_signature'
+  | 'malformed_signature'
+  | 'timestamp_out_of_range'
+  | 'signature_mismatch';
+
+export type WebhookSignatureResult =
+  { valid: true } | { valid: false; reason: WebhookSignatureFailure };
+
+interface ParsedSignature {
+  timestamp: number;
+  headerNames: string[];
+  signatures: string[];
+}
+
+function parseSignatureHeader(value: string): ParsedSignature | null {
+  let timestamp = NaN;
+  let headerNames: string[] = [];
+  const signatures: string[] = [];
+
+  value.split(',').forEach((part) => {
+    const separator = part.indexOf('=');
+    if (separator === -1) {
+      return;
+    }
+    const key = part.slice(0, separator).trim();
+    const partValue = part.slice(separator + 1).trim();
+
+    if (key === 't') {
+      timestamp = parseInt(partValue, 10);
+    } else if (key === 'h') {
+      headerNames = partValue.split(' ').filter(Boolean);
+    } else if (key === 'v1') {
+      signatures.push(partValue);
+    }
+  });
+
+  if (isNaN(timestamp) || signatures.length === 0) {
+    return null;
+  }
+
+  return { timestamp, headerNames, signatures };
+}
+
+/**
+ * Builds the string CDP signs for a delivery
+ * scripts/replay-webhooks.mjs mirrors this when signing local fixtures
+ */
+export function buildSignedPayload(
+  timestamp: number,
+  rawBody: string,
+  headerNames: string[] = [],
+  headerValues: string[] = []
+): string {
+  if (headerNames.length === 0) {
+    return `${timestamp}.${rawBody}`;
+  }
+  return `${timestamp}.${headerNames.join(' ')}.${headerValues.join('.')}.${rawBody}`;
+}
+
+export function computeWebhookSignature(
+  secret: string,
+  signedPayload: string
+): string {
+  return createHmac('sha256', secret).update(signedPayload).digest('hex');
+}
+
+function safeEqualHex(a: string, b: string): boolean {
+  const bufferA = Buffer.from(a, 'hex');
+  const bufferB = Buffer.from(b, 'hex');
+  return bufferA.length === bufferB.length && timingSafeEqual(bufferA, bufferB);
+}
+
+/**
+ * Verifies a webhook delivery against the subscription secret
+ * @param rawBody - Request body exactly as received (before JSON parsing)
+ * @param headers - Request headers (signature and signed headers are read)
+ * @param secret - Webhook subscription secret
+ * @param toleranceSeconds - Maximum age of the signature timestamp
+ */
+export function verifyWebhookSignature(
+  rawBody: string,
+  headers: Headers,
+  secret: string,
+  toleranceSeconds: number = DEFAULT_TOLERANCE_SECONDS
+): WebhookSignatureResult {
+  const signatureHeader = headers.get(WEBHOOK_SIGNATURE_HEADER);
+  if (!signatureHeader) {
+    return { valid: false, reason: 'missing_signature' };
+  }
+
+  const parsed = parseSignatureHeader(signatureHeader);
+  if (!parsed) {
+    return { valid: false, reason: 'malformed_signature' };
+  }
+
+  const ageSeconds = Math.abs(Date.now() / 1000 - parsed.timestamp);
+  if (ageSeconds > toleranceSeconds) {
+    return { valid: false, reason: 'timestamp_out_of_range' };
+  }
+
+  const headerValues = parsed.headerNames.map(
+    (name) => headers.get(name) || ''
+  );
+  const expected = computeWebhookSignature(
+    secret,
+    buildSignedPayload(
+      parsed.timestamp,
+      rawBody,
+      parsed.headerNames,
+      headerValues
+    )
+  );
+
+  const matches = parsed.signatures.some((signature) =>
+    safeEqualHex(signature, expected)
+  );
+
+  return matches
+    ? { valid: true }
+    : { valid: false, reason: 'signature_mismatch' };
+}
@@ -0,0 +1,132 @@
+/**
+ * Transaction state received through CDP webhooks
+ *
+ * Kept in memory like the rate limiter: fine for a single instance demo,
+ * but state is lost on restart and not shared between serverless
+ * instances. Swap for a database or KV store in production.
+ */
+import { WebhookTransactionState } from '../types';
+
+export type WebhookTransactionUpdate = Omit<
+  WebhookTransactionState,
+  'lastEventId'
+>;
+
+// Event ids are remembered for 24 hours, longer than CDP keeps retrying
+const EVENT_ID_TTL_MS = 24 * 60 * 60 * 1000;
+const MAX_TRANSACTIONS_PER_USER = 50;
+
+interface WebhookStore {
+  processedEvents: Map<string, number>;
+  transactionsByUser: Map<string, Map<string, WebhookTransactionState>>;
+}
+
+// Next.js bundles each route separately, so module-level state would not be
+// shared between the webhook receiver and the status route. Keep the store
+// on globalThis instead.
+const globalForWebhooks = globalThis as typeof globalThis & {
+  coinbaseWebhookStore?: WebhookStore;
+};
+
+if (!globalForWebhooks.coinbaseWebhookStore) {
+  globalForWebhooks.coinbaseWebhookStore = {
+    processedEvents: new Map(),
+    transactionsByUser: new Map(),
+  };
+
+  // Clean up expired event ids every 10 minutes
+  if (typeof setInterval !== 'undefined') {
+    const { processedEvents } = globalForWebhooks.coinbaseWebhookStore;
+    setInterval(
+      () => {
+        const now = Date.now();
+        Array.from(processedEvents.entries()).forEach(
+          ([eventId, expiresAt]) => {
+            if (now > expiresAt) {
+              processedEvents.delete(eventId);
+            }
+          }
+        );
+      },
+      10 * 60 * 1000
+    );
+  }
+}
+
+const { processedEvents, transactionsByUser } =
+  globalForWebhooks.coinbaseWebhookStore;
+
+/**
+ * Marks an event as processed
+ * @returns false if the event id was already seen (duplicate delivery)
+ */
+export function markEventProcessed(eventId: string): boolean {
+  const expiresAt = processedEvents.get(eventId);
+  if (expiresAt && Date.now() <= expiresAt) {
+    return false;
+  }
+  processedEvents.set(eventId, Date.now() + EVENT_ID_TTL_MS);
+  return true;
+}
+
+/**
+ * Applies a webhook update to the stored transaction state
+ * Deliveries can arrive out of order, so an update older than the stored
+ * state is ignored.
+ * @returns The stored state after the update
+ */
+export function applyTransactionUpdate(
+  eventId: string,
+  update: WebhookTransactionUpdate
+): WebhookTransactionState {
+  let transactions = transactionsByUser.get(update.partnerUserRef);
+  if (!transactions) {
+    transactions = new Map();
+    transactionsByUser.set(update.partnerUserRef, transactions);
+  }
+
+  const existing = transactions.get(update.transactionId);
+  if (
+    existing &&
+    new Date(existing.updatedAt).getTime() >
+      new Date(update.updatedAt).getTime()
+  ) {
+    return existing;
+  }
+
+  const next: WebhookTransactionState = {
+    ...existing,
+    ...stripUndefined(update),
+    lastEventId: eventId,
+  };
+
+  // Re-insert so the map stays ordered by most recent update
+  transactions.delete(update.transactionId);
+  transactions.set(update.transactionId, next);
+
+  if (transactions.size > MAX_TRANSACTIONS_PER_USER) {
+    const oldest = transactions.keys().next().value;
+    if (oldest !== undefined) {
+      transactions.delete(oldest);
+    }
+  }
+
+  return next;
+}
+
+/**
+ * Returns the transactions received for a partnerUserRef/partnerUserId,
+ * most recently updated first
+ */
+export function getTransactionsForUser(
+  partnerUserRef: string
+): WebhookTransactionState[] {
+  const transactions = transactionsByUser.get(partnerUserRef);
+  return transactions ? Array.from(transactions.values()).reverse() : [];
+}
+
+function stripUndefined<T extends object>(value: T): T {
+  return Object.fromEntries(
+    Object.entries(value).filter(([, entry]) => entry !== undefined)
+  ) as T;
+}
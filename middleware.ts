@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  buildCorsHeaders,
+  getRouteCorsConfig,
+  isOriginAllowed,
+} from './app/utils/cors';
+import { logger } from './app/utils/logger';
+import { getOrCreateRequestId, REQUEST_ID_HEADER } from './app/utils/requestId';
+
+/**
+ * Applies the origin policy from app/utils/cors.ts to every API route
+ * - Preflight (OPTIONS) requests are answered here for all routes
+ * - Cross-origin requests from origins that aren't allowed get a 403
+ * - Same-origin requests and requests without an Origin header (server
+ *   to server, curl) pass through untouched
+ * Every request and response also gets an X-Request-Id (see requestId.ts).
+ */
+export function middleware(request: NextRequest) {
+  const requestId = getOrCreateRequestId(request.headers);
+  const response = handleCors(request, requestId);
+  response.headers.set(REQUEST_ID_HEADER, requestId);
+  return response;
+}
+
+// Passes the request on to the route with its request id
+function forward(request: NextRequest, requestId: string): NextResponse {
+  const headers = new Headers(request.headers);
+  headers.set(REQUEST_ID_HEADER, requestId);
+  return NextResponse.next({ request: { headers } });
+}
+
+function handleCors(request: NextRequest, requestId: string): NextResponse {
+  const config = getRouteCorsConfig(request.nextUrl.pathname);
+  if (config.policy === 'skip') {
+    return forward(request, requestId);
+  }
+
+  const origin = request.headers.get('origin');
+  const isPreflight = request.method === 'OPTIONS';
+
+  if (!origin || origin === request.nextUrl.origin) {
+    return isPreflight
+      ? new NextResponse(null, { status: 204 })
+      : forward(request, requestId);
+  }
+
+  if (!isOriginAllowed(origin)) {
+    logger
+      .child({ requestId })
+      .warn(
+        isPreflight
+          ? 'CORS: Rejected preflight from unauthorized origin'
+          : 'CORS: Rejected request from unauthorized origin',
+        { origin, path: request.nextUrl.pathname }
+      );
+    return isPreflight
+      ? new NextResponse(null, { status: 403 })
+      : NextResponse.json({ error: 'Unauthorized origin' }, { status: 403 });
+  }
+
+  const corsHeaders = buildCorsHeaders(origin, config);
+
+  if (isPreflight) {
+    return new NextResponse(null, { status: 204, headers: corsHeaders });
+  }
+
+  const response = forward(request, requestId);
+  Object.entries(corsHeaders).forEach(([key, value]) =>
+    response.headers.set(key, value)
+  );
+  return response;
+}
+
+export const config = {
+  matcher: '/api/:path*',
+};
@@ -0,0 +1,543 @@
+#!/usr/bin/env node
+/**
+ * Local stand-in for the CDP APIs the app calls, for offline development
+ *
+ * Serves the onramp/offramp v1 endpoints (config, options, quotes, session
+ * tokens, transaction history) and v2 onramp orders from the fixtures in
+ * scripts/fixtures/cdp, on one port for both CDP hosts. Point the app at it
+ * with CDP_API_BASE_URL; without CDP credentials requests are sent unsigned
+ * (development only), and any Authorization header is accepted.
+ *
+ * Usage:
+ *   npm run cdp:mock -- [options]
+ *   CDP_API_BASE_URL=http://localhost:4010 npm run dev
+ *
+ * Options:
+ *   --port <port>        Port to listen on (default 4010)
+ *   --scenario <name>    Error scenario for every request (see below)
+ *   --latency <ms>       Delay before every response (default 0)
+ *
+ * Error scenarios:
+ *   unauthorized            401, as for a bad or expired JWT
+ *   rate_limited            429 with Retry-After: 1
+ *   domain_not_allowlisted  400 from POST /platform/v2/onramp/orders, as
+ *                           when the Origin isn't in the CDP domain allowlist
+ *
+ * Scenarios can also be switched while the server runs, e.g. to fail the
+ * next two buy quotes only:
+ *   curl -X PUT localhost:4010/__mock/scenario \
+ *     -d '{"scenario":"rate_limited","path":"/onramp/v1/buy/quote","times":2}'
+ * GET shows the active scenario and DELETE clears it.
+ */
+import { randomBytes, randomUUID } from 'crypto';
+import { readFileSync } from 'fs';
+import { createServer } from 'http';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+const scriptDir = path.dirname(fileURLToPath(import.meta.url));
+const FIXTURES_DIR = path.join(scriptDir, 'fixtures', 'cdp');
+const DEFAULT_PORT = 4010;
+
+const SCENARIOS = ['unauthorized', 'rate_limited', 'domain_not_allowlisted'];
+
+// USD prices and rates behind quotes and orders
+const ASSET_PRICES_USD = { USDC: 1, ETH: 3100, BTC: 64000, SOL: 145 };
+const FIAT_PER_USD = { USD: 1, EUR: 0.92, GBP: 0.79 };
+const NETWORK_FEES_USD = { ethereum: 1.5, bitcoin: 2.5 };
+const DEFAULT_NETWORK_FEE_USD = 0.01;
+const COINBASE_FEE_RATE = 0.0149;
+
+// Orders move from PENDING_PAYMENT to PROCESSING to COMPLETED by age
+const ORDER_PROCESSING_AFTER_MS = 10000;
+const ORDER_COMPLETED_AFTER_MS = 20000;
+
+function parseArgs(argv) {
+  const options = { port: DEFAULT_PORT, latency: 0, scenario: null };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--port') {
+      options.port = Number(argv[++i]);
+    } else if (arg === '--latency') {
+      options.latency = Number(argv[++i]);
+    } else if (arg === '--scenario') {
+      options.scenario = argv[++i];
+    } else {
+      throw new Error(`Unknown option: ${arg}`);
+    }
+  }
+  if (options.scenario && !SCENARIOS.includes(options.scenario)) {
+    throw new Error(
+      `Unknown scenario: ${options.scenario} (one of ${SCENARIOS.join(', ')})`
+    );
+  }
+  return options;
+}
+
+function loadFixture(name) {
+  return JSON.parse(readFileSync(path.join(FIXTURES_DIR, `${name}.json`)));
+}
+
+const fixtures = {
+  buyConfig: loadFixture('buy-config'),
+  sellConfig: loadFixture('sell-config'),
+  buyOptions: loadFixture('buy-options'),
+  sellOptions: loadFixture('sell-options'),
+  buyTransactions: loadFixture('buy-transactions'),
+  sellTransactions: loadFixture('sell-transactions'),
+};
+
+// { name, path, remaining } - path limits it to one endpoint, remaining to
+// a number of requests (null: until cleared)
+let scenario = null;
+const orders = new Map();
+
+class MockError extends Error {
+  constructor(status, message, type = 'invalid_request') {
+    super(message);
+    this.status = status;
+    this.type = type;
+  }
+}
+
+// v1 endpoints answer with gRPC-style errors, v2 with errorType/errorMessage
+function errorBody(pathname, error) {
+  if (pathname.startsWith('/platform/')) {
+    return {
+      errorType: error.type,
+      errorMessage: error.message,
+      correlationId: randomUUID(),
+    };
+  }
+  return { code: error.status, message: error.message, details: [] };
+}
+
+function scenarioError(method, pathname) {
+  if (!scenario || (scenario.path && scenario.path !== pathname)) {
+    return null;
+  }
+
+  let error;
+  if (scenario.name === 'unauthorized') {
+    error = new MockError(401, 'Unauthorized', 'unauthorized');
+  } else if (scenario.name === 'rate_limited') {
+    error = new MockError(429, 'Rate limit exceeded', 'rate_limit_exceeded');
+  } else if (
+    scenario.name === 'domain_not_allowlisted' &&
+    method === 'POST' &&
+    pathname === '/platform/v2/onramp/orders'
+  ) {
+    error = new MockError(400, 'Domain is not allow listed');
+  } else {
+    return null;
+  }
+
+  if (scenario.remaining !== null && --scenario.remaining <= 0) {
+    scenario = null;
+  }
+  return error;
+}
+
+function requireFields(body, fields) {
+  const missing = fields.find(
+    (field) => body[field] === undefined || body[field] === ''
+  );
+  if (missing) {
+    throw new MockError(400, `Missing required field: ${missing}`);
+  }
+}
+
+function requirePrice(asset) {
+  const price = ASSET_PRICES_USD[asset];
+  if (!price) {
+    throw new MockError(400, `Unsupported asset: ${asset}`);
+  }
+  return price;
+}
+
+function requireFiatRate(currency) {
+  const rate = FIAT_PER_USD[currency];
+  if (!rate) {
+    throw new MockError(400, `Unsupported currency: ${currency}`);
+  }
+  return rate;
+}
+
+function requireAmount(value, field) {
+  const amount = parseFloat(value);
+  if (!Number.isFinite(amount) || amount <= 0) {
+    throw new MockError(400, `Invalid ${field}`);
+  }
+  return amount;
+}
+
+const money = (value, currency) => ({ value: value.toFixed(2), currency });
+const cryptoAmount = (value) => value.toFixed(value >= 1 ? 6 : 8);
+const randomTxHash = () => `0x${randomBytes(32).toString('hex')}`;
+const randomToken = () => randomBytes(24).toString('base64url');
+
+// Fees are charged in the payment currency and taken off the purchase
+function quoteBuy({ amount, currency, asset, network }) {
+  const fiatRate = requireFiatRate(currency);
+  const price = requirePrice(asset) * fiatRate;
+  const coinbaseFee = amount * COINBASE_FEE_RATE;
+  const networkFee =
+    (NETWORK_FEES_USD[network] ?? DEFAULT_NETWORK_FEE_USD) * fiatRate;
+  const subtotal = amount - coinbaseFee - networkFee;
+  if (subtotal <= 0) {
+    throw new MockError(400, 'Amount is too low to cover fees');
+  }
+  return {
+    price,
+    coinbaseFee,
+    networkFee,
+    subtotal,
+    purchaseAmount: subtotal / price,
+  };
+}
+
+function buyQuote(body) {
+  requireFields(body, [
+    'purchaseCurrency',
+    'paymentAmount',
+    'paymentCurrency',
+    'paymentMethod',
+    'country',
+  ]);
+  const amount = requireAmount(body.paymentAmount, 'paymentAmount');
+  const quote = quoteBuy({
+    amount,
+    currency: body.paymentCurrency,
+    asset: body.purchaseCurrency,
+    network: body.purchaseNetwork,
+  });
+  return {
+    coinbase_fee: money(quote.coinbaseFee, body.paymentCurrency),
+    network_fee: money(quote.networkFee, body.paymentCurrency),
+    payment_subtotal: money(quote.subtotal, body.paymentCurrency),
+    payment_total: money(amount, body.paymentCurrency),
+    purchase_amount: {
+      value: cryptoAmount(quote.purchaseAmount),
+      currency: body.purchaseCurrency,
+    },
+    quote_id: randomUUID(),
+  };
+}
+
+function sellQuote(body) {
+  requireFields(body, [
+    'sellCurrency',
+    'sellAmount',
+    'cashoutCurrency',
+    'paymentMethod',
+    'country',
+  ]);
+  const sellAmount = requireAmount(body.sellAmount, 'sellAmount');
+  const price =
+    requirePrice(body.sellCurrency) * requireFiatRate(body.cashoutCurrency);
+  const subtotal = sellAmount * price;
+  const fee = subtotal * COINBASE_FEE_RATE;
+  const quoteId = randomUUID();
+
+  // One-Click-Sell: the URL is only returned with the user's details
+  let offrampUrl;
+  if (body.sourceAddress && body.redirectUrl && body.partnerUserId) {
+    const params = new URLSearchParams({
+      sessionToken: randomToken(),
+      partnerUserId: body.partnerUserId,
+      redirectUrl: body.redirectUrl,
+      defaultAsset: body.sellCurrency,
+      ...(body.sellNetwork && { defaultNetwork: body.sellNetwork }),
+      defaultCashoutMethod: body.paymentMethod,
+      presetCryptoAmount: String(sellAmount),
+      quoteId,
+    });
+    offrampUrl = `https://pay.coinbase.com/v3/sell/input?${params}`;
+  }
+
+  return {
+    quote_id: quoteId,
+    sell_amount: { value: String(sellAmount), currency: body.sellCurrency },
+    coinbase_fee: money(fee, body.cashoutCurrency),
+    cashout_subtotal: money(subtotal, body.cashoutCurrency),
+    cashout_total: money(subtotal - fee, body.cashoutCurrency),
+    ...(offrampUrl && { offramp_url: offrampUrl }),
+  };
+}
+
+function sessionToken(body) {
+  if (!Array.isArray(body.addresses) || body.addresses.length === 0) {
+    throw new MockError(400, 'addresses must not be empty');
+  }
+  return { token: randomToken(), channel_id: '' };
+}
+
+// Transactions are the same for every user, tagged with the requested id
+function transactionsPage(transactions, partnerUserId, searchParams) {
+  const pageSize = Number(searchParams.get('page_size')) || 10;
+  const offset = Number(searchParams.get('page_key')) || 0;
+  const page = transactions.slice(offset, offset + pageSize);
+  const nextOffset = offset + page.length;
+  return {
+    transactions: page.map((tx) => ({
+      ...tx,
+      partner_user_ref: partnerUserId,
+    })),
+    next_page_key:
+      nextOffset < transactions.length ? String(nextOffset) : undefined,
+    total_count: String(transactions.length),
+  };
+}
+
+function orderStatus(order) {
+  const age = Date.now() - Date.parse(order.createdAt);
+  if (age >= ORDER_COMPLETED_AFTER_MS) {
+    return 'ONRAMP_ORDER_STATUS_COMPLETED';
+  }
+  if (age >= ORDER_PROCESSING_AFTER_MS) {
+    return 'ONRAMP_ORDER_STATUS_PROCESSING';
+  }
+  return 'ONRAMP_ORDER_STATUS_PENDING_PAYMENT';
+}
+
+function orderView(order) {
+  const status = orderStatus(order);
+  const completed = status === 'ONRAMP_ORDER_STATUS_COMPLETED';
+  return {
+    ...order,
+    status,
+    txHash: completed ? order.txHash : '',
+    updatedAt: completed
+      ? new Date(
+          Date.parse(order.createdAt) + ORDER_COMPLETED_AFTER_MS
+        ).toISOString()
+      : order.createdAt,
+  };
+}
+
+function createOrder(body, baseUrl) {
+  requireFields(body, [
+    'partnerUserRef',
+    'email',
+    'phoneNumber',
+    'paymentAmount',
+    'paymentCurrency',
+    'purchaseCurrency',
+    'paymentMethod',
+    'destinationAddress',
+    'destinationNetwork',
+    'agreementAcceptedAt',
+    'phoneNumberVerifiedAt',
+    'clientIp',
+  ]);
+  const amount = requireAmount(body.paymentAmount, 'paymentAmount');
+  const quote = quoteBuy({
+    amount,
+    currency: body.paymentCurrency,
+    asset: body.purchaseCurrency,
+    network: body.destinationNetwork,
+  });
+
+  const now = new Date().toISOString();
+  const order = {
+    orderId: randomUUID(),
+    partnerUserRef: body.partnerUserRef,
+    paymentTotal: amount.toFixed(2),
+    paymentSubtotal: quote.subtotal.toFixed(2),
+    paymentCurrency: body.paymentCurrency,
+    paymentMethod: body.paymentMethod,
+    purchaseAmount: cryptoAmount(quote.purchaseAmount),
+    purchaseCurrency: body.purchaseCurrency,
+    fees: [
+      {
+        type: 'FEE_TYPE_EXCHANGE',
+        amount: quote.coinbaseFee.toFixed(2),
+        currency: body.paymentCurrency,
+      },
+      {
+        type: 'FEE_TYPE_NETWORK',
+        amount: quote.networkFee.toFixed(2),
+        currency: body.paymentCurrency,
+      },
+    ],
+    exchangeRate: quote.price.toFixed(2),
+    destinationAddress: body.destinationAddress,
+    destinationNetwork: body.destinationNetwork,
+    txHash: randomTxHash(),
+    createdAt: now,
+    updatedAt: now,
+  };
+  orders.set(order.orderId, order);
+
+  return {
+    order: orderView(order),
+    paymentLink: {
+      url: `${baseUrl}/pay/${order.orderId}`,
+      paymentLinkType: 'PAYMENT_LINK_TYPE_APPLE_PAY_BUTTON',
+    },
+  };
+}
+
+function getOrder(orderId) {
+  const order = orders.get(orderId);
+  if (!order) {
+    throw new MockError(404, 'Order not found', 'not_found');
+  }
+  return { order: orderView(order) };
+}
+
+// Stands in for the payment page embedded by guest checkout
+function paymentPage(orderId) {
+  const order = orders.get(orderId);
+  const text = order
+    ? `Mock payment for ${order.paymentTotal} ${order.paymentCurrency} ` +
+      `(${order.purchaseAmount} ${order.purchaseCurrency}). Nothing is ` +
+      `charged; the order completes by itself in ` +
+      `${ORDER_COMPLETED_AFTER_MS / 1000} seconds.`
+    : 'Order not found';
+  return `<!doctype html><html><body style="font-family:sans-serif;padding:1rem"><p>${text}</p></body></html>`;
+}
+
+const routes = [
+  ['GET', /^\/onramp\/v1\/buy\/config$/, () => fixtures.buyConfig],
+  ['GET', /^\/onramp\/v1\/sell\/config$/, () => fixtures.sellConfig],
+  ['GET', /^\/onramp\/v1\/buy\/options$/, () => fixtures.buyOptions],
+  ['GET', /^\/onramp\/v1\/sell\/options$/, () => fixtures.sellOptions],
+  ['POST', /^\/onramp\/v1\/buy\/quote$/, ({ body }) => buyQuote(body)],
+  ['POST', /^\/onramp\/v1\/sell\/quote$/, ({ body }) => sellQuote(body)],
+  ['POST', /^\/onramp\/v1\/token$/, ({ body }) => sessionToken(body)],
+  [
+    'GET',
+    /^\/onramp\/v1\/buy\/user\/([^/]+)\/transactions$/,
+    ({ params, url }) =>
+      transactionsPage(fixtures.buyTransactions, params[0], url.searchParams),
+  ],
+  [
+    'GET',
+    /^\/onramp\/v1\/sell\/user\/([^/]+)\/transactions$/,
+    ({ params, url }) =>
+      transactionsPage(fixtures.sellTransactions, params[0], url.searchParams),
+  ],
+  [
+    'POST',
+    /^\/platform\/v2\/onramp\/orders$/,
+    ({ body, url }) => createOrder(body, url.origin),
+  ],
+  [
+    'GET',
+    /^\/platform\/v2\/onramp\/orders\/([^/]+)$/,
+    ({ params }) => getOrder(params[0]),
+  ],
+];
+
+function handleScenarioControl(method, body) {
+  if (method === 'PUT') {
+    if (!SCENARIOS.includes(body.scenario)) {
+      throw new MockError(
+        400,
+        `scenario must be one of ${SCENARIOS.join(', ')}`
+      );
+    }
+    scenario = {
+      name: body.scenario,
+      path: body.path || null,
+      remaining: body.times ?? null,
+    };
+  } else if (method === 'DELETE') {
+    scenario = null;
+  }
+  return { scenario };
+}
+
+async function readJsonBody(request) {
+  const chunks = [];
+  for await (const chunk of request) {
+    chunks.push(chunk);
+  }
+  const raw = Buffer.concat(chunks).toString('utf8');
+  if (!raw) {
+    return {};
+  }
+  try {
+    return JSON.parse(raw);
+  } catch {
+    throw new MockError(400, 'Request body is not valid JSON');
+  }
+}
+
+function send(response, status, body, headers = {}) {
+  const isHtml = typeof body === 'string';
+  response.writeHead(status, {
+    'Content-Type': isHtml ? 'text/html' : 'application/json',
+    ...headers,
+  });
+  response.end(isHtml ? body : JSON.stringify(body));
+}
+
+async function handle(request, response, options) {
+  const url = new URL(request.url, `http://${request.headers.host}`);
+  const { pathname } = url;
+  const method = request.method;
+
+  if (options.latency > 0) {
+    await new Promise((resolve) => setTimeout(resolve, options.latency));
+  }
+
+  try {
+    const body = await readJsonBody(request);
+
+    if (pathname === '/__mock/scenario') {
+      return send(response, 200, handleScenarioControl(method, body));
+    }
+    if (method === 'GET' && pathname.startsWith('/pay/')) {
+      return send(response, 200, paymentPage(pathname.slice(5)));
+    }
+
+    const error = scenarioError(method, pathname);
+    if (error) {
+      return send(
+        response,
+        error.status,
+        errorBody(pathname, error),
+        error.status === 429 ? { 'Retry-After': '1' } : {}
+      );
+    }
+
+    for (const [routeMethod, pattern, handler] of routes) {
+      const match = pathname.match(pattern);
+      if (match && method === routeMethod) {
+        const params = match.slice(1).map(decodeURIComponent);
+        return send(response, 200, handler({ body, params, url }));
+      }
+    }
+    throw new MockError(404, `No mock for ${method} ${pathname}`, 'not_found');
+  } catch (error) {
+    if (!(error instanceof MockError)) {
+      console.error(error);
+      error = new MockError(500, 'Internal error', 'internal');
+    }
+    return send(response, error.status, errorBody(pathname, error));
+  }
+}
+
+function main() {
+  const options = parseArgs(process.argv.slice(2));
+  if (options.scenario) {
+    scenario = { name: options.scenario, path: null, remaining: null };
+  }
+
+  const server = createServer((request, response) => {
+    handle(request, response, options).finally(() => {
+      console.log(`${request.method} ${request.url} -> ${response.statusCode}`);
+    });
+  });
+
+  server.listen(options.port, () => {
+    console.log(`Mock CDP API listening on http://localhost:${options.port}`);
+    if (scenario) {
+      console.log(`Error scenario: ${scenario.name}`);
+    }
+  });
+}
+
+main();
@@ -0,0 +1,154 @@
+#!/usr/bin/env node
+/**
+ * Replays webhook fixtures against the local webhook receiver
+ *
+ * Each fixture is signed the same way CDP signs deliveries (see
+ * app/utils/webhookSignature.ts), so the route can be exercised end to end
+ * without a live webhook subscription.
+ *
+ * Usage:
+ *   npm run webhooks:replay -- [fixture files or directories] [options]
+ *
+ * Options:
+ *   --url <url>                Receiver URL
+ *                              (default http://localhost:3000/api/webhooks/coinbase)
+ *   --partner-user-ref <ref>   Override the partnerUserRef/partnerUserId in
+ *                              every fixture (e.g. your wallet address)
+ *   --fresh                    Give every event a unique id so replays are
+ *                              not dropped as duplicates
+ *
+ * The signing secret is read from COINBASE_WEBHOOK_SECRET, falling back to
+ * .env.local so it matches the running dev server.
+ */
+import { createHmac, randomUUID } from 'crypto';
+import { existsSync, readFileSync, readdirSync, statSync } from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+const scriptDir = path.dirname(fileURLToPath(import.meta.url));
+const DEFAULT_FIXTURES_DIR = path.join(scriptDir, 'fixtures', 'webhooks');
+const DEFAULT_URL = 'http://localhost:3000/api/webhooks/coinbase';
+
+function parseArgs(argv) {
+  const options = { url: DEFAULT_URL, fresh: false, paths: [] };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--url') {
+      options.url = argv[++i];
+    } else if (arg === '--partner-user-ref') {
+      options.partnerUserRef = argv[++i];
+    } else if (arg === '--fresh') {
+      options.fresh = true;
+    } else {
+      options.paths.push(arg);
+    }
+  }
+  if (options.paths.length === 0) {
+    options.paths.push(DEFAULT_FIXTURES_DIR);
+  }
+  return options;
+}
+
+function readSecret() {
+  if (process.env.COINBASE_WEBHOOK_SECRET) {
+    return process.env.COINBASE_WEBHOOK_SECRET;
+  }
+  const envFile = path.join(scriptDir, '..', '.env.local');
+  if (!existsSync(envFile)) {
+    return undefined;
+  }
+  const line = readFileSync(envFile, 'utf8')
+    .split('\n')
+    .find((entry) => entry.startsWith('COINBASE_WEBHOOK_SECRET='));
+  return line
+    ?.slice('COINBASE_WEBHOOK_SECRET='.length)
+    .trim()
+    .replace(/^["']|["']$/g, '');
+}
+
+function collectFixtures(paths) {
+  return paths.flatMap((fixturePath) => {
+    if (statSync(fixturePath).isDirectory()) {
+      return readdirSync(fixturePath)
+        .filter((file) => file.endsWith('.json'))
+        .sort()
+        .map((file) => path.join(fixturePath, file));
+    }
+    return [fixturePath];
+  });
+}
+
+function prepareEvent(event, options) {
+  const prepared = structuredClone(event);
+  const transaction = prepared.data || prepared;
+
+  if (options.partnerUserRef) {
+    ['partnerUserRef', 'partnerUserId', 'partner_user_ref'].forEach((key) => {
+      if (key in transaction) {
+        transaction[key] = options.partnerUserRef;
+      }
+    });
+  }
+  if (options.fresh) {
+    prepared.eventId = `${prepared.eventId || 'evt'}-${randomUUID()}`;
+  }
+  return prepared;
+}
+
+function sign(secret, rawBody) {
+  const timestamp = Math.floor(Date.now() / 1000);
+  const signature = createHmac('sha256', secret)
+    .update(`${timestamp}.${rawBody}`)
+    .digest('hex');
+  return `t=${timestamp},v1=${signature}`;
+}
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2));
+  const secret = readSecret();
+
+  if (!secret) {
+    console.error(
+      'COINBASE_WEBHOOK_SECRET is not set (environment or .env.local)'
+    );
+    process.exit(1);
+  }
+
+  const fixtures = collectFixtures(options.paths);
+  let failures = 0;
+
+  for (const fixture of fixtures) {
+    const event = prepareEvent(
+      JSON.parse(readFileSync(fixture, 'utf8')),
+      options
+    );
+    const rawBody = JSON.stringify(event);
+
+    try {
+      const response = await fetch(options.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Hook0-Signature': sign(secret, rawBody),
+        },
+        body: rawBody,
+      });
+      const text = await response.text();
+      if (!response.ok) {
+        failures++;
+      }
+      console.log(
+        `${path.basename(fixture)} (${event.eventType}) -> ${response.status} ${text}`
+      );
+    } catch (error) {
+      failures++;
+      console.error(`${path.basename(fixture)} -> ${error.message}`);
+    }
+  }
+
+  if (failures > 0) {
+    process.exit(1);
+  }
+}
+
+main();